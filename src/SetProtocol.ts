@@ -16,6 +16,7 @@
 
 'use strict';
 
+import * as _ from 'lodash';
 import Web3 from 'web3';
 import { Provider } from 'web3/providers';
 
@@ -23,6 +24,7 @@ import {
   AccountingAPI,
   BlockchainAPI,
   ERC20API,
+  EventsAPI,
   ExchangeIssuanceAPI,
   FactoryAPI,
   IssuanceAPI,
@@ -31,6 +33,7 @@ import {
   RebalancingAPI,
   RebalancingManagerAPI,
   RebalancingSetIssuanceAPI,
+  SetBuilder,
   SystemAPI,
   SetTokenAPI,
 } from './api';
@@ -39,8 +42,37 @@ import {
   VaultWrapper,
 } from './wrappers';
 import { Assertions } from './assertions';
-import { BigNumber, instantiateWeb3 } from './util';
-import { Address, SetProtocolConfig, SetUnits, TransactionReceipt, Tx } from './types/common';
+import { SetProtocolRevertError } from './errors';
+import {
+  addContractMiddleware,
+  BigNumber,
+  FixedGasPriceStrategy,
+  HistoricalReader,
+  instantiateWeb3,
+  NonceManager,
+  ReadBatcher,
+  ReadCache,
+  setLogFetcherOpts,
+  TransactionTracker,
+  TransactionTrackerOpts,
+  wrapProviderWithGasPriceStrategy,
+} from './util';
+import {
+  Address,
+  CancellationSignal,
+  GasPriceStrategy,
+  IssuancePlan,
+  PreflightReport,
+  SetProtocolConfig,
+  SetUnits,
+  SetUnitsReport,
+  TransactionMiningOpts,
+  TransactionReceipt,
+  TransactionReplacement,
+  TransactionSimulation,
+  Tx,
+  UnsignedTransaction,
+} from './types/common';
 import { NULL_ADDRESS, UNLIMITED_ALLOWANCE_IN_BASE_UNITS } from './constants';
 
 /**
@@ -53,6 +85,7 @@ import { NULL_ADDRESS, UNLIMITED_ALLOWANCE_IN_BASE_UNITS } from './constants';
  */
 class SetProtocol {
   private web3: Web3;
+  private config: SetProtocolConfig;
   private core: CoreWrapper;
   private vault: VaultWrapper;
   private accounting: AccountingAPI;
@@ -71,6 +104,11 @@ class SetProtocol {
    */
   public erc20: ERC20API;
 
+  /**
+   * An instance of the EventsAPI class containing methods for querying and subscribing to protocol activity
+   */
+  public events: EventsAPI;
+
   /**
    * An instance of the ExchangeIssuanceAPI class containing methods for interacting
    * with ExchangeIssuance contracts
@@ -103,6 +141,12 @@ class SetProtocol {
    */
   public setToken: SetTokenAPI;
 
+  /**
+   * An instance of the SetBuilder class containing methods for planning Sets from target component weights, and
+   * creating and verifying them
+   */
+  public setBuilder: SetBuilder;
+
   /**
    * An instance of the SystemAPI class containing methods for interacting with system state
    */
@@ -113,16 +157,68 @@ class SetProtocol {
    */
   public oracle: OracleAPI;
 
+  /**
+   * An instance of the NonceManager class that allocates nonces for transactions sent through SetProtocol.js. Only
+   * set when the instance was created with `useNonceManager` in its config
+   */
+  public nonceManager: NonceManager;
+
+  /**
+   * An instance of the ReadCache class that caches contract reads per block, and permanently for values that never
+   * change. Only set when the instance was created with `cacheReads` in its config
+   */
+  public readCache: ReadCache;
+
+  /**
+   * Object conforming to `GasPriceStrategy` that prices transactions sent through SetProtocol.js without a `gasPrice`.
+   * Defaults to a `FixedGasPriceStrategy` of `DEFAULT_GAS_PRICE` and can be replaced at any time
+   */
+  public gasPriceStrategy: GasPriceStrategy;
 
   /**
    * Instantiates a new SetProtocol instance that provides the public interface to the SetProtocol.js library
    *
    * @param provider    Provider instance you would like the SetProtocol.js library to use for interacting with the
    *                      Ethereum network
-   * @param config      Configuration object conforming to SetProtocolConfig with Set Protocol's contract addresses
+   * @param config      Configuration object conforming to SetProtocolConfig with Set Protocol's contract addresses.
+   *                      Set `useNonceManager` to allocate nonces locally when sending concurrent transactions from
+   *                      the same account, `gasPriceStrategy` to price transactions that do not specify a
+   *                      `gasPrice`, and `batchReads` to send the reads made in the same tick as one batch, through
+   *                      the Multicall contract at `multicallAddress` when one is given. Set `cacheReads` to
+   *                      cache reads until the next block, and permanently for values that never change. Pass
+   *                      `contractMiddleware` to observe every contract call and transaction, e.g. for logging
+   *                      with `ConsoleLoggingMiddleware` or metrics with `MetricsMiddleware`. Event queries fetch
+   *                      logs in chunks of blocks, configured with `logFetcher`
    */
   constructor(provider: Provider, config: SetProtocolConfig) {
     this.web3 = instantiateWeb3(provider);
+    this.config = config;
+
+    if (config.batchReads) {
+      const readBatcher = new ReadBatcher(this.web3, { multicallAddress: config.multicallAddress });
+      this.web3.setProvider(readBatcher.wrapProvider(this.web3.currentProvider));
+    }
+
+    if (config.cacheReads) {
+      this.readCache = new ReadCache(this.web3);
+      this.web3.setProvider(this.readCache.wrapProvider(this.web3.currentProvider));
+    }
+
+    this.gasPriceStrategy = config.gasPriceStrategy || new FixedGasPriceStrategy();
+    this.web3.setProvider(wrapProviderWithGasPriceStrategy(this.web3.currentProvider, () => this.gasPriceStrategy));
+
+    _.each(config.contractMiddleware || [], middleware => {
+      addContractMiddleware(this.web3, middleware);
+    });
+
+    if (config.logFetcher) {
+      setLogFetcherOpts(this.web3, config.logFetcher);
+    }
+
+    if (config.useNonceManager) {
+      this.nonceManager = new NonceManager(this.web3);
+      this.web3.setProvider(this.nonceManager.wrapProvider(this.web3.currentProvider));
+    }
 
     this.core = new CoreWrapper(
       this.web3,
@@ -138,11 +234,13 @@ class SetProtocol {
     this.accounting = new AccountingAPI(this.core, assertions);
     this.blockchain = new BlockchainAPI(this.web3, assertions);
     this.erc20 = new ERC20API(this.web3, assertions, config);
+    this.events = new EventsAPI(this.web3, this.core);
     this.factory = new FactoryAPI(this.web3, this.core, assertions, config);
-    this.issuance = new IssuanceAPI(this.web3, this.core, assertions);
+    this.issuance = new IssuanceAPI(this.web3, this.core, assertions, this.blockchain);
     this.priceFeed = new PriceFeedAPI(this.web3);
     this.oracle = new OracleAPI(this.web3);
     this.setToken = new SetTokenAPI(this.web3, assertions);
+    this.setBuilder = new SetBuilder(this.web3, this.factory, this.blockchain, this.setToken);
     this.system = new SystemAPI(this.web3, this.core, config);
     this.rebalancing = new RebalancingAPI(this.web3, assertions, this.core, config);
     this.rebalancingManager = new RebalancingManagerAPI(this.web3, assertions);
@@ -226,6 +324,72 @@ class SetProtocol {
     );
   }
 
+  /**
+   * Helper for `calculateOptimalSetUnits` when a list of decimals is not available and needs to be fetched
+   *
+   * @param components            List of ERC20 token addresses to use for Set creation
+   * @param prices                List of current prices for the components in index order
+   * @param proportions           Decimal-formatted allocations in index order. Must add up to 1
+   * @param targetPrice           Target fiat-denominated price of a single natural unit of the Set
+   * @param percentWeightError    Allowable deviation of any component weight from its allocation, in percentage
+   *                                points. Defaults to 1
+   * @return                      Object conforming to `SetUnitsReport` with the units, natural unit and the weight
+   *                                error of each component
+   */
+  public async calculateOptimalSetUnitsAsync(
+    components: Address[],
+    prices: BigNumber[],
+    proportions: BigNumber[],
+    targetPrice: BigNumber,
+    percentWeightError?: number,
+  ): Promise<SetUnitsReport> {
+    return await this.factory.calculateOptimalSetUnitsAsync(
+      components,
+      prices,
+      proportions,
+      targetPrice,
+      percentWeightError,
+    );
+  }
+
+  /**
+   * Calculates unit and naturalUnit inputs for `createSetAsync` that minimize the largest deviation of a component
+   * weight from its allocation, rather than only bounding the error of the Set price as `calculateSetUnits` does.
+   * Use this for components with very different decimals or prices, where rounding a small unit can move its weight
+   * far from the allocation
+   *
+   * Note: the smallest natural unit that keeps every weight within `percentWeightError` is chosen. If no natural unit
+   * up to `10 ** 18` does, the most accurate one is returned and the report shows the remaining error
+   *
+   * @param components            List of ERC20 token addresses to use for Set creation
+   * @param decimals              List of decimals for the components in index order
+   * @param prices                List of current prices for the components in index order
+   * @param proportions           Decimal-formatted allocations in index order. Must add up to 1
+   * @param targetPrice           Target fiat-denominated price of a single natural unit of the Set
+   * @param percentWeightError    Allowable deviation of any component weight from its allocation, in percentage
+   *                                points. Defaults to 1
+   * @return                      Object conforming to `SetUnitsReport` with the units, natural unit and the weight
+   *                                error of each component. The units and natural unit can be passed directly into
+   *                                `createSetAsync`
+   */
+  public calculateOptimalSetUnits(
+    components: Address[],
+    decimals: number[],
+    prices: BigNumber[],
+    proportions: BigNumber[],
+    targetPrice: BigNumber,
+    percentWeightError?: number,
+  ): SetUnitsReport {
+    return this.factory.calculateOptimalSetUnits(
+      components,
+      decimals,
+      prices,
+      proportions,
+      targetPrice,
+      percentWeightError,
+    );
+  }
+
   /**
    * Create a new Set by passing in parameters denoting component token addresses, quantities, natural
    * unit, and ERC20 properties
@@ -308,6 +472,57 @@ class SetProtocol {
     return await this.issuance.issueAsync(setAddress, quantity, txOpts);
   }
 
+  /**
+   * Runs every check `issueAsync` makes before sending and reports all the failures at once, e.g. each component the
+   * signer is missing balance or allowance of. Never throws
+   *
+   * @param  setAddress    Address Set to issue
+   * @param  quantity      Amount of Set to issue
+   * @param  txOpts        Transaction options object conforming to `Tx` with signer, gas, and gasPrice data
+   * @return               Object conforming to `PreflightReport` with every failed check
+   */
+  public async preflightIssueAsync(setAddress: Address, quantity: BigNumber, txOpts: Tx): Promise<PreflightReport> {
+    return await this.issuance.preflightIssueAsync(setAddress, quantity, txOpts);
+  }
+
+  /**
+   * Plans the transactions needed to issue a Set from the component balances the owner holds in their wallet and in
+   * the Vault: TransferProxy approvals only where the allowance is too low, an optional batch deposit of the wallet
+   * amounts, and the issue itself. Run the plan with `executePlanAsync`
+   *
+   * @param  setAddress        Address of the Set to issue
+   * @param  quantity          Amount of the Set to issue. Must be a multiple of the natural unit of the Set
+   * @param  ownerAddress      Address of the issuer
+   * @param  depositToVault    Whether to deposit the wallet amounts into the Vault before issuing. Defaults to false
+   * @return                   Object conforming to `IssuancePlan` with the steps in the order they must be executed
+   */
+  public async planIssuanceAsync(
+    setAddress: Address,
+    quantity: BigNumber,
+    ownerAddress: Address,
+    depositToVault?: boolean,
+  ): Promise<IssuancePlan> {
+    return await this.issuance.planIssuanceAsync(setAddress, quantity, ownerAddress, depositToVault);
+  }
+
+  /**
+   * Executes the steps of an issuance plan in order, waiting for each to be mined. The plan is updated in place, so
+   * an interrupted or failed plan can be passed in again to resume from the last completed step
+   *
+   * @param  plan          Object conforming to `IssuancePlan`, as returned by `planIssuanceAsync`
+   * @param  txOpts        Transaction options object conforming to `Tx` with signer, gas, and gasPrice data
+   * @param  miningOpts    Object conforming to `TransactionMiningOpts` with the polling interval, timeout and
+   *                         cancellation signal used while waiting for each step to be mined
+   * @return               The executed plan
+   */
+  public async executePlanAsync(
+    plan: IssuancePlan,
+    txOpts: Tx,
+    miningOpts?: TransactionMiningOpts,
+  ): Promise<IssuancePlan> {
+    return await this.issuance.executePlanAsync(plan, txOpts, miningOpts);
+  }
+
   /**
    * Redeems a Set to the transaction signer, returning the component tokens to the signer's wallet. Use `false` for
    * `withdraw` to leave redeemed components in vault under the user's address to save gas if rebundling into another
@@ -459,14 +674,150 @@ class SetProtocol {
    * @param  pollingIntervalMs    Interval at which the blockchain should be polled
    * @param  timeoutMs            Number of milliseconds until this process times out. If no value is provided, a
    *                                default value is used
+   * @param  signal               Cancellation signal that stops polling and rejects with a `CancellationError`,
+   *                                e.g. the signal of a `CancellationController`
    * @return                      Transaction receipt resulting from the mining process
    */
   public async awaitTransactionMinedAsync(
     txHash: string,
     pollingIntervalMs?: number,
     timeoutMs?: number,
+    signal?: CancellationSignal,
   ): Promise<TransactionReceipt> {
-    return await this.blockchain.awaitTransactionMinedAsync(txHash, pollingIntervalMs, timeoutMs);
+    return await this.blockchain.awaitTransactionMinedAsync(txHash, pollingIntervalMs, timeoutMs, signal);
+  }
+
+  /**
+   * Tracks a transaction through submission, mining and confirmation, emitting an event at each step. Use this
+   * instead of polling `awaitTransactionMinedAsync` when confirmation depth, reverts, replacements or chain
+   * reorganizations need to be handled
+   *
+   * @param  txHash     Transaction hash to track
+   * @param  options    Object conforming to `TransactionTrackerOpts` with confirmation depth and polling settings
+   * @return            A started TransactionTracker instance
+   */
+  public trackTransaction(txHash: string, options?: TransactionTrackerOpts): TransactionTracker {
+    return this.blockchain.trackTransaction(txHash, options);
+  }
+
+  /**
+   * Resends a pending transaction with the same nonce and calldata at a higher gas price
+   *
+   * @param  txHash         Hash of the pending transaction
+   * @param  newGasPrice    Gas price of the replacement transaction in wei, at least 10% above the original gas price
+   * @return                Object conforming to `TransactionReplacement` with the hashes of both transactions
+   */
+  public async speedUpAsync(txHash: string, newGasPrice: BigNumber): Promise<TransactionReplacement> {
+    return await this.blockchain.speedUpAsync(txHash, newGasPrice);
+  }
+
+  /**
+   * Cancels a pending transaction by replacing it with a 0 value transfer to the sender using the same nonce
+   *
+   * @param  txHash      Hash of the pending transaction
+   * @param  gasPrice    Gas price of the cancellation in wei. Defaults to 10% above the original gas price
+   * @return             Object conforming to `TransactionReplacement` with the hashes of both transactions
+   */
+  public async cancelAsync(txHash: string, gasPrice?: BigNumber): Promise<TransactionReplacement> {
+    return await this.blockchain.cancelAsync(txHash, gasPrice);
+  }
+
+  /**
+   * Polls the Ethereum blockchain until either a transaction or its replacement from `speedUpAsync` or `cancelAsync`
+   * has been mined, or the timeout limit is reached
+   *
+   * @param  replacement          Object conforming to `TransactionReplacement`
+   * @param  pollingIntervalMs    Interval at which the blockchain should be polled
+   * @param  timeoutMs            Number of milliseconds until this process times out. If no value is provided, a
+   *                                default value is used
+   * @param  signal               Cancellation signal that stops polling and rejects with a `CancellationError`,
+   *                                e.g. the signal of a `CancellationController`
+   * @return                      Transaction receipt of whichever transaction was mined
+   */
+  public async awaitReplacementMinedAsync(
+    replacement: TransactionReplacement,
+    pollingIntervalMs?: number,
+    timeoutMs?: number,
+    signal?: CancellationSignal,
+  ): Promise<TransactionReceipt> {
+    return await this.blockchain.awaitReplacementMinedAsync(replacement, pollingIntervalMs, timeoutMs, signal);
+  }
+
+  /**
+   * Dry runs any state-changing method of SetProtocol.js or its APIs. The method's assertions run as usual, then the
+   * contract call is executed with `eth_call` and `eth_estimateGas` instead of being sent
+   *
+   * Example: `await setProtocol.simulateAsync(txOpts, opts => setProtocol.issueAsync(setAddress, quantity, opts))`
+   *
+   * @param  txOpts         Transaction options object conforming to `Tx` with signer, gas, and gasPrice data
+   * @param  transaction    Function that calls a state-changing method with the transaction options it receives
+   * @return                Object conforming to `TransactionSimulation` with gas, return value and revert reason
+   */
+  public async simulateAsync(
+    txOpts: Tx,
+    transaction: (txOpts: Tx) => Promise<any>,
+  ): Promise<TransactionSimulation> {
+    return await this.blockchain.simulateAsync(txOpts, transaction);
+  }
+
+  /**
+   * Estimates the gas of any state-changing method of SetProtocol.js or its APIs without sending a transaction
+   *
+   * Example: `await setProtocol.estimateGasAsync(txOpts, opts => setProtocol.issueAsync(setAddress, quantity, opts))`
+   *
+   * @param  txOpts         Transaction options object conforming to `Tx` with signer, gas, and gasPrice data
+   * @param  transaction    Function that calls a state-changing method with the transaction options it receives
+   * @return                Estimated gas of the transaction
+   */
+  public async estimateGasAsync(txOpts: Tx, transaction: (txOpts: Tx) => Promise<any>): Promise<number> {
+    return await this.blockchain.estimateGasAsync(txOpts, transaction);
+  }
+
+  /**
+   * Builds the unsigned transaction of any state-changing method of SetProtocol.js or its APIs instead of sending it,
+   * so it can be signed offline or proposed to a multisig wallet. The method's assertions run as usual
+   *
+   * Example: `await setProtocol.buildTransactionAsync(txOpts, opts => setProtocol.issueAsync(setAddress, qty, opts))`
+   *
+   * @param  txOpts         Transaction options object conforming to `Tx` with signer, gas, and value data
+   * @param  transaction    Function that calls a state-changing method with the transaction options it receives
+   * @return                Object conforming to `UnsignedTransaction` with the to, data, value and gas of the call
+   */
+  public async buildTransactionAsync(
+    txOpts: Tx,
+    transaction: (txOpts: Tx) => Promise<any>,
+  ): Promise<UnsignedTransaction> {
+    return await this.blockchain.buildTransactionAsync(txOpts, transaction);
+  }
+
+  /**
+   * Decodes why a mined transaction reverted by replaying it against the state before its block
+   *
+   * @param  txHash    Hash of the mined transaction
+   * @return           `SetProtocolRevertError` with the decoded reason, or undefined if the transaction succeeded
+   */
+  public async getRevertErrorAsync(txHash: string): Promise<SetProtocolRevertError> {
+    return await this.blockchain.getRevertErrorAsync(txHash);
+  }
+
+  /**
+   * Returns a read-only SetProtocol instance pinned to a past block. Every getter of the instance, such as
+   * `setToken.getDetailsAsync`, `rebalancing.getDetailsAsync`, `erc20.getBalanceOfAsync` and
+   * `getBalanceInVaultAsync`, returns state as of that block, and event queries end at it. Transactions sent through
+   * the instance are rejected. Reads go through the batching and cache of this instance
+   *
+   * @param  blockNumber    Number of the block to read state at
+   * @return                SetProtocol instance pinned to the block
+   */
+  public atBlock(blockNumber: number): SetProtocol {
+    const historicalReader = new HistoricalReader(blockNumber);
+
+    return new SetProtocol(historicalReader.wrapProvider(this.web3.currentProvider), {
+      ...this.config,
+      batchReads: false,
+      cacheReads: false,
+      useNonceManager: false,
+    });
   }
 }
 
@@ -18,7 +18,7 @@
 
 import * as _ from 'lodash';
 
-import { coreAPIErrors } from '../errors';
+import { ArrayLengthMismatchError, EmptyStringError, QuantityNotPositiveError } from '../errors';
 import { Assertions } from '../assertions';
 import { CoreWrapper } from '../wrappers';
 import { BigNumber } from '../util';
@@ -99,18 +99,18 @@ export class AccountingAPI {
     this.assert.common.isEqualLength(
       tokenAddresses,
       quantities,
-      coreAPIErrors.ARRAYS_EQUAL_LENGTHS('tokenAddresses', 'quantities'),
+      () => new ArrayLengthMismatchError('tokenAddresses', 'quantities'),
     );
 
     // Quantity assertions
     quantities.map(quantity => {
-      this.assert.common.greaterThanZero(quantity, coreAPIErrors.QUANTITY_NEEDS_TO_BE_POSITIVE(quantity));
+      this.assert.common.greaterThanZero(quantity, () => new QuantityNotPositiveError(quantity));
     });
 
     // Token assertions
     await Promise.all(
       tokenAddresses.map(async (tokenAddress, i) => {
-        this.assert.common.isValidString(tokenAddress, coreAPIErrors.STRING_CANNOT_BE_EMPTY('tokenAddress'));
+        this.assert.common.isValidString(tokenAddress, () => new EmptyStringError('tokenAddress'));
         this.assert.schema.isValidAddress('tokenAddress', tokenAddress);
 
         await this.assert.erc20.implementsERC20(tokenAddress);
@@ -139,18 +139,18 @@ export class AccountingAPI {
     this.assert.common.isEqualLength(
       tokenAddresses,
       quantities,
-      coreAPIErrors.ARRAYS_EQUAL_LENGTHS('tokenAddresses', 'quantities'),
+      () => new ArrayLengthMismatchError('tokenAddresses', 'quantities'),
     );
 
     // Quantity assertions
     _.each(quantities, quantity => {
-      this.assert.common.greaterThanZero(quantity, coreAPIErrors.QUANTITY_NEEDS_TO_BE_POSITIVE(quantity));
+      this.assert.common.greaterThanZero(quantity, () => new QuantityNotPositiveError(quantity));
     });
 
     // Token assertions
     await Promise.all(
       tokenAddresses.map(async (tokenAddress, i) => {
-        this.assert.common.isValidString(tokenAddress, coreAPIErrors.STRING_CANNOT_BE_EMPTY('tokenAddress'));
+        this.assert.common.isValidString(tokenAddress, () => new EmptyStringError('tokenAddress'));
         this.assert.schema.isValidAddress('tokenAddress', tokenAddress);
 
         await this.assert.erc20.implementsERC20(tokenAddress);
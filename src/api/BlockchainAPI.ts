@@ -18,14 +18,63 @@
 
 import * as _ from 'lodash';
 import Web3 from 'web3';
+import {
+  Core,
+  ERC20Detailed,
+  ExchangeIssuanceModule,
+  RebalanceAuctionModule,
+  RebalancingSetExchangeIssuanceModule,
+  RebalancingSetIssuanceModule,
+  RebalancingSetToken,
+  SetToken,
+  Vault,
+} from 'set-protocol-contracts';
 
-import { TransactionReceipt } from '../types/common';
+import {
+  CancellationSignal,
+  TransactionReceipt,
+  TransactionReplacement,
+  TransactionSimulation,
+  Tx,
+  UnsignedTransaction,
+} from '../types/common';
 import { Assertions } from '../assertions';
-import { IntervalManager } from '../util';
+import { CancellationError, SetProtocolRevertError } from '../errors';
+import {
+  BigNumber,
+  decodeRevertReason,
+  IntervalManager,
+  isRevertedReceipt,
+  parseRevertReasonFromError,
+  SimulationCapture,
+  TransactionBuilderCapture,
+  TransactionTracker,
+  TransactionTrackerOpts,
+  withSimulation,
+  withTransactionBuilder,
+} from '../util';
 
 export const BlockchainAPIErrors = {
   AWAIT_MINE_TX_TIMED_OUT: (txHash: string) =>
     `Timeout has been exceeded in awaiting mining of transaction with hash ${txHash}.`,
+  AWAIT_REPLACEMENT_TIMED_OUT: (originalTxHash: string, replacementTxHash: string) =>
+    `Timeout has been exceeded in awaiting mining of transaction with hash ${originalTxHash} or its replacement ` +
+    `with hash ${replacementTxHash}.`,
+  REPLACEMENT_GAS_PRICE_TOO_LOW: (gasPrice: string, originalGasPrice: string, minimumGasPrice: string) =>
+    `Replacement gas price of ${gasPrice} must be at least 10% above the original gas price of ` +
+    `${originalGasPrice}, a minimum of ${minimumGasPrice}.`,
+  TRANSACTION_ALREADY_MINED: (txHash: string) =>
+    `Transaction with hash ${txHash} has already been mined and cannot be replaced.`,
+  TRANSACTION_NOT_FOUND: (txHash: string) =>
+    `Transaction with hash ${txHash} could not be found.`,
+  MULTIPLE_TRANSACTIONS_TO_BUILD: (count: number) =>
+    `The function supplied to buildTransactionAsync sent ${count} transactions. Build one transaction at a time.`,
+  MULTIPLE_TRANSACTIONS_TO_SIMULATE: (count: number) =>
+    `The function supplied to simulateAsync sent ${count} transactions. Simulate one transaction at a time.`,
+  NO_TRANSACTION_TO_BUILD: () =>
+    `The function supplied to buildTransactionAsync did not send a transaction with the provided transaction options.`,
+  NO_TRANSACTION_TO_SIMULATE: () =>
+    `The function supplied to simulateAsync did not send a transaction with the provided transaction options.`,
 };
 
 /**
@@ -36,6 +85,30 @@ export const BlockchainAPIErrors = {
  */
 export const DEFAULT_TIMEOUT_FOR_TX_MINED = 30000;
 
+/**
+ * Minimum gas price multiplier of a replacement transaction, also used when cancelling a transaction without an
+ * explicit gas price. Nodes only accept a replacement transaction whose gas price is at least 10% higher than the one
+ * it replaces
+ *
+ * @type {number}
+ */
+export const REPLACEMENT_GAS_PRICE_MULTIPLIER = 1.1;
+
+/**
+ * ABIs of the Set Protocol contracts users send transactions to, used to name the method of a reverted transaction
+ */
+const TRANSACTION_TARGET_ABIS = [
+  Core.abi,
+  ERC20Detailed.abi,
+  ExchangeIssuanceModule.abi,
+  RebalanceAuctionModule.abi,
+  RebalancingSetExchangeIssuanceModule.abi,
+  RebalancingSetIssuanceModule.abi,
+  RebalancingSetToken.abi,
+  SetToken.abi,
+  Vault.abi,
+];
+
 /**
  * @title BlockchainAPI
  * @author Set Protocol
@@ -46,6 +119,7 @@ export class BlockchainAPI {
   private web3: Web3;
   private assert: Assertions;
   private intervalManager: IntervalManager;
+  private waitCount: number = 0;
 
   /**
    * Instantiates a new BlockchainAPI instance that contains methods for miscellaneous blockchain functionality
@@ -68,19 +142,21 @@ export class BlockchainAPI {
    * @param  txHash               Transaction hash to poll
    * @param  pollingIntervalMs    Interval at which the blockchain should be polled. Defaults to 1000
    * @param  timeoutMs            Number of milliseconds until this process times out. Defaults to 60000
+   * @param  signal               Cancellation signal that stops polling and rejects with a `CancellationError`
    * @return                      Transaction receipt resulting from the mining process
    */
   public async awaitTransactionMinedAsync(
     txHash: string,
     pollingIntervalMs: number = 1000,
     timeoutMs: number = DEFAULT_TIMEOUT_FOR_TX_MINED,
+    signal?: CancellationSignal,
   ): Promise<TransactionReceipt> {
     this.assert.schema.isValidBytes32('txHash', txHash);
 
     const intervalManager = this.intervalManager;
     return new Promise<TransactionReceipt>((resolve, reject) => {
       intervalManager.setInterval(
-        txHash,
+        `${txHash}:${this.waitCount++}`,
         async (): Promise<boolean> => {
           try {
             const receipt: any = await this.web3.eth.getTransactionReceipt(txHash);
@@ -102,7 +178,329 @@ export class BlockchainAPI {
         },
         pollingIntervalMs,
         timeoutMs,
+        signal,
+        async () => {
+          reject(new CancellationError(`Waiting for transaction ${txHash}`));
+        },
       );
     });
   }
+
+  /**
+   * Creates and starts a `TransactionTracker` for a transaction hash, such as one returned by `issueAsync`, `bidAsync`
+   * or `proposeAsync`. The tracker emits `submitted`, `mined`, `confirmed`, `reverted`, `replaced`, `dropped` and
+   * `reorged` events as the transaction progresses and stops itself once the confirmation depth is reached
+   *
+   * @param  txHash     Transaction hash to track
+   * @param  options    Object conforming to `TransactionTrackerOpts` with the confirmation depth (defaults to 12),
+   *                      polling interval and the time after which an unseen transaction is considered dropped
+   * @return            A started TransactionTracker instance
+   */
+  public trackTransaction(txHash: string, options?: TransactionTrackerOpts): TransactionTracker {
+    this.assert.schema.isValidBytes32('txHash', txHash);
+
+    return new TransactionTracker(this.web3, txHash, options).start();
+  }
+
+  /**
+   * Resends a pending transaction with the same nonce, recipient, value and calldata at a higher gas price, for
+   * example a `bidAsync` or `startRebalanceAsync` transaction that was sent with a gas price too low to be mined.
+   * Use `awaitReplacementMinedAsync` to find out which of the two transactions was mined
+   *
+   * @param  txHash         Hash of the pending transaction
+   * @param  newGasPrice    Gas price of the replacement transaction in wei, at least 10% above the original gas price
+   * @return                Object conforming to `TransactionReplacement` with the hashes of both transactions
+   */
+  public async speedUpAsync(txHash: string, newGasPrice: BigNumber): Promise<TransactionReplacement> {
+    this.assert.schema.isValidBytes32('txHash', txHash);
+
+    const transaction = await this.getReplaceableTransactionAsync(txHash);
+    this.assertReplacementGasPrice(newGasPrice, transaction.gasPrice);
+
+    const replacementTxHash = await this.sendTransactionAsync({
+      from: transaction.from,
+      to: transaction.to,
+      value: transaction.value,
+      data: transaction.input,
+      gas: transaction.gas,
+      gasPrice: newGasPrice.toString(),
+      nonce: transaction.nonce,
+    });
+
+    return {
+      originalTxHash: txHash,
+      replacementTxHash,
+      from: transaction.from,
+      nonce: transaction.nonce,
+    };
+  }
+
+  /**
+   * Replaces a pending transaction with a 0 value transfer from the sender to itself using the same nonce. Use
+   * `awaitReplacementMinedAsync` to find out whether the cancellation or the original transaction was mined
+   *
+   * @param  txHash      Hash of the pending transaction
+   * @param  gasPrice    Gas price of the cancellation in wei. Defaults to 10% above the original gas price
+   * @return             Object conforming to `TransactionReplacement` with the hashes of both transactions
+   */
+  public async cancelAsync(txHash: string, gasPrice?: BigNumber): Promise<TransactionReplacement> {
+    this.assert.schema.isValidBytes32('txHash', txHash);
+
+    const transaction = await this.getReplaceableTransactionAsync(txHash);
+
+    const cancellationGasPrice = gasPrice || this.getMinimumReplacementGasPrice(transaction.gasPrice);
+    this.assertReplacementGasPrice(cancellationGasPrice, transaction.gasPrice);
+
+    const replacementTxHash = await this.sendTransactionAsync({
+      from: transaction.from,
+      to: transaction.from,
+      value: 0,
+      gas: 21000,
+      gasPrice: cancellationGasPrice.toString(),
+      nonce: transaction.nonce,
+    });
+
+    return {
+      originalTxHash: txHash,
+      replacementTxHash,
+      from: transaction.from,
+      nonce: transaction.nonce,
+    };
+  }
+
+  /**
+   * Polls the Ethereum blockchain until either the original transaction or its replacement has been mined, or the
+   * timeout limit is reached. Compare the `transactionHash` of the receipt with the hashes of the replacement to tell
+   * which of the two was mined
+   *
+   * @param  replacement          Object conforming to `TransactionReplacement` returned by `speedUpAsync` or
+   *                                `cancelAsync`
+   * @param  pollingIntervalMs    Interval at which the blockchain should be polled. Defaults to 1000
+   * @param  timeoutMs            Number of milliseconds until this process times out. Defaults to 30000
+   * @param  signal               Cancellation signal that stops polling and rejects with a `CancellationError`
+   * @return                      Transaction receipt of whichever transaction was mined
+   */
+  public async awaitReplacementMinedAsync(
+    replacement: TransactionReplacement,
+    pollingIntervalMs: number = 1000,
+    timeoutMs: number = DEFAULT_TIMEOUT_FOR_TX_MINED,
+    signal?: CancellationSignal,
+  ): Promise<TransactionReceipt> {
+    const { originalTxHash, replacementTxHash } = replacement;
+    this.assert.schema.isValidBytes32('originalTxHash', originalTxHash);
+    this.assert.schema.isValidBytes32('replacementTxHash', replacementTxHash);
+
+    const intervalManager = this.intervalManager;
+    return new Promise<TransactionReceipt>((resolve, reject) => {
+      intervalManager.setInterval(
+        `replacement:${originalTxHash}:${replacementTxHash}:${this.waitCount++}`,
+        async (): Promise<boolean> => {
+          try {
+            const receipts: any[] = await Promise.all([
+              this.web3.eth.getTransactionReceipt(originalTxHash),
+              this.web3.eth.getTransactionReceipt(replacementTxHash),
+            ]);
+            const minedReceipt = _.find(receipts, receipt => !!receipt);
+            if (minedReceipt) {
+              resolve(minedReceipt);
+              return false;
+            }
+
+            return true;
+          } catch (e) {
+            reject(e);
+          }
+          return false;
+        },
+        async () => {
+          reject(new Error(BlockchainAPIErrors.AWAIT_REPLACEMENT_TIMED_OUT(originalTxHash, replacementTxHash)));
+        },
+        pollingIntervalMs,
+        timeoutMs,
+        signal,
+        async () => {
+          reject(new CancellationError(`Waiting for transaction ${originalTxHash} or ${replacementTxHash}`));
+        },
+      );
+    });
+  }
+
+  /**
+   * Runs a state-changing SetProtocol.js method as a dry run. The method is invoked with a copy of the transaction
+   * options that causes the underlying contract call to be executed with `eth_call` and `eth_estimateGas` instead of
+   * being sent, after all of the method's usual assertions have run.
+   *
+   * Example: `await blockchain.simulateAsync(txOpts, opts => setProtocol.issueAsync(setAddress, quantity, opts))`
+   *
+   * @param  txOpts         Transaction options object conforming to `Tx` with signer, gas, and gasPrice data
+   * @param  transaction    Function that calls a state-changing method with the transaction options it receives
+   * @return                Object conforming to `TransactionSimulation` with gas, return value and revert reason
+   */
+  public async simulateAsync(
+    txOpts: Tx,
+    transaction: (txOpts: Tx) => Promise<any>,
+  ): Promise<TransactionSimulation> {
+    const capture: SimulationCapture = { results: [] };
+    await transaction(withSimulation(txOpts, capture));
+
+    if (capture.results.length === 0) {
+      throw new Error(BlockchainAPIErrors.NO_TRANSACTION_TO_SIMULATE());
+    }
+
+    if (capture.results.length > 1) {
+      throw new Error(BlockchainAPIErrors.MULTIPLE_TRANSACTIONS_TO_SIMULATE(capture.results.length));
+    }
+
+    return capture.results[0];
+  }
+
+  /**
+   * Estimates the gas a state-changing SetProtocol.js method would use without sending a transaction. Throws with
+   * the revert reason if the transaction would revert
+   *
+   * Example: `await blockchain.estimateGasAsync(txOpts, opts => setProtocol.issueAsync(setAddress, quantity, opts))`
+   *
+   * @param  txOpts         Transaction options object conforming to `Tx` with signer, gas, and gasPrice data
+   * @param  transaction    Function that calls a state-changing method with the transaction options it receives
+   * @return                Estimated gas of the transaction. Throws a `SetProtocolRevertError` if it would revert
+   */
+  public async estimateGasAsync(txOpts: Tx, transaction: (txOpts: Tx) => Promise<any>): Promise<number> {
+    const simulation = await this.simulateAsync(txOpts, transaction);
+
+    if (simulation.reverted) {
+      throw simulation.revertError;
+    }
+
+    return simulation.gas;
+  }
+
+  /**
+   * Builds the unsigned transaction of a state-changing SetProtocol.js method instead of sending it, for signing
+   * offline or proposing to a multisig wallet. The method's assertions run as usual against the current chain state.
+   * The transaction options' `from` should be the account that will sign the transaction
+   *
+   * Example: `await blockchain.buildTransactionAsync(txOpts, opts => setProtocol.issueAsync(setAddress, qty, opts))`
+   *
+   * @param  txOpts         Transaction options object conforming to `Tx` with signer, gas, and value data
+   * @param  transaction    Function that calls a state-changing method with the transaction options it receives
+   * @return                Object conforming to `UnsignedTransaction` with the to, data, value and gas of the call.
+   *                          The gas is estimated with `eth_estimateGas` unless the transaction options specify it
+   */
+  public async buildTransactionAsync(
+    txOpts: Tx,
+    transaction: (txOpts: Tx) => Promise<any>,
+  ): Promise<UnsignedTransaction> {
+    const capture: TransactionBuilderCapture = { results: [] };
+    await transaction(withTransactionBuilder(txOpts, capture));
+
+    if (capture.results.length === 0) {
+      throw new Error(BlockchainAPIErrors.NO_TRANSACTION_TO_BUILD());
+    }
+
+    if (capture.results.length > 1) {
+      throw new Error(BlockchainAPIErrors.MULTIPLE_TRANSACTIONS_TO_BUILD(capture.results.length));
+    }
+
+    return capture.results[0];
+  }
+
+  /**
+   * Decodes why a mined transaction reverted by replaying it with `eth_call` against the state of the block before
+   * the one it was mined in. Transactions mined earlier in the same block are not replayed, so the reason can differ
+   * from the original when they affected the same contract state
+   *
+   * @param  txHash    Hash of the mined transaction
+   * @return           `SetProtocolRevertError` with the decoded reason, or undefined if the transaction succeeded
+   */
+  public async getRevertErrorAsync(txHash: string): Promise<SetProtocolRevertError> {
+    this.assert.schema.isValidBytes32('txHash', txHash);
+
+    const [transaction, receipt]: any[] = await Promise.all([
+      this.web3.eth.getTransaction(txHash),
+      this.web3.eth.getTransactionReceipt(txHash),
+    ]);
+    if (!transaction || !receipt) {
+      throw new Error(BlockchainAPIErrors.TRANSACTION_NOT_FOUND(txHash));
+    }
+
+    if (!isRevertedReceipt(receipt)) {
+      return undefined;
+    }
+
+    const replay: Tx = {
+      from: transaction.from,
+      to: transaction.to,
+      data: transaction.input,
+      value: transaction.value,
+      gas: transaction.gas,
+      gasPrice: transaction.gasPrice,
+    };
+
+    let reason: string;
+    try {
+      const returnData = await this.web3.eth.call(replay, receipt.blockNumber - 1);
+      reason = decodeRevertReason(this.web3, returnData);
+    } catch (error) {
+      reason = parseRevertReasonFromError(this.web3, error);
+    }
+
+    return new SetProtocolRevertError(transaction.to, this.getMethodName(transaction.input), reason, replay, txHash);
+  }
+
+  /* ============ Private Functions ============ */
+
+  private async getReplaceableTransactionAsync(txHash: string): Promise<any> {
+    const transaction: any = await this.web3.eth.getTransaction(txHash);
+    if (!transaction) {
+      throw new Error(BlockchainAPIErrors.TRANSACTION_NOT_FOUND(txHash));
+    }
+
+    if (!_.isNil(transaction.blockNumber)) {
+      throw new Error(BlockchainAPIErrors.TRANSACTION_ALREADY_MINED(txHash));
+    }
+
+    return transaction;
+  }
+
+  private getMinimumReplacementGasPrice(originalGasPrice: string): BigNumber {
+    return new BigNumber(originalGasPrice).mul(REPLACEMENT_GAS_PRICE_MULTIPLIER).ceil();
+  }
+
+  private getMethodName(data: string): string {
+    const selector = (data || '').slice(0, 10).toLowerCase();
+
+    for (const abi of TRANSACTION_TARGET_ABIS) {
+      const abiItem = _.find(abi, (item: any) => {
+        return item.type === 'function' && this.web3.eth.abi.encodeFunctionSignature(item) === selector;
+      });
+      if (abiItem) {
+        return abiItem.name;
+      }
+    }
+
+    return selector;
+  }
+
+  private sendTransactionAsync(txData: Tx): Promise<string> {
+    return new Promise<string>((resolve, reject) => {
+      const promiEvent: any = this.web3.eth.sendTransaction(txData);
+
+      promiEvent.once('transactionHash', (txHash: string) => resolve(txHash));
+      promiEvent.catch((error: any) => reject(error));
+    });
+  }
+
+  /* ============ Private Assertions ============ */
+
+  private assertReplacementGasPrice(gasPrice: BigNumber, originalGasPrice: string) {
+    const minimumGasPrice = this.getMinimumReplacementGasPrice(originalGasPrice);
+
+    if (gasPrice.lt(minimumGasPrice)) {
+      throw new Error(BlockchainAPIErrors.REPLACEMENT_GAS_PRICE_TOO_LOW(
+        gasPrice.toString(),
+        originalGasPrice,
+        minimumGasPrice.toString(),
+      ));
+    }
+  }
 }
@@ -0,0 +1,321 @@
+/*
+  Copyright 2018 Set Labs Inc.
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+  http://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+*/
+
+'use strict';
+
+import Web3 from 'web3';
+
+import { CoreWrapper, ERC20Wrapper } from '../wrappers';
+import { MissingEventFilterError } from '../errors';
+import { BigNumber, LogFetcher, pollEvents } from '../util';
+import {
+  Address,
+  ApproximateVaultTransferEvent,
+  EventFilters,
+  EventQueryOpts,
+  EventSubscription,
+  EventSubscriptionOpts,
+  LogCursor,
+  LogFetcherOpts,
+  LogRange,
+  ProtocolEvent,
+  ProtocolEventType,
+  SetIssuedEvent,
+  SetRedeemedEvent,
+  SetTokenCreatedEvent,
+  TokenTransferEvent,
+} from '../types/common';
+
+/**
+ * @title EventsAPI
+ * @author Set Protocol
+ *
+ * A library for querying and subscribing to protocol activity. Events are returned with addresses as emitted and
+ * amounts as BigNumbers.
+ *
+ * SetToken creation, issuance and redemption come from Core. Core emits no deposit or withdrawal events and the Vault
+ * and TransferProxy emit no events of their own, so deposits and withdrawals are approximated from the ERC20 Transfer
+ * events of tokens moving into and out of the Vault. Components pulled from a wallet during issuance therefore also
+ * appear as deposits, and components sent to a wallet on redemption as withdrawals. Token transfers are read from the
+ * Transfer events of a single token, which must be given.
+ */
+export class EventsAPI {
+  private web3: Web3;
+  private core: CoreWrapper;
+  private erc20: ERC20Wrapper;
+
+  /**
+   * Instantiates a new EventsAPI instance that contains methods for querying and subscribing to protocol events
+   *
+   * @param web3    The Web3.js Provider instance you would like the SetProtocol.js library to use for interacting
+   *                  with the Ethereum network
+   * @param core    An instance of CoreWrapper to interact with the deployed Core contract
+   */
+  constructor(web3: Web3, core: CoreWrapper) {
+    this.web3 = web3;
+    this.core = core;
+    this.erc20 = new ERC20Wrapper(web3);
+  }
+
+  /**
+   * Fetches SetTokenCreated events emitted by Core, optionally filtered to a single Set. The Set address is indexed,
+   * so the `set` filter is applied by the node
+   *
+   * @param  opts    Object conforming to `EventQueryOpts` with the block range and a `set` filter
+   * @return         An array of objects conforming to the `SetTokenCreatedEvent` interface
+   */
+  public async getSetTokenCreatedEventsAsync(opts: EventQueryOpts): Promise<SetTokenCreatedEvent[]> {
+    const filter = opts.set ? { _setTokenAddress: opts.set } : {};
+    const events = await this.core.getPastEvents('SetTokenCreated', opts.fromBlock, opts.toBlock, filter);
+
+    return events.map(event => {
+      const returnValues = event.returnValues;
+
+      return {
+        ...this.formatProtocolEvent(event),
+        setToken: returnValues[0],
+        factory: returnValues[1],
+        components: returnValues[2],
+        units: returnValues[3].map((unit: string) => new BigNumber(unit)),
+        naturalUnit: new BigNumber(returnValues[4]),
+        name: this.bytes32ToString(returnValues[5]),
+        symbol: this.bytes32ToString(returnValues[6]),
+      };
+    });
+  }
+
+  /**
+   * Fetches SetIssued events emitted by Core, optionally filtered to a single Set. The Set address is not indexed,
+   * so all issuances in the range are fetched before the `set` filter is applied
+   *
+   * @param  opts    Object conforming to `EventQueryOpts` with the block range and a `set` filter
+   * @return         An array of objects conforming to the `SetIssuedEvent` interface
+   */
+  public async getSetIssuedEventsAsync(opts: EventQueryOpts): Promise<SetIssuedEvent[]> {
+    const events = await this.core.getPastEvents('SetIssued', opts.fromBlock, opts.toBlock);
+
+    return this.filterBySet(events.map(event => this.formatSetQuantityEvent(event)), opts.set);
+  }
+
+  /**
+   * Fetches SetRedeemed events emitted by Core, optionally filtered to a single Set. The Set address is not indexed,
+   * so all redemptions in the range are fetched before the `set` filter is applied
+   *
+   * @param  opts    Object conforming to `EventQueryOpts` with the block range and a `set` filter
+   * @return         An array of objects conforming to the `SetRedeemedEvent` interface
+   */
+  public async getSetRedeemedEventsAsync(opts: EventQueryOpts): Promise<SetRedeemedEvent[]> {
+    const events = await this.core.getPastEvents('SetRedeemed', opts.fromBlock, opts.toBlock);
+
+    return this.filterBySet(events.map(event => this.formatSetQuantityEvent(event)), opts.set);
+  }
+
+  /**
+   * Fetches approximate deposits into the Vault, optionally filtered to a single owner and token. These are token
+   * transfers into the Vault, so they include components pulled from a wallet during issuance
+   *
+   * @param  opts    Object conforming to `EventQueryOpts` with the block range and `owner` and `token` filters
+   * @return         An array of objects conforming to the `ApproximateVaultTransferEvent` interface
+   */
+  public async getDepositEventsAsync(opts: EventQueryOpts): Promise<ApproximateVaultTransferEvent[]> {
+    const logs = await this.erc20.transferLogs(
+      opts.fromBlock,
+      opts.toBlock,
+      opts.token,
+      opts.owner,
+      this.core.vaultAddress,
+    );
+
+    return logs.map(log => ({
+      ...this.formatProtocolEvent(log),
+      token: log.address,
+      owner: log.returnValues.from,
+      quantity: new BigNumber(log.returnValues.value),
+    }));
+  }
+
+  /**
+   * Fetches approximate withdrawals from the Vault, optionally filtered to a single owner and token. These are token
+   * transfers out of the Vault, so they include components sent to a wallet on redemption
+   *
+   * @param  opts    Object conforming to `EventQueryOpts` with the block range and `owner` and `token` filters
+   * @return         An array of objects conforming to the `ApproximateVaultTransferEvent` interface
+   */
+  public async getWithdrawEventsAsync(opts: EventQueryOpts): Promise<ApproximateVaultTransferEvent[]> {
+    const logs = await this.erc20.transferLogs(
+      opts.fromBlock,
+      opts.toBlock,
+      opts.token,
+      this.core.vaultAddress,
+      opts.owner,
+    );
+
+    return logs.map(log => ({
+      ...this.formatProtocolEvent(log),
+      token: log.address,
+      owner: log.returnValues.to,
+      quantity: new BigNumber(log.returnValues.value),
+    }));
+  }
+
+  /**
+   * Fetches transfers of a single token, such as those made by the TransferProxy, optionally filtered to transfers out
+   * of a single owner. The `token` filter is required, as without it every ERC20 transfer on the chain would match
+   *
+   * @param  opts    Object conforming to `EventQueryOpts` with the block range, a `token` filter and an `owner` filter
+   * @return         An array of objects conforming to the `TokenTransferEvent` interface
+   */
+  public async getTransferEventsAsync(opts: EventQueryOpts): Promise<TokenTransferEvent[]> {
+    this.assertRequiredFilters('Transfer', opts);
+
+    const logs = await this.erc20.transferLogs(opts.fromBlock, opts.toBlock, opts.token, opts.owner);
+
+    return logs.map(log => ({
+      ...this.formatProtocolEvent(log),
+      token: log.address,
+      from: log.returnValues.from,
+      to: log.returnValues.to,
+      quantity: new BigNumber(log.returnValues.value),
+    }));
+  }
+
+  /**
+   * Pages through protocol events of one type in chunks of blocks, for ranges too wide to fetch at once. Pages are
+   * read with `for await` or `next`, and the `cursor` of a page can be passed back as the range to resume from it
+   *
+   * @param  eventType    Type of event to fetch
+   * @param  range        Object conforming to `LogRange`, or the `LogCursor` of an earlier page
+   * @param  filters      Object conforming to `EventFilters` with `set`, `owner` and `token` filters
+   * @param  opts         Object conforming to `LogFetcherOpts` with the chunk size limits and retry settings
+   * @return              A `LogFetcher` returning one page of events per chunk
+   */
+  public iterate(
+    eventType: ProtocolEventType,
+    range: LogRange | LogCursor,
+    filters: EventFilters = {},
+    opts?: LogFetcherOpts,
+  ): LogFetcher<ProtocolEvent> {
+    this.assertRequiredFilters(eventType, filters);
+
+    const fetchEventsAsync = this.eventFetcher(eventType);
+
+    return new LogFetcher(
+      this.web3,
+      (fromBlock, toBlock) => fetchEventsAsync({ ...filters, fromBlock, toBlock }),
+      range,
+      opts,
+    );
+  }
+
+  /**
+   * Subscribes to protocol events as new blocks are mined. The chain is polled for the events of each new block,
+   * which are passed to the callback in the order they were emitted. Only events from blocks after the latest block
+   * at the time of subscribing are delivered, unless `fromBlock` is given
+   *
+   * @param  eventType    Type of event to subscribe to
+   * @param  callback     Function receiving each event. The event has the same shape as those returned by the
+   *                        matching `get...EventsAsync` method
+   * @param  opts         Object conforming to `EventSubscriptionOpts` with filters, the polling interval, a
+   *                        cancellation signal and an `onError` callback for failed polls
+   * @return              Handle whose `unsubscribe` stops the subscription
+   */
+  public subscribe(
+    eventType: 'SetTokenCreated',
+    callback: (event: SetTokenCreatedEvent) => void,
+    opts?: EventSubscriptionOpts,
+  ): EventSubscription;
+  public subscribe(
+    eventType: 'SetIssued' | 'SetRedeemed',
+    callback: (event: SetIssuedEvent | SetRedeemedEvent) => void,
+    opts?: EventSubscriptionOpts,
+  ): EventSubscription;
+  public subscribe(
+    eventType: 'Deposit' | 'Withdraw',
+    callback: (event: ApproximateVaultTransferEvent) => void,
+    opts?: EventSubscriptionOpts,
+  ): EventSubscription;
+  public subscribe(
+    eventType: 'Transfer',
+    callback: (event: TokenTransferEvent) => void,
+    opts?: EventSubscriptionOpts,
+  ): EventSubscription;
+  public subscribe(
+    eventType: ProtocolEventType,
+    callback: (event: any) => void,
+    opts: EventSubscriptionOpts = {},
+  ): EventSubscription {
+    const filters = { set: opts.set, owner: opts.owner, token: opts.token };
+    this.assertRequiredFilters(eventType, filters);
+
+    const fetchEventsAsync = this.eventFetcher(eventType);
+
+    return pollEvents(
+      this.web3,
+      (fromBlock, toBlock) => fetchEventsAsync({ ...filters, fromBlock, toBlock }),
+      callback,
+      opts,
+    );
+  }
+
+  /* ============ Private Functions ============ */
+
+  private eventFetcher(eventType: ProtocolEventType): (opts: EventQueryOpts) => Promise<ProtocolEvent[]> {
+    const fetchers: { [eventType: string]: (opts: EventQueryOpts) => Promise<ProtocolEvent[]> } = {
+      SetTokenCreated: opts => this.getSetTokenCreatedEventsAsync(opts),
+      SetIssued: opts => this.getSetIssuedEventsAsync(opts),
+      SetRedeemed: opts => this.getSetRedeemedEventsAsync(opts),
+      Deposit: opts => this.getDepositEventsAsync(opts),
+      Withdraw: opts => this.getWithdrawEventsAsync(opts),
+      Transfer: opts => this.getTransferEventsAsync(opts),
+    };
+
+    return fetchers[eventType];
+  }
+
+  private assertRequiredFilters(eventType: ProtocolEventType, filters: EventFilters): void {
+    if (eventType === 'Transfer' && !filters.token) {
+      throw new MissingEventFilterError(eventType, 'token');
+    }
+  }
+
+  private formatProtocolEvent(event: any): ProtocolEvent {
+    return {
+      transactionHash: event.transactionHash,
+      blockNumber: event.blockNumber,
+      logIndex: event.logIndex,
+    };
+  }
+
+  private formatSetQuantityEvent(event: any): SetIssuedEvent {
+    return {
+      ...this.formatProtocolEvent(event),
+      setToken: event.returnValues[0],
+      quantity: new BigNumber(event.returnValues[1]),
+    };
+  }
+
+  private filterBySet<T extends { setToken: Address }>(events: T[], set?: Address): T[] {
+    if (!set) {
+      return events;
+    }
+
+    return events.filter(event => event.setToken.toLowerCase() === set.toLowerCase());
+  }
+
+  private bytes32ToString(value: string): string {
+    return this.web3.utils.hexToUtf8(value).replace(/\u0000/g, '');
+  }
+}
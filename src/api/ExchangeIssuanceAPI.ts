@@ -21,7 +21,7 @@ import Web3 from 'web3';
 import { Bytes, ExchangeIssuanceParams, SetProtocolUtils } from 'set-protocol-utils';
 
 import { Assertions } from '../assertions';
-import { BigNumber,  } from '../util';
+import { BigNumber, Preflight } from '../util';
 import {
   CoreWrapper,
   ExchangeIssuanceModuleWrapper,
@@ -30,8 +30,25 @@ import {
   RebalancingSetTokenWrapper,
   SetTokenWrapper,
  } from '../wrappers';
-import { Address, KyberTrade, SetProtocolConfig, Tx, ZeroExSignedFillOrder } from '../types/common';
-import { coreAPIErrors, exchangeIssuanceErrors } from '../errors';
+import {
+  Address,
+  KyberTrade,
+  PreflightReport,
+  SetProtocolConfig,
+  Tx,
+  ZeroExSignedFillOrder,
+} from '../types/common';
+import {
+  EmptyArrayError,
+  InvalidReceiveTokenError,
+  InvalidSendTokenError,
+  IssuingSetNotBaseSetError,
+  OnlyOneReceiveTokenError,
+  PaymentTokenQuantityUndefinedError,
+  RedeemAndTradeQuantitiesMismatchError,
+  RedeemingSetNotBaseSetError,
+  TradeTokenNotComponentError,
+} from '../errors';
 
 /**
  * @title ExchangeIssuanceAPI
@@ -104,6 +121,52 @@ export class ExchangeIssuanceAPI {
     );
   }
 
+  /**
+   * Runs every check `exchangeIssueAsync` makes before sending and reports all the failures at once. Never throws
+   *
+   * @param  exchangeIssuanceParams    Parameters required to facilitate an exchange issue
+   * @param  orders                    A list of signed 0x orders or kyber trades
+   * @return                           Object conforming to `PreflightReport` with every failed check
+   */
+  public async preflightExchangeIssueAsync(
+    exchangeIssuanceParams: ExchangeIssuanceParams,
+    orders: (KyberTrade | ZeroExSignedFillOrder)[],
+  ): Promise<PreflightReport> {
+    const preflight = new Preflight();
+    const { setAddress, receiveTokens } = exchangeIssuanceParams;
+
+    await preflight.checkAsync(
+      'ordersNotEmpty',
+      () => this.assert.common.isNotEmptyArray(orders, () => new EmptyArrayError('orders')),
+    );
+    await preflight.checkAsync('receiveTokensAreComponents', async () => {
+      const components = await this.setToken.getComponents(setAddress);
+
+      for (const receiveToken of receiveTokens) {
+        await preflight.checkAsync(
+          'receiveTokenIsComponent',
+          () => this.assert.common.includes(
+            components,
+            receiveToken,
+            () => new TradeTokenNotComponentError(setAddress, receiveToken),
+          ),
+        );
+      }
+    });
+
+    await preflight.checkAsync(
+      'exchangeIssuanceParams',
+      () => this.assert.exchange.preflightExchangeIssuanceParams(
+        preflight,
+        exchangeIssuanceParams,
+        orders,
+        this.core.coreAddress,
+      ),
+    );
+
+    return preflight.report();
+  }
+
   /**
    * Issues a Rebalancing Set to the transaction signer using Ether as payment.
    *
@@ -303,7 +366,7 @@ export class ExchangeIssuanceAPI {
     } = exchangeIssuanceParams;
 
     // Assert orders are passed in
-    this.assert.common.isNotEmptyArray(orders, coreAPIErrors.EMPTY_ARRAY('orders'));
+    this.assert.common.isNotEmptyArray(orders, () => new EmptyArrayError('orders'));
 
     // Assert each component to trade for is a component of the collateralizing set
     const components = await this.setToken.getComponents(setAddress);
@@ -311,7 +374,7 @@ export class ExchangeIssuanceAPI {
       this.assert.common.includes(
         components,
         receiveToken,
-        exchangeIssuanceErrors.TRADE_TOKENS_NOT_COMPONENT(setAddress, receiveToken)
+        () => new TradeTokenNotComponentError(setAddress, receiveToken)
       );
     });
 
@@ -324,7 +387,7 @@ export class ExchangeIssuanceAPI {
     orders: (KyberTrade | ZeroExSignedFillOrder)[],
     txOpts: Tx,
   ) {
-    this.assert.common.isNotUndefined(txOpts.value, exchangeIssuanceErrors.PAYMENT_TOKEN_QUANTITY_NOT_UNDEFINED());
+    this.assert.common.isNotUndefined(txOpts.value, () => new PaymentTokenQuantityUndefinedError());
 
     await this.assertIssueRebalancingSetWithERC20(
       rebalancingSetAddress,
@@ -353,11 +416,11 @@ export class ExchangeIssuanceAPI {
     // Assert valid parameters were passed into issueRebalancingSetWithEther
     this.assert.common.isNotUndefined(
       paymentTokenQuantity,
-      exchangeIssuanceErrors.PAYMENT_TOKEN_QUANTITY_NOT_UNDEFINED(),
+      () => new PaymentTokenQuantityUndefinedError(),
     );
     this.assert.schema.isValidAddress('txOpts.from', txOpts.from);
     this.assert.schema.isValidAddress('rebalancingSetAddress', rebalancingSetAddress);
-    this.assert.common.isNotEmptyArray(orders, coreAPIErrors.EMPTY_ARRAY('orders'));
+    this.assert.common.isNotEmptyArray(orders, () => new EmptyArrayError('orders'));
 
     const baseSetAddress = await this.rebalancingSetToken.currentSet(rebalancingSetAddress);
 
@@ -365,7 +428,7 @@ export class ExchangeIssuanceAPI {
     this.assert.common.isEqualAddress(
       setAddress,
       baseSetAddress,
-      exchangeIssuanceErrors.ISSUING_SET_NOT_BASE_SET(setAddress, baseSetAddress)
+      () => new IssuingSetNotBaseSetError(setAddress, baseSetAddress)
     );
 
     // Assert each component to trade for is a component of the collateralizing set
@@ -374,7 +437,7 @@ export class ExchangeIssuanceAPI {
       this.assert.common.includes(
         components,
         receiveToken,
-        exchangeIssuanceErrors.TRADE_TOKENS_NOT_COMPONENT(setAddress, receiveToken)
+        () => new TradeTokenNotComponentError(setAddress, receiveToken)
       );
     });
 
@@ -384,7 +447,7 @@ export class ExchangeIssuanceAPI {
       this.assert.common.isEqualAddress(
         currentSendToken,
         paymentTokenAddress,
-        exchangeIssuanceErrors.INVALID_SEND_TOKEN(currentSendToken, paymentTokenAddress)
+        () => new InvalidSendTokenError(currentSendToken, paymentTokenAddress)
       );
     });
 
@@ -408,10 +471,10 @@ export class ExchangeIssuanceAPI {
     } = exchangeIssuanceParams;
 
     // Assert valid parameters were passed into redeemRebalancingSetIntoEther
-    this.assert.common.isValidLength(receiveTokens, 1, exchangeIssuanceErrors.ONLY_ONE_RECEIVE_TOKEN());
+    this.assert.common.isValidLength(receiveTokens, 1, () => new OnlyOneReceiveTokenError());
     this.assert.schema.isValidAddress('txOpts.from', txOpts.from);
     this.assert.schema.isValidAddress('rebalancingSetAddress', rebalancingSetAddress);
-    this.assert.common.isNotEmptyArray(orders, coreAPIErrors.EMPTY_ARRAY('orders'));
+    this.assert.common.isNotEmptyArray(orders, () => new EmptyArrayError('orders'));
 
     const baseSetAddress = await this.rebalancingSetToken.currentSet(rebalancingSetAddress);
 
@@ -419,7 +482,7 @@ export class ExchangeIssuanceAPI {
     this.assert.common.isEqualAddress(
       setAddress,
       baseSetAddress,
-      exchangeIssuanceErrors.REDEEMING_SET_NOT_BASE_SET(setAddress, baseSetAddress)
+      () => new RedeemingSetNotBaseSetError(setAddress, baseSetAddress)
     );
 
     // Assert each component to trade for is a component of the collateralizing set
@@ -428,7 +491,7 @@ export class ExchangeIssuanceAPI {
       this.assert.common.includes(
         components,
         sendToken,
-        exchangeIssuanceErrors.TRADE_TOKENS_NOT_COMPONENT(setAddress, sendToken)
+        () => new TradeTokenNotComponentError(setAddress, sendToken)
       );
     });
 
@@ -439,7 +502,7 @@ export class ExchangeIssuanceAPI {
     this.assert.common.isGreaterOrEqualThan(
       impliedBaseSetQuantity,
       quantity, // Base set quantity to redeem
-      exchangeIssuanceErrors.REDEEM_AND_TRADE_QUANTITIES_MISMATCH(
+      () => new RedeemAndTradeQuantitiesMismatchError(
         impliedBaseSetQuantity.valueOf(),
         quantity.valueOf()
       )
@@ -450,7 +513,7 @@ export class ExchangeIssuanceAPI {
     this.assert.common.isEqualAddress(
       receiveToken,
       outputTokenAddress,
-      exchangeIssuanceErrors.INVALID_RECEIVE_TOKEN(receiveToken, outputTokenAddress)
+      () => new InvalidReceiveTokenError(receiveToken, outputTokenAddress)
     );
 
     // Assert valid exchange trade and order parameters
@@ -21,7 +21,14 @@ import Web3 from 'web3';
 import { SetProtocolUtils } from 'set-protocol-utils';
 
 import { DEFAULT_REBALANCING_NATURAL_UNIT, E18, UINT256, ZERO } from '../constants';
-import { coreAPIErrors } from '../errors';
+import {
+  ArrayLengthMismatchError,
+  EmptyStringError,
+  InvalidNaturalUnitError,
+  InvalidProportionsError,
+  ParameterNotPositiveError,
+  QuantityNotPositiveError,
+} from '../errors';
 import { Assertions } from '../assertions';
 import { CoreWrapper, ERC20Wrapper } from '../wrappers';
 import {
@@ -31,7 +38,7 @@ import {
   extractNewSetTokenAddressFromLogs,
   getFormattedLogsFromTxHash,
 } from '../util';
-import { Address, SetProtocolConfig, SetUnits, Tx } from '../types/common';
+import { Address, SetProtocolConfig, SetUnits, SetUnitsReport, Tx } from '../types/common';
 
 /**
  * @title FactoryAPI
@@ -183,6 +190,94 @@ export class FactoryAPI {
     }
   }
 
+  /**
+   * Helper for `calculateOptimalSetUnits` when a list of decimals is not available and needs to be fetched
+   *
+   * @param components            List of ERC20 token addresses to use for Set creation
+   * @param prices                List of current prices for the components in index order
+   * @param proportions           Decimal-formatted allocations in index order. Must add up to 1
+   * @param targetPrice           Target fiat-denominated price of a single natural unit of the Set
+   * @param percentWeightError    Allowable deviation of any component weight from its allocation, in percentage
+   *                                points. Defaults to 1
+   * @return                      Object conforming to `SetUnitsReport` with the units, natural unit and the weight
+   *                                error of each component
+   */
+  public async calculateOptimalSetUnitsAsync(
+    components: Address[],
+    prices: BigNumber[],
+    proportions: BigNumber[],
+    targetPrice: BigNumber,
+    percentWeightError: number = 1,
+  ): Promise<SetUnitsReport> {
+    const decimals = await this.getComponentsDecimalsAsync(components);
+
+    return this.calculateOptimalSetUnits(components, decimals, prices, proportions, targetPrice, percentWeightError);
+  }
+
+  /**
+   * Calculates unit and naturalUnit inputs for `createSetAsync` that minimize the largest deviation of a component
+   * weight from its allocation. Natural units are searched from the minimum valid natural unit up to `10 ** 18`, and
+   * for each natural unit every component unit is rounded up or down to whichever brings the weights closest to the
+   * allocations. The smallest natural unit that keeps every weight within `percentWeightError` is returned, or the
+   * most accurate natural unit if none does
+   *
+   * @param components            List of ERC20 token addresses to use for Set creation
+   * @param decimals              List of decimals for the components in index order
+   * @param prices                List of current prices for the components in index order
+   * @param proportions           Decimal-formatted allocations in index order. Must add up to 1
+   * @param targetPrice           Target fiat-denominated price of a single natural unit of the Set
+   * @param percentWeightError    Allowable deviation of any component weight from its allocation, in percentage
+   *                                points. Defaults to 1
+   * @return                      Object conforming to `SetUnitsReport` with the units, natural unit and the weight
+   *                                error of each component. The units and natural unit can be passed directly into
+   *                                `createSetAsync`
+   */
+  public calculateOptimalSetUnits(
+    components: Address[],
+    decimals: number[],
+    prices: BigNumber[],
+    proportions: BigNumber[],
+    targetPrice: BigNumber,
+    percentWeightError: number = 1,
+  ): SetUnitsReport {
+    this.assertCalculateCreateUnitInputs(components, prices, proportions);
+
+    const requiredComponentUnits = this.calculateRequiredComponentUnits(
+      components,
+      decimals,
+      prices,
+      proportions,
+      targetPrice,
+    );
+
+    const maxWeightDeviation = new BigNumber(percentWeightError).div(100);
+    const minimumNaturalUnit = this.calculateNaturalUnit(BigNumber.min(decimals));
+
+    let bestReport: SetUnitsReport;
+    for (let naturalUnit = minimumNaturalUnit; naturalUnit.lte(E18); naturalUnit = naturalUnit.mul(10)) {
+      const units = this.roundUnitsToProportions(requiredComponentUnits, naturalUnit, prices, decimals, proportions);
+      const report = this.calculateSetUnitsReport(
+        components,
+        decimals,
+        prices,
+        proportions,
+        targetPrice,
+        units,
+        naturalUnit,
+      );
+
+      if (!bestReport || report.maxWeightDeviation.lt(bestReport.maxWeightDeviation)) {
+        bestReport = report;
+      }
+
+      if (bestReport.maxWeightDeviation.lte(maxWeightDeviation)) {
+        break;
+      }
+    }
+
+    return bestReport;
+  }
+
   /**
    * Create a new Set by passing in parameters denoting component token addresses, quantities, natural
    * unit, and ERC20 properties
@@ -301,30 +396,7 @@ export class FactoryAPI {
    * @return                      List of component decimals
    */
   private async getComponentsDecimalsAsync(componentAddresses: Address[]): Promise<number[]> {
-    const componentDecimalPromises = _.map(componentAddresses, async componentAddress => {
-      const componentDecimals: number = await this.getComponentDecimals(componentAddress);
-
-      return componentDecimals;
-    });
-
-    return Promise.all(componentDecimalPromises);
-  }
-
-  /**
-   * Fetch the decimals for one ERC20 token
-   *
-   * @param componentAddress    ERC20 token addresses
-   * @return                    Token decimals
-   */
-  private async getComponentDecimals(componentAddress: Address): Promise<number> {
-    let componentDecimals: number;
-    try {
-      componentDecimals = (await this.erc20.decimals(componentAddress)).toNumber();
-    } catch (err) {
-      componentDecimals = 18;
-    }
-
-    return componentDecimals;
+    return Promise.all(_.map(componentAddresses, componentAddress => this.erc20.decimalsOrDefault(componentAddress)));
   }
 
   /**
@@ -359,6 +431,156 @@ export class FactoryAPI {
     });
   }
 
+  /**
+   * Rounds the required component units at a natural unit to whole units. Each unit starts rounded to the nearest
+   * whole unit, and is then moved to its other rounding while that lowers the largest weight deviation. Units are
+   * never rounded below 1
+   *
+   * @param requiredComponentUnits    Required units of each component for a natural unit of 10 ** 18
+   * @param naturalUnit               Natural unit to round the units at
+   * @param prices                    List of current prices for the components in index order
+   * @param decimals                  List of decimals for the components in index order
+   * @param proportions               Decimal-formatted allocations in index order
+   * @return                          Rounded component units
+   */
+  private roundUnitsToProportions(
+    requiredComponentUnits: BigNumber[],
+    naturalUnit: BigNumber,
+    prices: BigNumber[],
+    decimals: number[],
+    proportions: BigNumber[],
+  ): BigNumber[] {
+    const one = new BigNumber(1);
+    const exactUnits = _.map(requiredComponentUnits, amountRequired => amountRequired.mul(naturalUnit).div(E18));
+    const roundings = _.map(exactUnits, exactUnit => [
+      BigNumber.max(exactUnit.floor(), one),
+      BigNumber.max(exactUnit.ceil(), one),
+    ]);
+
+    let units = _.map(exactUnits, exactUnit => BigNumber.max(exactUnit.round(), one));
+    let deviation = this.calculateMaxWeightDeviation(units, naturalUnit, prices, decimals, proportions);
+
+    let improved = true;
+    while (improved) {
+      improved = false;
+
+      _.each(roundings, (candidates, index) => {
+        _.each(candidates, candidate => {
+          if (candidate.eq(units[index])) {
+            return;
+          }
+
+          const candidateUnits = [...units];
+          candidateUnits[index] = candidate;
+          const candidateDeviation = this.calculateMaxWeightDeviation(
+            candidateUnits,
+            naturalUnit,
+            prices,
+            decimals,
+            proportions,
+          );
+
+          if (candidateDeviation.lt(deviation)) {
+            units = candidateUnits;
+            deviation = candidateDeviation;
+            improved = true;
+          }
+        });
+      });
+    }
+
+    return units;
+  }
+
+  /**
+   * Calculates the largest absolute deviation of a component weight from its allocation
+   *
+   * @param componentUnits    Component units in index order
+   * @param naturalUnit       Natural unit for the component units
+   * @param prices            Current price of the component tokens in index order
+   * @param decimals          List of decimals for the components in index order
+   * @param proportions       Decimal-formatted allocations in index order
+   * @return                  Largest weight deviation, as a fraction of the Set value
+   */
+  private calculateMaxWeightDeviation(
+    componentUnits: BigNumber[],
+    naturalUnit: BigNumber,
+    prices: BigNumber[],
+    decimals: number[],
+    proportions: BigNumber[],
+  ): BigNumber {
+    const weights = this.calculateComponentWeights(componentUnits, naturalUnit, prices, decimals);
+
+    return BigNumber.max(_.map(weights, (weight, index) => weight.sub(proportions[index]).abs()));
+  }
+
+  /**
+   * Calculates the share of the Set value held in each component
+   *
+   * @param componentUnits    Component units in index order
+   * @param naturalUnit       Natural unit for the component units
+   * @param prices            Current price of the component tokens in index order
+   * @param decimals          List of decimals for the components in index order
+   * @return                  Weight of each component in index order
+   */
+  private calculateComponentWeights(
+    componentUnits: BigNumber[],
+    naturalUnit: BigNumber,
+    prices: BigNumber[],
+    decimals: number[],
+  ): BigNumber[] {
+    const setPrice = this.calculateSetPrice(componentUnits, naturalUnit, prices, decimals);
+
+    return _.map(componentUnits, (componentUnit, index) => {
+      const componentPrice = this.calculateSetPrice([componentUnit], naturalUnit, [prices[index]], [decimals[index]]);
+
+      return componentPrice.div(setPrice);
+    });
+  }
+
+  /**
+   * Builds the weight error report of a set of component units and natural unit
+   *
+   * @param components        List of ERC20 token addresses in index order
+   * @param decimals          List of decimals for the components in index order
+   * @param prices            Current price of the component tokens in index order
+   * @param proportions       Decimal-formatted allocations in index order
+   * @param targetPrice       Target fiat-denominated price of a single natural unit of the Set
+   * @param componentUnits    Component units in index order
+   * @param naturalUnit       Natural unit for the component units
+   * @return                  Object conforming to `SetUnitsReport`
+   */
+  private calculateSetUnitsReport(
+    components: Address[],
+    decimals: number[],
+    prices: BigNumber[],
+    proportions: BigNumber[],
+    targetPrice: BigNumber,
+    componentUnits: BigNumber[],
+    naturalUnit: BigNumber,
+  ): SetUnitsReport {
+    const realizedPrice = this.calculateSetPrice(componentUnits, naturalUnit, prices, decimals);
+    const weights = this.calculateComponentWeights(componentUnits, naturalUnit, prices, decimals);
+
+    const componentReports = _.map(components, (address, index) => ({
+      address,
+      decimals: decimals[index],
+      unit: componentUnits[index],
+      targetWeight: proportions[index],
+      realizedWeight: weights[index],
+      weightDeviation: weights[index].sub(proportions[index]),
+    }));
+
+    return {
+      units: componentUnits,
+      naturalUnit,
+      components: componentReports,
+      maxWeightDeviation: BigNumber.max(_.map(componentReports, report => report.weightDeviation.abs())),
+      realizedPrice,
+      percentError: calculatePercentDifference(realizedPrice, targetPrice).mul(100),
+    };
+  }
+
   /**
    * Calculate a Set price for given component and Set properties. This is used to verify the total Set price
    * when assigning a natural unit to a list of components
@@ -395,16 +617,16 @@ export class FactoryAPI {
   /* ============ Private Assertions ============ */
 
   private assertCalculateCreateUnitInputs(components: Address[], prices: BigNumber[], proportions: BigNumber[]) {
-    this.assert.common.verifyProportionsSumToOne(proportions, coreAPIErrors.PROPORTIONS_DONT_ADD_UP_TO_1());
+    this.assert.common.verifyProportionsSumToOne(proportions, () => new InvalidProportionsError());
     this.assert.common.isEqualLength(
       prices,
       components,
-      coreAPIErrors.ARRAYS_EQUAL_LENGTHS('prices', 'components')
+      () => new ArrayLengthMismatchError('prices', 'components')
     );
     this.assert.common.isEqualLength(
       prices,
       proportions,
-      coreAPIErrors.ARRAYS_EQUAL_LENGTHS('prices', 'proportions')
+      () => new ArrayLengthMismatchError('prices', 'proportions')
     );
   }
 
@@ -419,17 +641,17 @@ export class FactoryAPI {
   ) {
     this.assert.schema.isValidAddress('txOpts.from', userAddress);
     this.assert.schema.isValidAddress('factoryAddress', factoryAddress);
-    this.assert.common.isEqualLength(components, units, coreAPIErrors.ARRAYS_EQUAL_LENGTHS('components', 'units'));
-    this.assert.common.greaterThanZero(naturalUnit, coreAPIErrors.QUANTITY_NEEDS_TO_BE_POSITIVE(naturalUnit));
-    this.assert.common.isValidString(name, coreAPIErrors.STRING_CANNOT_BE_EMPTY('name'));
-    this.assert.common.isValidString(symbol, coreAPIErrors.STRING_CANNOT_BE_EMPTY('symbol'));
+    this.assert.common.isEqualLength(components, units, () => new ArrayLengthMismatchError('components', 'units'));
+    this.assert.common.greaterThanZero(naturalUnit, () => new QuantityNotPositiveError(naturalUnit));
+    this.assert.common.isValidString(name, () => new EmptyStringError('name'));
+    this.assert.common.isValidString(symbol, () => new EmptyStringError('symbol'));
     _.each(units, unit => {
-      this.assert.common.greaterThanZero(unit, coreAPIErrors.QUANTITY_NEEDS_TO_BE_POSITIVE(unit));
+      this.assert.common.greaterThanZero(unit, () => new QuantityNotPositiveError(unit));
     });
 
     await Promise.all(
       components.map(async componentAddress => {
-        this.assert.common.isValidString(componentAddress, coreAPIErrors.STRING_CANNOT_BE_EMPTY('component'));
+        this.assert.common.isValidString(componentAddress, () => new EmptyStringError('component'));
         this.assert.schema.isValidAddress('componentAddress', componentAddress);
 
         await this.assert.erc20.implementsERC20(componentAddress);
@@ -441,7 +663,7 @@ export class FactoryAPI {
     this.assert.common.isGreaterOrEqualThan(
       naturalUnit,
       minNaturalUnit,
-      coreAPIErrors.INVALID_NATURAL_UNIT(minNaturalUnit),
+      () => new InvalidNaturalUnitError(minNaturalUnit),
     );
   }
 
@@ -458,10 +680,12 @@ export class FactoryAPI {
     this.assert.schema.isValidAddress('txOpts.from', userAddress);
     this.assert.schema.isValidAddress('factoryAddress', factoryAddress);
     this.assert.schema.isValidAddress('initialSet', initialSetAddress);
-    this.assert.common.isValidString(name, coreAPIErrors.STRING_CANNOT_BE_EMPTY('name'));
-    this.assert.common.isValidString(symbol, coreAPIErrors.STRING_CANNOT_BE_EMPTY('symbol'));
-    this.assert.common.greaterThanZero(initialUnitShares,
-      `Parameter initialUnitShares: ${initialUnitShares} must be greater than 0.`);
+    this.assert.common.isValidString(name, () => new EmptyStringError('name'));
+    this.assert.common.isValidString(symbol, () => new EmptyStringError('symbol'));
+    this.assert.common.greaterThanZero(
+      initialUnitShares,
+      () => new ParameterNotPositiveError('initialUnitShares', initialUnitShares),
+    );
 
     await this.assert.setToken.implementsSetToken(initialSetAddress);
   }
@@ -21,10 +21,26 @@ import Web3 from 'web3';
 import { SetTokenContract } from 'set-protocol-contracts';
 
 import { ZERO } from '../constants';
+import {
+  InsufficientBalanceError,
+  IssuancePlanOwnerMismatchError,
+  IssuanceStepFailedError,
+  QuantityNotPositiveError,
+} from '../errors';
 import { Assertions } from '../assertions';
 import { CoreWrapper, ERC20Wrapper, SetTokenWrapper, VaultWrapper } from '../wrappers';
-import { BigNumber } from '../util';
-import { Address, Component, Tx } from '../types/common';
+import { BigNumber, isRevertedReceipt, Preflight } from '../util';
+import {
+  Address,
+  Component,
+  IssuancePlan,
+  IssuanceStep,
+  IssuanceStepType,
+  PreflightReport,
+  TransactionMiningOpts,
+  Tx,
+} from '../types/common';
+import { BlockchainAPI } from './BlockchainAPI';
 
 /**
  * @title IssuanceAPI
@@ -36,6 +52,7 @@ export class IssuanceAPI {
   private web3: Web3;
   private assert: Assertions;
   private core: CoreWrapper;
+  private blockchain: BlockchainAPI;
   private setToken: SetTokenWrapper;
   private erc20: ERC20Wrapper;
   private vault: VaultWrapper;
@@ -47,11 +64,13 @@ export class IssuanceAPI {
    *                      with the Ethereum network
    * @param core        An instance of CoreWrapper to interact with the deployed Core contract
    * @param assertions  An instance of the Assertion library
+   * @param blockchain  An instance of BlockchainAPI to wait for the transactions of an issuance plan to be mined
    */
-  constructor(web3: Web3, core: CoreWrapper, assertions: Assertions) {
+  constructor(web3: Web3, core: CoreWrapper, assertions: Assertions, blockchain: BlockchainAPI) {
     this.web3 = web3;
     this.core = core;
     this.assert = assertions;
+    this.blockchain = blockchain;
     this.setToken = new SetTokenWrapper(this.web3);
     this.erc20 = new ERC20Wrapper(this.web3);
     this.vault = new VaultWrapper(this.web3, core.vaultAddress);
@@ -73,6 +92,29 @@ export class IssuanceAPI {
     return await this.core.issue(setAddress, quantity, txOpts);
   }
 
+  /**
+   * Runs every check `issueAsync` makes before sending and reports all the failures at once, e.g. each component the
+   * signer is missing balance or allowance of. Never throws
+   *
+   * @param  setAddress    Address Set to issue
+   * @param  quantity      Amount of Set to issue
+   * @param  txOpts        Transaction options object conforming to `Tx` with signer, gas, and gasPrice data
+   * @return               Object conforming to `PreflightReport` with every failed check
+   */
+  public async preflightIssueAsync(setAddress: Address, quantity: BigNumber, txOpts: Tx): Promise<PreflightReport> {
+    const preflight = new Preflight();
+
+    await this.assert.issuance.preflightSetTokenIssue(
+      preflight,
+      setAddress,
+      quantity,
+      txOpts.from,
+      this.core.transferProxyAddress,
+    );
+
+    return preflight.report();
+  }
+
   /**
    * Redeems a Set to the transaction signer, returning the component tokens to the signer's wallet. Use `false` for
    * to `withdraw` to leave redeemed components in vault under the user's address to save gas if rebundling into
@@ -156,6 +198,165 @@ export class IssuanceAPI {
     return requiredComponents;
   }
 
+  /**
+   * Plans the transactions needed to issue a quantity of a Set from the component balances the owner holds in their
+   * wallet and in the Vault. Components are drawn from the Vault first, and the TransferProxy is approved for the
+   * rest of each component only where the owner's allowance is too low. Optionally the wallet amounts are deposited
+   * into the Vault in one batch deposit before issuing
+   *
+   * @param  setAddress        Address of the Set to issue
+   * @param  quantity          Amount of the Set to issue. Must be a multiple of the natural unit of the Set
+   * @param  ownerAddress      Address of the issuer
+   * @param  depositToVault    Whether to deposit the wallet amounts into the Vault before issuing. Defaults to false
+   * @return                   Object conforming to `IssuancePlan` with the approval, deposit and issue steps in the
+   *                             order they must be executed
+   */
+  public async planIssuanceAsync(
+    setAddress: Address,
+    quantity: BigNumber,
+    ownerAddress: Address,
+    depositToVault: boolean = false,
+  ): Promise<IssuancePlan> {
+    await this.assertPlanIssuance(setAddress, quantity, ownerAddress);
+
+    const [components, componentUnits, naturalUnit] = await Promise.all([
+      this.setToken.getComponents(setAddress),
+      this.setToken.getUnits(setAddress),
+      this.setToken.naturalUnit(setAddress),
+    ]);
+
+    const walletAmounts = await Promise.all(
+      _.map(components, async (componentAddress, index) => {
+        const [walletBalance, vaultBalance] = await Promise.all([
+          this.erc20.balanceOf(componentAddress, ownerAddress),
+          this.vault.getBalanceInVault(componentAddress, ownerAddress),
+        ]);
+
+        const requiredAmount = componentUnits[index].mul(quantity).div(naturalUnit);
+        const walletAmount = BigNumber.max(requiredAmount.sub(vaultBalance), ZERO);
+        if (walletAmount.gt(walletBalance)) {
+          throw new InsufficientBalanceError(componentAddress, ownerAddress, walletBalance, walletAmount);
+        }
+
+        return walletAmount;
+      }),
+    );
+
+    const allowances = await Promise.all(
+      _.map(components, componentAddress => {
+        return this.erc20.allowance(componentAddress, ownerAddress, this.core.transferProxyAddress);
+      }),
+    );
+
+    const steps: IssuanceStep[] = [];
+    _.each(components, (componentAddress, index) => {
+      if (allowances[index].lt(walletAmounts[index])) {
+        steps.push(this.issuanceStep('approve', [componentAddress], [walletAmounts[index]]));
+      }
+    });
+
+    const depositIndices = _.filter(_.range(components.length), index => walletAmounts[index].gt(ZERO));
+    if (depositToVault && depositIndices.length > 0) {
+      steps.push(this.issuanceStep(
+        'deposit',
+        _.map(depositIndices, index => components[index]),
+        _.map(depositIndices, index => walletAmounts[index]),
+      ));
+    }
+
+    steps.push(this.issuanceStep('issue', [setAddress], [quantity]));
+
+    return {
+      setAddress,
+      quantity,
+      ownerAddress,
+      steps,
+    };
+  }
+
+  /**
+   * Executes the steps of an issuance plan in order, waiting for each transaction to be mined before sending the
+   * next. The plan is updated in place with the transaction hash of each step and whether it completed, so a plan
+   * that was interrupted or failed can be passed in again to resume: completed steps are skipped, and a step whose
+   * transaction was sent but not yet confirmed is waited on rather than sent again
+   *
+   * @param  plan          Object conforming to `IssuancePlan`, as returned by `planIssuanceAsync`
+   * @param  txOpts        Transaction options object conforming to `Tx` with signer, gas, and gasPrice data. The
+   *                         signer must be the owner of the plan
+   * @param  miningOpts    Object conforming to `TransactionMiningOpts` with the polling interval, timeout and
+   *                         cancellation signal used while waiting for each step to be mined
+   * @return               The executed plan
+   */
+  public async executePlanAsync(
+    plan: IssuancePlan,
+    txOpts: Tx,
+    miningOpts: TransactionMiningOpts = {},
+  ): Promise<IssuancePlan> {
+    this.assert.common.isEqualAddress(
+      txOpts.from,
+      plan.ownerAddress,
+      () => new IssuancePlanOwnerMismatchError(plan.ownerAddress, txOpts.from),
+    );
+
+    for (const step of plan.steps) {
+      if (step.completed) {
+        continue;
+      }
+
+      if (!step.txHash) {
+        step.txHash = await this.sendIssuanceStepAsync(step, txOpts);
+      }
+
+      const receipt = await this.blockchain.awaitTransactionMinedAsync(
+        step.txHash,
+        miningOpts.pollingIntervalMs,
+        miningOpts.timeoutMs,
+        miningOpts.signal,
+      );
+      if (isRevertedReceipt(receipt)) {
+        const failedTxHash = step.txHash;
+        step.txHash = undefined;
+
+        throw new IssuanceStepFailedError(step.type, failedTxHash);
+      }
+
+      step.completed = true;
+    }
+
+    return plan;
+  }
+
+  /* ============ Private Functions ============ */
+
+  private issuanceStep(type: IssuanceStepType, tokenAddresses: Address[], quantities: BigNumber[]): IssuanceStep {
+    return {
+      type,
+      tokenAddresses,
+      quantities,
+      txHash: undefined,
+      completed: false,
+    };
+  }
+
+  private async sendIssuanceStepAsync(step: IssuanceStep, txOpts: Tx): Promise<string> {
+    if (step.type === 'approve') {
+      return await this.erc20.approve(
+        step.tokenAddresses[0],
+        this.core.transferProxyAddress,
+        step.quantities[0],
+        txOpts,
+      );
+    }
+
+    if (step.type === 'deposit') {
+      return await this.core.batchDeposit(step.tokenAddresses, step.quantities, txOpts);
+    }
+
+    // Balances were checked against both the wallet and the Vault when planning, while issueAsync only counts the
+    // wallet, so the issue is sent through Core directly
+    return await this.core.issue(step.tokenAddresses[0], step.quantities[0], txOpts);
+  }
+
   /* ============ Private Assertions ============ */
 
   private async assertIssue(transactionCaller: Address, setAddress: Address, quantity: BigNumber) {
@@ -167,6 +368,14 @@ export class IssuanceAPI {
     );
   }
 
+  private async assertPlanIssuance(setAddress: Address, quantity: BigNumber, ownerAddress: Address) {
+    this.assert.schema.isValidAddress('setAddress', setAddress);
+    this.assert.schema.isValidAddress('ownerAddress', ownerAddress);
+    this.assert.common.greaterThanZero(quantity, () => new QuantityNotPositiveError(quantity));
+
+    await this.assert.setToken.isMultipleOfNaturalUnit(setAddress, quantity, 'Issuance quantity');
+  }
+
   private async assertRedeem(
     transactionCaller: Address,
     setAddress: Address,
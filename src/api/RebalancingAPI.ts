@@ -19,7 +19,8 @@
 import * as _ from 'lodash';
 import Web3 from 'web3';
 
-import { coreAPIErrors } from '../errors';
+import { SET_FULL_TOKEN_UNITS, ZERO } from '../constants';
+import { QuantityNotPositiveError } from '../errors';
 import { Assertions } from '../assertions';
 import {
   CoreWrapper,
@@ -28,19 +29,43 @@ import {
   SetTokenWrapper,
   RebalancingAuctionModuleWrapper,
   RebalancingSetTokenWrapper,
+  VaultWrapper,
 } from '../wrappers';
-import { BigNumber, parseRebalanceState } from '../util';
+import { BigNumber, calculatePartialAmount, parseRebalanceState, pollEvents, Preflight } from '../util';
 import {
   Address,
   BidPlacedEvent,
+  EventSubscription,
+  PreflightReport,
+  PriceSource,
+  RebalanceEventQueryOpts,
+  RebalanceEventSubscriptionOpts,
+  RebalanceLifecycleEvent,
+  RebalanceLifecycleEventType,
   RebalancingProgressDetails,
   RebalancingProposalDetails,
+  RebalancingSetComposition,
   RebalancingSetDetails,
+  RebalancingSetShareValue,
   SetProtocolConfig,
   Tx,
   TokenFlowsDetails,
+  UnderlyingComponent,
+  UnderlyingComponentValue,
 } from '../types/common';
 
+interface LifecycleEventEntry {
+  event: RebalanceLifecycleEvent;
+  logIndex: number;
+}
+
+interface RebalanceStateChange {
+  rebalancingSetToken: Address;
+  blockNumber: number;
+  previousState: string;
+  state: string;
+}
+
 /**
  * @title RebalancingAPI
  * @author Set Protocol
@@ -57,6 +82,7 @@ export class RebalancingAPI {
   private rebalancingSetToken: RebalancingSetTokenWrapper;
   private rebalancingAuctionModule: RebalancingAuctionModuleWrapper;
   private setToken: SetTokenWrapper;
+  private vault: VaultWrapper;
 
   /**
    * Instantiates a new RebalancingAPI instance that contains methods
@@ -84,6 +110,7 @@ export class RebalancingAPI {
     this.erc20 = new ERC20Wrapper(this.web3);
     this.rebalancingSetToken = new RebalancingSetTokenWrapper(this.web3);
     this.setToken = new SetTokenWrapper(this.web3);
+    this.vault = new VaultWrapper(this.web3, core.vaultAddress);
     this.protocolViewer = new ProtocolViewerWrapper(this.web3, config.protocolViewerAddress);
   }
 
@@ -213,6 +240,71 @@ export class RebalancingAPI {
     }
   }
 
+  /**
+   * Runs every check `bidAsync` makes before sending and reports all the failures at once, e.g. each token the
+   * bidder is missing balance or allowance of. Never throws
+   *
+   * @param  rebalancingSetTokenAddress     Address of the Rebalancing Set
+   * @param  bidQuantity                    Amount of currentSet the bidder wants to rebalance
+   * @param  txOpts                         Transaction options object conforming to `Tx` with signer, gas, and
+   *                                          gasPrice data
+   * @return                                Object conforming to `PreflightReport` with every failed check
+   */
+  public async preflightBidAsync(
+    rebalancingSetTokenAddress: Address,
+    bidQuantity: BigNumber,
+    txOpts: Tx,
+  ): Promise<PreflightReport> {
+    const preflight = new Preflight();
+
+    const isValidAddress = await preflight.checkAsync(
+      'validRebalancingSetAddress',
+      () => this.assert.schema.isValidAddress('rebalancingSetTokenAddress', rebalancingSetTokenAddress),
+    );
+    if (!isValidAddress) {
+      return preflight.report();
+    }
+
+    await preflight.checkAsync(
+      'positiveQuantity',
+      () => this.assert.common.greaterThanZero(bidQuantity, () => new QuantityNotPositiveError(bidQuantity)),
+    );
+
+    // The remaining checks read the bidding parameters, which only exist during a rebalance
+    const isValidSet = await preflight.checkAsync(
+      'validSet',
+      () => this.assert.setToken.isValidSetToken(this.core.coreAddress, rebalancingSetTokenAddress),
+    );
+    const isRebalancing = isValidSet && await preflight.checkAsync(
+      'rebalanceState',
+      () => this.assert.rebalancing.isInRebalanceState(rebalancingSetTokenAddress),
+    );
+    if (!isRebalancing) {
+      return preflight.report();
+    }
+
+    await preflight.checkAsync(
+      'bidWithinRemainingSets',
+      () => this.assert.rebalancing.bidAmountLessThanRemainingSets(rebalancingSetTokenAddress, bidQuantity),
+    );
+    await preflight.checkAsync(
+      'multipleOfMinimumBid',
+      () => this.assert.rebalancing.bidIsMultipleOfMinimumBid(rebalancingSetTokenAddress, bidQuantity),
+    );
+    await preflight.checkAsync(
+      'bidTransfers',
+      () => this.assert.rebalancing.preflightBidTransfers(
+        preflight,
+        rebalancingSetTokenAddress,
+        txOpts.from,
+        this.core.transferProxyAddress,
+        bidQuantity,
+      ),
+    );
+
+    return preflight.report();
+  }
+
   /**
    * Allows current manager to change manager address to a new address
    *
@@ -336,6 +428,66 @@ export class RebalancingAPI {
     return formattedEvents;
   }
 
+  /**
+   * Fetches the lifecycle events of Rebalancing Sets, ordered as they happened. RebalanceProposed, RebalanceStarted
+   * and BidPlaced are read from the events of the contracts. RebalanceSettled, RebalanceFailed, DrawdownStarted and
+   * DrawdownEnded are found by bisecting the range between those events with calls to `rebalanceState` at past
+   * blocks, so ranges older than the recent blocks a full node keeps require an archive node. Every event includes
+   * the timestamp of its block
+   *
+   * When no Rebalancing Set is given, events are read from every Set currently registered with Core, and state
+   * changes are only found for Sets proposed, started or bid on within the range of blocks
+   *
+   * @param  opts    Object conforming to `RebalanceEventQueryOpts` with the block range and Rebalancing Set
+   * @return         An array of objects conforming to the `RebalanceLifecycleEvent` interface
+   */
+  public async getRebalanceLifecycleEventsAsync(opts: RebalanceEventQueryOpts): Promise<RebalanceLifecycleEvent[]> {
+    const toBlock = _.isNumber(opts.toBlock) ? opts.toBlock : await this.web3.eth.getBlockNumber();
+
+    const { events } = await this.fetchRebalanceLifecycleEventsAsync(
+      opts.fromBlock,
+      toBlock,
+      opts.rebalancingSetToken,
+      [],
+    );
+
+    return events;
+  }
+
+  /**
+   * Subscribes to the lifecycle events of one Rebalancing Set, or of all of them, as new blocks are mined. Events
+   * have the same shape as those returned by `getRebalanceLifecycleEventsAsync`. When following all Rebalancing Sets,
+   * each Set is followed from the first block it is proposed, started or bid on until it returns to Default
+   *
+   * Each poll reads the Sets registered with Core and makes at least two `rebalanceState` calls per followed Set,
+   * plus a bisection of the new blocks for each Set whose state changed
+   *
+   * @param  callback    Function receiving each event
+   * @param  opts        Object conforming to `RebalanceEventSubscriptionOpts` with the Rebalancing Set, polling
+   *                       interval, cancellation signal and an `onError` callback for failed polls
+   * @return             Handle whose `unsubscribe` stops the subscription
+   */
+  public subscribeToRebalanceLifecycle(
+    callback: (event: RebalanceLifecycleEvent) => void,
+    opts: RebalanceEventSubscriptionOpts = {},
+  ): EventSubscription {
+    let activeSets: Address[] = [];
+
+    const fetchEvents = async (fromBlock: number, toBlock: number) => {
+      const result = await this.fetchRebalanceLifecycleEventsAsync(
+        fromBlock,
+        toBlock,
+        opts.rebalancingSetToken,
+        activeSets,
+      );
+      activeSets = result.activeSets;
+
+      return result.events;
+    };
+
+    return pollEvents(this.web3, fetchEvents, callback, opts);
+  }
+
   /**
    * Fetches details of a RebalancingSetToken comprised of factory address, manager, current set, unit shares,
    * natural unit, state, date the last rebalance ended, supply, name, and symbol
@@ -481,6 +633,147 @@ export class RebalancingAPI {
     return await this.rebalancingSetToken.remainingCurrentSets(rebalancingSetTokenAddress);
   }
 
+  /**
+   * Resolves a RebalancingSetToken down to the underlying ERC20 amounts held for one full token. Outside of an
+   * auction, each natural unit holds `unitShares` of the current Set. During an auction, and in the drawdown after a
+   * failed one, the collateral is what the RebalancingSetToken owns in the Vault: its balance of each combined token
+   * of the current and next Set, which reflects the price of every bid placed so far, plus any current or next Sets
+   * it holds, resolved through their combined units
+   *
+   * @param  rebalancingSetTokenAddress    Address of the RebalancingSetToken
+   * @return                               Object conforming to `RebalancingSetComposition` interface
+   */
+  public async getUnderlyingCompositionAsync(rebalancingSetTokenAddress: Address): Promise<RebalancingSetComposition> {
+    this.assert.schema.isValidAddress('rebalancingSetTokenAddress', rebalancingSetTokenAddress);
+
+    const [state, currentSetAddress, unitShares, naturalUnit] = await Promise.all([
+      this.rebalancingSetToken.rebalanceState(rebalancingSetTokenAddress),
+      this.rebalancingSetToken.currentSet(rebalancingSetTokenAddress),
+      this.rebalancingSetToken.unitShares(rebalancingSetTokenAddress),
+      this.setToken.naturalUnit(rebalancingSetTokenAddress),
+    ]);
+
+    if (state !== 'Rebalance' && state !== 'Drawdown') {
+      const currentSetQuantity = unitShares.mul(SET_FULL_TOKEN_UNITS).div(naturalUnit).round(0, 3);
+
+      const [currentSetNaturalUnit, componentAddresses, componentUnits] = await Promise.all([
+        this.setToken.naturalUnit(currentSetAddress),
+        this.setToken.getComponents(currentSetAddress),
+        this.setToken.getUnits(currentSetAddress),
+      ]);
+
+      return {
+        address: rebalancingSetTokenAddress,
+        state,
+        currentSetAddress,
+        currentSetQuantity,
+        components: _.map(componentAddresses, (address, index) => ({
+          address,
+          quantity: calculatePartialAmount(componentUnits[index], currentSetQuantity, currentSetNaturalUnit),
+        })),
+      };
+    }
+
+    const [
+      nextSetAddress,
+      combinedTokenArray,
+      combinedCurrentUnits,
+      combinedNextSetUnits,
+      startingCurrentSetAmount,
+      remainingCurrentSets,
+      supply,
+      currentSetBalance,
+    ] = await Promise.all([
+      this.rebalancingSetToken.nextSet(rebalancingSetTokenAddress),
+      this.rebalancingSetToken.getCombinedTokenArray(rebalancingSetTokenAddress),
+      this.rebalancingSetToken.getCombinedCurrentUnits(rebalancingSetTokenAddress),
+      this.rebalancingSetToken.getCombinedNextSetUnits(rebalancingSetTokenAddress),
+      this.rebalancingSetToken.startingCurrentSetAmount(rebalancingSetTokenAddress),
+      this.rebalancingSetToken.remainingCurrentSets(rebalancingSetTokenAddress),
+      this.erc20.totalSupply(rebalancingSetTokenAddress),
+      this.vault.getBalanceInVault(currentSetAddress, rebalancingSetTokenAddress),
+    ]);
+
+    const [nextSetBalance, tokenBalances, currentSetNaturalUnit, nextSetNaturalUnit] = await Promise.all([
+      this.vault.getBalanceInVault(nextSetAddress, rebalancingSetTokenAddress),
+      Promise.all(_.map(combinedTokenArray, address => {
+        return this.vault.getBalanceInVault(address, rebalancingSetTokenAddress);
+      })),
+      this.setToken.naturalUnit(currentSetAddress),
+      this.setToken.naturalUnit(nextSetAddress),
+    ]);
+
+    // Combined units are the amounts of each token for the larger natural unit of the current and next Set
+    const combinedNaturalUnit = BigNumber.max(currentSetNaturalUnit, nextSetNaturalUnit);
+
+    const components: UnderlyingComponent[] = _.map(combinedTokenArray, (address, index) => {
+      const quantityForSupply = tokenBalances[index].add(
+        combinedCurrentUnits[index].mul(currentSetBalance)
+          .add(combinedNextSetUnits[index].mul(nextSetBalance))
+          .div(combinedNaturalUnit)
+          .round(0, 3)
+      );
+
+      return {
+        address,
+        quantity: supply.isZero() ? ZERO : calculatePartialAmount(quantityForSupply, SET_FULL_TOKEN_UNITS, supply),
+      };
+    });
+
+    return {
+      address: rebalancingSetTokenAddress,
+      state,
+      currentSetAddress,
+      currentSetQuantity: supply.isZero() ?
+        ZERO :
+        calculatePartialAmount(remainingCurrentSets, SET_FULL_TOKEN_UNITS, supply),
+      components,
+      auction: {
+        nextSetAddress,
+        combinedTokenArray,
+        combinedCurrentUnits,
+        combinedNextSetUnits,
+        startingCurrentSetAmount,
+        remainingCurrentSets,
+      },
+    };
+  }
+
+  /**
+   * Calculates the value of one full RebalancingSetToken from the prices of the underlying tokens returned by
+   * `getUnderlyingCompositionAsync`. Token decimals are read from the chain, and default to 18 for tokens that do
+   * not implement `decimals`
+   *
+   * @param  rebalancingSetTokenAddress    Address of the RebalancingSetToken
+   * @param  priceSource                   Source of the price of one whole underlying token, such as a
+   *                                         `StaticPriceSource`, `CallbackPriceSource` or `MedianizerPriceSource`
+   * @return                               Object conforming to `RebalancingSetShareValue` interface
+   */
+  public async getPerShareValueAsync(
+    rebalancingSetTokenAddress: Address,
+    priceSource: PriceSource,
+  ): Promise<RebalancingSetShareValue> {
+    const composition = await this.getUnderlyingCompositionAsync(rebalancingSetTokenAddress);
+
+    const [decimals, prices] = await Promise.all([
+      Promise.all(_.map(composition.components, component => this.erc20.decimalsOrDefault(component.address))),
+      Promise.all(_.map(composition.components, component => priceSource.getPriceAsync(component.address))),
+    ]);
+
+    const components: UnderlyingComponentValue[] = _.map(composition.components, (component, index) => ({
+      ...component,
+      decimals: decimals[index],
+      price: prices[index],
+      value: component.quantity.mul(prices[index]).div(new BigNumber(10).pow(decimals[index])),
+    }));
+
+    return {
+      address: rebalancingSetTokenAddress,
+      valuePerToken: _.reduce(components, (sum, component) => sum.add(component.value), ZERO),
+      components,
+    };
+  }
+
   /* ============ Private Assertions ============ */
 
   private async assertPropose(
@@ -498,14 +791,14 @@ export class RebalancingAPI {
 
     this.assert.common.greaterThanZero(
       auctionTimeToPivot,
-      coreAPIErrors.QUANTITY_NEEDS_TO_BE_POSITIVE(auctionTimeToPivot)
+      () => new QuantityNotPositiveError(auctionTimeToPivot)
     );
     this.assert.common.greaterThanZero(auctionPivotPrice,
-      coreAPIErrors.QUANTITY_NEEDS_TO_BE_POSITIVE(auctionPivotPrice)
+      () => new QuantityNotPositiveError(auctionPivotPrice)
     );
     this.assert.common.greaterThanZero(
       auctionStartPrice,
-      coreAPIErrors.QUANTITY_NEEDS_TO_BE_POSITIVE(auctionStartPrice)
+      () => new QuantityNotPositiveError(auctionStartPrice)
     );
 
     await this.assert.rebalancing.isNotInRebalanceState(rebalancingSetTokenAddress);
@@ -549,7 +842,7 @@ export class RebalancingAPI {
     this.assert.schema.isValidAddress('rebalancingSetTokenAddress', rebalancingSetTokenAddress);
     this.assert.common.greaterThanZero(
       bidQuantity,
-      coreAPIErrors.QUANTITY_NEEDS_TO_BE_POSITIVE(bidQuantity)
+      () => new QuantityNotPositiveError(bidQuantity)
     );
 
     await this.assert.setToken.isValidSetToken(this.core.coreAddress, rebalancingSetTokenAddress);
@@ -580,7 +873,7 @@ export class RebalancingAPI {
     this.assert.schema.isValidAddress('rebalancingSetTokenAddress', rebalancingSetTokenAddress);
     this.assert.common.greaterThanZero(
       bidQuantity,
-      coreAPIErrors.QUANTITY_NEEDS_TO_BE_POSITIVE(bidQuantity)
+      () => new QuantityNotPositiveError(bidQuantity)
     );
 
     await this.assert.rebalancing.isInRebalanceState(rebalancingSetTokenAddress);
@@ -597,4 +890,208 @@ export class RebalancingAPI {
     this.assert.schema.isValidAddress('rebalancingSetTokenAddress', rebalancingSetTokenAddress);
     await this.assert.rebalancing.canFetchProposalDetails(rebalancingSetTokenAddress);
   }
+
+  /* ============ Private Functions ============ */
+
+  private async fetchRebalanceLifecycleEventsAsync(
+    fromBlock: number,
+    toBlock: number,
+    rebalancingSetToken: Address | undefined,
+    activeSets: Address[],
+  ): Promise<{ events: RebalanceLifecycleEvent[], activeSets: Address[] }> {
+    // Only the logs of Sets are queried, as any contract can emit events with the same signature
+    const setAddresses = rebalancingSetToken ? [rebalancingSetToken] : await this.core.setTokens();
+
+    const [proposedEvents, startedEvents, bidEvents] = await Promise.all([
+      this.rebalancingSetToken.getPastEvents('RebalanceProposed', fromBlock, toBlock, setAddresses),
+      this.rebalancingSetToken.getPastEvents('RebalanceStarted', fromBlock, toBlock, setAddresses),
+      this.rebalancingAuctionModule.bidPlacedEvent(fromBlock, toBlock, rebalancingSetToken),
+    ]);
+
+    const emittedEvents: LifecycleEventEntry[] = [
+      ...proposedEvents.map(event => this.lifecycleEntry('RebalanceProposed', event.address, event, {
+        nextSet: event.returnValues[0],
+        auctionLibrary: event.returnValues[1],
+        proposalPeriodEndTime: new BigNumber(event.returnValues[2]),
+      })),
+      ...startedEvents.map(event => this.lifecycleEntry('RebalanceStarted', event.address, event, {
+        oldSet: event.returnValues[0],
+        newSet: event.returnValues[1],
+      })),
+      ...bidEvents.map(event => this.lifecycleEntry('BidPlaced', event.returnValues['rebalancingSetToken'], event, {
+        bidder: event.returnValues['bidder'],
+        executionQuantity: new BigNumber(event.returnValues['executionQuantity']),
+        combinedTokenAddresses: event.returnValues['combinedTokenAddresses'],
+        inflowTokenUnits: event.returnValues['inflowTokenUnits'].map((unit: string) => new BigNumber(unit)),
+        outflowTokenUnits: event.returnValues['outflowTokenUnits'].map((unit: string) => new BigNumber(unit)),
+      })),
+    ];
+
+    const rebalancingSets = rebalancingSetToken ? [rebalancingSetToken] : _.uniqBy(
+      [...activeSets, ...emittedEvents.map(entry => entry.event.rebalancingSetToken)],
+      address => address.toLowerCase(),
+    );
+
+    const stateChanges = await Promise.all(rebalancingSets.map(rebalancingSet => {
+      // Entering Proposal and Rebalance always emits an event, so the other changes happen between those events
+      const anchorBlocks = _.flatMap([...proposedEvents, ...startedEvents], event => {
+        return event.address.toLowerCase() === rebalancingSet.toLowerCase() ? [event.blockNumber] : [];
+      });
+
+      // Sets still active from an earlier poll were deployed before the range
+      const isDeployed = _.some(activeSets, activeSet => activeSet.toLowerCase() === rebalancingSet.toLowerCase());
+
+      return this.findRebalanceStateChangesAsync(rebalancingSet, fromBlock, toBlock, anchorBlocks, isDeployed);
+    }));
+
+    const derivedEvents = await Promise.all(_.flatMap(stateChanges, ({ changes }) => changes).map(change => {
+      return this.lifecycleEntryFromStateChangeAsync(change);
+    }));
+
+    const entries = _.sortBy(
+      [...emittedEvents, ..._.compact(derivedEvents)],
+      [(entry: LifecycleEventEntry) => entry.event.blockNumber, (entry: LifecycleEventEntry) => entry.logIndex],
+    );
+
+    const timestamps: { [blockNumber: number]: number } = {};
+    _.each(entries, entry => {
+      if (entry.event.timestamp !== undefined) {
+        timestamps[entry.event.blockNumber] = entry.event.timestamp;
+      }
+    });
+    const missingBlocks = _.uniq(entries.map(entry => entry.event.blockNumber)).filter(block => !(block in timestamps));
+    await Promise.all(missingBlocks.map(async blockNumber => {
+      const block = await this.web3.eth.getBlock(blockNumber);
+      timestamps[blockNumber] = Number(block.timestamp);
+    }));
+
+    return {
+      events: entries.map(entry => ({ ...entry.event, timestamp: timestamps[entry.event.blockNumber] })),
+      activeSets: _.filter(rebalancingSets, (rebalancingSet, index) => stateChanges[index].finalState !== 'Default'),
+    };
+  }
+
+  /**
+   * Finds the blocks in which the rebalance state of a Rebalancing Set changed by comparing its state at the blocks
+   * around each anchor and bisecting the ranges whose ends differ
+   */
+  private async findRebalanceStateChangesAsync(
+    rebalancingSetToken: Address,
+    fromBlock: number,
+    toBlock: number,
+    anchorBlocks: number[],
+    isDeployed: boolean,
+  ): Promise<{ changes: RebalanceStateChange[], finalState: string }> {
+    const startBlock = Math.max(fromBlock - 1, 0);
+    const states: { [blockNumber: number]: string } = {};
+
+    // A Set deployed within the range has no code at the start, which is equivalent to the Default state
+    if (!isDeployed && await this.web3.eth.getCode(rebalancingSetToken, startBlock) === '0x') {
+      states[startBlock] = 'Default';
+    }
+
+    const stateAt = async (blockNumber: number): Promise<string> => {
+      if (!states[blockNumber]) {
+        states[blockNumber] = await this.rebalancingSetToken.rebalanceStateAtBlock(rebalancingSetToken, blockNumber);
+      }
+
+      return states[blockNumber];
+    };
+
+    const bisect = async (low: number, high: number): Promise<number[]> => {
+      if (await stateAt(low) === await stateAt(high)) {
+        return [];
+      }
+
+      if (high - low === 1) {
+        return [high];
+      }
+
+      const middle = Math.floor((low + high) / 2);
+      return [...await bisect(low, middle), ...await bisect(middle, high)];
+    };
+
+    const boundaries = _.sortedUniq(_.sortBy(_.filter(
+      [startBlock, toBlock, ..._.flatMap(anchorBlocks, block => [block - 1, block])],
+      block => block >= startBlock && block <= toBlock,
+    )));
+
+    const changeBlocks: number[] = [];
+    for (let i = 1; i < boundaries.length; i++) {
+      changeBlocks.push(...await bisect(boundaries[i - 1], boundaries[i]));
+    }
+
+    const changes = await Promise.all(changeBlocks.map(async blockNumber => ({
+      rebalancingSetToken,
+      blockNumber,
+      previousState: await stateAt(blockNumber - 1),
+      state: await stateAt(blockNumber),
+    })));
+
+    return {
+      changes,
+      finalState: await stateAt(toBlock),
+    };
+  }
+
+  private async lifecycleEntryFromStateChangeAsync(change: RebalanceStateChange): Promise<LifecycleEventEntry> {
+    const { rebalancingSetToken, blockNumber, previousState, state } = change;
+
+    let type: RebalanceLifecycleEventType;
+    let fields: any = {};
+    if (previousState === 'Rebalance' && state === 'Default') {
+      const [previousSet, currentSet] = await Promise.all([
+        this.rebalancingSetToken.currentSetAtBlock(rebalancingSetToken, blockNumber - 1),
+        this.rebalancingSetToken.currentSetAtBlock(rebalancingSetToken, blockNumber),
+      ]);
+
+      type = previousSet === currentSet ? 'RebalanceFailed' : 'RebalanceSettled';
+      fields = type === 'RebalanceSettled' ? { currentSet } : {};
+    } else if (previousState === 'Rebalance' && state === 'Drawdown') {
+      type = 'DrawdownStarted';
+    } else if (previousState === 'Drawdown') {
+      type = 'DrawdownEnded';
+      fields = { state };
+    } else {
+      // Entering Proposal and Rebalance is reported from the emitted events
+      return undefined;
+    }
+
+    // The change is made by a call to the Rebalancing Set, such as settleRebalance or endFailedAuction
+    const block = await this.web3.eth.getBlock(blockNumber, true);
+    const transaction = _.find(block.transactions, (tx: any) => {
+      return !!tx.to && tx.to.toLowerCase() === rebalancingSetToken.toLowerCase();
+    });
+
+    return {
+      event: {
+        type,
+        rebalancingSetToken,
+        transactionHash: transaction && transaction.hash,
+        blockNumber,
+        timestamp: Number(block.timestamp),
+        ...fields,
+      },
+      logIndex: Infinity,
+    };
+  }
+
+  private lifecycleEntry(
+    type: RebalanceLifecycleEventType,
+    rebalancingSetToken: Address,
+    event: any,
+    fields: object,
+  ): LifecycleEventEntry {
+    return {
+      event: {
+        type,
+        rebalancingSetToken,
+        transactionHash: event.transactionHash,
+        blockNumber: event.blockNumber,
+        timestamp: undefined,
+        ...fields,
+      },
+      logIndex: event.logIndex,
+    };
+  }
 }
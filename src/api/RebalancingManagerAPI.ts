@@ -41,6 +41,13 @@ import {
   WBTC_FULL_TOKEN_UNITS,
   WETH_FULL_TOKEN_UNITS,
 } from '../constants';
+import {
+  AllocationWithinBoundsError,
+  CrossoverConfirmationOutsidePeriodError,
+  CrossoverConfirmationPendingError,
+  CrossoverTriggerNotMetError,
+  UnknownManagerTypeError,
+} from '../errors';
 import {
   BTCDAIRebalancingManagerDetails,
   BTCETHRebalancingManagerDetails,
@@ -117,7 +124,7 @@ export class RebalancingManagerAPI {
       await this.assertETHDAIPriceTrigger(rebalancingManager, rebalancingSet);
       return await this.ethDaiRebalancingManager.propose(rebalancingManager, rebalancingSet, txOpts);
     } else {
-      throw new Error('Passed manager type is not recognized.');
+      throw new UnknownManagerTypeError(managerType);
     }
   }
 
@@ -459,8 +466,7 @@ export class RebalancingManagerAPI {
       btcAllocationAmount,
       maximumLowerThreshold,
       minimumUpperThreshold,
-      `Current BTC allocation ${btcAllocationAmount.toString()}% must be outside allocation bounds ` +
-      `${maximumLowerThreshold.toString()} and ${minimumUpperThreshold.toString()}.`
+      () => new AllocationWithinBoundsError('BTC', btcAllocationAmount, maximumLowerThreshold, minimumUpperThreshold),
     );
   }
 
@@ -497,8 +503,7 @@ export class RebalancingManagerAPI {
       daiAllocationAmount,
       maximumLowerThreshold,
       minimumUpperThreshold,
-      `Current DAI allocation ${daiAllocationAmount.toString()}% must be outside allocation bounds ` +
-      `${maximumLowerThreshold.toString()} and ${minimumUpperThreshold.toString()}.`
+      () => new AllocationWithinBoundsError('DAI', daiAllocationAmount, maximumLowerThreshold, minimumUpperThreshold),
     );
   }
 
@@ -535,8 +540,7 @@ export class RebalancingManagerAPI {
       daiAllocationAmount,
       maximumLowerThreshold,
       minimumUpperThreshold,
-      `Current DAI allocation ${daiAllocationAmount.toString()}% must be outside allocation bounds ` +
-      `${maximumLowerThreshold.toString()} and ${minimumUpperThreshold.toString()}.`
+      () => new AllocationWithinBoundsError('DAI', daiAllocationAmount, maximumLowerThreshold, minimumUpperThreshold),
     );
   }
 
@@ -554,7 +558,7 @@ export class RebalancingManagerAPI {
     const lessThanTwelveHoursElapsed = currentTimeStampInSeconds.minus(
       lastCrossoverConfirmationTimestamp).lt(crossoverConfirmationMaxTime);
     if (lessThanTwelveHoursElapsed) {
-      throw new Error('Less than max confirm time has elapsed since the last proposal timestamp');
+      throw new CrossoverConfirmationPendingError();
     }
   }
 
@@ -581,9 +585,7 @@ export class RebalancingManagerAPI {
 
     if (moreThanTwelveHoursElapsed || lessThanSixHoursElapsed) {
       // If the current timestamp min confirm and max confirm time since last call, call confirmPropose
-      throw new Error(
-        'Confirm Crossover Propose is not called in the confirmation period since last proposal timestamp'
-      );
+      throw new CrossoverConfirmationOutsidePeriodError();
     }
   }
 
@@ -642,14 +644,14 @@ export class RebalancingManagerAPI {
       this.assert.common.isGreaterThan(
         movingAverage,
         currentPrice,
-        `Current Price ${currentPrice.toString()} must be less than Moving Average ${movingAverage.toString()}`
+        () => new CrossoverTriggerNotMetError(currentPrice, movingAverage, isUsingRiskCollateral),
       );
     } else {
       // Assert currentPrice > moving average
       this.assert.common.isGreaterThan(
         currentPrice,
         movingAverage,
-        `Current Price ${currentPrice.toString()} must be greater than Moving Average ${movingAverage.toString()}`
+        () => new CrossoverTriggerNotMetError(currentPrice, movingAverage, isUsingRiskCollateral),
       );
     }
   }
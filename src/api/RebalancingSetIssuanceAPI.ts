@@ -26,7 +26,7 @@ import {
   RebalancingSetTokenWrapper,
  } from '../wrappers';
 import { Address, SetProtocolConfig, Tx } from '../types/common';
-import { exchangeIssuanceErrors } from '../errors';
+import { PaymentTokenQuantityUndefinedError } from '../errors';
 
 /**
  * @title RebalancingSetIssuanceAPI
@@ -195,7 +195,7 @@ export class RebalancingSetIssuanceAPI {
     rebalancingSetQuantity: BigNumber,
     txOpts: Tx,
   ) {
-    this.assert.common.isNotUndefined(txOpts.value, exchangeIssuanceErrors.PAYMENT_TOKEN_QUANTITY_NOT_UNDEFINED());
+    this.assert.common.isNotUndefined(txOpts.value, () => new PaymentTokenQuantityUndefinedError());
 
     await this.assert.issuance.assertRebalancingSetTokenIssueWrappingEther(
       rebalancingSetAddress,
@@ -0,0 +1,196 @@
+/*
+  Copyright 2018 Set Labs Inc.
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+  http://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+*/
+
+'use strict';
+
+import * as _ from 'lodash';
+import Web3 from 'web3';
+
+import { E18, ZERO } from '../constants';
+import { SetCreationFailedError, SetVerificationError } from '../errors';
+import { ERC20Wrapper } from '../wrappers';
+import { BigNumber, calculatePercentDifference, isRevertedReceipt } from '../util';
+import {
+  SetBuilderComponent,
+  SetBuildPlan,
+  SetBuildResult,
+  SetDetails,
+  TransactionMiningOpts,
+  Tx,
+} from '../types/common';
+import { BlockchainAPI } from './BlockchainAPI';
+import { FactoryAPI } from './FactoryAPI';
+import { SetTokenAPI } from './SetTokenAPI';
+
+/**
+ * @title SetBuilder
+ * @author Set Protocol
+ *
+ * Builds Sets from target component weights. Units and a natural unit are calculated for the weights, prices and
+ * target price, the Set is created through the SetTokenFactory, and once the creation is mined the new Set is read
+ * back and checked against the units it was created with
+ */
+export class SetBuilder {
+  private web3: Web3;
+  private erc20: ERC20Wrapper;
+  private factory: FactoryAPI;
+  private blockchain: BlockchainAPI;
+  private setToken: SetTokenAPI;
+
+  /**
+   * Instantiates a new SetBuilder instance that contains methods for planning and creating Sets from target weights
+   *
+   * @param web3          Web3.js Provider instance you would like the SetProtocol.js library to use for interacting
+   *                        with the Ethereum network
+   * @param factory       An instance of FactoryAPI to calculate units and create Sets
+   * @param blockchain    An instance of BlockchainAPI to wait for the creation to be mined
+   * @param setToken      An instance of SetTokenAPI to read the created Set
+   */
+  constructor(web3: Web3, factory: FactoryAPI, blockchain: BlockchainAPI, setToken: SetTokenAPI) {
+    this.web3 = web3;
+    this.erc20 = new ERC20Wrapper(this.web3);
+    this.factory = factory;
+    this.blockchain = blockchain;
+    this.setToken = setToken;
+  }
+
+  /**
+   * Calculates the units and natural unit of a Set with the given component weights and target price, increasing the
+   * natural unit until the price of the Set is within `percentError` of the target, and reports the weights and price
+   * the units realize. Component decimals are read from the chain, and default to 18 for tokens that do not
+   * implement `decimals`
+   *
+   * Units are calculated with `calculateSetUnits` rather than `calculateOptimalSetUnits` because a build is planned
+   * against a target price. `calculateOptimalSetUnits` only bounds the weight error, so it stops at the first natural
+   * unit whose rounded units realize the weights, whatever the price. For two components at 50% that each need 2.5
+   * units, it returns units of 3 at a natural unit of 1: exact weights, but a Set 20% above the target price
+   *
+   * @param  components      List of objects conforming to `SetBuilderComponent` with the address, target weight and
+   *                           price of each component. Weights must add up to 1
+   * @param  targetPrice     Target price of one whole Set
+   * @param  percentError    Allowable price error percentage of the Set price from the target price. Defaults to 10
+   * @return                 Object conforming to `SetBuildPlan` with the units and natural unit to create the Set
+   *                           with, and the realized weights, price and price error percentage
+   */
+  public async planAsync(
+    components: SetBuilderComponent[],
+    targetPrice: BigNumber,
+    percentError: number = 10,
+  ): Promise<SetBuildPlan> {
+    const componentAddresses = _.map(components, component => component.address);
+    const prices = _.map(components, component => component.price);
+    const targetWeights = _.map(components, component => component.weight);
+
+    const decimals = await Promise.all(_.map(componentAddresses, address => this.erc20.decimalsOrDefault(address)));
+
+    const { units, naturalUnit } = this.factory.calculateSetUnits(
+      componentAddresses,
+      decimals,
+      prices,
+      targetWeights,
+      targetPrice,
+      percentError,
+    );
+
+    const componentValues = _.map(units, (unit, index) => {
+      return unit.mul(E18).div(naturalUnit).mul(prices[index]).div(new BigNumber(10).pow(decimals[index]));
+    });
+    const realizedPrice = _.reduce(componentValues, (sum, value) => sum.add(value), ZERO);
+
+    return {
+      components: componentAddresses,
+      units,
+      naturalUnit,
+      targetWeights,
+      realizedWeights: _.map(componentValues, value => value.div(realizedPrice)),
+      targetPrice,
+      realizedPrice,
+      percentError: calculatePercentDifference(realizedPrice, targetPrice).mul(100),
+    };
+  }
+
+  /**
+   * Plans a Set with `planAsync`, creates it through the SetTokenFactory and waits for the creation to be mined. The
+   * new Set is read back and verified to have the planned components, units and natural unit
+   *
+   * @param  components      List of objects conforming to `SetBuilderComponent` with the address, target weight and
+   *                           price of each component. Weights must add up to 1
+   * @param  targetPrice     Target price of one whole Set
+   * @param  name            Name for the Set, i.e. "DEX Set"
+   * @param  symbol          Symbol for the Set, i.e. "DEX"
+   * @param  txOpts          Transaction options object conforming to `Tx` with signer, gas, and gasPrice data
+   * @param  percentError    Allowable price error percentage of the Set price from the target price. Defaults to 10
+   * @param  miningOpts      Object conforming to `TransactionMiningOpts` with the polling interval, timeout and
+   *                           cancellation signal used while waiting for the creation to be mined
+   * @return                 Object conforming to `SetBuildResult` with the plan, the creation transaction hash and the
+   *                           `SetDetails` of the new Set
+   */
+  public async buildAsync(
+    components: SetBuilderComponent[],
+    targetPrice: BigNumber,
+    name: string,
+    symbol: string,
+    txOpts: Tx,
+    percentError: number = 10,
+    miningOpts: TransactionMiningOpts = {},
+  ): Promise<SetBuildResult> {
+    const plan = await this.planAsync(components, targetPrice, percentError);
+
+    const txHash = await this.factory.createSetAsync(
+      plan.components,
+      plan.units,
+      plan.naturalUnit,
+      name,
+      symbol,
+      txOpts,
+    );
+
+    const receipt = await this.blockchain.awaitTransactionMinedAsync(
+      txHash,
+      miningOpts.pollingIntervalMs,
+      miningOpts.timeoutMs,
+      miningOpts.signal,
+    );
+    if (isRevertedReceipt(receipt)) {
+      throw new SetCreationFailedError(txHash);
+    }
+
+    const setAddress = await this.factory.getSetAddressFromCreateTxHash(txHash);
+    const details = await this.setToken.getDetailsAsync(setAddress);
+    this.verifySetDetails(details, plan);
+
+    return { plan, txHash, details };
+  }
+
+  /* ============ Private Functions ============ */
+
+  private verifySetDetails(details: SetDetails, plan: SetBuildPlan): void {
+    const components = _.map(details.components, component => component.address.toLowerCase());
+    if (!_.isEqual(components, _.map(plan.components, address => address.toLowerCase()))) {
+      throw new SetVerificationError(details.address, 'components');
+    }
+
+    const unitsMatch = details.components.length === plan.units.length &&
+      _.every(details.components, (component, index) => component.unit.eq(plan.units[index]));
+    if (!unitsMatch) {
+      throw new SetVerificationError(details.address, 'units');
+    }
+
+    if (!details.naturalUnit.eq(plan.naturalUnit)) {
+      throw new SetVerificationError(details.address, 'natural unit');
+    }
+  }
+}
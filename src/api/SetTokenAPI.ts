@@ -19,12 +19,20 @@
 import * as _ from 'lodash';
 import Web3 from 'web3';
 
-import { ZERO } from '../constants';
-import { coreAPIErrors, setTokenAssertionsErrors } from '../errors';
+import { E18, ZERO } from '../constants';
+import { NotComponentError, NotMultipleOfNaturalUnitError, QuantityNotPositiveError } from '../errors';
 import { Assertions } from '../assertions';
 import { ERC20Wrapper, SetTokenWrapper } from '../wrappers';
 import { BigNumber, calculatePartialAmount } from '../util';
-import { Address, Component, SetDetails } from '../types/common';
+import {
+  Address,
+  Component,
+  ComponentNav,
+  PriceSource,
+  SetComparison,
+  SetDetails,
+  SetNav,
+} from '../types/common';
 
 /**
  * @title SetTokenAPI
@@ -185,6 +193,121 @@ export class SetTokenAPI {
     } as SetDetails;
   }
 
+  /**
+   * Calculates the net asset value of a Set from the prices of its components. Component decimals are read from the
+   * chain, and default to 18 for tokens that do not implement `decimals`
+   *
+   * @param  setAddress     Address of the Set
+   * @param  priceSource    Source of the price of one whole component token, such as a `StaticPriceSource`,
+   *                          `CallbackPriceSource` or `MedianizerPriceSource`
+   * @return                Object conforming to `SetNav` interface with the value of a natural unit and of a whole
+   *                          Set, and the value each component contributes to them
+   */
+  public async getNavAsync(setAddress: Address, priceSource: PriceSource): Promise<SetNav> {
+    this.assert.schema.isValidAddress('setAddress', setAddress);
+
+    const [naturalUnit, componentAddresses, componentUnits] = await Promise.all([
+      this.setToken.naturalUnit(setAddress),
+      this.setToken.getComponents(setAddress),
+      this.setToken.getUnits(setAddress),
+    ]);
+
+    const [decimals, prices] = await Promise.all([
+      Promise.all(_.map(componentAddresses, address => this.erc20.decimalsOrDefault(address))),
+      Promise.all(_.map(componentAddresses, address => priceSource.getPriceAsync(address))),
+    ]);
+
+    const components: ComponentNav[] = _.map(componentAddresses, (address, index) => {
+      const valuePerNaturalUnit = componentUnits[index].mul(prices[index]).div(new BigNumber(10).pow(decimals[index]));
+
+      return {
+        address,
+        unit: componentUnits[index],
+        decimals: decimals[index],
+        price: prices[index],
+        valuePerNaturalUnit,
+        valuePerToken: valuePerNaturalUnit.mul(E18).div(naturalUnit),
+      };
+    });
+
+    return {
+      address: setAddress,
+      naturalUnit,
+      valuePerNaturalUnit: _.reduce(components, (sum, component) => sum.add(component.valuePerNaturalUnit), ZERO),
+      valuePerToken: _.reduce(components, (sum, component) => sum.add(component.valuePerToken), ZERO),
+      components,
+    };
+  }
+
+  /**
+   * Previews the tokens exchanged when rebalancing a quantity of one Set into another, before any rebalance is
+   * proposed. The combined token array and units are built the way `RebalancingSetToken` builds them when a rebalance
+   * starts: the components of the current Set followed by the components of the next Set it does not hold, with units
+   * scaled to the larger of the two natural units. Flows are those of a bid at a price of 1, where each unit of the
+   * current Set is exchanged for a unit of the next Set
+   *
+   * @param  currentSetAddress    Address of the Set being rebalanced out of
+   * @param  nextSetAddress       Address of the Set being rebalanced into
+   * @param  quantity             Amount of the current Set to rebalance, in base units. Must be a multiple of the
+   *                                larger natural unit
+   * @return                      Object conforming to `SetComparison` with the combined token array and units, and
+   *                                the inflows a bidder sends and outflows a bidder receives in whole tokens.
+   *                                Token flows of 0 are omitted
+   */
+  public async compareSetsAsync(
+    currentSetAddress: Address,
+    nextSetAddress: Address,
+    quantity: BigNumber,
+  ): Promise<SetComparison> {
+    this.assert.schema.isValidAddress('currentSetAddress', currentSetAddress);
+    this.assert.schema.isValidAddress('nextSetAddress', nextSetAddress);
+    this.assert.common.greaterThanZero(quantity, () => new QuantityNotPositiveError(quantity));
+
+    const [currentSet, nextSet] = await Promise.all([
+      this.getDetailsAsync(currentSetAddress),
+      this.getDetailsAsync(nextSetAddress),
+    ]);
+
+    const naturalUnit = BigNumber.max(currentSet.naturalUnit, nextSet.naturalUnit);
+    if (!quantity.mod(naturalUnit).eq(ZERO)) {
+      throw new NotMultipleOfNaturalUnitError('quantity', quantity, naturalUnit);
+    }
+
+    const currentComponents = _.map(currentSet.components, component => component.address);
+    const combinedTokenArray = _.unionBy(
+      currentComponents,
+      _.map(nextSet.components, component => component.address),
+      address => address.toLowerCase(),
+    );
+
+    const combinedCurrentUnits = this.calculateCombinedUnits(combinedTokenArray, currentSet, naturalUnit);
+    const combinedNextSetUnits = this.calculateCombinedUnits(combinedTokenArray, nextSet, naturalUnit);
+    const unitDifferences = _.map(combinedNextSetUnits, (unit, index) => unit.sub(combinedCurrentUnits[index]));
+
+    const decimals = await Promise.all(_.map(combinedTokenArray, address => this.erc20.decimalsOrDefault(address)));
+    const tokenFlows = _.map(unitDifferences, (unitDifference, index) => {
+      const baseUnits = calculatePartialAmount(unitDifference.abs(), quantity, naturalUnit);
+
+      return {
+        address: combinedTokenArray[index],
+        unit: baseUnits.div(new BigNumber(10).pow(decimals[index])),
+      } as Component;
+    });
+
+    return {
+      currentSetAddress,
+      nextSetAddress,
+      quantity,
+      naturalUnit,
+      combinedTokenArray,
+      combinedCurrentUnits,
+      combinedNextSetUnits,
+      unitDifferences,
+      inflow: _.filter(tokenFlows, (flow, index) => unitDifferences[index].gt(ZERO)),
+      outflow: _.filter(tokenFlows, (flow, index) => unitDifferences[index].lt(ZERO)),
+    };
+  }
+
   /**
    * Validates whether the quantity of a Set to issue or redeem in is a multiple of the Set's natural unit
    *
@@ -200,27 +323,43 @@ export class SetTokenAPI {
     return quantity.mod(naturalUnit).eq(ZERO);
   }
 
+  /* ============ Private Functions ============ */
+
+  private calculateCombinedUnits(
+    combinedTokenArray: Address[],
+    set: SetDetails,
+    naturalUnit: BigNumber,
+  ): BigNumber[] {
+    return _.map(combinedTokenArray, address => {
+      const component = _.find(set.components, setComponent => {
+        return setComponent.address.toLowerCase() === address.toLowerCase();
+      });
+
+      return component ? calculatePartialAmount(component.unit, naturalUnit, set.naturalUnit) : ZERO;
+    });
+  }
+
   /* ============ Private Assertions ============ */
 
   private assertIsMultipleOfNaturalUnitAsync(setAddress: Address, quantity: BigNumber) {
     this.assert.schema.isValidAddress('setAddress', setAddress);
-    this.assert.common.greaterThanZero(quantity, coreAPIErrors.QUANTITY_NEEDS_TO_BE_POSITIVE(quantity));
+    this.assert.common.greaterThanZero(quantity, () => new QuantityNotPositiveError(quantity));
   }
 
   private assertcalculateComponentAmountsForIssuance(setAddress: Address, quantity: BigNumber) {
     this.assert.schema.isValidAddress('setAddress', setAddress);
-    this.assert.common.greaterThanZero(quantity, coreAPIErrors.QUANTITY_NEEDS_TO_BE_POSITIVE(quantity));
+    this.assert.common.greaterThanZero(quantity, () => new QuantityNotPositiveError(quantity));
   }
 
   private async assertCalculateUnitTransferred(setAddress: Address, componentAddress: Address, quantity: BigNumber) {
     this.assert.schema.isValidAddress('setAddress', setAddress);
     this.assert.schema.isValidAddress('componentAddress', componentAddress);
-    this.assert.common.greaterThanZero(quantity, coreAPIErrors.QUANTITY_NEEDS_TO_BE_POSITIVE(quantity));
+    this.assert.common.greaterThanZero(quantity, () => new QuantityNotPositiveError(quantity));
 
     const componentAddresses = await this.setToken.getComponents(setAddress);
     const componentIndex = _.indexOf(componentAddresses, componentAddress);
     if (componentIndex < 0) {
-      throw new Error(setTokenAssertionsErrors.IS_NOT_COMPONENT(setAddress, componentAddress));
+      throw new NotComponentError(setAddress, componentAddress);
     }
   }
 }
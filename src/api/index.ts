@@ -19,6 +19,7 @@
 import { AccountingAPI } from './AccountingAPI';
 import { BlockchainAPI } from './BlockchainAPI';
 import { ERC20API } from './ERC20API';
+import { EventsAPI } from './EventsAPI';
 import { ExchangeIssuanceAPI } from './ExchangeIssuanceAPI';
 import { FactoryAPI } from './FactoryAPI';
 import { IssuanceAPI } from './IssuanceAPI';
@@ -27,6 +28,7 @@ import { PriceFeedAPI } from './PriceFeedAPI';
 import { RebalancingAPI } from './RebalancingAPI';
 import { RebalancingManagerAPI } from './RebalancingManagerAPI';
 export { RebalancingSetIssuanceAPI } from './RebalancingSetIssuanceAPI';
+import { SetBuilder } from './SetBuilder';
 import { SetTokenAPI } from './SetTokenAPI';
 import { SystemAPI } from './SystemAPI';
 
@@ -34,6 +36,7 @@ export {
   AccountingAPI,
   BlockchainAPI,
   ERC20API,
+  EventsAPI,
   ExchangeIssuanceAPI,
   FactoryAPI,
   IssuanceAPI,
@@ -41,6 +44,7 @@ export {
   PriceFeedAPI,
   RebalancingAPI,
   RebalancingManagerAPI,
+  SetBuilder,
   SetTokenAPI,
   SystemAPI
 };
@@ -18,11 +18,12 @@
 
 import { NULL_ADDRESS } from '../constants';
 import { Address } from 'set-protocol-utils';
+import { AssertionError, toError } from './CommonAssertions';
 
 export class AccountAssertions {
-  public notNull(account: Address, errorMessage: string) {
+  public notNull(account: Address, errorMessage: AssertionError) {
     if (account === NULL_ADDRESS) {
-      throw new Error(errorMessage);
+      throw toError(errorMessage);
     }
   }
 }
@@ -20,93 +20,108 @@ import * as _ from 'lodash';
 import { BigNumber } from '../util';
 import { ZERO } from '../constants';
 
+export type AssertionError = string | (() => Error);
+
 export class CommonAssertions {
-  public greaterThanZero(quantity: BigNumber, errorMessage: string) {
+  public greaterThanZero(quantity: BigNumber, errorMessage: AssertionError) {
     if (quantity.lte(ZERO)) {
-      throw new Error(errorMessage);
+      throw toError(errorMessage);
     }
   }
 
-  public includes(arr1: any[], val: any, errorMessage: string) {
+  public includes(arr1: any[], val: any, errorMessage: AssertionError) {
     if (!arr1.includes(val)) {
-      throw new Error(errorMessage);
+      throw toError(errorMessage);
     }
   }
 
-  public isEqualLength(arr1: any[], arr2: any[], errorMessage: string) {
+  public isEqualLength(arr1: any[], arr2: any[], errorMessage: AssertionError) {
     if (arr1.length !== arr2.length) {
-      throw new Error(errorMessage);
+      throw toError(errorMessage);
     }
   }
 
-  public isGreaterThan(quantity1: BigNumber, quantity2: BigNumber, errorMessage: string) {
+  public isGreaterThan(quantity1: BigNumber, quantity2: BigNumber, errorMessage: AssertionError) {
     if (quantity1.lte(quantity2)) {
-      throw new Error(errorMessage);
+      throw toError(errorMessage);
     }
   }
 
-  public isGreaterOrEqualThan(quantity1: BigNumber, quantity2: BigNumber, errorMessage: string) {
+  public isGreaterOrEqualThan(quantity1: BigNumber, quantity2: BigNumber, errorMessage: AssertionError) {
     if (quantity1.lt(quantity2)) {
-      throw new Error(errorMessage);
+      throw toError(errorMessage);
     }
   }
 
-  public isValidString(value: string, errorMessage: string) {
+  public isValidString(value: string, errorMessage: AssertionError) {
     if (!value) {
-      throw new Error(errorMessage);
+      throw toError(errorMessage);
     }
   }
 
-  public isNotUndefined(value: any, errorMessage: string) {
+  public isNotUndefined(value: any, errorMessage: AssertionError) {
     if (!value) {
-      throw new Error(errorMessage);
+      throw toError(errorMessage);
     }
   }
 
-  public isNotEmptyArray(array: any[], errorMessage: string) {
+  public isNotEmptyArray(array: any[], errorMessage: AssertionError) {
     if (array.length == 0) {
-      throw new Error(errorMessage);
+      throw toError(errorMessage);
     }
   }
 
-  public isValidExpiration(expiration: BigNumber, errorMessage: string) {
+  public isValidExpiration(expiration: BigNumber, errorMessage: AssertionError) {
     if (Date.now() > expiration.times(1000).toNumber()) {
-      throw new Error(errorMessage);
+      throw toError(errorMessage);
     }
   }
 
-  public isValidLength(arr: any[], len: number, errorMessage: string) {
+  public isValidLength(arr: any[], len: number, errorMessage: AssertionError) {
     if (arr.length !== len) {
-      throw new Error(errorMessage);
+      throw toError(errorMessage);
     }
   }
 
-  public isEqualBigNumber(bigNumber1: BigNumber, bigNumber2: BigNumber, errorMessage: string) {
+  public isEqualBigNumber(bigNumber1: BigNumber, bigNumber2: BigNumber, errorMessage: AssertionError) {
     if (!bigNumber1.eq(bigNumber2)) {
-      throw new Error(errorMessage);
+      throw toError(errorMessage);
     }
   }
 
-  public isEqualAddress(address1: string, address2: string, errorMessage: string) {
+  public isEqualAddress(address1: string, address2: string, errorMessage: AssertionError) {
     if (address1.toLowerCase() !== address2.toLowerCase()) {
-      throw new Error(errorMessage);
+      throw toError(errorMessage);
     }
   }
 
-  public isDifferentAddress(address1: string, address2: string, errorMessage: string) {
+  public isDifferentAddress(address1: string, address2: string, errorMessage: AssertionError) {
     if (address1.toLowerCase() == address2.toLowerCase()) {
-      throw new Error(errorMessage);
+      throw toError(errorMessage);
     }
   }
 
-  public verifyProportionsSumToOne(percentages: BigNumber[], errorMesage: string) {
+  public verifyProportionsSumToOne(percentages: BigNumber[], errorMesage: AssertionError) {
     let total: BigNumber = ZERO;
     _.each(percentages, percentage => {
       total = total.add(percentage);
     });
 
     if (!total.eq(new BigNumber(1))) {
-      throw new Error(errorMesage);
+      throw toError(errorMesage);
     }
   }
 }
+
+/* ============ Helper Functions ============ */
+
+/**
+ * Builds the error thrown by a failed assertion. Typed errors are passed as factories so they are only
+ * constructed when the assertion fails.
+ *
+ * @param  error    Error message or factory of the error to throw
+ * @return          Error to throw
+ */
+export function toError(error: AssertionError): Error {
+  return typeof error === 'string' ? new Error(error) : error();
+}
@@ -20,7 +20,7 @@ import * as _ from 'lodash';
 import Web3 from 'web3';
 import { Address } from 'set-protocol-utils';
 import { CoreContract } from 'set-protocol-contracts';
-import { coreAssertionErrors } from '../errors';
+import { MissingCoreMethodError } from '../errors';
 
 
 export class CoreAssertions {
@@ -44,7 +44,7 @@ export class CoreAssertions {
       await coreContract.transferProxy.callAsync();
       await coreContract.owner.callAsync();
     } catch (error) {
-      throw new Error(coreAssertionErrors.MISSING_CORE_METHOD(coreAddress));
+      throw new MissingCoreMethodError(coreAddress);
     }
   }
 }
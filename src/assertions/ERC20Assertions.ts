@@ -20,8 +20,8 @@ import { Address } from 'set-protocol-utils';
 import { ERC20DetailedContract } from 'set-protocol-contracts';
 import Web3 from 'web3';
 
-import { erc20AssertionErrors } from '../errors';
-import { BigNumber } from '../util';
+import { InsufficientAllowanceError, InsufficientBalanceError, MissingERC20MethodError } from '../errors';
+import { BigNumber, Preflight } from '../util';
 
 export class ERC20Assertions {
   private web3: Web3;
@@ -43,7 +43,7 @@ export class ERC20Assertions {
         tokenContract.totalSupply.callAsync(),
       ]);
     } catch (error) {
-      throw new Error(erc20AssertionErrors.MISSING_ERC20_METHOD(tokenAddress));
+      throw new MissingERC20MethodError(tokenAddress);
     }
   }
 
@@ -57,12 +57,12 @@ export class ERC20Assertions {
     const userBalance = await tokenContract.balanceOf.callAsync(userAddress);
 
     if (userBalance.lt(requiredBalance)) {
-      throw new Error(erc20AssertionErrors.INSUFFICIENT_BALANCE(
+      throw new InsufficientBalanceError(
         tokenAddress,
         userAddress,
         userBalance,
         requiredBalance,
-      ));
+      );
     }
   }
 
@@ -77,13 +77,42 @@ export class ERC20Assertions {
     const payerAllowance = await tokenContract.allowance.callAsync(ownerAddress, spenderAddress);
 
     if (payerAllowance.lt(requiredAllowance)) {
-      throw new Error(erc20AssertionErrors.INSUFFICIENT_ALLOWANCE(
+      throw new InsufficientAllowanceError(
         tokenAddress,
         ownerAddress,
         spenderAddress,
         payerAllowance,
         requiredAllowance,
-      ));
+      );
+    }
+  }
+
+  /**
+   * Records a preflight failure for every token the owner doesn't have a sufficient balance of, or hasn't granted the
+   * spender a sufficient allowance of
+   *
+   * @param  preflight          Preflight the failures are recorded in
+   * @param  tokenAddresses     Addresses of the tokens to transfer
+   * @param  ownerAddress       Address of the owner of the tokens
+   * @param  spenderAddress     Address of the spender of the tokens
+   * @param  requiredAmounts    Amount of each token to transfer
+   */
+  public async preflightTransfers(
+    preflight: Preflight,
+    tokenAddresses: Address[],
+    ownerAddress: Address,
+    spenderAddress: Address,
+    requiredAmounts: BigNumber[],
+  ): Promise<void> {
+    for (let i = 0; i < tokenAddresses.length; i++) {
+      await preflight.checkAsync(
+        'sufficientBalance',
+        () => this.hasSufficientBalanceAsync(tokenAddresses[i], ownerAddress, requiredAmounts[i]),
+      );
+      await preflight.checkAsync(
+        'sufficientAllowance',
+        () => this.hasSufficientAllowanceAsync(tokenAddresses[i], ownerAddress, spenderAddress, requiredAmounts[i]),
+      );
     }
   }
 }
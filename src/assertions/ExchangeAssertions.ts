@@ -21,11 +21,18 @@ import Web3 from 'web3';
 import { ExchangeIssuanceParams, SetProtocolUtils } from 'set-protocol-utils';
 
 
-import { coreAPIErrors, exchangeErrors } from '../errors';
+import {
+  ArrayLengthMismatchError,
+  EmptyArrayError,
+  InsufficientComponentLiquidityError,
+  InsufficientLiquidityError,
+  InvalidExchangeIdError,
+  QuantityNotPositiveError,
+} from '../errors';
 import { CommonAssertions } from './CommonAssertions';
 import { ERC20Assertions } from './ERC20Assertions';
 import { SetTokenAssertions } from './SetTokenAssertions';
-import { BigNumber, calculatePartialAmount } from '../util';
+import { BigNumber, calculatePartialAmount, Preflight } from '../util';
 import { Address, KyberTrade, ZeroExSignedFillOrder } from '../types/common';
 import { ZERO } from '../constants';
 
@@ -55,11 +62,11 @@ export class ExchangeAssertions {
       receiveTokenAmounts,
     } = exchangeIssuanceParams;
 
-    this.commonAssertions.greaterThanZero(quantity, coreAPIErrors.QUANTITY_NEEDS_TO_BE_POSITIVE(quantity));
+    this.commonAssertions.greaterThanZero(quantity, () => new QuantityNotPositiveError(quantity));
     this.commonAssertions.isEqualLength(
       receiveTokens,
       receiveTokenAmounts,
-      coreAPIErrors.ARRAYS_EQUAL_LENGTHS('receiveTokens', 'receiveTokenAmounts'),
+      () => new ArrayLengthMismatchError('receiveTokens', 'receiveTokenAmounts'),
     );
 
     // Set must be enabled by Core to be issued or redeemed and quantity must be multiple of natural unit
@@ -74,6 +81,145 @@ export class ExchangeAssertions {
     await this.assertExchangeIssuanceOrdersValidity(exchangeIssuanceParams, orders);
   }
 
+  /**
+   * Runs the assertions of `assertExchangeIssuanceParams` without stopping at the first failure, recording a failure
+   * for each invalid send token, receive token and order
+   *
+   * @param  preflight                 Preflight the failures are recorded in
+   * @param  exchangeIssuanceParams    Parameters of the exchange issuance
+   * @param  orders                    A list of signed 0x orders or kyber trades
+   * @param  coreAddress               Address of Core
+   */
+  public async preflightExchangeIssuanceParams(
+    preflight: Preflight,
+    exchangeIssuanceParams: ExchangeIssuanceParams,
+    orders: (KyberTrade | ZeroExSignedFillOrder)[],
+    coreAddress: Address,
+  ): Promise<void> {
+    const {
+      setAddress,
+      sendTokens,
+      sendTokenAmounts,
+      sendTokenExchangeIds,
+      quantity,
+      receiveTokens,
+      receiveTokenAmounts,
+    } = exchangeIssuanceParams;
+
+    await preflight.checkAsync(
+      'positiveQuantity',
+      () => this.commonAssertions.greaterThanZero(quantity, () => new QuantityNotPositiveError(quantity)),
+    );
+
+    const isValidSet = await preflight.checkAsync(
+      'validSet',
+      () => this.setTokenAssertions.isValidSetToken(coreAddress, setAddress),
+    );
+    if (isValidSet) {
+      await preflight.checkAsync(
+        'multipleOfNaturalUnit',
+        () => this.setTokenAssertions.isMultipleOfNaturalUnit(
+          setAddress,
+          quantity,
+          `Quantity of Exchange issue Params`,
+        ),
+      );
+    }
+
+    const validExchangeIds = [
+      SetProtocolUtils.EXCHANGES.ZERO_EX,
+      SetProtocolUtils.EXCHANGES.KYBER,
+    ].map(exchangeEnumeration => exchangeEnumeration.toString());
+
+    await preflight.checkAsync(
+      'sendTokensNotEmpty',
+      () => this.commonAssertions.isNotEmptyArray(sendTokens, () => new EmptyArrayError('sendTokens')),
+    );
+    const hasSendTokenAmounts = await preflight.checkAsync(
+      'sendTokenAmountsLength',
+      () => this.commonAssertions.isEqualLength(
+        sendTokens,
+        sendTokenAmounts,
+        () => new ArrayLengthMismatchError('sendTokens', 'sendTokenAmounts'),
+      ),
+    );
+    const hasSendTokenExchangeIds = await preflight.checkAsync(
+      'sendTokenExchangeIdsLength',
+      () => this.commonAssertions.isEqualLength(
+        sendTokens,
+        sendTokenExchangeIds,
+        () => new ArrayLengthMismatchError('sendTokens', 'sendTokenExchangeIds'),
+      ),
+    );
+    for (let i = 0; i < sendTokens.length; i++) {
+      if (hasSendTokenAmounts) {
+        await preflight.checkAsync(
+          'positiveSendTokenAmount',
+          () => this.commonAssertions.greaterThanZero(
+            sendTokenAmounts[i],
+            () => new QuantityNotPositiveError(sendTokenAmounts[i]),
+          ),
+        );
+      }
+
+      if (hasSendTokenExchangeIds) {
+        const exchangeId = sendTokenExchangeIds[i].toString();
+        await preflight.checkAsync(
+          'validExchangeId',
+          () => this.commonAssertions.includes(
+            validExchangeIds,
+            exchangeId,
+            () => new InvalidExchangeIdError(exchangeId),
+          ),
+        );
+      }
+    }
+
+    await preflight.checkAsync(
+      'receiveTokensNotEmpty',
+      () => this.commonAssertions.isNotEmptyArray(receiveTokens, () => new EmptyArrayError('receiveTokens')),
+    );
+    const hasReceiveTokenAmounts = await preflight.checkAsync(
+      'receiveTokenAmountsLength',
+      () => this.commonAssertions.isEqualLength(
+        receiveTokens,
+        receiveTokenAmounts,
+        () => new ArrayLengthMismatchError('receiveTokens', 'receiveTokenAmounts'),
+      ),
+    );
+    if (hasReceiveTokenAmounts) {
+      for (const receiveTokenAmount of receiveTokenAmounts) {
+        await preflight.checkAsync(
+          'positiveReceiveTokenAmount',
+          () => this.commonAssertions.greaterThanZero(
+            receiveTokenAmount,
+            () => new QuantityNotPositiveError(receiveTokenAmount),
+          ),
+        );
+      }
+    }
+
+    for (const order of orders) {
+      await preflight.checkAsync('validOrder', async () => {
+        if (SetProtocolUtils.isZeroExOrder(order)) {
+          await this.isValidZeroExOrderFill(setAddress, quantity, order as ZeroExSignedFillOrder);
+        } else if (SetProtocolUtils.isKyberTrade(order)) {
+          this.isValidKyberTradeFill(setAddress, order as KyberTrade);
+        }
+      });
+    }
+
+    if (hasReceiveTokenAmounts) {
+      const componentAmountsFromLiquidity = this.calculateLiquidityFills(orders);
+      for (let i = 0; i < receiveTokens.length; i++) {
+        await preflight.checkAsync(
+          'sufficientLiquidity',
+          () => this.isValidLiquidityAmount(componentAmountsFromLiquidity, receiveTokens[i], receiveTokenAmounts[i]),
+        );
+      }
+    }
+  }
+
   public assertSendTokenInputs(
     sendTokens: Address[],
     sendTokenExchangeIds: BigNumber[],
@@ -85,27 +231,27 @@ export class ExchangeAssertions {
         SetProtocolUtils.EXCHANGES.KYBER,
       ].map(exchangeEnumeration => exchangeEnumeration.toString());
 
-      this.commonAssertions.isNotEmptyArray(sendTokens, coreAPIErrors.EMPTY_ARRAY('sendTokens'));
+      this.commonAssertions.isNotEmptyArray(sendTokens, () => new EmptyArrayError('sendTokens'));
       sendTokens.map((sendToken, i) => {
         this.commonAssertions.isEqualLength(
           sendTokens,
           sendTokenAmounts,
-          coreAPIErrors.ARRAYS_EQUAL_LENGTHS('sendTokens', 'sendTokenAmounts'),
+          () => new ArrayLengthMismatchError('sendTokens', 'sendTokenAmounts'),
         );
 
         this.commonAssertions.isEqualLength(
           sendTokens,
           sendTokenExchangeIds,
-          coreAPIErrors.ARRAYS_EQUAL_LENGTHS('sendTokens', 'sendTokenExchangeIds'),
+          () => new ArrayLengthMismatchError('sendTokens', 'sendTokenExchangeIds'),
         );
 
         this.commonAssertions.greaterThanZero(
           sendTokenAmounts[i],
-          coreAPIErrors.QUANTITY_NEEDS_TO_BE_POSITIVE(sendTokenAmounts[i]),
+          () => new QuantityNotPositiveError(sendTokenAmounts[i]),
         );
 
         const exchangeId = sendTokenExchangeIds[i].toString();
-        this.commonAssertions.includes(validExchangeIds, exchangeId, exchangeErrors.INVALID_EXCHANGE_ID(exchangeId));
+        this.commonAssertions.includes(validExchangeIds, exchangeId, () => new InvalidExchangeIdError(exchangeId));
       });
   }
 
@@ -114,17 +260,17 @@ export class ExchangeAssertions {
     receiveTokenAmounts: BigNumber[],
     setAddress: Address,
   ) {
-    this.commonAssertions.isNotEmptyArray(receiveTokens, coreAPIErrors.EMPTY_ARRAY('receiveTokens'));
+    this.commonAssertions.isNotEmptyArray(receiveTokens, () => new EmptyArrayError('receiveTokens'));
     receiveTokens.map((tokenAddress, i) => {
       this.commonAssertions.isEqualLength(
         receiveTokens,
         receiveTokenAmounts,
-        coreAPIErrors.ARRAYS_EQUAL_LENGTHS('receiveTokens', 'receiveTokenAmounts'),
+        () => new ArrayLengthMismatchError('receiveTokens', 'receiveTokenAmounts'),
       );
 
       this.commonAssertions.greaterThanZero(
         receiveTokenAmounts[i],
-        coreAPIErrors.QUANTITY_NEEDS_TO_BE_POSITIVE(receiveTokenAmounts[i]),
+        () => new QuantityNotPositiveError(receiveTokenAmounts[i]),
       );
     });
   }
@@ -171,23 +317,31 @@ export class ExchangeAssertions {
         quantity
       );
 
-      const normalizedTokenAddress = component.toLowerCase();
+      this.isValidLiquidityAmount(componentAmountsFromLiquidity, component, receiveTokenAmountForFillQuantity);
+    });
+  }
 
-      this.commonAssertions.isNotUndefined(
-        componentAmountsFromLiquidity[normalizedTokenAddress],
-        exchangeErrors.INSUFFIENT_LIQUIDITY_FOR_REQUIRED_COMPONENT(normalizedTokenAddress),
-      );
+  private isValidLiquidityAmount(
+    componentAmountsFromLiquidity: { [addr: string]: BigNumber },
+    component: Address,
+    receiveTokenAmountForFillQuantity: BigNumber,
+  ) {
+    const normalizedTokenAddress = component.toLowerCase();
+
+    this.commonAssertions.isNotUndefined(
+      componentAmountsFromLiquidity[normalizedTokenAddress],
+      () => new InsufficientLiquidityError(normalizedTokenAddress),
+    );
 
-      this.commonAssertions.isGreaterOrEqualThan(
+    this.commonAssertions.isGreaterOrEqualThan(
+      componentAmountsFromLiquidity[normalizedTokenAddress],
+      receiveTokenAmountForFillQuantity,
+      () => new InsufficientComponentLiquidityError(
+        normalizedTokenAddress,
         componentAmountsFromLiquidity[normalizedTokenAddress],
         receiveTokenAmountForFillQuantity,
-        exchangeErrors.INSUFFICIENT_COMPONENT_AMOUNT_FROM_LIQUIDITY(
-          normalizedTokenAddress,
-          componentAmountsFromLiquidity[normalizedTokenAddress],
-          receiveTokenAmountForFillQuantity,
-        ),
-      );
-    });
+      ),
+    );
   }
 
   private calculateLiquidityFills(
@@ -246,7 +400,7 @@ export class ExchangeAssertions {
   private isValidKyberTradeFill(setAddress: Address, trade: KyberTrade) {
     this.commonAssertions.greaterThanZero(
       trade.sourceTokenQuantity,
-      coreAPIErrors.QUANTITY_NEEDS_TO_BE_POSITIVE(trade.sourceTokenQuantity),
+      () => new QuantityNotPositiveError(trade.sourceTokenQuantity),
     );
 
     // TODO: Waiting on performance to see if this assertion is necessary. Conversion rate may not need to be
@@ -257,7 +411,7 @@ export class ExchangeAssertions {
     // this.commonAssertions.isGreaterOrEqualThan(
     //   amountComponentTokenFromTrade,
     //   trade.maxDestinationQuantity,
-    //   exchangeErrors.INSUFFICIENT_KYBER_SOURCE_TOKEN_FOR_RATE(
+    //   () => new InsufficientKyberSourceTokenError(
     //     trade.sourceTokenQuantity,
     //     amountComponentTokenFromTrade,
     //     trade.destinationToken
@@ -272,7 +426,7 @@ export class ExchangeAssertions {
   ) {
     this.commonAssertions.greaterThanZero(
       zeroExOrder.fillAmount,
-      coreAPIErrors.QUANTITY_NEEDS_TO_BE_POSITIVE(zeroExOrder.fillAmount),
+      () => new QuantityNotPositiveError(zeroExOrder.fillAmount),
     );
 
     // 0x order maker has sufficient balance of the maker token
@@ -19,13 +19,13 @@
 import * as _ from 'lodash';
 import Web3 from 'web3';
 
-import { coreAPIErrors } from '../errors';
+import { QuantityNotPositiveError } from '../errors';
 import { CommonAssertions } from './CommonAssertions';
 import { ERC20Assertions } from './ERC20Assertions';
 import { SchemaAssertions } from './SchemaAssertions';
 import { SetTokenAssertions } from './SetTokenAssertions';
 import { RebalancingSetTokenWrapper, SetTokenWrapper } from '../wrappers';
-import { BigNumber } from '../util';
+import { BigNumber, Preflight } from '../util';
 import { Address } from '../types/common';
 
 export class IssuanceAssertions {
@@ -61,7 +61,7 @@ export class IssuanceAssertions {
     this.schemaAssertions.isValidAddress('setAddress', setTokenAddress);
     this.commonAssertions.greaterThanZero(
       setTokenQuantity,
-      coreAPIErrors.QUANTITY_NEEDS_TO_BE_POSITIVE(setTokenQuantity),
+      () => new QuantityNotPositiveError(setTokenQuantity),
     );
 
     await this.setTokenAssertions.isMultipleOfNaturalUnit(
@@ -84,6 +84,60 @@ export class IssuanceAssertions {
     );
   }
 
+  /**
+   * Runs the assertions of `assertSetTokenIssue` without stopping at the first failure, recording a failure for each
+   * component the caller lacks balance or allowance of
+   *
+   * @param  preflight               Preflight the failures are recorded in
+   * @param  setTokenAddress         Address of the Set to issue
+   * @param  setTokenQuantity        Amount of the Set to issue
+   * @param  transactionCaller       Address of the issuer
+   * @param  transferProxyAddress    Address of the Transfer Proxy
+   */
+  public async preflightSetTokenIssue(
+    preflight: Preflight,
+    setTokenAddress: Address,
+    setTokenQuantity: BigNumber,
+    transactionCaller: Address,
+    transferProxyAddress: Address,
+  ): Promise<void> {
+    await preflight.checkAsync(
+      'validCaller',
+      () => this.schemaAssertions.isValidAddress('transactionCaller', transactionCaller),
+    );
+    await preflight.checkAsync(
+      'validSetAddress',
+      () => this.schemaAssertions.isValidAddress('setAddress', setTokenAddress),
+    );
+
+    // The remaining checks read from the Set and the caller's balances
+    if (!preflight.hasPassed()) {
+      return;
+    }
+
+    await preflight.checkAsync(
+      'positiveQuantity',
+      () => this.commonAssertions.greaterThanZero(
+        setTokenQuantity,
+        () => new QuantityNotPositiveError(setTokenQuantity),
+      ),
+    );
+    await preflight.checkAsync(
+      'multipleOfNaturalUnit',
+      () => this.setTokenAssertions.isMultipleOfNaturalUnit(setTokenAddress, setTokenQuantity, 'Issuance quantity'),
+    );
+    await preflight.checkAsync(
+      'componentTransfers',
+      () => this.setTokenAssertions.preflightComponentTransfers(
+        preflight,
+        setTokenAddress,
+        transactionCaller,
+        transferProxyAddress,
+        setTokenQuantity,
+      ),
+    );
+  }
+
   /**
    * Makes the following assertions on a Rebalancing Set Token Issuance:
    * 1) Rebalancing Set quantity is a multiple of the natural unit
@@ -100,7 +154,7 @@ export class IssuanceAssertions {
     this.schemaAssertions.isValidAddress('setAddress', rebalancingSetTokenAddress);
     this.commonAssertions.greaterThanZero(
       rebalancingSetTokenQuantity,
-      coreAPIErrors.QUANTITY_NEEDS_TO_BE_POSITIVE(rebalancingSetTokenQuantity),
+      () => new QuantityNotPositiveError(rebalancingSetTokenQuantity),
     );
 
     await this.setTokenAssertions.isMultipleOfNaturalUnit(
@@ -152,7 +206,7 @@ export class IssuanceAssertions {
     this.schemaAssertions.isValidAddress('setAddress', rebalancingSetTokenAddress);
     this.commonAssertions.greaterThanZero(
       rebalancingSetTokenQuantity,
-      coreAPIErrors.QUANTITY_NEEDS_TO_BE_POSITIVE(rebalancingSetTokenQuantity),
+      () => new QuantityNotPositiveError(rebalancingSetTokenQuantity),
     );
 
     await this.setTokenAssertions.isMultipleOfNaturalUnit(
@@ -215,7 +269,7 @@ export class IssuanceAssertions {
     this.schemaAssertions.isValidAddress('setAddress', setTokenAddress);
     this.commonAssertions.greaterThanZero(
       setTokenQuantity,
-      coreAPIErrors.QUANTITY_NEEDS_TO_BE_POSITIVE(setTokenQuantity),
+      () => new QuantityNotPositiveError(setTokenQuantity),
     );
 
     await this.setTokenAssertions.isMultipleOfNaturalUnit(
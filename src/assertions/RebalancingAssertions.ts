@@ -20,7 +20,7 @@ import * as _ from 'lodash';
 import Web3 from 'web3';
 import { Address } from 'set-protocol-utils';
 
-import { CommonAssertions } from './CommonAssertions';
+import { AssertionError, CommonAssertions, toError } from './CommonAssertions';
 import { ERC20Assertions } from './ERC20Assertions';
 import {
   CoreContract,
@@ -28,8 +28,20 @@ import {
   RebalancingSetTokenContract,
   SetTokenContract,
 } from 'set-protocol-contracts';
-import { rebalancingErrors } from '../errors';
-import { BigNumber } from '../util';
+import {
+  BidExceedsRemainingSetsError,
+  BidNotMultipleOfMinimumBidError,
+  IncorrectRebalanceStateError,
+  InsufficientTimePassedError,
+  InvalidDrawdownError,
+  InvalidPriceCurveError,
+  InvalidProposedNaturalUnitError,
+  NotEnoughSetsRebalancedError,
+  NotRebalancingManagerError,
+  PivotTimeNotPassedError,
+  RebalanceInProgressError,
+} from '../errors';
+import { BigNumber, Preflight } from '../util';
 import { RebalancingState } from '../types/common';
 
 const moment = require('moment');
@@ -55,7 +67,7 @@ export class RebalancingAssertions {
 
     const currentState = await rebalancingSetTokenInstance.rebalanceState.callAsync();
     if (currentState.lt(RebalancingState.PROPOSAL)) {
-      throw new Error(rebalancingErrors.INCORRECT_STATE(rebalancingSetTokenAddress, 'Proposal'));
+      throw new IncorrectRebalanceStateError(rebalancingSetTokenAddress, 'Proposal');
     }
   }
 
@@ -69,7 +81,7 @@ export class RebalancingAssertions {
 
     const currentState = await rebalancingSetTokenInstance.rebalanceState.callAsync();
     if (currentState.lt(RebalancingState.REBALANCE)) {
-      throw new Error(rebalancingErrors.INCORRECT_STATE(rebalancingSetTokenAddress, 'Rebalance'));
+      throw new IncorrectRebalanceStateError(rebalancingSetTokenAddress, 'Rebalance');
     }
   }
 
@@ -83,7 +95,7 @@ export class RebalancingAssertions {
 
     const currentState = await rebalancingSetTokenInstance.rebalanceState.callAsync();
     if (currentState.eq(RebalancingState.REBALANCE)) {
-      throw new Error(rebalancingErrors.REBALANCE_IN_PROGRESS(rebalancingSetTokenAddress));
+      throw new RebalanceInProgressError(rebalancingSetTokenAddress);
     }
   }
 
@@ -97,7 +109,7 @@ export class RebalancingAssertions {
 
     const currentState = await rebalancingSetTokenInstance.rebalanceState.callAsync();
     if (!currentState.eq(RebalancingState.DEFAULT)) {
-      throw new Error(rebalancingErrors.INCORRECT_STATE(rebalancingSetTokenAddress, 'Default'));
+      throw new IncorrectRebalanceStateError(rebalancingSetTokenAddress, 'Default');
     }
   }
 
@@ -111,7 +123,7 @@ export class RebalancingAssertions {
 
     const currentState = await rebalancingSetTokenInstance.rebalanceState.callAsync();
     if (!currentState.eq(RebalancingState.PROPOSAL)) {
-      throw new Error(rebalancingErrors.INCORRECT_STATE(rebalancingSetTokenAddress, 'Proposal'));
+      throw new IncorrectRebalanceStateError(rebalancingSetTokenAddress, 'Proposal');
     }
   }
 
@@ -125,7 +137,7 @@ export class RebalancingAssertions {
 
     const currentState = await rebalancingSetTokenInstance.rebalanceState.callAsync();
     if (!currentState.eq(RebalancingState.REBALANCE)) {
-      throw new Error(rebalancingErrors.INCORRECT_STATE(rebalancingSetTokenAddress, 'Rebalance'));
+      throw new IncorrectRebalanceStateError(rebalancingSetTokenAddress, 'Rebalance');
     }
   }
 
@@ -139,7 +151,7 @@ export class RebalancingAssertions {
 
     const currentState = await rebalancingSetTokenInstance.rebalanceState.callAsync();
     if (!currentState.eq(RebalancingState.DRAWDOWN)) {
-      throw new Error(rebalancingErrors.INCORRECT_STATE(rebalancingSetTokenAddress, 'Drawdown'));
+      throw new IncorrectRebalanceStateError(rebalancingSetTokenAddress, 'Drawdown');
     }
   }
 
@@ -155,7 +167,7 @@ export class RebalancingAssertions {
     this.commonAssertions.isEqualAddress(
       manager,
       caller,
-      rebalancingErrors.NOT_REBALANCING_MANAGER(caller)
+      () => new NotRebalancingManagerError(caller)
     );
   }
 
@@ -175,7 +187,7 @@ export class RebalancingAssertions {
     if (nextAvailableRebalance.greaterThan(currentTimeStamp)) {
       const nextRebalanceFormattedDate = moment(nextAvailableRebalance.toNumber())
         .format('dddd, MMMM Do YYYY, h:mm:ss a');
-      throw new Error(rebalancingErrors.INSUFFICIENT_TIME_PASSED(nextRebalanceFormattedDate));
+      throw new InsufficientTimePassedError(nextRebalanceFormattedDate);
     }
   }
 
@@ -199,10 +211,10 @@ export class RebalancingAssertions {
     const minNaturalUnit = BigNumber.min(currentSetNaturalUnit, nextSetNaturalUnit);
 
     if (!maxNaturalUnit.mod(minNaturalUnit).isZero()) {
-      throw new Error(rebalancingErrors.PROPOSED_SET_NATURAL_UNIT_IS_NOT_MULTIPLE_OF_CURRENT_SET(
+      throw new InvalidProposedNaturalUnitError(
         currentSetAddress,
         nextSetAddress
-      ));
+      );
     }
   }
 
@@ -216,7 +228,7 @@ export class RebalancingAssertions {
 
     const isValidCurve = await coreInstance.validPriceLibraries.callAsync(priceCurve);
     if (!isValidCurve) {
-      throw new Error(rebalancingErrors.NOT_VALID_PRICE_CURVE(priceCurve));
+      throw new InvalidPriceCurveError(priceCurve);
     }
   }
 
@@ -237,7 +249,7 @@ export class RebalancingAssertions {
       const nextRebalanceFormattedDate = moment(
         nextAvailableRebalance.toNumber()).format('dddd, MMMM Do YYYY, h:mm:ss a'
       );
-      throw new Error(rebalancingErrors.INSUFFICIENT_TIME_PASSED(nextRebalanceFormattedDate));
+      throw new InsufficientTimePassedError(nextRebalanceFormattedDate);
     }
   }
 
@@ -251,11 +263,11 @@ export class RebalancingAssertions {
     const [minimumBid, remainingCurrentSets] = await rebalancingSetTokenInstance.getBiddingParameters.callAsync();
 
     if (remainingCurrentSets.greaterThanOrEqualTo(minimumBid)) {
-      throw new Error(rebalancingErrors.NOT_ENOUGH_SETS_REBALANCED(
+      throw new NotEnoughSetsRebalancedError(
         rebalancingSetTokenAddress,
         minimumBid.toString(),
         remainingCurrentSets.toString()
-      ));
+      );
     }
   }
 
@@ -278,7 +290,7 @@ export class RebalancingAssertions {
       const pivotTimeStartFormattedDate = moment(
         pivotTimeStart.toNumber()).format('dddd, MMMM Do YYYY, h:mm:ss a'
       );
-      throw new Error(rebalancingErrors.PIVOT_TIME_NOT_PASSED(pivotTimeStartFormattedDate));
+      throw new PivotTimeNotPassedError(pivotTimeStartFormattedDate);
     }
   }
 
@@ -293,9 +305,9 @@ export class RebalancingAssertions {
     const rebalancingSetTokenInstance = await RebalancingSetTokenContract.at(rebalancingSetTokenAddress, this.web3, {});
     const [minimumBid, remainingCurrentSets] = await rebalancingSetTokenInstance.getBiddingParameters.callAsync();
     if (remainingCurrentSets.lessThan(minimumBid)) {
-      throw new Error(rebalancingErrors.NOT_VALID_DRAWDOWN(
+      throw new InvalidDrawdownError(
         rebalancingSetTokenAddress
-      ));
+      );
     }
   }
 
@@ -314,10 +326,10 @@ export class RebalancingAssertions {
     const [, remainingCurrentSets] = await rebalancingSetTokenInstance.getBiddingParameters.callAsync();
 
     if (bidQuantity.greaterThan(remainingCurrentSets)) {
-      throw new Error(rebalancingErrors.BID_AMOUNT_EXCEEDS_REMAINING_CURRENT_SETS(
+      throw new BidExceedsRemainingSetsError(
         remainingCurrentSets.toString(),
         bidQuantity.toString()
-      ));
+      );
     }
   }
 
@@ -332,10 +344,10 @@ export class RebalancingAssertions {
     const [ minimumBid ] = await rebalancingSetTokenInstance.getBiddingParameters.callAsync();
 
     if (!bidQuantity.modulo(minimumBid).isZero()) {
-      throw new Error(rebalancingErrors.BID_AMOUNT_NOT_MULTIPLE_OF_MINIMUM_BID(
+      throw new BidNotMultipleOfMinimumBidError(
         bidQuantity.toString(),
         minimumBid.toString()
-      ));
+      );
     }
   }
 
@@ -385,10 +397,10 @@ export class RebalancingAssertions {
     quantity: BigNumber,
     lowerBound: BigNumber,
     upperBound: BigNumber,
-    errorMessage: string
+    errorMessage: AssertionError
   ) {
     if (quantity.gte(lowerBound) && quantity.lt(upperBound)) {
-      throw new Error(errorMessage);
+      throw toError(errorMessage);
     }
   }
 
@@ -435,4 +447,29 @@ export class RebalancingAssertions {
     );
     await Promise.all(userHasSufficientAllowancePromises);
   }
-}
\ No newline at end of file
+
+  /**
+   * Records a preflight failure for every token the bidder doesn't have a sufficient balance or allowance of to
+   * inject for a bid
+   *
+   * @param  preflight                   Preflight the failures are recorded in
+   * @param  rebalancingSetTokenAddress  The address of the Rebalancing Set Token contract
+   * @param  ownerAddress                The address of the bidder
+   * @param  spenderAddress              The address of the spender, usually the Transfer Proxy
+   * @param  quantity                    Amount of a Set in base units
+   */
+  public async preflightBidTransfers(
+    preflight: Preflight,
+    rebalancingSetTokenAddress: Address,
+    ownerAddress: Address,
+    spenderAddress: Address,
+    quantity: BigNumber,
+  ): Promise<void> {
+    const rebalancingSetTokenInstance = await RebalancingSetTokenContract.at(rebalancingSetTokenAddress, this.web3, {});
+
+    const [inflowArray] = await rebalancingSetTokenInstance.getBidPrice.callAsync(quantity);
+    const components = await rebalancingSetTokenInstance.getCombinedTokenArray.callAsync();
+
+    await this.erc20Assertions.preflightTransfers(preflight, components, ownerAddress, spenderAddress, inflowArray);
+  }
+}
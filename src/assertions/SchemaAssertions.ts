@@ -16,7 +16,7 @@
 
 'use strict';
 
-import { schemaAssertionsError } from '../errors';
+import { SchemaValidationError } from '../errors';
 import { schemas, Schema, SchemaValidator } from '../schemas';
 
 /*
@@ -54,14 +54,12 @@ export class SchemaAssertions {
     const hasValidationErrors = validationResult.errors.length > 0;
 
     if (hasValidationErrors) {
-      throw new Error(
-        schemaAssertionsError.DOES_NOT_CONFORM_TO_SCHEMA(
+      throw new SchemaValidationError(
           variableName,
           schema.id,
           value,
           validationResult,
-        ),
-      );
+        );
     }
   }
 }
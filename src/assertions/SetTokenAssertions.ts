@@ -22,8 +22,8 @@ import { Address } from 'set-protocol-utils';
 
 import { ERC20Assertions } from './ERC20Assertions';
 import { SetTokenContract, ERC20DetailedContract, CoreContract } from 'set-protocol-contracts';
-import { coreAPIErrors, setTokenAssertionsErrors } from '../errors';
-import { BigNumber } from '../util';
+import { InvalidSetError, NotComponentError, NotMultipleOfNaturalUnitError } from '../errors';
+import { BigNumber, Preflight } from '../util';
 import { ZERO } from '../constants';
 
 export class SetTokenAssertions {
@@ -52,7 +52,7 @@ export class SetTokenAssertions {
       await setTokenInstance.getComponents.callAsync();
       await setTokenInstance.getUnits.callAsync();
     } catch (error) {
-      throw new Error(setTokenAssertionsErrors.IS_NOT_A_VALID_SET(setTokenAddress));
+      throw new InvalidSetError(setTokenAddress);
     }
   }
 
@@ -148,6 +148,33 @@ export class SetTokenAssertions {
     await Promise.all(userHasSufficientAllowancePromises);
   }
 
+  /**
+   * Records a preflight failure for every component of a Set the owner doesn't have a sufficient balance or
+   * allowance of to issue the given quantity
+   *
+   * @param  preflight        Preflight the failures are recorded in
+   * @param  setTokenAddress  The address of the Set Token contract
+   * @param  ownerAddress     The address of the owner
+   * @param  spenderAddress   The address of the spender, usually the Transfer Proxy
+   * @param  quantity         Amount of a Set in base units
+   */
+  public async preflightComponentTransfers(
+    preflight: Preflight,
+    setTokenAddress: Address,
+    ownerAddress: Address,
+    spenderAddress: Address,
+    quantity: BigNumber,
+  ): Promise<void> {
+    const setTokenInstance = await SetTokenContract.at(setTokenAddress, this.web3, {});
+
+    const components: Address[] = await setTokenInstance.getComponents.callAsync();
+    const units = await setTokenInstance.getUnits.callAsync();
+    const naturalUnit = await setTokenInstance.naturalUnit.callAsync();
+
+    const requiredAmounts = _.map(units, unit => unit.div(naturalUnit).times(quantity));
+    await this.erc20Assertions.preflightTransfers(preflight, components, ownerAddress, spenderAddress, requiredAmounts);
+  }
+
   public async isMultipleOfNaturalUnit(
     setTokenAddress: Address,
     quantity: BigNumber,
@@ -157,7 +184,7 @@ export class SetTokenAssertions {
 
     const naturalUnit = await setTokenInstance.naturalUnit.callAsync();
     if (!quantity.mod(naturalUnit).eq(ZERO)) {
-      throw new Error(coreAPIErrors.QUANTITY_NEEDS_TO_BE_MULTIPLE_OF_NATURAL_UNIT(quantityType));
+      throw new NotMultipleOfNaturalUnitError(quantityType, quantity, naturalUnit);
     }
   }
 
@@ -169,7 +196,7 @@ export class SetTokenAssertions {
 
     const isComponent = await setTokenInstance.tokenIsComponent.callAsync(componentAddress);
     if (!isComponent) {
-      throw new Error(setTokenAssertionsErrors.IS_NOT_COMPONENT(setTokenAddress, componentAddress));
+      throw new NotComponentError(setTokenAddress, componentAddress);
     }
   }
 
@@ -181,7 +208,7 @@ export class SetTokenAssertions {
 
     const isValidSet = await coreInstance.validSets.callAsync(setTokenAddress);
     if (!isValidSet) {
-      throw new Error(setTokenAssertionsErrors.IS_NOT_A_VALID_SET(setTokenAddress));
+      throw new InvalidSetError(setTokenAddress);
     }
   }
 }
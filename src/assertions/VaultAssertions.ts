@@ -20,7 +20,7 @@ import * as _ from 'lodash';
 import Web3 from 'web3';
 import { Address } from 'set-protocol-utils';
 
-import { vaultAssertionErrors } from '../errors';
+import { InsufficientSetVaultBalanceError, InsufficientVaultBalanceError } from '../errors';
 import { BigNumber } from '../util';
 import { ERC20DetailedContract, SetTokenContract, VaultContract } from 'set-protocol-contracts';
 
@@ -52,7 +52,7 @@ export class VaultAssertions {
     const ownerBalance = await vaultContract.getOwnerBalance.callAsync(tokenAddress, ownerAddress);
 
     if (ownerBalance.lt(quantity)) {
-      throw new Error(vaultAssertionErrors.INSUFFICIENT_TOKEN_BALANCE());
+      throw new InsufficientVaultBalanceError(tokenAddress, ownerAddress, ownerBalance, quantity);
     }
   }
 
@@ -96,7 +96,12 @@ export class VaultAssertions {
           setAddress,
         );
         if (ownerBalance.lt(requiredBalance)) {
-          throw new Error(vaultAssertionErrors.INSUFFICIENT_SET_TOKENS_BALANCE());
+          throw new InsufficientSetVaultBalanceError(
+            setAddress,
+            componentInstance.address,
+            ownerBalance,
+            requiredBalance,
+          );
         }
       },
     );
@@ -0,0 +1,36 @@
+/*
+  Copyright 2018 Set Labs Inc.
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+  http://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+*/
+
+'use strict';
+
+import { SetProtocolError } from './setProtocolError';
+
+export const cancellationErrors = {
+  OPERATION_CANCELLED: (operation: string) => `${operation} was cancelled.`,
+};
+
+/**
+ * Thrown when a wait is stopped early through the cancellation signal passed to it
+ */
+export class CancellationError extends SetProtocolError {
+  public operation: string;
+
+  constructor(operation: string) {
+    super('OPERATION_CANCELLED', cancellationErrors.OPERATION_CANCELLED(operation));
+
+    this.operation = operation;
+  }
+}
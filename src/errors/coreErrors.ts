@@ -16,15 +16,25 @@
 
 'use strict';
 
+import { Address } from '../types/common';
 import { BigNumber } from '../util';
+import { SetProtocolError } from './setProtocolError';
 
 export const coreAPIErrors = {
   ARRAYS_EQUAL_LENGTHS: (firstArray: string, secondArray: string) =>
     `The ${firstArray} and ${secondArray} arrays need to be equal lengths.`,
   EMPTY_ARRAY: (variable: string) => `The array ${variable} cannot be empty.`,
   EXPIRATION_PASSED: () => 'Expiration date has already passed.',
+  ISSUANCE_PLAN_OWNER_MISMATCH: (ownerAddress: Address, senderAddress: Address) =>
+    `The issuance plan for ${ownerAddress} cannot be executed by ${senderAddress}.`,
+  ISSUANCE_STEP_FAILED: (stepType: string, txHash: string) =>
+    `The ${stepType} step of the issuance plan failed in transaction ${txHash}.`,
   INVALID_NATURAL_UNIT: (minNaturalUnit: BigNumber) =>
     `Natural unit must be larger than minimum unit, ${minNaturalUnit.toString()}, allowed by components.`,
+  MISSING_EVENT_FILTER: (eventType: string, filter: string) =>
+    `Querying ${eventType} events requires the ${filter} filter.`,
+  PARAMETER_NEEDS_TO_BE_POSITIVE: (parameter: string, quantity: BigNumber) =>
+    `Parameter ${parameter}: ${quantity.toString()} must be greater than 0.`,
   PROPORTIONS_DONT_ADD_UP_TO_1: () => `The component percentages inputted do not add up to 1`,
   QUANTITY_NEEDS_TO_BE_MULTIPLE_OF_NATURAL_UNIT: (quantityType: string) =>
     `${quantityType} needs to be multiple of natural unit.`,
@@ -38,3 +48,172 @@ export const coreAssertionErrors = {
   MISSING_CORE_METHOD: (address: string) =>
     `Contract at ${address} does not implement Core interface.`,
 };
+
+/**
+ * Thrown when two arrays that must be the same length are not
+ */
+export class ArrayLengthMismatchError extends SetProtocolError {
+  public firstArray: string;
+  public secondArray: string;
+
+  constructor(firstArray: string, secondArray: string) {
+    super('ARRAYS_EQUAL_LENGTHS', coreAPIErrors.ARRAYS_EQUAL_LENGTHS(firstArray, secondArray));
+
+    this.firstArray = firstArray;
+    this.secondArray = secondArray;
+  }
+}
+
+/**
+ * Thrown when a required array is empty
+ */
+export class EmptyArrayError extends SetProtocolError {
+  public variable: string;
+
+  constructor(variable: string) {
+    super('EMPTY_ARRAY', coreAPIErrors.EMPTY_ARRAY(variable));
+
+    this.variable = variable;
+  }
+}
+
+/**
+ * Thrown when a natural unit is smaller than its components allow
+ */
+export class InvalidNaturalUnitError extends SetProtocolError {
+  public minNaturalUnit: BigNumber;
+
+  constructor(minNaturalUnit: BigNumber) {
+    super('INVALID_NATURAL_UNIT', coreAPIErrors.INVALID_NATURAL_UNIT(minNaturalUnit));
+
+    this.minNaturalUnit = minNaturalUnit;
+  }
+}
+
+/**
+ * Thrown when component proportions do not add up to 1
+ */
+export class InvalidProportionsError extends SetProtocolError {
+  constructor() {
+    super('PROPORTIONS_DONT_ADD_UP_TO_1', coreAPIErrors.PROPORTIONS_DONT_ADD_UP_TO_1());
+  }
+}
+
+/**
+ * Thrown when a quantity is not a multiple of the Set's natural unit
+ */
+export class NotMultipleOfNaturalUnitError extends SetProtocolError {
+  public quantityType: string;
+  public quantity: BigNumber;
+  public naturalUnit: BigNumber;
+
+  constructor(quantityType: string, quantity: BigNumber, naturalUnit: BigNumber) {
+    super(
+      'QUANTITY_NEEDS_TO_BE_MULTIPLE_OF_NATURAL_UNIT',
+      coreAPIErrors.QUANTITY_NEEDS_TO_BE_MULTIPLE_OF_NATURAL_UNIT(quantityType),
+    );
+
+    this.quantityType = quantityType;
+    this.quantity = quantity;
+    this.naturalUnit = naturalUnit;
+  }
+}
+
+/**
+ * Thrown when an issuance plan is executed by an account other than its owner
+ */
+export class IssuancePlanOwnerMismatchError extends SetProtocolError {
+  public ownerAddress: Address;
+  public senderAddress: Address;
+
+  constructor(ownerAddress: Address, senderAddress: Address) {
+    super('ISSUANCE_PLAN_OWNER_MISMATCH', coreAPIErrors.ISSUANCE_PLAN_OWNER_MISMATCH(ownerAddress, senderAddress));
+
+    this.ownerAddress = ownerAddress;
+    this.senderAddress = senderAddress;
+  }
+}
+
+/**
+ * Thrown when a transaction of an issuance plan step is mined but reverted
+ */
+export class IssuanceStepFailedError extends SetProtocolError {
+  public stepType: string;
+  public txHash: string;
+
+  constructor(stepType: string, txHash: string) {
+    super('ISSUANCE_STEP_FAILED', coreAPIErrors.ISSUANCE_STEP_FAILED(stepType, txHash));
+
+    this.stepType = stepType;
+    this.txHash = txHash;
+  }
+}
+
+/**
+ * Thrown when a quantity is zero or negative
+ */
+export class QuantityNotPositiveError extends SetProtocolError {
+  public quantity: BigNumber;
+
+  constructor(quantity: BigNumber) {
+    super('QUANTITY_NEEDS_TO_BE_POSITIVE', coreAPIErrors.QUANTITY_NEEDS_TO_BE_POSITIVE(quantity));
+
+    this.quantity = quantity;
+  }
+}
+
+/**
+ * Thrown when a named parameter is zero or negative
+ */
+export class ParameterNotPositiveError extends SetProtocolError {
+  public parameter: string;
+  public quantity: BigNumber;
+
+  constructor(parameter: string, quantity: BigNumber) {
+    super('PARAMETER_NEEDS_TO_BE_POSITIVE', coreAPIErrors.PARAMETER_NEEDS_TO_BE_POSITIVE(parameter, quantity));
+
+    this.parameter = parameter;
+    this.quantity = quantity;
+  }
+}
+
+/**
+ * Thrown when events are queried without a filter their type requires
+ */
+export class MissingEventFilterError extends SetProtocolError {
+  public eventType: string;
+  public filter: string;
+
+  constructor(eventType: string, filter: string) {
+    super('MISSING_EVENT_FILTER', coreAPIErrors.MISSING_EVENT_FILTER(eventType, filter));
+
+    this.eventType = eventType;
+    this.filter = filter;
+  }
+}
+
+/**
+ * Thrown when a required string is empty
+ */
+export class EmptyStringError extends SetProtocolError {
+  public variable: string;
+
+  constructor(variable: string) {
+    super('STRING_CANNOT_BE_EMPTY', coreAPIErrors.STRING_CANNOT_BE_EMPTY(variable));
+
+    this.variable = variable;
+  }
+}
+
+/**
+ * Thrown when a contract does not implement the Core interface
+ */
+export class MissingCoreMethodError extends SetProtocolError {
+  public address: Address;
+
+  constructor(address: Address) {
+    super('MISSING_CORE_METHOD', coreAssertionErrors.MISSING_CORE_METHOD(address));
+
+    this.address = address;
+  }
+}
@@ -17,7 +17,9 @@
 'use strict';
 
 
+import { Address } from '../types/common';
 import { BigNumber } from '../util';
+import { SetProtocolError } from './setProtocolError';
 
 export const erc20AssertionErrors = {
   MISSING_ERC20_METHOD: (address: string) =>
@@ -46,3 +48,59 @@ export const erc20AssertionErrors = {
         address: ${tokenAddress} for spender: ${spenderAddress}.
       `,
 };
+
+/**
+ * Thrown when a contract does not implement the ERC20 interface
+ */
+export class MissingERC20MethodError extends SetProtocolError {
+  public address: Address;
+
+  constructor(address: Address) {
+    super('MISSING_ERC20_METHOD', erc20AssertionErrors.MISSING_ERC20_METHOD(address));
+
+    this.address = address;
+  }
+}
+
+/**
+ * Thrown when a user's token balance is lower than required
+ */
+export class InsufficientBalanceError extends SetProtocolError {
+  public token: Address;
+  public user: Address;
+  public current: BigNumber;
+  public required: BigNumber;
+
+  constructor(token: Address, user: Address, current: BigNumber, required: BigNumber) {
+    super('INSUFFICIENT_BALANCE', erc20AssertionErrors.INSUFFICIENT_BALANCE(token, user, current, required));
+
+    this.token = token;
+    this.user = user;
+    this.current = current;
+    this.required = required;
+  }
+}
+
+/**
+ * Thrown when a user's token allowance to a spender is lower than required
+ */
+export class InsufficientAllowanceError extends SetProtocolError {
+  public token: Address;
+  public user: Address;
+  public spender: Address;
+  public current: BigNumber;
+  public required: BigNumber;
+
+  constructor(token: Address, user: Address, spender: Address, current: BigNumber, required: BigNumber) {
+    super(
+      'INSUFFICIENT_ALLOWANCE',
+      erc20AssertionErrors.INSUFFICIENT_ALLOWANCE(token, user, spender, current, required),
+    );
+
+    this.token = token;
+    this.user = user;
+    this.spender = spender;
+    this.current = current;
+    this.required = required;
+  }
+}
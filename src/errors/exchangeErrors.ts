@@ -18,6 +18,7 @@
 
 import { Address } from '../types/common';
 import { BigNumber } from '../util';
+import { SetProtocolError } from './setProtocolError';
 
 export const exchangeErrors = {
   INVALID_EXCHANGE_ID: (exchangeId: string) => `ExchangeId ${exchangeId.toString()} is invalid.`,
@@ -47,3 +48,72 @@ export const exchangeErrors = {
   MAKER_TOKEN_AND_KYBER_SOURCE_TOKEN_MISMATCH: () =>
     'Kyber trade source token needs to be the same as the issuance order maker token.',
 };
+
+/**
+ * Thrown when an order references an unknown exchange
+ */
+export class InvalidExchangeIdError extends SetProtocolError {
+  public exchangeId: string;
+
+  constructor(exchangeId: string) {
+    super('INVALID_EXCHANGE_ID', exchangeErrors.INVALID_EXCHANGE_ID(exchangeId));
+
+    this.exchangeId = exchangeId;
+  }
+}
+
+/**
+ * Thrown when no liquidity order provides a required component
+ */
+export class InsufficientLiquidityError extends SetProtocolError {
+  public component: Address;
+
+  constructor(component: Address) {
+    super(
+      'INSUFFIENT_LIQUIDITY_FOR_REQUIRED_COMPONENT',
+      exchangeErrors.INSUFFIENT_LIQUIDITY_FOR_REQUIRED_COMPONENT(component),
+    );
+
+    this.component = component;
+  }
+}
+
+/**
+ * Thrown when liquidity orders do not provide enough of a component
+ */
+export class InsufficientComponentLiquidityError extends SetProtocolError {
+  public component: Address;
+  public componentAmount: BigNumber;
+  public liquidityAmount: BigNumber;
+
+  constructor(component: Address, componentAmount: BigNumber, liquidityAmount: BigNumber) {
+    super(
+      'INSUFFICIENT_COMPONENT_AMOUNT_FROM_LIQUIDITY',
+      exchangeErrors.INSUFFICIENT_COMPONENT_AMOUNT_FROM_LIQUIDITY(component, componentAmount, liquidityAmount),
+    );
+
+    this.component = component;
+    this.componentAmount = componentAmount;
+    this.liquidityAmount = liquidityAmount;
+  }
+}
+
+/**
+ * Thrown when a Kyber trade would not yield enough of the destination token
+ */
+export class InsufficientKyberSourceTokenError extends SetProtocolError {
+  public sourceTokenQuantity: BigNumber;
+  public amountYield: BigNumber;
+  public destinationToken: Address;
+
+  constructor(sourceTokenQuantity: BigNumber, amountYield: BigNumber, destinationToken: Address) {
+    super(
+      'INSUFFICIENT_KYBER_SOURCE_TOKEN_FOR_RATE',
+      exchangeErrors.INSUFFICIENT_KYBER_SOURCE_TOKEN_FOR_RATE(sourceTokenQuantity, amountYield, destinationToken),
+    );
+
+    this.sourceTokenQuantity = sourceTokenQuantity;
+    this.amountYield = amountYield;
+    this.destinationToken = destinationToken;
+  }
+}
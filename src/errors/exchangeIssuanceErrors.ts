@@ -16,6 +16,8 @@
 
 'use strict';
 
+import { Address } from '../types/common';
+import { SetProtocolError } from './setProtocolError';
 
 export const exchangeIssuanceErrors = {
   ONLY_ONE_RECEIVE_TOKEN: () => `Only one receive token is allowed in Payable Exchange Redemption`,
@@ -35,4 +37,118 @@ export const exchangeIssuanceErrors = {
     `Payment Token quantity value should not be undefined (txOpts.value if Wrapped Ether)`,
   TRADE_TOKENS_NOT_COMPONENT: (setAddress: string, componentAddress: string) => `Component at ${componentAddress} ` +
     `is not part of the collateralizing set at ${setAddress}`,
-};
\ No newline at end of file
+};
+
+/**
+ * Thrown when a payable exchange redemption has more than one receive token
+ */
+export class OnlyOneReceiveTokenError extends SetProtocolError {
+  constructor() {
+    super('ONLY_ONE_RECEIVE_TOKEN', exchangeIssuanceErrors.ONLY_ONE_RECEIVE_TOKEN());
+  }
+}
+
+/**
+ * Thrown when the base Set redeemed is less than the quantity the redemption trades require
+ */
+export class RedeemAndTradeQuantitiesMismatchError extends SetProtocolError {
+  public quantityFromRebalancingSetQuantity: string;
+  public quantityToTrade: string;
+
+  constructor(quantityFromRebalancingSetQuantity: string, quantityToTrade: string) {
+    super(
+      'REDEEM_AND_TRADE_QUANTITIES_MISMATCH',
+      exchangeIssuanceErrors.REDEEM_AND_TRADE_QUANTITIES_MISMATCH(quantityFromRebalancingSetQuantity, quantityToTrade),
+    );
+
+    this.quantityFromRebalancingSetQuantity = quantityFromRebalancingSetQuantity;
+    this.quantityToTrade = quantityToTrade;
+  }
+}
+
+/**
+ * Thrown when the send token is not the payment token
+ */
+export class InvalidSendTokenError extends SetProtocolError {
+  public sendToken: Address;
+  public paymentToken: Address;
+
+  constructor(sendToken: Address, paymentToken: Address) {
+    super('INVALID_SEND_TOKEN', exchangeIssuanceErrors.INVALID_SEND_TOKEN(sendToken, paymentToken));
+
+    this.sendToken = sendToken;
+    this.paymentToken = paymentToken;
+  }
+}
+
+/**
+ * Thrown when the receive token is not the output token
+ */
+export class InvalidReceiveTokenError extends SetProtocolError {
+  public receiveToken: Address;
+  public outputToken: Address;
+
+  constructor(receiveToken: Address, outputToken: Address) {
+    super('INVALID_RECEIVE_TOKEN', exchangeIssuanceErrors.INVALID_RECEIVE_TOKEN(receiveToken, outputToken));
+
+    this.receiveToken = receiveToken;
+    this.outputToken = outputToken;
+  }
+}
+
+/**
+ * Thrown when the Set being issued is not the rebalancing Set's current Set
+ */
+export class IssuingSetNotBaseSetError extends SetProtocolError {
+  public setAddress: Address;
+  public currentSet: Address;
+
+  constructor(setAddress: Address, currentSet: Address) {
+    super('ISSUING_SET_NOT_BASE_SET', exchangeIssuanceErrors.ISSUING_SET_NOT_BASE_SET(setAddress, currentSet));
+
+    this.setAddress = setAddress;
+    this.currentSet = currentSet;
+  }
+}
+
+/**
+ * Thrown when the Set being redeemed is not the rebalancing Set's current Set
+ */
+export class RedeemingSetNotBaseSetError extends SetProtocolError {
+  public setAddress: Address;
+  public currentSet: Address;
+
+  constructor(setAddress: Address, currentSet: Address) {
+    super('REDEEMING_SET_NOT_BASE_SET', exchangeIssuanceErrors.REDEEMING_SET_NOT_BASE_SET(setAddress, currentSet));
+
+    this.setAddress = setAddress;
+    this.currentSet = currentSet;
+  }
+}
+
+/**
+ * Thrown when no payment token quantity was provided
+ */
+export class PaymentTokenQuantityUndefinedError extends SetProtocolError {
+  constructor() {
+    super('PAYMENT_TOKEN_QUANTITY_NOT_UNDEFINED', exchangeIssuanceErrors.PAYMENT_TOKEN_QUANTITY_NOT_UNDEFINED());
+  }
+}
+
+/**
+ * Thrown when a traded token is not a component of the Set
+ */
+export class TradeTokenNotComponentError extends SetProtocolError {
+  public setAddress: Address;
+  public componentAddress: Address;
+
+  constructor(setAddress: Address, componentAddress: Address) {
+    super(
+      'TRADE_TOKENS_NOT_COMPONENT',
+      exchangeIssuanceErrors.TRADE_TOKENS_NOT_COMPONENT(setAddress, componentAddress),
+    );
+
+    this.setAddress = setAddress;
+    this.componentAddress = componentAddress;
+  }
+}
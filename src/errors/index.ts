@@ -16,11 +16,77 @@
 
 'use strict';
 
-export { coreAPIErrors, coreAssertionErrors } from './coreErrors';
-export { erc20AssertionErrors } from './erc20Errors';
-export { exchangeIssuanceErrors } from './exchangeIssuanceErrors';
-export { exchangeErrors } from './exchangeErrors';
-export { rebalancingErrors } from './rebalancingErrors';
-export { schemaAssertionsError } from './schemaErrors';
-export { setTokenAssertionsErrors } from './setTokenErrors';
-export { vaultAssertionErrors } from './vaultErrors';
+export { cancellationErrors, CancellationError } from './cancellationErrors';
+export {
+  coreAPIErrors,
+  coreAssertionErrors,
+  ArrayLengthMismatchError,
+  EmptyArrayError,
+  InvalidNaturalUnitError,
+  InvalidProportionsError,
+  IssuancePlanOwnerMismatchError,
+  IssuanceStepFailedError,
+  NotMultipleOfNaturalUnitError,
+  ParameterNotPositiveError,
+  QuantityNotPositiveError,
+  EmptyStringError,
+  MissingCoreMethodError,
+  MissingEventFilterError,
+} from './coreErrors';
+export {
+  erc20AssertionErrors,
+  MissingERC20MethodError,
+  InsufficientBalanceError,
+  InsufficientAllowanceError,
+} from './erc20Errors';
+export {
+  exchangeIssuanceErrors,
+  OnlyOneReceiveTokenError,
+  RedeemAndTradeQuantitiesMismatchError,
+  InvalidSendTokenError,
+  InvalidReceiveTokenError,
+  IssuingSetNotBaseSetError,
+  RedeemingSetNotBaseSetError,
+  PaymentTokenQuantityUndefinedError,
+  TradeTokenNotComponentError,
+} from './exchangeIssuanceErrors';
+export {
+  exchangeErrors,
+  InvalidExchangeIdError,
+  InsufficientLiquidityError,
+  InsufficientComponentLiquidityError,
+  InsufficientKyberSourceTokenError,
+} from './exchangeErrors';
+export {
+  rebalancingErrors,
+  RebalanceInProgressError,
+  NotRebalancingManagerError,
+  InvalidPriceCurveError,
+  InsufficientTimePassedError,
+  InvalidProposedNaturalUnitError,
+  IncorrectRebalanceStateError,
+  NotEnoughSetsRebalancedError,
+  BidExceedsRemainingSetsError,
+  BidNotMultipleOfMinimumBidError,
+  PivotTimeNotPassedError,
+  InvalidDrawdownError,
+} from './rebalancingErrors';
+export {
+  rebalancingManagerErrors,
+  AllocationWithinBoundsError,
+  CrossoverConfirmationOutsidePeriodError,
+  CrossoverConfirmationPendingError,
+  CrossoverTriggerNotMetError,
+  UnknownManagerTypeError,
+} from './rebalancingManagerErrors';
+export { revertErrors, SetProtocolRevertError } from './revertErrors';
+export { SetProtocolError } from './setProtocolError';
+export { schemaAssertionsError, SchemaValidationError } from './schemaErrors';
+export {
+  setTokenAssertionsErrors,
+  InvalidSetError,
+  NotComponentError,
+  SetCreationFailedError,
+  SetVerificationError,
+} from './setTokenErrors';
+export { vaultAssertionErrors, InsufficientVaultBalanceError, InsufficientSetVaultBalanceError } from './vaultErrors';
@@ -16,6 +16,8 @@
 
 'use strict';
 
+import { Address } from '../types/common';
+import { SetProtocolError } from './setProtocolError';
 
 export const rebalancingErrors = {
   REBALANCE_IN_PROGRESS: (rebalancingSetAddress: string) => `Rebalancing token at ${rebalancingSetAddress} is ` +
@@ -39,4 +41,171 @@ export const rebalancingErrors = {
     `starts at ${pivotTimeStart}`,
   NOT_VALID_DRAWDOWN: (rebalancingSetAddress: string) =>
     `Auction has no remaining bids. Cannot drawdown Set at ${rebalancingSetAddress}.`,
-};
\ No newline at end of file
+};
+
+/**
+ * Thrown when an action is not available while a Set is rebalancing
+ */
+export class RebalanceInProgressError extends SetProtocolError {
+  public rebalancingSetAddress: Address;
+
+  constructor(rebalancingSetAddress: Address) {
+    super('REBALANCE_IN_PROGRESS', rebalancingErrors.REBALANCE_IN_PROGRESS(rebalancingSetAddress));
+
+    this.rebalancingSetAddress = rebalancingSetAddress;
+  }
+}
+
+/**
+ * Thrown when the caller is not the manager of the rebalancing Set
+ */
+export class NotRebalancingManagerError extends SetProtocolError {
+  public caller: Address;
+
+  constructor(caller: Address) {
+    super('NOT_REBALANCING_MANAGER', rebalancingErrors.NOT_REBALANCING_MANAGER(caller));
+
+    this.caller = caller;
+  }
+}
+
+/**
+ * Thrown when a proposed price curve is not recognized by Core
+ */
+export class InvalidPriceCurveError extends SetProtocolError {
+  public priceCurve: Address;
+
+  constructor(priceCurve: Address) {
+    super('NOT_VALID_PRICE_CURVE', rebalancingErrors.NOT_VALID_PRICE_CURVE(priceCurve));
+
+    this.priceCurve = priceCurve;
+  }
+}
+
+/**
+ * Thrown when a rebalance is attempted too soon
+ */
+export class InsufficientTimePassedError extends SetProtocolError {
+  public nextAvailableRebalance: string;
+
+  constructor(nextAvailableRebalance: string) {
+    super('INSUFFICIENT_TIME_PASSED', rebalancingErrors.INSUFFICIENT_TIME_PASSED(nextAvailableRebalance));
+
+    this.nextAvailableRebalance = nextAvailableRebalance;
+  }
+}
+
+/**
+ * Thrown when the natural units of the current and proposed Sets are not multiples of each other
+ */
+export class InvalidProposedNaturalUnitError extends SetProtocolError {
+  public currentSetAddress: Address;
+  public nextSetAddress: Address;
+
+  constructor(currentSetAddress: Address, nextSetAddress: Address) {
+    super(
+      'PROPOSED_SET_NATURAL_UNIT_IS_NOT_MULTIPLE_OF_CURRENT_SET',
+      rebalancingErrors.PROPOSED_SET_NATURAL_UNIT_IS_NOT_MULTIPLE_OF_CURRENT_SET(currentSetAddress, nextSetAddress),
+    );
+
+    this.currentSetAddress = currentSetAddress;
+    this.nextSetAddress = nextSetAddress;
+  }
+}
+
+/**
+ * Thrown when the rebalancing Set is not in the state an action requires
+ */
+export class IncorrectRebalanceStateError extends SetProtocolError {
+  public rebalancingSetAddress: Address;
+  public requiredState: string;
+
+  constructor(rebalancingSetAddress: Address, requiredState: string) {
+    super('INCORRECT_STATE', rebalancingErrors.INCORRECT_STATE(rebalancingSetAddress, requiredState));
+
+    this.rebalancingSetAddress = rebalancingSetAddress;
+    this.requiredState = requiredState;
+  }
+}
+
+/**
+ * Thrown when a rebalance is settled with too many Sets remaining
+ */
+export class NotEnoughSetsRebalancedError extends SetProtocolError {
+  public rebalancingSetAddress: Address;
+  public minimumBid: string;
+  public remainingCurrentSets: string;
+
+  constructor(rebalancingSetAddress: Address, minimumBid: string, remainingCurrentSets: string) {
+    super(
+      'NOT_ENOUGH_SETS_REBALANCED',
+      rebalancingErrors.NOT_ENOUGH_SETS_REBALANCED(rebalancingSetAddress, minimumBid, remainingCurrentSets),
+    );
+
+    this.rebalancingSetAddress = rebalancingSetAddress;
+    this.minimumBid = minimumBid;
+    this.remainingCurrentSets = remainingCurrentSets;
+  }
+}
+
+/**
+ * Thrown when a bid is larger than the remaining current Sets
+ */
+export class BidExceedsRemainingSetsError extends SetProtocolError {
+  public remainingCurrentSets: string;
+  public bidQuantity: string;
+
+  constructor(remainingCurrentSets: string, bidQuantity: string) {
+    super(
+      'BID_AMOUNT_EXCEEDS_REMAINING_CURRENT_SETS',
+      rebalancingErrors.BID_AMOUNT_EXCEEDS_REMAINING_CURRENT_SETS(remainingCurrentSets, bidQuantity),
+    );
+
+    this.remainingCurrentSets = remainingCurrentSets;
+    this.bidQuantity = bidQuantity;
+  }
+}
+
+/**
+ * Thrown when a bid is not a multiple of the minimum bid
+ */
+export class BidNotMultipleOfMinimumBidError extends SetProtocolError {
+  public bidQuantity: string;
+  public minimumBid: string;
+
+  constructor(bidQuantity: string, minimumBid: string) {
+    super(
+      'BID_AMOUNT_NOT_MULTIPLE_OF_MINIMUM_BID',
+      rebalancingErrors.BID_AMOUNT_NOT_MULTIPLE_OF_MINIMUM_BID(bidQuantity, minimumBid),
+    );
+
+    this.bidQuantity = bidQuantity;
+    this.minimumBid = minimumBid;
+  }
+}
+
+/**
+ * Thrown when an auction is ended before its pivot time
+ */
+export class PivotTimeNotPassedError extends SetProtocolError {
+  public pivotTimeStart: string;
+
+  constructor(pivotTimeStart: string) {
+    super('PIVOT_TIME_NOT_PASSED', rebalancingErrors.PIVOT_TIME_NOT_PASSED(pivotTimeStart));
+
+    this.pivotTimeStart = pivotTimeStart;
+  }
+}
+
+/**
+ * Thrown when a drawdown is attempted on an auction that still has bids remaining
+ */
+export class InvalidDrawdownError extends SetProtocolError {
+  public rebalancingSetAddress: Address;
+
+  constructor(rebalancingSetAddress: Address) {
+    super('NOT_VALID_DRAWDOWN', rebalancingErrors.NOT_VALID_DRAWDOWN(rebalancingSetAddress));
+
+    this.rebalancingSetAddress = rebalancingSetAddress;
+  }
+}
@@ -0,0 +1,106 @@
+/*
+  Copyright 2018 Set Labs Inc.
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+  http://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+*/
+
+
+'use strict';
+
+import { BigNumber } from '../util';
+import { SetProtocolError } from './setProtocolError';
+
+export const rebalancingManagerErrors = {
+  ALLOCATION_WITHIN_BOUNDS: (asset: string, allocation: BigNumber, lowerBound: BigNumber, upperBound: BigNumber) =>
+    `Current ${asset} allocation ${allocation.toString()}% must be outside allocation bounds ` +
+    `${lowerBound.toString()} and ${upperBound.toString()}.`,
+  CROSSOVER_CONFIRMATION_OUTSIDE_PERIOD: () =>
+    'Confirm Crossover Propose is not called in the confirmation period since last proposal timestamp',
+  CROSSOVER_CONFIRMATION_PENDING: () =>
+    'Less than max confirm time has elapsed since the last proposal timestamp',
+  CROSSOVER_TRIGGER_NOT_MET: (currentPrice: BigNumber, movingAverage: BigNumber, isUsingRiskCollateral: boolean) =>
+    `Current Price ${currentPrice.toString()} must be ${isUsingRiskCollateral ? 'less' : 'greater'} than Moving ` +
+    `Average ${movingAverage.toString()}`,
+  UNKNOWN_MANAGER_TYPE: () => 'Passed manager type is not recognized.',
+};
+
+/**
+ * Thrown when a rebalance is proposed while the allocation of a manager's collateral is within its bounds
+ */
+export class AllocationWithinBoundsError extends SetProtocolError {
+  public asset: string;
+  public allocation: BigNumber;
+  public lowerBound: BigNumber;
+  public upperBound: BigNumber;
+
+  constructor(asset: string, allocation: BigNumber, lowerBound: BigNumber, upperBound: BigNumber) {
+    super(
+      'ALLOCATION_WITHIN_BOUNDS',
+      rebalancingManagerErrors.ALLOCATION_WITHIN_BOUNDS(asset, allocation, lowerBound, upperBound),
+    );
+
+    this.asset = asset;
+    this.allocation = allocation;
+    this.lowerBound = lowerBound;
+    this.upperBound = upperBound;
+  }
+}
+
+/**
+ * Thrown when a crossover is confirmed outside of the confirmation period of a moving average manager
+ */
+export class CrossoverConfirmationOutsidePeriodError extends SetProtocolError {
+  constructor() {
+    super('CROSSOVER_CONFIRMATION_OUTSIDE_PERIOD', rebalancingManagerErrors.CROSSOVER_CONFIRMATION_OUTSIDE_PERIOD());
+  }
+}
+
+/**
+ * Thrown when a crossover is proposed while a previous proposal can still be confirmed
+ */
+export class CrossoverConfirmationPendingError extends SetProtocolError {
+  constructor() {
+    super('CROSSOVER_CONFIRMATION_PENDING', rebalancingManagerErrors.CROSSOVER_CONFIRMATION_PENDING());
+  }
+}
+
+/**
+ * Thrown when the price has not crossed the moving average in the direction a moving average manager requires
+ */
+export class CrossoverTriggerNotMetError extends SetProtocolError {
+  public currentPrice: BigNumber;
+  public movingAverage: BigNumber;
+
+  constructor(currentPrice: BigNumber, movingAverage: BigNumber, isUsingRiskCollateral: boolean) {
+    super(
+      'CROSSOVER_TRIGGER_NOT_MET',
+      rebalancingManagerErrors.CROSSOVER_TRIGGER_NOT_MET(currentPrice, movingAverage, isUsingRiskCollateral),
+    );
+
+    this.currentPrice = currentPrice;
+    this.movingAverage = movingAverage;
+  }
+}
+
+/**
+ * Thrown when a manager type is not one of the supported `ManagerType`s
+ */
+export class UnknownManagerTypeError extends SetProtocolError {
+  public managerType: BigNumber;
+
+  constructor(managerType: BigNumber) {
+    super('UNKNOWN_MANAGER_TYPE', rebalancingManagerErrors.UNKNOWN_MANAGER_TYPE());
+
+    this.managerType = managerType;
+  }
+}
@@ -0,0 +1,55 @@
+/*
+  Copyright 2018 Set Labs Inc.
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+  http://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+*/
+
+'use strict';
+
+import { Address, Tx } from '../types/common';
+import { SetProtocolError } from './setProtocolError';
+
+export const revertErrors = {
+  TRANSACTION_REVERTED: (methodName: string, contractAddress: Address, reason: string) => reason
+    ? `Transaction calling ${methodName} on contract ${contractAddress} reverted with reason: ${reason}.`
+    : `Transaction calling ${methodName} on contract ${contractAddress} reverted without a reason.`,
+};
+
+/**
+ * Thrown when a transaction sent or simulated through SetProtocol.js reverts. Carries the decoded Solidity
+ * `Error(string)` reason along with the contract, method and transaction that reverted
+ */
+export class SetProtocolRevertError extends SetProtocolError {
+  public contractAddress: Address;
+  public methodName: string;
+  public reason: string;
+  public transaction: Tx;
+  public txHash: string;
+
+  /**
+   * @param contractAddress    Address of the contract whose method reverted
+   * @param methodName         Name of the contract method, or its selector when the ABI is unknown
+   * @param reason             Decoded revert reason, undefined if the contract reverted without one
+   * @param transaction        Transaction that reverted, including its calldata
+   * @param txHash             Hash of the transaction if it was mined
+   */
+  constructor(contractAddress: Address, methodName: string, reason: string, transaction: Tx, txHash?: string) {
+    super('TRANSACTION_REVERTED', revertErrors.TRANSACTION_REVERTED(methodName, contractAddress, reason));
+
+    this.contractAddress = contractAddress;
+    this.methodName = methodName;
+    this.reason = reason;
+    this.transaction = transaction;
+    this.txHash = txHash;
+  }
+}
@@ -17,6 +17,7 @@
 'use strict';
 
 import { ValidatorResult } from '../schemas';
+import { SetProtocolError } from './setProtocolError';
 
 export const schemaAssertionsError = {
   DOES_NOT_CONFORM_TO_SCHEMA: (
@@ -32,3 +33,25 @@ export const schemaAssertionsError = {
         Validation errors: ${validationResult.errors.join(', ')}
       `,
 };
+
+/**
+ * Thrown when a value does not conform to its JSON schema
+ */
+export class SchemaValidationError extends SetProtocolError {
+  public variableName: string;
+  public schemaId: string | undefined;
+  public value: any;
+  public validationResult: ValidatorResult;
+
+  constructor(variableName: string, schemaId: string | undefined, value: any, validationResult: ValidatorResult) {
+    super(
+      'DOES_NOT_CONFORM_TO_SCHEMA',
+      schemaAssertionsError.DOES_NOT_CONFORM_TO_SCHEMA(variableName, schemaId, value, validationResult),
+    );
+
+    this.variableName = variableName;
+    this.schemaId = schemaId;
+    this.value = value;
+    this.validationResult = validationResult;
+  }
+}
@@ -0,0 +1,39 @@
+/*
+  Copyright 2018 Set Labs Inc.
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+  http://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+*/
+
+'use strict';
+
+/**
+ * Base class of every error thrown by SetProtocol.js. The `code` is stable across releases and can be used to
+ * identify the error without matching its message, and subclasses expose the values the message was built from
+ */
+export class SetProtocolError extends Error {
+  public code: string;
+
+  /**
+   * @param code       Stable identifier of the error
+   * @param message    Human readable description of the error
+   */
+  constructor(code: string, message: string) {
+    super(message);
+
+    // Restore the prototype chain, which is lost when extending Error with an ES5 target
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = new.target.name;
+
+    this.code = code;
+  }
+}
@@ -16,9 +16,70 @@
 
 'use strict';
 
+import { Address } from '../types/common';
+import { SetProtocolError } from './setProtocolError';
 
 export const setTokenAssertionsErrors = {
   IS_NOT_A_VALID_SET: (setAddress: string) => `Contract at ${setAddress} is not a valid Set token address.`,
   IS_NOT_COMPONENT: (setTokenAddress: string, componentAddress: string) => `Token address at ${componentAddress} ` +
     `is not a component of the Set Token at ${setTokenAddress}.`,
+  SET_CREATION_FAILED: (txHash: string) => `Set creation transaction ${txHash} failed.`,
+  SET_VERIFICATION_FAILED: (setAddress: string, field: string) =>
+    `The ${field} of the Set at ${setAddress} did not match the Set that was built.`,
 };
+
+/**
+ * Thrown when a contract is not a valid Set
+ */
+export class InvalidSetError extends SetProtocolError {
+  public setAddress: Address;
+
+  constructor(setAddress: Address) {
+    super('IS_NOT_A_VALID_SET', setTokenAssertionsErrors.IS_NOT_A_VALID_SET(setAddress));
+
+    this.setAddress = setAddress;
+  }
+}
+
+/**
+ * Thrown when a token is not a component of a Set
+ */
+export class NotComponentError extends SetProtocolError {
+  public setAddress: Address;
+  public componentAddress: Address;
+
+  constructor(setAddress: Address, componentAddress: Address) {
+    super('IS_NOT_COMPONENT', setTokenAssertionsErrors.IS_NOT_COMPONENT(setAddress, componentAddress));
+
+    this.setAddress = setAddress;
+    this.componentAddress = componentAddress;
+  }
+}
+
+/**
+ * Thrown when the transaction creating a Set is mined but fails
+ */
+export class SetCreationFailedError extends SetProtocolError {
+  public txHash: string;
+
+  constructor(txHash: string) {
+    super('SET_CREATION_FAILED', setTokenAssertionsErrors.SET_CREATION_FAILED(txHash));
+
+    this.txHash = txHash;
+  }
+}
+
+/**
+ * Thrown when a newly created Set does not have the components, units or natural unit it was created with
+ */
+export class SetVerificationError extends SetProtocolError {
+  public setAddress: Address;
+  public field: string;
+
+  constructor(setAddress: Address, field: string) {
+    super('SET_VERIFICATION_FAILED', setTokenAssertionsErrors.SET_VERIFICATION_FAILED(setAddress, field));
+
+    this.setAddress = setAddress;
+    this.field = field;
+  }
+}
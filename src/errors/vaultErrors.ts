@@ -16,7 +16,49 @@
 
 'use strict';
 
+import { Address } from '../types/common';
+import { BigNumber } from '../util';
+import { SetProtocolError } from './setProtocolError';
+
 export const vaultAssertionErrors = {
   INSUFFICIENT_TOKEN_BALANCE: () => 'User does not have enough balance of the token in vault.',
   INSUFFICIENT_SET_TOKENS_BALANCE: () => 'User does not have enough balance of tokens in vault.',
 };
+
+/**
+ * Thrown when a user's balance in the vault is lower than required
+ */
+export class InsufficientVaultBalanceError extends SetProtocolError {
+  public token: Address;
+  public user: Address;
+  public current: BigNumber;
+  public required: BigNumber;
+
+  constructor(token: Address, user: Address, current: BigNumber, required: BigNumber) {
+    super('INSUFFICIENT_TOKEN_BALANCE', vaultAssertionErrors.INSUFFICIENT_TOKEN_BALANCE());
+
+    this.token = token;
+    this.user = user;
+    this.current = current;
+    this.required = required;
+  }
+}
+
+/**
+ * Thrown when a Set's component balance in the vault is lower than required
+ */
+export class InsufficientSetVaultBalanceError extends SetProtocolError {
+  public setAddress: Address;
+  public token: Address;
+  public current: BigNumber;
+  public required: BigNumber;
+
+  constructor(setAddress: Address, token: Address, current: BigNumber, required: BigNumber) {
+    super('INSUFFICIENT_SET_TOKENS_BALANCE', vaultAssertionErrors.INSUFFICIENT_SET_TOKENS_BALANCE());
+
+    this.setAddress = setAddress;
+    this.token = token;
+    this.current = current;
+    this.required = required;
+  }
+}
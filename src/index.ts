@@ -1,20 +1,159 @@
 export {
   Address,
+  ApproximateVaultTransferEvent,
   Bytes,
+  CancellationSignal,
   Component,
+  ComponentNav,
+  ComponentWeightReport,
   Constants,
+  ContractCallContext,
+  ContractCallType,
+  ContractMiddleware,
+  DrawdownEndedEvent,
   ECSig,
+  EventFilters,
+  EventPollingOpts,
+  EventQueryOpts,
+  EventSubscription,
+  EventSubscriptionOpts,
+  GasPriceStrategy,
+  IssuancePlan,
+  IssuanceStep,
+  IssuanceStepType,
   KyberTrade,
   Log,
+  LogCursor,
+  LogFetcherOpts,
+  LogPage,
+  LogRange,
+  PreflightFailure,
+  PreflightReport,
+  PreflightSeverity,
+  PriceSource,
+  ProtocolEvent,
+  ProtocolEventType,
+  RebalanceAuctionComposition,
+  RebalanceBidPlacedEvent,
+  RebalanceEventQueryOpts,
+  RebalanceEventSubscriptionOpts,
+  RebalanceLifecycleEvent,
+  RebalanceLifecycleEventType,
+  RebalanceProposedEvent,
+  RebalanceSettledEvent,
+  RebalanceStartedEvent,
+  RebalancingSetComposition,
+  RebalancingSetShareValue,
+  SetBuilderComponent,
+  SetBuildPlan,
+  SetBuildResult,
+  SetComparison,
   SetDetails,
+  SetIssuedEvent,
+  SetNav,
+  SetRedeemedEvent,
+  SetTokenCreatedEvent,
   SetProtocolConfig,
   SetUnits,
+  SetUnitsReport,
   SolidityTypes,
+  TokenTransferEvent,
+  TransactionMiningOpts,
   TransactionReceipt,
+  TransactionReplacement,
+  TransactionSimulation,
   Tx,
+  TypedLog,
+  UnderlyingComponent,
+  UnderlyingComponentValue,
   UInt,
+  UnsignedTransaction,
   ZeroExSignedFillOrder,
 } from './types/common';
+export {
+  AllocationWithinBoundsError,
+  ArrayLengthMismatchError,
+  BidExceedsRemainingSetsError,
+  BidNotMultipleOfMinimumBidError,
+  CancellationError,
+  CrossoverConfirmationOutsidePeriodError,
+  CrossoverConfirmationPendingError,
+  CrossoverTriggerNotMetError,
+  EmptyArrayError,
+  EmptyStringError,
+  IncorrectRebalanceStateError,
+  InsufficientAllowanceError,
+  InsufficientBalanceError,
+  InsufficientComponentLiquidityError,
+  InsufficientKyberSourceTokenError,
+  InsufficientLiquidityError,
+  InsufficientSetVaultBalanceError,
+  InsufficientTimePassedError,
+  InsufficientVaultBalanceError,
+  InvalidDrawdownError,
+  InvalidExchangeIdError,
+  InvalidNaturalUnitError,
+  InvalidPriceCurveError,
+  InvalidProportionsError,
+  InvalidProposedNaturalUnitError,
+  InvalidReceiveTokenError,
+  InvalidSendTokenError,
+  InvalidSetError,
+  IssuancePlanOwnerMismatchError,
+  IssuanceStepFailedError,
+  IssuingSetNotBaseSetError,
+  MissingCoreMethodError,
+  MissingERC20MethodError,
+  MissingEventFilterError,
+  NotComponentError,
+  NotEnoughSetsRebalancedError,
+  NotMultipleOfNaturalUnitError,
+  NotRebalancingManagerError,
+  OnlyOneReceiveTokenError,
+  ParameterNotPositiveError,
+  PaymentTokenQuantityUndefinedError,
+  PivotTimeNotPassedError,
+  QuantityNotPositiveError,
+  RebalanceInProgressError,
+  RedeemAndTradeQuantitiesMismatchError,
+  RedeemingSetNotBaseSetError,
+  SchemaValidationError,
+  SetCreationFailedError,
+  SetProtocolError,
+  SetProtocolRevertError,
+  SetVerificationError,
+  TradeTokenNotComponentError,
+  UnknownManagerTypeError,
+} from './errors';
+export {
+  AbiRegistry,
+  addContractMiddleware,
+  CallbackPriceSource,
+  CancellationController,
+  ConsoleLoggingMiddleware,
+  ContractCallLogEntry,
+  ContractCallMetrics,
+  DurationHistogram,
+  filterLogsByEvent,
+  findLogByEvent,
+  FixedGasPriceStrategy,
+  getFormattedLogsFromReceipt,
+  getFormattedLogsFromTxHash,
+  HistoricalReader,
+  LogFetcher,
+  MedianizerPriceSource,
+  MetricsMiddleware,
+  NodeGasPriceStrategy,
+  PercentileGasPriceStrategy,
+  ProtocolSimulator,
+  removeContractMiddleware,
+  SimulatedERC20Opts,
+  SimulatedRebalancingSetTokenOpts,
+  SimulatedSetTokenOpts,
+  StaticPriceSource,
+  UrgentTx,
+  withGasPriceUrgency,
+} from './util';
 
 import SetProtocol from './SetProtocol';
 export default SetProtocol;
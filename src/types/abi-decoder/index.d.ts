@@ -9,7 +9,7 @@ declare module 'abi-decoder' {
 
   export interface DecodedMethodParam {
     name: string;
-    value: string | boolean;
+    value: string | boolean | string[];
     type: string;
   }
 
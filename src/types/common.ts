@@ -1,5 +1,7 @@
+import Web3 from 'web3';
 import { Address } from 'set-protocol-utils';
 import { BigNumber } from '../util';
+import { SetProtocolRevertError } from '../errors/revertErrors';
 
 export { TransactionReceipt } from 'ethereum-types';
 export { Tx } from 'web3/eth/types';
@@ -25,11 +27,126 @@ export interface BidPlacedEvent {
   outflowTokenUnits: BigNumber[];
 }
 
+export interface CancellationSignal {
+  aborted: boolean;
+  addEventListener(type: 'abort', listener: () => void): void;
+  removeEventListener(type: 'abort', listener: () => void): void;
+}
+
 export interface Component {
   address: Address;
   unit: BigNumber;
 }
 
+export type ContractCallType = 'callAsync' | 'sendTransactionAsync';
+
+export interface ContractCallContext {
+  contractName: string;
+  contractAddress: Address;
+  methodName: string;
+  callType: ContractCallType;
+  args: any[];
+}
+
+export interface ContractMiddleware {
+  before?(context: ContractCallContext): void;
+  after?(context: ContractCallContext, result: any, durationMs: number): void;
+  error?(context: ContractCallContext, error: any, durationMs: number): void;
+}
+
+export interface EventFilters {
+  set?: Address;
+  owner?: Address;
+  token?: Address;
+}
+
+export interface EventQueryOpts extends EventFilters {
+  fromBlock: number;
+  toBlock?: number | string;
+}
+
+export interface EventPollingOpts {
+  fromBlock?: number;
+  pollingIntervalMs?: number;
+  signal?: CancellationSignal;
+  onError?: (error: Error) => void;
+}
+
+export interface EventSubscriptionOpts extends EventFilters, EventPollingOpts {}
+
+export interface EventSubscription {
+  unsubscribe(): void;
+}
+
+export type ProtocolEventType = 'SetTokenCreated' | 'SetIssued' | 'SetRedeemed' | 'Deposit' | 'Withdraw' | 'Transfer';
+
+export interface ProtocolEvent {
+  transactionHash: string;
+  blockNumber: number;
+  logIndex: number;
+}
+
+export interface SetTokenCreatedEvent extends ProtocolEvent {
+  setToken: Address;
+  factory: Address;
+  components: Address[];
+  units: BigNumber[];
+  naturalUnit: BigNumber;
+  name: string;
+  symbol: string;
+}
+
+export interface SetIssuedEvent extends ProtocolEvent {
+  setToken: Address;
+  quantity: BigNumber;
+}
+
+export interface SetRedeemedEvent extends ProtocolEvent {
+  setToken: Address;
+  quantity: BigNumber;
+}
+
+export interface ApproximateVaultTransferEvent extends ProtocolEvent {
+  token: Address;
+  owner: Address;
+  quantity: BigNumber;
+}
+
+export interface TokenTransferEvent extends ProtocolEvent {
+  token: Address;
+  from: Address;
+  to: Address;
+  quantity: BigNumber;
+}
+
+export interface GasPriceStrategy {
+  getGasPriceAsync(web3: Web3): Promise<BigNumber>;
+}
+
+export interface LogRange {
+  fromBlock: number;
+  toBlock?: number | string;
+}
+
+export interface LogCursor extends LogRange {
+  toBlock: number;
+  chunkSize: number;
+}
+
+export interface LogFetcherOpts {
+  chunkSize?: number;
+  minChunkSize?: number;
+  maxRetries?: number;
+  retryDelayMs?: number;
+}
+
+export interface LogPage<T> {
+  logs: T[];
+  fromBlock: number;
+  toBlock: number;
+  cursor: LogCursor;
+}
+
 export const RebalancingState = {
   DEFAULT: new BigNumber(0),
   PROPOSAL: new BigNumber(1),
@@ -45,11 +162,80 @@ export const ManagerType = {
   MACOV2: new BigNumber(4),
 };
 
+export type PreflightSeverity = 'error' | 'warning';
+
+export interface PreflightFailure {
+  check: string;
+  severity: PreflightSeverity;
+  details: string;
+  suggestedFix: string;
+  code: string;
+}
+
+export interface PreflightReport {
+  passed: boolean;
+  failures: PreflightFailure[];
+}
+
+export type IssuanceStepType = 'approve' | 'deposit' | 'issue';
+
+export interface IssuanceStep {
+  type: IssuanceStepType;
+  tokenAddresses: Address[];
+  quantities: BigNumber[];
+  txHash?: string;
+  completed: boolean;
+}
+
+export interface IssuancePlan {
+  setAddress: Address;
+  quantity: BigNumber;
+  ownerAddress: Address;
+  steps: IssuanceStep[];
+}
+
 export interface SetUnits {
   units: BigNumber[];
   naturalUnit: BigNumber;
 }
 
+export interface ComponentWeightReport {
+  address: Address;
+  decimals: number;
+  unit: BigNumber;
+  targetWeight: BigNumber;
+  realizedWeight: BigNumber;
+  weightDeviation: BigNumber;
+}
+
+export interface SetUnitsReport extends SetUnits {
+  components: ComponentWeightReport[];
+  maxWeightDeviation: BigNumber;
+  realizedPrice: BigNumber;
+  percentError: BigNumber;
+}
+
+export interface SetBuilderComponent {
+  address: Address;
+  weight: BigNumber;
+  price: BigNumber;
+}
+
+export interface SetBuildPlan extends SetUnits {
+  components: Address[];
+  targetWeights: BigNumber[];
+  realizedWeights: BigNumber[];
+  targetPrice: BigNumber;
+  realizedPrice: BigNumber;
+  percentError: BigNumber;
+}
+
+export interface SetBuildResult {
+  plan: SetBuildPlan;
+  txHash: string;
+  details: SetDetails;
+}
+
 export interface SetDetails {
   address: Address;
   factoryAddress: Address;
@@ -59,6 +245,27 @@ export interface SetDetails {
   components: Component[];
 }
 
+export interface PriceSource {
+  getPriceAsync(tokenAddress: Address): Promise<BigNumber>;
+}
+
+export interface ComponentNav {
+  address: Address;
+  unit: BigNumber;
+  decimals: number;
+  price: BigNumber;
+  valuePerNaturalUnit: BigNumber;
+  valuePerToken: BigNumber;
+}
+
+export interface SetNav {
+  address: Address;
+  naturalUnit: BigNumber;
+  valuePerNaturalUnit: BigNumber;
+  valuePerToken: BigNumber;
+  components: ComponentNav[];
+}
+
 export interface RebalancingProposalDetails {
   state: string;
   nextSetAddress: Address;
@@ -77,6 +284,95 @@ export interface RebalancingProgressDetails {
   remainingCurrentSet: BigNumber;
 }
 
+export type RebalanceLifecycleEventType =
+  'RebalanceProposed' |
+  'RebalanceStarted' |
+  'BidPlaced' |
+  'RebalanceSettled' |
+  'RebalanceFailed' |
+  'DrawdownStarted' |
+  'DrawdownEnded';
+
+export interface RebalanceLifecycleEvent {
+  type: RebalanceLifecycleEventType;
+  rebalancingSetToken: Address;
+  transactionHash: string;
+  blockNumber: number;
+  timestamp: number;
+}
+
+export interface RebalanceProposedEvent extends RebalanceLifecycleEvent {
+  nextSet: Address;
+  auctionLibrary: Address;
+  proposalPeriodEndTime: BigNumber;
+}
+
+export interface RebalanceStartedEvent extends RebalanceLifecycleEvent {
+  oldSet: Address;
+  newSet: Address;
+}
+
+export interface RebalanceBidPlacedEvent extends RebalanceLifecycleEvent {
+  bidder: Address;
+  executionQuantity: BigNumber;
+  combinedTokenAddresses: Address[];
+  inflowTokenUnits: BigNumber[];
+  outflowTokenUnits: BigNumber[];
+}
+
+export interface RebalanceSettledEvent extends RebalanceLifecycleEvent {
+  currentSet: Address;
+}
+
+export interface DrawdownEndedEvent extends RebalanceLifecycleEvent {
+  state: string;
+}
+
+export interface RebalanceEventQueryOpts {
+  fromBlock: number;
+  toBlock?: number | string;
+  rebalancingSetToken?: Address;
+}
+
+export interface RebalanceEventSubscriptionOpts extends EventPollingOpts {
+  rebalancingSetToken?: Address;
+}
+
+export interface UnderlyingComponent {
+  address: Address;
+  quantity: BigNumber;
+}
+
+export interface UnderlyingComponentValue extends UnderlyingComponent {
+  decimals: number;
+  price: BigNumber;
+  value: BigNumber;
+}
+
+export interface RebalanceAuctionComposition {
+  nextSetAddress: Address;
+  combinedTokenArray: Address[];
+  combinedCurrentUnits: BigNumber[];
+  combinedNextSetUnits: BigNumber[];
+  startingCurrentSetAmount: BigNumber;
+  remainingCurrentSets: BigNumber;
+}
+
+export interface RebalancingSetComposition {
+  address: Address;
+  state: string;
+  currentSetAddress: Address;
+  currentSetQuantity: BigNumber;
+  components: UnderlyingComponent[];
+  auction?: RebalanceAuctionComposition;
+}
+
+export interface RebalancingSetShareValue {
+  address: Address;
+  valuePerToken: BigNumber;
+  components: UnderlyingComponentValue[];
+}
+
 export interface RebalancingSetDetails {
   address: Address;
   factoryAddress: Address;
@@ -106,6 +402,13 @@ export interface SetProtocolConfig {
   transferProxyAddress: Address;
   vaultAddress: Address;
   wrappedEtherAddress: Address;
+  batchReads?: boolean;
+  cacheReads?: boolean;
+  contractMiddleware?: ContractMiddleware[];
+  gasPriceStrategy?: GasPriceStrategy;
+  logFetcher?: LogFetcherOpts;
+  multicallAddress?: Address;
+  useNonceManager?: boolean;
 }
 
 export interface SystemAuthorizableState {
@@ -125,6 +428,34 @@ export interface SystemTimeLockPeriodState {
   transferProxy: BigNumber;
 }
 
+export interface TransactionMiningOpts {
+  pollingIntervalMs?: number;
+  timeoutMs?: number;
+  signal?: CancellationSignal;
+}
+
+export interface TransactionReplacement {
+  originalTxHash: string;
+  replacementTxHash: string;
+  from: Address;
+  nonce: number;
+}
+
+export interface TransactionSimulation {
+  gas: number;
+  returnValue: any;
+  reverted: boolean;
+  revertReason: string;
+  revertError: SetProtocolRevertError;
+}
+
+export interface UnsignedTransaction {
+  to: Address;
+  data: string;
+  value: BigNumber;
+  gas: number;
+}
+
 export interface TokenFlows {
   inflow: BigNumber[];
   outflow: BigNumber[];
@@ -135,6 +466,17 @@ export interface TokenFlowsDetails {
   outflow: Component[];
 }
 
+export interface SetComparison extends TokenFlowsDetails {
+  currentSetAddress: Address;
+  nextSetAddress: Address;
+  quantity: BigNumber;
+  naturalUnit: BigNumber;
+  combinedTokenArray: Address[];
+  combinedCurrentUnits: BigNumber[];
+  combinedNextSetUnits: BigNumber[];
+  unitDifferences: BigNumber[];
+}
+
 export interface CreateLogArgs {
   _setTokenAddress: Address;
   _factoryAddress: Address;
@@ -145,6 +487,12 @@ export interface CreateLogArgs {
   _symbol: string;
 }
 
+export interface TypedLog<T> {
+  event: string;
+  address: Address;
+  args: T;
+}
+
 export interface JSONRPCRequestPayload {
     params: any[];
     method: string;
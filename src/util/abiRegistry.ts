@@ -0,0 +1,135 @@
+/*
+  Copyright 2018 Set Labs Inc.
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+  http://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+*/
+
+'use strict';
+
+import * as _ from 'lodash';
+import * as ABIDecoder from 'abi-decoder';
+import * as setProtocolContracts from 'set-protocol-contracts';
+import * as setProtocolStrategies from 'set-protocol-strategies';
+import Web3 from 'web3';
+
+let defaultRegistry: AbiRegistry;
+
+/**
+ * @title AbiRegistry
+ * @author Set Protocol
+ *
+ * Decodes logs against the events of a set of ABIs. Events are looked up by their signature and number of topics, so
+ * events sharing a signature but indexing different parameters, such as ERC20 and ERC721 Transfer, are told apart.
+ * Logs of unknown events decode to undefined.
+ */
+export class AbiRegistry {
+  private web3: Web3;
+  private events: { [eventKey: string]: any };
+
+  /**
+   * @param abis    ABIs to register
+   */
+  constructor(abis: any[][] = []) {
+    this.web3 = new Web3();
+    this.events = {};
+
+    _.each(abis, abi => this.addABI(abi));
+  }
+
+  /**
+   * Registers the events of an ABI. Events already registered are kept
+   *
+   * @param  abi    Contract ABI
+   */
+  public addABI(abi: any[]): void {
+    _.each(abi, abiItem => {
+      if (abiItem.type !== 'event' || abiItem.anonymous) {
+        return;
+      }
+
+      const topicCount = 1 + _.filter(abiItem.inputs, (input: any) => input.indexed).length;
+      const eventKey = this.eventKey(this.web3.eth.abi.encodeEventSignature(abiItem), topicCount);
+      if (!this.events[eventKey]) {
+        this.events[eventKey] = abiItem;
+      }
+    });
+  }
+
+  /**
+   * Decodes a list of raw logs, in the format of abi-decoder
+   *
+   * @param  logs    Raw logs, such as those of a transaction receipt
+   * @return         The decoded logs, with undefined for logs of unknown events
+   */
+  public decodeLogs(logs: any[]): ABIDecoder.DecodedLog[] {
+    return _.map(logs, log => this.decodeLog(log));
+  }
+
+  /**
+   * Decodes a raw log, in the format of abi-decoder
+   *
+   * @param  log    Raw log with `address`, `data` and `topics`
+   * @return        The decoded log, or undefined if its event is unknown
+   */
+  public decodeLog(log: any): ABIDecoder.DecodedLog {
+    const topics: string[] = log.topics || [];
+    if (_.isEmpty(topics)) {
+      return undefined;
+    }
+
+    const abiItem = this.events[this.eventKey(topics[0], topics.length)];
+    if (!abiItem) {
+      return undefined;
+    }
+
+    const decoded = this.web3.eth.abi.decodeLog(abiItem.inputs, log.data, topics.slice(1));
+
+    return {
+      name: abiItem.name,
+      address: log.address,
+      events: _.map(abiItem.inputs, (input: any, index: number) => ({
+        name: input.name,
+        type: input.type,
+        value: decoded[index],
+      })),
+    };
+  }
+
+  /* ============ Private Helpers ============ */
+
+  private eventKey(signature: string, topicCount: number): string {
+    return `${signature.toLowerCase()}:${topicCount}`;
+  }
+}
+
+/**
+ * Returns the registry of every set-protocol-contracts and set-protocol-strategies ABI, created on first use
+ *
+ * @return    The default AbiRegistry
+ */
+export function getDefaultAbiRegistry(): AbiRegistry {
+  if (!defaultRegistry) {
+    defaultRegistry = new AbiRegistry([
+      ...artifactAbis(setProtocolContracts),
+      ...artifactAbis(setProtocolStrategies),
+    ]);
+  }
+
+  return defaultRegistry;
+}
+
+/* ============ Private Helpers ============ */
+
+function artifactAbis(artifacts: { [name: string]: any }): any[][] {
+  return _.compact(_.map(artifacts, artifact => artifact && _.isArray(artifact.abi) ? artifact.abi : undefined));
+}
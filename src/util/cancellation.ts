@@ -0,0 +1,85 @@
+/*
+  Copyright 2018 Set Labs Inc.
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+  http://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+*/
+
+'use strict';
+
+import * as _ from 'lodash';
+
+import { CancellationSignal } from '../types/common';
+
+/**
+ * @title CancellationController
+ * @author Set Protocol
+ *
+ * Minimal `AbortController` for environments that do not provide one. Pass `signal` to a wait such as
+ * `awaitTransactionMinedAsync` and call `abort` to stop it. Any `AbortSignal` can be passed instead
+ */
+export class CancellationController {
+  public signal: CancellationSignal;
+
+  private listeners: Array<() => void>;
+
+  constructor() {
+    this.listeners = [];
+
+    const listeners = this.listeners;
+    this.signal = {
+      aborted: false,
+      addEventListener: (type: 'abort', listener: () => void) => {
+        listeners.push(listener);
+      },
+      removeEventListener: (type: 'abort', listener: () => void) => {
+        _.pull(listeners, listener);
+      },
+    };
+  }
+
+  /**
+   * Marks the signal as aborted and notifies its listeners. Has no effect after the first call
+   */
+  public abort(): void {
+    if (this.signal.aborted) {
+      return;
+    }
+
+    this.signal.aborted = true;
+    _.each([...this.listeners], listener => listener());
+    this.listeners.length = 0;
+  }
+}
+
+/**
+ * Calls a listener once the signal is aborted, or immediately if it already is
+ *
+ * @param  signal      Cancellation signal, may be undefined
+ * @param  listener    Function to call on cancellation
+ * @return             Function that removes the listener
+ */
+export function onCancellation(signal: CancellationSignal | undefined, listener: () => void): () => void {
+  if (!signal) {
+    return _.noop;
+  }
+
+  if (signal.aborted) {
+    listener();
+
+    return _.noop;
+  }
+
+  signal.addEventListener('abort', listener);
+
+  return () => signal.removeEventListener('abort', listener);
+}
@@ -0,0 +1,298 @@
+/*
+  Copyright 2018 Set Labs Inc.
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+  http://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+*/
+
+'use strict';
+
+import * as _ from 'lodash';
+import Web3 from 'web3';
+
+import { ContractCallContext, ContractCallType, ContractMiddleware } from '../types/common';
+
+export const DEFAULT_DURATION_BUCKETS_MS = [10, 50, 100, 250, 500, 1000, 2500, 5000, 10000];
+
+const INSTRUMENTED_CALL_TYPES: ContractCallType[] = ['callAsync', 'sendTransactionAsync'];
+
+const middlewares = new WeakMap<Web3, ContractMiddleware[]>();
+const instrumentedContracts = new WeakSet<object>();
+
+export interface DurationHistogram {
+  count: number;
+  sum: number;
+  min: number;
+  max: number;
+  buckets: { [upperBoundMs: string]: number };
+}
+
+export interface ContractCallMetrics {
+  calls: { [key: string]: number };
+  errors: { [key: string]: number };
+  durations: { [key: string]: DurationHistogram };
+}
+
+export interface ContractCallLogEntry {
+  event: 'before' | 'after' | 'error';
+  contractName: string;
+  contractAddress: string;
+  methodName: string;
+  callType: ContractCallType;
+  args?: any[];
+  durationMs?: number;
+  result?: any;
+  error?: string;
+}
+
+/**
+ * @title ConsoleLoggingMiddleware
+ * @author Set Protocol
+ *
+ * Logs one structured entry per hook. Entries are written as JSON to `console.log`, or passed to a custom logger
+ */
+export class ConsoleLoggingMiddleware implements ContractMiddleware {
+  private logger: (entry: ContractCallLogEntry) => void;
+  private logArgs: boolean;
+
+  /**
+   * @param logger     Function receiving each log entry. Defaults to writing the entry as JSON to `console.log`
+   * @param logArgs    Whether to include the arguments and results of calls in the entries. Defaults to true
+   */
+  constructor(
+    logger: (entry: ContractCallLogEntry) => void = entry => console.log(JSON.stringify(entry)),
+    logArgs: boolean = true,
+  ) {
+    this.logger = logger;
+    this.logArgs = logArgs;
+  }
+
+  public before(context: ContractCallContext): void {
+    this.logger({
+      ...this.entryFromContext('before', context),
+      ...(this.logArgs ? { args: context.args } : {}),
+    });
+  }
+
+  public after(context: ContractCallContext, result: any, durationMs: number): void {
+    this.logger({
+      ...this.entryFromContext('after', context),
+      durationMs,
+      ...(this.logArgs ? { result } : {}),
+    });
+  }
+
+  public error(context: ContractCallContext, error: any, durationMs: number): void {
+    this.logger({
+      ...this.entryFromContext('error', context),
+      durationMs,
+      error: (error && error.message) || String(error),
+    });
+  }
+
+  /* ============ Private Helpers ============ */
+
+  private entryFromContext(event: 'before' | 'after' | 'error', context: ContractCallContext): ContractCallLogEntry {
+    return {
+      event,
+      contractName: context.contractName,
+      contractAddress: context.contractAddress,
+      methodName: context.methodName,
+      callType: context.callType,
+    };
+  }
+}
+
+/**
+ * @title MetricsMiddleware
+ * @author Set Protocol
+ *
+ * Counts calls and errors, and records a histogram of durations, per contract, method and call type. Metrics are
+ * keyed by `<contractName>.<methodName>.<callType>`, e.g. `SetToken.balanceOf.callAsync`
+ */
+export class MetricsMiddleware implements ContractMiddleware {
+  private bucketsMs: number[];
+  private metrics: ContractCallMetrics;
+
+  /**
+   * @param bucketsMs    Upper bounds of the duration histogram buckets in milliseconds
+   */
+  constructor(bucketsMs: number[] = DEFAULT_DURATION_BUCKETS_MS) {
+    this.bucketsMs = _.sortBy(bucketsMs);
+    this.reset();
+  }
+
+  public after(context: ContractCallContext, result: any, durationMs: number): void {
+    this.record(context, durationMs, false);
+  }
+
+  public error(context: ContractCallContext, error: any, durationMs: number): void {
+    this.record(context, durationMs, true);
+  }
+
+  /**
+   * Returns a copy of the metrics recorded since the middleware was created or last reset
+   *
+   * @return    Object conforming to `ContractCallMetrics`
+   */
+  public getMetrics(): ContractCallMetrics {
+    return _.cloneDeep(this.metrics);
+  }
+
+  /**
+   * Clears the recorded metrics
+   */
+  public reset(): void {
+    this.metrics = {
+      calls: {},
+      errors: {},
+      durations: {},
+    };
+  }
+
+  /* ============ Private Helpers ============ */
+
+  private record(context: ContractCallContext, durationMs: number, failed: boolean): void {
+    const key = `${context.contractName}.${context.methodName}.${context.callType}`;
+
+    this.metrics.calls[key] = (this.metrics.calls[key] || 0) + 1;
+    if (failed) {
+      this.metrics.errors[key] = (this.metrics.errors[key] || 0) + 1;
+    }
+
+    const histogram = this.metrics.durations[key] || this.emptyHistogram();
+    histogram.count += 1;
+    histogram.sum += durationMs;
+    histogram.min = Math.min(histogram.min, durationMs);
+    histogram.max = Math.max(histogram.max, durationMs);
+
+    const bucket = _.find(this.bucketsMs, upperBound => durationMs <= upperBound);
+    const bucketKey = bucket === undefined ? '+Inf' : String(bucket);
+    histogram.buckets[bucketKey] += 1;
+
+    this.metrics.durations[key] = histogram;
+  }
+
+  private emptyHistogram(): DurationHistogram {
+    const buckets: { [upperBoundMs: string]: number } = {};
+    _.each(this.bucketsMs, upperBound => {
+      buckets[String(upperBound)] = 0;
+    });
+    buckets['+Inf'] = 0;
+
+    return {
+      count: 0,
+      sum: 0,
+      min: Infinity,
+      max: 0,
+      buckets,
+    };
+  }
+}
+
+/**
+ * Registers a middleware that sees every `callAsync` and `sendTransactionAsync` made on contracts loaded through
+ * the contract wrappers of a web3 instance. Called by the `SetProtocol` constructor with the `contractMiddleware`
+ * of its config
+ *
+ * @param  web3          Web3.js Provider instance
+ * @param  middleware    Object conforming to `ContractMiddleware`
+ */
+export function addContractMiddleware(web3: Web3, middleware: ContractMiddleware): void {
+  const registered = middlewares.get(web3) || [];
+
+  middlewares.set(web3, [...registered, middleware]);
+}
+
+/**
+ * Unregisters a middleware added with `addContractMiddleware`
+ *
+ * @param  web3          Web3.js Provider instance
+ * @param  middleware    Middleware to remove
+ */
+export function removeContractMiddleware(web3: Web3, middleware: ContractMiddleware): void {
+  const registered = middlewares.get(web3) || [];
+
+  middlewares.set(web3, _.without(registered, middleware));
+}
+
+/**
+ * Routes the `callAsync` and `sendTransactionAsync` of every method of a contract through the middleware registered
+ * for the web3 instance. Middleware is looked up on each call, so middleware added after the contract was loaded
+ * still applies. Errors thrown by middleware are ignored so they never affect the call. A contract that has already
+ * been instrumented is left as is, so each call is reported once
+ *
+ * @param  web3            Web3.js Provider instance
+ * @param  contract        Generated contract instance, modified in place
+ * @param  contractName    Name of the contract reported to the middleware, e.g. `SetToken`
+ */
+export function instrumentContract(web3: Web3, contract: any, contractName: string): void {
+  if (instrumentedContracts.has(contract)) {
+    return;
+  }
+  instrumentedContracts.add(contract);
+
+  _.each(_.keys(contract), methodName => {
+    const method: any = contract[methodName];
+    if (!_.isObject(method)) {
+      return;
+    }
+
+    _.each(INSTRUMENTED_CALL_TYPES, callType => {
+      const original = method[callType];
+      if (!_.isFunction(original)) {
+        return;
+      }
+
+      method[callType] = async (...args: any[]): Promise<any> => {
+        const context: ContractCallContext = {
+          contractName,
+          contractAddress: contract.address,
+          methodName,
+          callType,
+          args,
+        };
+        const registered = middlewares.get(web3) || [];
+        const startTime = Date.now();
+
+        runHooks(registered, middleware => middleware.before && middleware.before(context));
+
+        try {
+          const result = await original(...args);
+          const durationMs = Date.now() - startTime;
+
+          runHooks(registered, middleware => middleware.after && middleware.after(context, result, durationMs));
+
+          return result;
+        } catch (error) {
+          const durationMs = Date.now() - startTime;
+
+          runHooks(registered, middleware => middleware.error && middleware.error(context, error, durationMs));
+
+          throw error;
+        }
+      };
+    });
+  });
+}
+
+/* ============ Private Functions ============ */
+
+function runHooks(registered: ContractMiddleware[], hook: (middleware: ContractMiddleware) => void): void {
+  _.each(registered, middleware => {
+    try {
+      hook(middleware);
+    } catch (error) {
+      // Middleware is for observation only and must not change the outcome of the call
+    }
+  });
+}
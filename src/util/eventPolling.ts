@@ -0,0 +1,94 @@
+/*
+  Copyright 2018 Set Labs Inc.
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+  http://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+*/
+
+'use strict';
+
+import * as _ from 'lodash';
+import Web3 from 'web3';
+
+import { EventPollingOpts, EventSubscription } from '../types/common';
+import { onCancellation } from './cancellation';
+
+export const DEFAULT_EVENT_POLLING_INTERVAL = 4000;
+
+/**
+ * Polls the chain for new blocks and passes the events fetched for each new range of blocks to the callback, in the
+ * order they are returned. Only blocks after the latest block at the time of subscribing are fetched, unless
+ * `fromBlock` is given. A failed fetch is passed to `onError` and retried from the same block on the next interval
+ *
+ * @param  web3            Web3.js Provider instance
+ * @param  fetchEvents     Function fetching the events emitted between two blocks, inclusive
+ * @param  callback        Function receiving each event
+ * @param  opts            Object conforming to `EventPollingOpts`
+ * @return                 Handle whose `unsubscribe` stops polling
+ */
+export function pollEvents<T>(
+  web3: Web3,
+  fetchEvents: (fromBlock: number, toBlock: number) => Promise<T[]>,
+  callback: (event: T) => void,
+  opts: EventPollingOpts = {},
+): EventSubscription {
+  const pollingIntervalMs = opts.pollingIntervalMs || DEFAULT_EVENT_POLLING_INTERVAL;
+
+  let nextBlock = opts.fromBlock;
+  let isUnsubscribed = false;
+  let timer: any;
+  let removeCancellationListener: () => void;
+
+  const unsubscribe = () => {
+    isUnsubscribed = true;
+    clearTimeout(timer);
+
+    if (removeCancellationListener) {
+      removeCancellationListener();
+    }
+  };
+
+  const poll = async () => {
+    try {
+      const latestBlock = await web3.eth.getBlockNumber();
+      if (nextBlock === undefined) {
+        nextBlock = latestBlock + 1;
+      }
+
+      if (latestBlock >= nextBlock) {
+        const events = await fetchEvents(nextBlock, latestBlock);
+        nextBlock = latestBlock + 1;
+
+        _.each(events, event => {
+          if (!isUnsubscribed) {
+            callback(event);
+          }
+        });
+      }
+    } catch (error) {
+      if (opts.onError) {
+        opts.onError(error);
+      }
+    }
+
+    if (!isUnsubscribed) {
+      timer = setTimeout(poll, pollingIntervalMs);
+    }
+  };
+
+  removeCancellationListener = onCancellation(opts.signal, unsubscribe);
+  if (!isUnsubscribed) {
+    timer = setTimeout(poll, 0);
+  }
+
+  return { unsubscribe };
+}
@@ -0,0 +1,210 @@
+/*
+  Copyright 2018 Set Labs Inc.
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+  http://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+*/
+
+'use strict';
+
+import * as _ from 'lodash';
+import Web3 from 'web3';
+import { Provider } from 'web3/providers';
+
+import { GasPriceStrategy, Tx } from '../types/common';
+import { DEFAULT_GAS_PRICE } from '../constants';
+import { BigNumber } from './bignumber';
+import { instantiateWeb3, sendToProvider } from './provider';
+
+export const GasPriceStrategyErrors = {
+  INVALID_PERCENTILE: (percentile: number) =>
+    `Gas price percentile must be between 0 and 100. Encountered: ${percentile}.`,
+  INVALID_URGENCY: (urgency: number) =>
+    `Gas price urgency multiplier must be greater than 0. Encountered: ${urgency}.`,
+};
+
+export const DEFAULT_PERCENTILE_BLOCK_COUNT = 20;
+
+/**
+ * Transaction options with a multiplier applied to the gas price from the gas price strategy
+ */
+export interface UrgentTx extends Tx {
+  gasPriceUrgency?: number;
+}
+
+/**
+ * @title FixedGasPriceStrategy
+ * @author Set Protocol
+ *
+ * Always uses the same gas price. This is the default strategy, using `DEFAULT_GAS_PRICE`
+ */
+export class FixedGasPriceStrategy implements GasPriceStrategy {
+  private gasPrice: BigNumber;
+
+  /**
+   * @param gasPrice    Gas price in wei
+   */
+  constructor(gasPrice: BigNumber | number = DEFAULT_GAS_PRICE) {
+    this.gasPrice = new BigNumber(gasPrice);
+  }
+
+  public async getGasPriceAsync(web3: Web3): Promise<BigNumber> {
+    return this.gasPrice;
+  }
+}
+
+/**
+ * @title NodeGasPriceStrategy
+ * @author Set Protocol
+ *
+ * Uses the gas price suggested by the node through `eth_gasPrice`
+ */
+export class NodeGasPriceStrategy implements GasPriceStrategy {
+  public async getGasPriceAsync(web3: Web3): Promise<BigNumber> {
+    const gasPrice = await web3.eth.getGasPrice();
+
+    return new BigNumber(gasPrice);
+  }
+}
+
+/**
+ * @title PercentileGasPriceStrategy
+ * @author Set Protocol
+ *
+ * Uses a percentile of the gas prices paid by the transactions in the most recent blocks. Falls back to
+ * `eth_gasPrice` when the blocks contain no transactions. The gas prices of each block are fetched once and kept
+ * while the block is within the sampled range, so consecutive transactions only fetch the blocks mined in between
+ */
+export class PercentileGasPriceStrategy implements GasPriceStrategy {
+  private percentile: number;
+  private blockCount: number;
+  private blockGasPrices: { [blockNumber: number]: BigNumber[] };
+
+  /**
+   * @param percentile    Percentile of recent gas prices to use, between 0 and 100
+   * @param blockCount    Number of most recent blocks to sample. Defaults to 20
+   */
+  constructor(percentile: number, blockCount: number = DEFAULT_PERCENTILE_BLOCK_COUNT) {
+    if (percentile < 0 || percentile > 100) {
+      throw new Error(GasPriceStrategyErrors.INVALID_PERCENTILE(percentile));
+    }
+
+    this.percentile = percentile;
+    this.blockCount = blockCount;
+    this.blockGasPrices = {};
+  }
+
+  public async getGasPriceAsync(web3: Web3): Promise<BigNumber> {
+    const latestBlockNumber = await web3.eth.getBlockNumber();
+    const firstBlockNumber = Math.max(latestBlockNumber - this.blockCount + 1, 0);
+    const blockNumbers = _.range(firstBlockNumber, latestBlockNumber + 1);
+
+    const missingBlockNumbers = _.filter(blockNumbers, blockNumber => !this.blockGasPrices[blockNumber]);
+    const missingBlocks: any[] = await Promise.all(_.map(missingBlockNumbers, blockNumber => {
+      return web3.eth.getBlock(blockNumber, true);
+    }));
+
+    const blockGasPrices = _.pick(this.blockGasPrices, blockNumbers);
+    _.each(missingBlocks, (block, index) => {
+      blockGasPrices[missingBlockNumbers[index]] = _.map((block && block.transactions) || [], (transaction: any) => {
+        return new BigNumber(transaction.gasPrice);
+      });
+    });
+    this.blockGasPrices = blockGasPrices;
+
+    const gasPrices = _.flatMap(blockNumbers, blockNumber => blockGasPrices[blockNumber]);
+    gasPrices.sort((a, b) => a.comparedTo(b));
+
+    if (gasPrices.length === 0) {
+      return await new NodeGasPriceStrategy().getGasPriceAsync(web3);
+    }
+
+    const index = Math.min(Math.floor(gasPrices.length * this.percentile / 100), gasPrices.length - 1);
+    return gasPrices[index];
+  }
+}
+
+/**
+ * Returns a provider that answers `eth_gasPrice` requests with the gas price from a strategy, and forwards all other
+ * requests to the provided provider unchanged. Transactions sent through SetProtocol.js without a `gasPrice` are
+ * priced through `eth_gasPrice`, so they use the strategy. The strategy is read on every request and queries the
+ * provided provider, so strategies that ask the node for a gas price are not answered by themselves
+ *
+ * @param  provider       Provider to wrap
+ * @param  getStrategy    Function returning the object conforming to `GasPriceStrategy` to price transactions with
+ * @return                Provider that prices transactions with the strategy
+ */
+export function wrapProviderWithGasPriceStrategy(provider: Provider, getStrategy: () => GasPriceStrategy): Provider {
+  const strategyWeb3 = instantiateWeb3(provider);
+
+  const send = (payload: any, callback: (error: any, response?: any) => void) => {
+    if (!payload || payload.method !== 'eth_gasPrice') {
+      return sendToProvider(provider, payload, callback);
+    }
+
+    getStrategy().getGasPriceAsync(strategyWeb3).then(
+      gasPrice => {
+        callback(undefined, { id: payload.id, jsonrpc: payload.jsonrpc, result: `0x${gasPrice.toString(16)}` });
+      },
+      error => callback(error),
+    );
+  };
+
+  const gasPricedProvider = Object.create(provider);
+  gasPricedProvider.send = send;
+  gasPricedProvider.sendAsync = send;
+
+  return gasPricedProvider;
+}
+
+/**
+ * Returns a copy of the transaction options with a multiplier applied to the gas price from the strategy, e.g. 1.5
+ * for a keeper that needs faster inclusion. Has no effect when the transaction options specify a `gasPrice`
+ *
+ * @param  txOpts     Transaction options object conforming to `Tx`
+ * @param  urgency    Multiplier applied to the strategy's gas price
+ * @return            Transaction options to pass to the API method
+ */
+export function withGasPriceUrgency(txOpts: Tx, urgency: number): UrgentTx {
+  if (!(urgency > 0)) {
+    throw new Error(GasPriceStrategyErrors.INVALID_URGENCY(urgency));
+  }
+
+  return {
+    ...txOpts,
+    gasPriceUrgency: urgency,
+  };
+}
+
+/**
+ * Fills in the gas price of transaction options that do not specify one, using the gas price returned by
+ * `eth_gasPrice` and the urgency set with `withGasPriceUrgency`. On a SetProtocol instance, `eth_gasPrice` is answered
+ * by its `gasPriceStrategy`. The urgency is removed from the returned options
+ *
+ * @param  web3      Web3.js Provider instance
+ * @param  txOpts    Transaction options object conforming to `Tx`
+ * @return           Transaction options with a gas price
+ */
+export async function applyGasPriceStrategyAsync(web3: Web3, txOpts: UrgentTx = {}): Promise<Tx> {
+  const { gasPriceUrgency, ...txSettings } = txOpts;
+
+  if (txSettings.gasPrice !== undefined) {
+    return txSettings;
+  }
+
+  const gasPrice = new BigNumber(await web3.eth.getGasPrice());
+
+  return {
+    ...txSettings,
+    gasPrice: gasPrice.mul(gasPriceUrgency || 1).ceil().toString(),
+  };
+}
@@ -0,0 +1,139 @@
+/*
+  Copyright 2018 Set Labs Inc.
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+  http://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+*/
+
+'use strict';
+
+import * as _ from 'lodash';
+import { Provider } from 'web3/providers';
+
+import { sendToProvider } from './provider';
+
+export const HistoricalReaderErrors = {
+  READ_ONLY: (method: string, blockNumber: number) =>
+    `Cannot send ${method} through a provider pinned to block ${blockNumber}.`,
+};
+
+type ProviderCallback = (error: any, response?: any) => void;
+
+// Position of the block tag in the params of each method that reads state
+const BLOCK_TAG_PARAM_INDEX: { [method: string]: number } = {
+  eth_call: 1,
+  eth_getBalance: 1,
+  eth_getCode: 1,
+  eth_getStorageAt: 2,
+  eth_getTransactionCount: 1,
+  eth_getBlockByNumber: 0,
+};
+
+const STATE_CHANGING_METHODS = ['eth_sendTransaction', 'eth_sendRawTransaction'];
+
+/**
+ * @title HistoricalReader
+ * @author Set Protocol
+ *
+ * Pins the reads sent through a provider to a past block. Reads of the latest or pending block, such as the contract
+ * calls behind every getter, are sent for the pinned block instead, the block number is reported as the pinned block
+ * and logs are fetched up to it. Reads of an explicit block are sent unchanged. Transactions are rejected.
+ */
+export class HistoricalReader {
+  private blockNumber: number;
+  private blockTag: string;
+
+  /**
+   * Instantiates a new HistoricalReader
+   *
+   * @param blockNumber    Number of the block to read state at
+   */
+  constructor(blockNumber: number) {
+    this.blockNumber = blockNumber;
+    this.blockTag = `0x${blockNumber.toString(16)}`;
+  }
+
+  /**
+   * Returns a provider that sends reads for the pinned block and rejects transactions, and forwards all other
+   * requests to the provided provider unchanged
+   *
+   * @param  provider    Provider to wrap
+   * @return             Provider pinned to the block
+   */
+  public wrapProvider(provider: Provider): Provider {
+    const historicalReader = this;
+
+    const send = (payload: any, callback: ProviderCallback) => {
+      if (_.isArray(payload)) {
+        return sendToProvider(provider, _.map(payload, item => historicalReader.pinPayload(item)), callback);
+      }
+
+      if (payload && _.includes(STATE_CHANGING_METHODS, payload.method)) {
+        return callback(new Error(HistoricalReaderErrors.READ_ONLY(payload.method, historicalReader.blockNumber)));
+      }
+
+      if (payload && payload.method === 'eth_blockNumber') {
+        return callback(undefined, { jsonrpc: payload.jsonrpc, id: payload.id, result: historicalReader.blockTag });
+      }
+
+      return sendToProvider(provider, historicalReader.pinPayload(payload), callback);
+    };
+
+    const pinnedProvider = Object.create(provider);
+    pinnedProvider.send = send;
+    pinnedProvider.sendAsync = send;
+
+    return pinnedProvider;
+  }
+
+  /* ============ Private Functions ============ */
+
+  private pinPayload(payload: any): any {
+    if (!payload) {
+      return payload;
+    }
+
+    if (payload.method === 'eth_getLogs' && payload.params && payload.params[0]) {
+      const filter = payload.params[0];
+
+      return {
+        ...payload,
+        params: [
+          {
+            ...filter,
+            fromBlock: this.pinBlockTag(filter.fromBlock),
+            toBlock: this.pinBlockTag(filter.toBlock),
+          },
+          ...payload.params.slice(1),
+        ],
+      };
+    }
+
+    const paramIndex = BLOCK_TAG_PARAM_INDEX[payload.method];
+    if (paramIndex === undefined) {
+      return payload;
+    }
+
+    const params = [...(payload.params || [])];
+    params[paramIndex] = this.pinBlockTag(params[paramIndex]);
+
+    return { ...payload, params };
+  }
+
+  private pinBlockTag(blockTag: any): any {
+    if (blockTag === undefined || blockTag === 'latest' || blockTag === 'pending') {
+      return this.blockTag;
+    }
+
+    return blockTag;
+  }
+}
@@ -16,14 +16,93 @@
 
 'use strict';
 
+export { AbiRegistry, getDefaultAbiRegistry } from './abiRegistry';
 export { BigNumber } from './bignumber';
+export { CancellationController, onCancellation } from './cancellation';
 export { classUtils } from './classUtils';
-export { getFormattedLogsFromTxHash, extractNewSetTokenAddressFromLogs } from './logs';
-export { instantiateWeb3 } from './provider';
+export { DEFAULT_EVENT_POLLING_INTERVAL, pollEvents } from './eventPolling';
+export {
+  DEFAULT_LOG_CHUNK_SIZE,
+  DEFAULT_LOG_MAX_RETRIES,
+  DEFAULT_LOG_MIN_CHUNK_SIZE,
+  DEFAULT_LOG_RETRY_DELAY,
+  fetchLogsInChunksAsync,
+  isLogLimitError,
+  LogFetcher,
+  setLogFetcherOpts,
+} from './logFetcher';
+export {
+  extractNewSetTokenAddressFromLogs,
+  filterLogsByEvent,
+  findLogByEvent,
+  getFormattedLogsFromTxHash,
+  LogErrors,
+} from './logs';
+export {
+  applyGasPriceStrategyAsync,
+  FixedGasPriceStrategy,
+  GasPriceStrategyErrors,
+  NodeGasPriceStrategy,
+  PercentileGasPriceStrategy,
+  UrgentTx,
+  withGasPriceUrgency,
+  wrapProviderWithGasPriceStrategy,
+} from './gasPriceStrategy';
+export {
+  addContractMiddleware,
+  ConsoleLoggingMiddleware,
+  ContractCallLogEntry,
+  ContractCallMetrics,
+  DEFAULT_DURATION_BUCKETS_MS,
+  DurationHistogram,
+  instrumentContract,
+  MetricsMiddleware,
+  removeContractMiddleware,
+} from './contractMiddleware';
+export { HistoricalReader, HistoricalReaderErrors } from './historicalReader';
+export {
+  CallbackPriceSource,
+  MedianizerPriceSource,
+  PriceSourceErrors,
+  StaticPriceSource,
+} from './priceSource';
+export { instantiateWeb3, sendToProvider } from './provider';
+export { DEFAULT_MAX_READ_BATCH_SIZE, ReadBatcher, ReadBatcherErrors, ReadBatcherOpts } from './readBatcher';
+export { DEFAULT_BLOCK_NUMBER_TTL_MS, ReadCache, ReadCacheOpts } from './readCache';
+export { NonceManager } from './nonceManager';
+export { Preflight, PREFLIGHT_CHECK_INCOMPLETE } from './preflight';
+export {
+  ProtocolSimulator,
+  ProtocolSimulatorErrors,
+  SimulatedERC20Opts,
+  SimulatedRebalancingSetTokenOpts,
+  SimulatedSetTokenOpts,
+} from './protocolSimulator';
 export { IntervalManager } from './intervalManager';
 export { calculatePartialAmount, calculatePercentDifference } from './commonMath';
 export { estimateIssueRedeemGasCost, parseRebalanceState } from './setTokenUtils';
 export { getFormattedLogsFromReceipt } from './logs';
 export { generateFutureTimestamp } from './timeStampUtils';
-export { generateTxOpts, getGasUsageInEth } from './transactionUtils';
+export {
+  CaptureTx,
+  ContractInstance,
+  decodeRevertReason,
+  generateTxOpts,
+  getGasUsageInEth,
+  isRevertError,
+  parseRevertReasonFromError,
+  sendContractTransactionAsync,
+  SimulationCapture,
+  simulateTransactionAsync,
+  TransactionBuilderCapture,
+  withSimulation,
+  withTransactionBuilder,
+} from './transactionUtils';
+export {
+  isRevertedReceipt,
+  TransactionTracker,
+  TransactionTrackerErrors,
+  TransactionTrackerEvents,
+  TransactionTrackerOpts,
+} from './transactionTracker';
 export { ether } from './units';
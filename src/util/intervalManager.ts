@@ -1,10 +1,17 @@
 // Kudos to the lovely dharma repo
 
+import { CancellationSignal } from '../types/common';
+import { onCancellation } from './cancellation';
+
 export interface Interval {
     onCallback: () => Promise<boolean>;
     onTimeout: () => Promise<any>;
+    onCancel?: () => Promise<any>;
     intervalMs: number;
     timeoutMs: number;
+    intervalTimer?: any;
+    timeoutTimer?: any;
+    removeCancellationListener?: () => void;
 }
 
 export class IntervalManager {
@@ -15,39 +22,72 @@ export class IntervalManager {
         this._timeoutCallback = this._timeoutCallback.bind(this);
     }
 
+    /**
+     * Calls `onCallback` every `intervalMs` until it returns false, and `onTimeout` after `timeoutMs` unless the
+     * interval has been cleared. When a cancellation signal is passed and aborted, every pending timer is cleared and
+     * `onCancel` is called instead. A `timeoutMs` of `Infinity` polls until the interval is cleared or cancelled.
+     * Registering an id that is still active replaces that interval without calling any of its callbacks, so every
+     * wait that has to settle needs its own id
+     */
     public setInterval(
         intervalId: string,
         onCallback: () => Promise<boolean>,
         onTimeout: () => Promise<any>,
         intervalMs: number,
         timeoutMs: number,
+        signal?: CancellationSignal,
+        onCancel?: () => Promise<any>,
     ) {
-        this.intervals[intervalId] = {
+        this.clearInterval(intervalId);
+
+        const interval: Interval = {
             onCallback,
             onTimeout,
+            onCancel,
             intervalMs,
             timeoutMs,
         };
+        this.intervals[intervalId] = interval;
 
-        setTimeout(this._intervalCallback(intervalId).bind(this), intervalMs);
-        setTimeout(this._timeoutCallback(intervalId).bind(this), timeoutMs);
+        interval.removeCancellationListener = onCancellation(signal, this._cancelCallback(intervalId));
+        if (!(intervalId in this.intervals)) {
+            // The signal was already aborted
+            return;
+        }
+
+        interval.intervalTimer = setTimeout(this._intervalCallback(intervalId), intervalMs);
+        if (isFinite(timeoutMs)) {
+            interval.timeoutTimer = setTimeout(this._timeoutCallback(intervalId), timeoutMs);
+        }
     }
 
     public clearInterval(intervalId: string) {
         if (intervalId in this.intervals) {
+            const { intervalTimer, timeoutTimer, removeCancellationListener } = this.intervals[intervalId];
+
+            clearTimeout(intervalTimer);
+            clearTimeout(timeoutTimer);
+            if (removeCancellationListener) {
+                removeCancellationListener();
+            }
+
             delete this.intervals[intervalId];
         }
     }
 
     protected _intervalCallback(intervalId: string): () => Promise<void> {
         return async () => {
-            if (intervalId in this.intervals) {
-                const { onCallback, intervalMs } = this.intervals[intervalId];
+            const interval = this.intervals[intervalId];
+            if (interval) {
+                const continueInterval = await interval.onCallback();
 
-                const continueInterval = await onCallback();
+                // The interval may have been cleared or replaced while the callback was pending
+                if (this.intervals[intervalId] !== interval) {
+                    return;
+                }
 
                 if (continueInterval) {
-                    setTimeout(this._intervalCallback(intervalId), intervalMs);
+                    interval.intervalTimer = setTimeout(this._intervalCallback(intervalId), interval.intervalMs);
                 } else {
                     this.clearInterval(intervalId);
                 }
@@ -60,10 +100,24 @@ export class IntervalManager {
             if (intervalId in this.intervals) {
                 const { onTimeout } = this.intervals[intervalId];
 
+                this.clearInterval(intervalId);
+
                 await onTimeout();
+            }
+        };
+    }
+
+    protected _cancelCallback(intervalId: string): () => void {
+        return () => {
+            if (intervalId in this.intervals) {
+                const { onCancel } = this.intervals[intervalId];
 
                 this.clearInterval(intervalId);
+
+                if (onCancel) {
+                    onCancel();
+                }
             }
         };
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,244 @@
+/*
+  Copyright 2018 Set Labs Inc.
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+  http://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+*/
+
+'use strict';
+
+import * as _ from 'lodash';
+import Web3 from 'web3';
+
+import { LogCursor, LogFetcherOpts, LogPage, LogRange } from '../types/common';
+
+export const DEFAULT_LOG_CHUNK_SIZE = 10000;
+export const DEFAULT_LOG_MIN_CHUNK_SIZE = 1;
+export const DEFAULT_LOG_MAX_RETRIES = 3;
+export const DEFAULT_LOG_RETRY_DELAY = 1000;
+
+// Messages with which nodes reject log queries that return too many results or take too long
+const LOG_LIMIT_ERROR_PATTERNS = [
+  /more than \d+ results/i,
+  /response size/i,
+  /limit exceeded/i,
+  /exceed(s|ed)? (the )?max(imum)?/i,
+  /block range/i,
+  /too (many|large|big)/i,
+  /time(d)? ?out/i,
+];
+
+// Node 8 and 9 do not define Symbol.asyncIterator, which `for await` looks up on the fetcher
+if (typeof Symbol === 'function' && !(Symbol as any).asyncIterator) {
+  (Symbol as any).asyncIterator = Symbol.for('Symbol.asyncIterator');
+}
+
+const fetcherOpts = new WeakMap<Web3, LogFetcherOpts>();
+
+/**
+ * Sets the chunking and retry settings used by the event queries of the library for a web3 instance. Called by the
+ * `SetProtocol` constructor with the `logFetcher` of its config
+ *
+ * @param  web3    Web3.js Provider instance
+ * @param  opts    Object conforming to `LogFetcherOpts`
+ */
+export function setLogFetcherOpts(web3: Web3, opts: LogFetcherOpts): void {
+  fetcherOpts.set(web3, opts);
+}
+
+/**
+ * @title LogFetcher
+ * @author Set Protocol
+ *
+ * Fetches the logs of a range of blocks in chunks so that wide ranges do not exceed the result or time limits of the
+ * node. When the node rejects a chunk for returning too many results or taking too long, the chunk is halved and
+ * retried, down to `minChunkSize`. Other errors, and limit errors at `minChunkSize`, are retried `maxRetries` times
+ * with a delay that doubles from `retryDelayMs` before the error is thrown. After a chunk succeeds the chunk size
+ * doubles again, up to `chunkSize`.
+ *
+ * Chunks are fetched one after another, so a range starting at block 0 takes one request per `chunkSize` blocks,
+ * which is over a thousand requests on mainnet with the default size. Start ranges at the block Core was deployed
+ * in where possible.
+ *
+ * Pages of logs are returned through the async iterator protocol, one page per chunk. The `cursor` of each page, or
+ * of the fetcher, can be passed back as the range of a new fetcher to resume where it left off:
+ *
+ *   const fetcher = new LogFetcher(web3, fetchRange, { fromBlock: 0 });
+ *   for await (const page of fetcher) { ... }
+ */
+export class LogFetcher<T> implements AsyncIterableIterator<LogPage<T>> {
+  private web3: Web3;
+  private fetchRange: (fromBlock: number, toBlock: number) => Promise<T[]>;
+  private nextBlock: number;
+  private toBlock: number | string;
+  private chunkSize: number;
+  private maxChunkSize: number;
+  private minChunkSize: number;
+  private maxRetries: number;
+  private retryDelayMs: number;
+
+  /**
+   * @param web3          Web3.js Provider instance
+   * @param fetchRange    Function fetching the logs emitted between two blocks, inclusive
+   * @param range         Object conforming to `LogRange`, or a `LogCursor` returned by an earlier fetcher. Fetches
+   *                        up to the latest block when `toBlock` is not given, as of the first page
+   * @param opts          Object conforming to `LogFetcherOpts` with the chunk size limits and retry settings
+   */
+  constructor(
+    web3: Web3,
+    fetchRange: (fromBlock: number, toBlock: number) => Promise<T[]>,
+    range: LogRange | LogCursor,
+    opts: LogFetcherOpts = {},
+  ) {
+    this.web3 = web3;
+    this.fetchRange = fetchRange;
+    this.nextBlock = range.fromBlock;
+    this.toBlock = range.toBlock;
+    this.maxChunkSize = opts.chunkSize || DEFAULT_LOG_CHUNK_SIZE;
+    this.minChunkSize = Math.min(opts.minChunkSize || DEFAULT_LOG_MIN_CHUNK_SIZE, this.maxChunkSize);
+    this.maxRetries = opts.maxRetries === undefined ? DEFAULT_LOG_MAX_RETRIES : opts.maxRetries;
+    this.retryDelayMs = opts.retryDelayMs === undefined ? DEFAULT_LOG_RETRY_DELAY : opts.retryDelayMs;
+    this.chunkSize = 'chunkSize' in range ? range.chunkSize : this.maxChunkSize;
+  }
+
+  /**
+   * Position of the next page. Undefined until the first page is fetched when the range ends at the latest block
+   */
+  public get cursor(): LogCursor {
+    if (!_.isNumber(this.toBlock)) {
+      return undefined;
+    }
+
+    return {
+      fromBlock: this.nextBlock,
+      toBlock: this.toBlock,
+      chunkSize: this.chunkSize,
+    };
+  }
+
+  /**
+   * Whether every block of the range has been fetched
+   */
+  public get isDone(): boolean {
+    return _.isNumber(this.toBlock) && this.nextBlock > this.toBlock;
+  }
+
+  public [Symbol.asyncIterator](): AsyncIterableIterator<LogPage<T>> {
+    return this;
+  }
+
+  /**
+   * Fetches the next chunk of the range
+   *
+   * @return    Iterator result with the logs of the chunk, or `done` once the range has been fetched
+   */
+  public async next(): Promise<IteratorResult<LogPage<T>>> {
+    const toBlock = await this.resolveToBlockAsync();
+    if (this.isDone) {
+      return { done: true, value: undefined };
+    }
+
+    let retries = 0;
+    while (true) {
+      const chunkFromBlock = this.nextBlock;
+      const chunkToBlock = Math.min(chunkFromBlock + this.chunkSize - 1, toBlock);
+
+      try {
+        const logs = await this.fetchRange(chunkFromBlock, chunkToBlock);
+
+        this.nextBlock = chunkToBlock + 1;
+        this.chunkSize = Math.min(this.chunkSize * 2, this.maxChunkSize);
+
+        return {
+          done: false,
+          value: {
+            logs,
+            fromBlock: chunkFromBlock,
+            toBlock: chunkToBlock,
+            cursor: this.cursor,
+          },
+        };
+      } catch (error) {
+        if (isLogLimitError(error) && this.chunkSize > this.minChunkSize) {
+          this.chunkSize = Math.max(Math.floor(this.chunkSize / 2), this.minChunkSize);
+        } else if (retries < this.maxRetries) {
+          await new Promise(resolve => setTimeout(resolve, this.retryDelayMs * Math.pow(2, retries)));
+          retries += 1;
+        } else {
+          throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * Fetches every remaining chunk of the range
+   *
+   * @return    The logs of the remaining blocks, in the order they were returned for each chunk
+   */
+  public async collectAsync(): Promise<T[]> {
+    const logs: T[] = [];
+
+    let result = await this.next();
+    while (!result.done) {
+      logs.push(...result.value.logs);
+      result = await this.next();
+    }
+
+    return logs;
+  }
+
+  /* ============ Private Helpers ============ */
+
+  private async resolveToBlockAsync(): Promise<number> {
+    if (!_.isNumber(this.toBlock)) {
+      this.toBlock = await this.web3.eth.getBlockNumber();
+    }
+
+    return this.toBlock as number;
+  }
+}
+
+/**
+ * Whether a node rejected a log query for the size of its result or the time it took, rather than failing to serve it
+ *
+ * @param  error    Error thrown by the query
+ * @return          Whether a smaller range may succeed
+ */
+export function isLogLimitError(error: any): boolean {
+  const message = error && error.message ? error.message : String(error);
+
+  return _.some(LOG_LIMIT_ERROR_PATTERNS, pattern => pattern.test(message));
+}
+
+/**
+ * Fetches all logs of a range of blocks in chunks with a `LogFetcher`, using the settings given to
+ * `setLogFetcherOpts` for the web3 instance unless others are passed
+ *
+ * @param  web3          Web3.js Provider instance
+ * @param  fetchRange    Function fetching the logs emitted between two blocks, inclusive
+ * @param  fromBlock     The beginning block to retrieve logs from
+ * @param  toBlock       The ending block to retrieve logs, inclusive (default is latest)
+ * @param  opts          Object conforming to `LogFetcherOpts`
+ * @return               The logs of the range
+ */
+export async function fetchLogsInChunksAsync<T>(
+  web3: Web3,
+  fetchRange: (fromBlock: number, toBlock: number) => Promise<T[]>,
+  fromBlock: number,
+  toBlock?: number | string,
+  opts?: LogFetcherOpts,
+): Promise<T[]> {
+  const fetcher = new LogFetcher(web3, fetchRange, { fromBlock, toBlock }, opts || fetcherOpts.get(web3));
+
+  return await fetcher.collectAsync();
+}
@@ -4,27 +4,45 @@ import Web3 from 'web3';
 import { BigNumber } from 'bignumber.js';
 import { Address, Log } from 'set-protocol-utils';
 import { TransactionReceipt } from 'ethereum-types';
-import { CreateLogArgs } from '../types/common';
+import { CreateLogArgs, TypedLog } from '../types/common';
+import { AbiRegistry, getDefaultAbiRegistry } from './abiRegistry';
 import { awaitTx } from './transactionUtils';
-import { Core } from 'set-protocol-contracts';
 
+export const LogErrors = {
+  MISSING_EVENT_LOG: (eventName: string) => `No ${eventName} log was found in the transaction logs.`,
+};
 
-export async function getFormattedLogsFromTxHash(web3: Web3, txHash: string): Promise<Log[]> {
-  ABIDecoder.addABI(Core.abi);
-
+export async function getFormattedLogsFromTxHash(
+  web3: Web3,
+  txHash: string,
+  registry: AbiRegistry = getDefaultAbiRegistry(),
+): Promise<Log[]> {
   // We need to use the promisified version of getTransactionReceiptAsync
   const receipt: TransactionReceipt = await awaitTx(web3, txHash);
-  return getFormattedLogsFromReceipt(receipt);
+
+  return getFormattedLogsFromReceipt(receipt, registry);
 }
 
-export function getFormattedLogsFromReceipt(receipt: TransactionReceipt): Log[] {
-  const logs: ABIDecoder.DecodedLog[] = _.compact(ABIDecoder.decodeLogs(receipt.logs));
+/**
+ * Decodes the logs of a transaction receipt. Logs of events missing from the registry are left out
+ *
+ * @param  receipt     Transaction receipt
+ * @param  registry    AbiRegistry to decode with (default is the registry of every Set Protocol ABI)
+ * @return             The formatted logs
+ */
+export function getFormattedLogsFromReceipt(
+  receipt: TransactionReceipt,
+  registry: AbiRegistry = getDefaultAbiRegistry(),
+): Log[] {
+  const logs: ABIDecoder.DecodedLog[] = _.compact(registry.decodeLogs(receipt.logs));
 
   return _.map(logs, log => formatLogEntry(log));
 }
 
 /**
- * Converts a ABI Decoded Log into a Log
+ * Converts a ABI Decoded Log into a Log. Integers and integer arrays are converted to BigNumbers, and addresses and
+ * address arrays are lowercased
+ *
  * Input Example
  * {
  *   name: 'Transfer',
@@ -61,13 +79,22 @@ export function formatLogEntry(logs: ABIDecoder.DecodedLog): Log {
 
     let argValue: any = value;
     switch (true) {
-      case /^(uint)\d*\[\]/.test(type): {
+      case /^u?int\d*\[\d*\]$/.test(type) && _.isArray(value): {
+        argValue = _.map(value as string[], item => new BigNumber(item.toString()));
         break;
       }
-      case /^(uint)\d*/.test(type): {
+      case /^u?int\d*$/.test(type): {
         argValue = new BigNumber(value.toString());
         break;
       }
+      case /^address\[\d*\]$/.test(type) && _.isArray(value): {
+        argValue = _.map(value as string[], item => item.toLowerCase());
+        break;
+      }
+      case type === 'address': {
+        argValue = (value as string).toLowerCase();
+        break;
+      }
     }
 
     args[name] = argValue;
@@ -80,8 +107,43 @@ export function formatLogEntry(logs: ABIDecoder.DecodedLog): Log {
   };
 }
 
+/**
+ * Finds the last log of an event
+ *
+ * @param  logs         Formatted logs
+ * @param  eventName    Name of the event
+ * @return              The last log of the event, or undefined if there is none
+ */
+export function findLogByEvent(logs: Log[], eventName: 'SetTokenCreated'): TypedLog<CreateLogArgs>;
+export function findLogByEvent<T = any>(logs: Log[], eventName: string): TypedLog<T>;
+export function findLogByEvent(logs: Log[], eventName: string): TypedLog<any> {
+  return _.findLast(logs, log => log.event === eventName);
+}
+
+/**
+ * Filters the logs of an event
+ *
+ * @param  logs         Formatted logs
+ * @param  eventName    Name of the event
+ * @return              The logs of the event, in order
+ */
+export function filterLogsByEvent(logs: Log[], eventName: 'SetTokenCreated'): TypedLog<CreateLogArgs>[];
+export function filterLogsByEvent<T = any>(logs: Log[], eventName: string): TypedLog<T>[];
+export function filterLogsByEvent(logs: Log[], eventName: string): TypedLog<any>[] {
+  return _.filter(logs, log => log.event === eventName);
+}
+
+/**
+ * Reads the address of the Set created in a transaction from its SetTokenCreated log
+ *
+ * @param  logs    Formatted logs of the transaction
+ * @return         Address of the new Set
+ */
 export function extractNewSetTokenAddressFromLogs(logs: Log[]): Address {
-  const createLog = logs[logs.length - 1];
-  const args: CreateLogArgs = createLog.args;
-  return args._setTokenAddress;
+  const createLog = findLogByEvent(logs, 'SetTokenCreated');
+  if (!createLog) {
+    throw new Error(LogErrors.MISSING_EVENT_LOG('SetTokenCreated'));
+  }
+
+  return createLog.args._setTokenAddress;
 }
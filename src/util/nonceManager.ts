@@ -0,0 +1,217 @@
+/*
+  Copyright 2018 Set Labs Inc.
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+  http://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+*/
+
+'use strict';
+
+import * as _ from 'lodash';
+import Web3 from 'web3';
+import { Provider } from 'web3/providers';
+
+import { sendToProvider } from './provider';
+
+interface AccountNonceState {
+  nextNonce: number;
+  releasedNonces: number[];
+  needsResync: boolean;
+}
+
+const NONCE_ERROR_PATTERN = new RegExp(
+  'nonce too low|nonce has already been used|correct nonce|invalid nonce|known transaction|already known|' +
+  'replacement transaction underpriced',
+  'i',
+);
+
+/**
+ * @title NonceManager
+ * @author Set Protocol
+ *
+ * Allocates transaction nonces locally, per account, so that transactions sent back-to-back from the same account are
+ * never given the same nonce by the node. Reservations for an account are serialized. The first reservation starts
+ * from the node's pending transaction count and later reservations continue from the local counter.
+ *
+ * The local counter is only moved back to the node's count when a send fails with a nonce error, or moved forward
+ * when the node's confirmed count passes it. A node whose pending count lags behind the transactions already sent is
+ * never trusted over the local counter. A nonce whose send fails for any other reason is released and handed out again
+ * before any new nonce. Transactions that are dropped from the mempool leave a gap the node will not fill on its own;
+ * call `resetNonce` after a dropped transaction so that allocation restarts from the node's pending count.
+ */
+export class NonceManager {
+  private web3: Web3;
+  private accounts: { [account: string]: AccountNonceState };
+  private locks: { [account: string]: Promise<any> };
+
+  /**
+   * Instantiates a new NonceManager
+   *
+   * @param web3    Web3.js Provider instance you would like the SetProtocol.js library to use for interacting with
+   *                  the Ethereum network
+   */
+  constructor(web3: Web3) {
+    this.web3 = web3;
+    this.accounts = {};
+    this.locks = {};
+  }
+
+  /**
+   * Reserves the next nonce for an account. Every reserved nonce must be passed to either `commitNonce` once the
+   * transaction has been accepted by the node or `releaseNonce` if sending it failed
+   *
+   * @param  account    Address of the account sending the transaction
+   * @return            Nonce to send the transaction with
+   */
+  public async reserveNonceAsync(account: string): Promise<number> {
+    const key = account.toLowerCase();
+
+    return await this.withLockAsync(key, async () => {
+      let state = this.accounts[key];
+
+      if (!state || state.needsResync) {
+        const pendingNonce = await this.web3.eth.getTransactionCount(account, 'pending');
+        state = { nextNonce: pendingNonce, releasedNonces: [], needsResync: false };
+        this.accounts[key] = state;
+      } else {
+        const confirmedNonce = await this.web3.eth.getTransactionCount(account, 'latest');
+
+        // Released nonces below the confirmed count have since been used by a transaction sent elsewhere
+        state.releasedNonces = _.filter(state.releasedNonces, releasedNonce => releasedNonce >= confirmedNonce);
+
+        if (confirmedNonce > state.nextNonce) {
+          state.nextNonce = confirmedNonce;
+        }
+      }
+
+      if (state.releasedNonces.length > 0) {
+        return state.releasedNonces.shift();
+      }
+
+      const nonce = state.nextNonce;
+      state.nextNonce += 1;
+
+      return nonce;
+    });
+  }
+
+  /**
+   * Marks a reserved nonce as used by a transaction the node accepted
+   *
+   * @param  account    Address of the account that sent the transaction
+   * @param  nonce      Nonce returned by `reserveNonceAsync`
+   */
+  public commitNonce(account: string, nonce: number): void {
+    const state = this.accounts[account.toLowerCase()];
+    if (state) {
+      state.releasedNonces = _.without(state.releasedNonces, nonce);
+    }
+  }
+
+  /**
+   * Returns a reserved nonce whose transaction could not be sent so it is allocated again. When the send failed with
+   * a nonce error the nonce is not reused and the next reservation resyncs from the node's pending count instead
+   *
+   * @param  account    Address of the account that attempted the transaction
+   * @param  nonce      Nonce returned by `reserveNonceAsync`
+   * @param  error      Error the send failed with, if any
+   */
+  public releaseNonce(account: string, nonce: number, error?: any): void {
+    const state = this.accounts[account.toLowerCase()];
+    if (!state) {
+      return;
+    }
+
+    if (isNonceError(error)) {
+      state.needsResync = true;
+      return;
+    }
+
+    if (nonce === state.nextNonce - 1) {
+      state.nextNonce = nonce;
+    } else if (nonce < state.nextNonce) {
+      state.releasedNonces = _.sortBy(_.union(state.releasedNonces, [nonce]));
+    }
+  }
+
+  /**
+   * Discards the local state of an account so that the next reservation starts from the node's pending count. Use
+   * after sending transactions from the account outside of SetProtocol.js
+   *
+   * @param  account    Address of the account to reset
+   */
+  public resetNonce(account: string): void {
+    delete this.accounts[account.toLowerCase()];
+  }
+
+  /**
+   * Returns a provider that assigns a nonce from this manager to every `eth_sendTransaction` request that does not
+   * specify one, and forwards all other requests to the provided provider unchanged
+   *
+   * @param  provider    Provider to wrap
+   * @return             Provider that allocates nonces through this manager
+   */
+  public wrapProvider(provider: Provider): Provider {
+    const nonceManager = this;
+
+    const send = (payload: any, callback: (error: any, response?: any) => void) => {
+      const txData = payload && payload.method === 'eth_sendTransaction' && payload.params && payload.params[0];
+      if (!txData || !txData.from || txData.nonce !== undefined) {
+        return sendToProvider(provider, payload, callback);
+      }
+
+      nonceManager.reserveNonceAsync(txData.from).then(
+        nonce => {
+          const managedPayload = {
+            ...payload,
+            params: [{ ...txData, nonce: nonceManager.web3.utils.toHex(nonce) }, ...payload.params.slice(1)],
+          };
+
+          sendToProvider(provider, managedPayload, (error: any, response?: any) => {
+            if (error || (response && response.error)) {
+              nonceManager.releaseNonce(txData.from, nonce, error || response.error);
+            } else {
+              nonceManager.commitNonce(txData.from, nonce);
+            }
+
+            callback(error, response);
+          });
+        },
+        error => callback(error),
+      );
+    };
+
+    const managedProvider = Object.create(provider);
+    managedProvider.send = send;
+    managedProvider.sendAsync = send;
+
+    return managedProvider;
+  }
+
+  /* ============ Private Functions ============ */
+
+  private async withLockAsync<T>(key: string, fn: () => Promise<T>): Promise<T> {
+    const previous = this.locks[key] || Promise.resolve();
+    const result = previous.then(fn);
+    this.locks[key] = result.catch(() => undefined);
+
+    return await result;
+  }
+}
+
+/* ============ Private Helpers ============ */
+
+function isNonceError(error: any): boolean {
+  const message = error && (error.message || String(error));
+
+  return !!message && NONCE_ERROR_PATTERN.test(message);
+}
@@ -0,0 +1,154 @@
+/*
+  Copyright 2018 Set Labs Inc.
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+  http://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+*/
+
+'use strict';
+
+import { SetProtocolError } from '../errors/setProtocolError';
+import { PreflightFailure, PreflightReport } from '../types/common';
+import { BigNumber } from './bignumber';
+
+export const PREFLIGHT_CHECK_INCOMPLETE = 'CHECK_INCOMPLETE';
+
+const DEFAULT_SUGGESTED_FIX = 'Resolve the failed check and try again.';
+
+/**
+ * @title Preflight
+ * @author Set Protocol
+ *
+ * Runs a series of assertions without stopping at the first failure and collects every failure into a
+ * `PreflightReport`. Assertions that fail with a `SetProtocolError` are reported with severity `error`. Checks that
+ * could not be completed, for example because a call to the node failed, are reported with severity `warning`
+ */
+export class Preflight {
+  private failures: PreflightFailure[];
+
+  constructor() {
+    this.failures = [];
+  }
+
+  /**
+   * Runs an assertion and records its failure, if any. Never throws
+   *
+   * @param  check        Name of the check, reported with the failure
+   * @param  assertion    Function that throws when the check fails
+   * @return              True if the assertion passed
+   */
+  public async checkAsync(check: string, assertion: () => Promise<void> | void): Promise<boolean> {
+    try {
+      await assertion();
+
+      return true;
+    } catch (error) {
+      this.failures.push(toPreflightFailure(check, error));
+
+      return false;
+    }
+  }
+
+  /**
+   * Whether every check run so far passed. Used to skip checks that depend on the inputs validated earlier
+   *
+   * @return    True if no check has failed
+   */
+  public hasPassed(): boolean {
+    return this.failures.length === 0;
+  }
+
+  /**
+   * Returns the failures collected so far
+   *
+   * @return    Object conforming to `PreflightReport`
+   */
+  public report(): PreflightReport {
+    return {
+      passed: this.hasPassed(),
+      failures: [...this.failures],
+    };
+  }
+}
+
+/* ============ Private Functions ============ */
+
+function toPreflightFailure(check: string, error: any): PreflightFailure {
+  if (error instanceof SetProtocolError) {
+    return {
+      check,
+      severity: 'error',
+      details: error.message.replace(/\s+/g, ' ').trim(),
+      suggestedFix: suggestFix(error),
+      code: error.code,
+    };
+  }
+
+  return {
+    check,
+    severity: 'warning',
+    details: `Check could not be completed: ${(error && error.message) || error}`,
+    suggestedFix: 'Verify the addresses are correct and the node is reachable, then run the preflight again.',
+    code: PREFLIGHT_CHECK_INCOMPLETE,
+  };
+}
+
+function suggestFix(error: any): string {
+  switch (error.code) {
+    case 'INSUFFICIENT_BALANCE':
+      return `Acquire ${shortfall(error)} more of token ${error.token} for ${error.user}.`;
+    case 'INSUFFICIENT_ALLOWANCE':
+      return `Approve ${error.spender} to transfer at least ${error.required} of token ${error.token} from ` +
+        `${error.user}, e.g. with setTransferProxyAllowanceAsync.`;
+    case 'INSUFFICIENT_TOKEN_BALANCE':
+      return `Deposit ${shortfall(error)} more of token ${error.token} into the vault for ${error.user}.`;
+    case 'QUANTITY_NEEDS_TO_BE_POSITIVE':
+      return 'Use a quantity greater than 0.';
+    case 'QUANTITY_NEEDS_TO_BE_MULTIPLE_OF_NATURAL_UNIT':
+      return `Use a quantity that is a multiple of the natural unit ${error.naturalUnit}, such as ` +
+        `${roundToMultiple(error.quantity, error.naturalUnit)}.`;
+    case 'DOES_NOT_CONFORM_TO_SCHEMA':
+      return `Pass a valid value for ${error.variableName}.`;
+    case 'IS_NOT_A_VALID_SET':
+      return 'Use the address of a Set created through Core.';
+    case 'INCORRECT_STATE':
+      return `Wait until the Rebalancing Set is in ${error.requiredState} state.`;
+    case 'BID_AMOUNT_EXCEEDS_REMAINING_CURRENT_SETS':
+      return `Bid at most the ${error.remainingCurrentSets} remaining current Sets.`;
+    case 'BID_AMOUNT_NOT_MULTIPLE_OF_MINIMUM_BID':
+      return `Bid a multiple of the minimum bid ${error.minimumBid}.`;
+    case 'ARRAYS_EQUAL_LENGTHS':
+      return `Pass the same number of ${error.firstArray} and ${error.secondArray}.`;
+    case 'EMPTY_ARRAY':
+      return `Pass at least one entry in ${error.variable}.`;
+    case 'INVALID_EXCHANGE_ID':
+      return 'Use the exchange id of a supported exchange, 0x or Kyber.';
+    case 'INSUFFIENT_LIQUIDITY_FOR_REQUIRED_COMPONENT':
+      return `Add an order that provides token ${error.component}.`;
+    case 'INSUFFICIENT_COMPONENT_AMOUNT_FROM_LIQUIDITY':
+      return `Add orders, or increase the fill amounts, so the orders provide enough of token ${error.component}.`;
+    case 'TRADE_TOKENS_NOT_COMPONENT':
+      return `Only trade for components of the Set at ${error.setAddress}.`;
+    default:
+      return DEFAULT_SUGGESTED_FIX;
+  }
+}
+
+function shortfall(error: any): BigNumber {
+  return new BigNumber(error.required).sub(error.current);
+}
+
+function roundToMultiple(quantity: BigNumber, naturalUnit: BigNumber): BigNumber {
+  const roundedDown = quantity.div(naturalUnit).floor().mul(naturalUnit);
+
+  return roundedDown.gt(0) ? roundedDown : naturalUnit;
+}
@@ -0,0 +1,107 @@
+/*
+  Copyright 2018 Set Labs Inc.
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+  http://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+*/
+
+'use strict';
+
+import * as _ from 'lodash';
+
+import { OracleAPI } from '../api/OracleAPI';
+import { Address, PriceSource } from '../types/common';
+import { E18 } from '../constants';
+import { BigNumber } from './bignumber';
+
+export const PriceSourceErrors = {
+  MISSING_PRICE: (tokenAddress: Address) => `No price is available for token ${tokenAddress}.`,
+};
+
+/**
+ * @title StaticPriceSource
+ * @author Set Protocol
+ *
+ * Prices tokens from a fixed map of token address to the price of one whole token
+ */
+export class StaticPriceSource implements PriceSource {
+  private prices: { [tokenAddress: string]: BigNumber };
+
+  /**
+   * @param prices    Map of token address to the price of one whole token
+   */
+  constructor(prices: { [tokenAddress: string]: BigNumber }) {
+    this.prices = _.mapKeys(prices, (price, tokenAddress) => tokenAddress.toLowerCase());
+  }
+
+  public async getPriceAsync(tokenAddress: Address): Promise<BigNumber> {
+    const price = this.prices[tokenAddress.toLowerCase()];
+    if (!price) {
+      throw new Error(PriceSourceErrors.MISSING_PRICE(tokenAddress));
+    }
+
+    return price;
+  }
+}
+
+/**
+ * @title CallbackPriceSource
+ * @author Set Protocol
+ *
+ * Prices tokens with a function, e.g. one reading an off-chain price API
+ */
+export class CallbackPriceSource implements PriceSource {
+  private callback: (tokenAddress: Address) => Promise<BigNumber> | BigNumber;
+
+  /**
+   * @param callback    Function returning the price of one whole token
+   */
+  constructor(callback: (tokenAddress: Address) => Promise<BigNumber> | BigNumber) {
+    this.callback = callback;
+  }
+
+  public async getPriceAsync(tokenAddress: Address): Promise<BigNumber> {
+    return await this.callback(tokenAddress);
+  }
+}
+
+/**
+ * @title MedianizerPriceSource
+ * @author Set Protocol
+ *
+ * Prices tokens with the Medianizer price feed of each token, read through `OracleAPI.getFeedPriceAsync`. Feed
+ * prices are converted from 18 decimals to the price of one whole token
+ */
+export class MedianizerPriceSource implements PriceSource {
+  private oracle: OracleAPI;
+  private medianizers: { [tokenAddress: string]: Address };
+
+  /**
+   * @param oracle         An instance of OracleAPI, such as `setProtocol.oracle`
+   * @param medianizers    Map of token address to the address of its Medianizer
+   */
+  constructor(oracle: OracleAPI, medianizers: { [tokenAddress: string]: Address }) {
+    this.oracle = oracle;
+    this.medianizers = _.mapKeys(medianizers, (medianizer, tokenAddress) => tokenAddress.toLowerCase());
+  }
+
+  public async getPriceAsync(tokenAddress: Address): Promise<BigNumber> {
+    const medianizerAddress = this.medianizers[tokenAddress.toLowerCase()];
+    if (!medianizerAddress) {
+      throw new Error(PriceSourceErrors.MISSING_PRICE(tokenAddress));
+    }
+
+    const feedPrice = await this.oracle.getFeedPriceAsync(medianizerAddress);
+
+    return feedPrice.div(E18);
+  }
+}
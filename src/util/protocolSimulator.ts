@@ -0,0 +1,1217 @@
+/*
+  Copyright 2018 Set Labs Inc.
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+  http://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+*/
+
+'use strict';
+
+import * as _ from 'lodash';
+import Web3 from 'web3';
+import {
+  Core,
+  ERC20Detailed,
+  RebalancingSetToken,
+  SetToken,
+  TransferProxy,
+  Vault,
+} from 'set-protocol-contracts';
+
+import { ACCOUNTS } from '../constants/accounts';
+import { DEFAULT_GAS_PRICE, NULL_ADDRESS } from '../constants';
+import { Address, SetProtocolConfig } from '../types/common';
+import { BigNumber } from './bignumber';
+
+export const ProtocolSimulatorErrors = {
+  UNSUPPORTED_RPC_METHOD: (method: string) =>
+    `The ProtocolSimulator does not support the JSON-RPC method ${method}.`,
+  UNSUPPORTED_CONTRACT_METHOD: (contractType: string, method: string) =>
+    `The ProtocolSimulator does not support ${contractType}.${method}.`,
+  UNKNOWN_SNAPSHOT: (snapshotId: string) =>
+    `The ProtocolSimulator has no snapshot with id ${snapshotId}.`,
+  UNKNOWN_TOKEN: (tokenAddress: Address) =>
+    `The ProtocolSimulator has no token at ${tokenAddress}.`,
+};
+
+export interface SimulatedERC20Opts {
+  name?: string;
+  symbol?: string;
+  decimals?: number;
+  supply?: BigNumber;
+  owner?: Address;
+}
+
+export interface SimulatedSetTokenOpts {
+  components: Address[];
+  units: BigNumber[];
+  naturalUnit: BigNumber;
+  name?: string;
+  symbol?: string;
+}
+
+export interface SimulatedRebalancingSetTokenOpts {
+  currentSet: Address;
+  unitShares: BigNumber;
+  naturalUnit: BigNumber;
+  manager?: Address;
+  proposalPeriod?: BigNumber;
+  rebalanceInterval?: BigNumber;
+  name?: string;
+  symbol?: string;
+}
+
+type SimulatedContractType = 'Core' | 'Vault' | 'TransferProxy' | 'ERC20' | 'SetToken' | 'RebalancingSetToken';
+
+interface SimulatedToken {
+  name: string;
+  symbol: string;
+  decimals: number;
+  totalSupply: BigNumber;
+  balances: { [owner: string]: BigNumber };
+  allowances: { [owner: string]: { [spender: string]: BigNumber } };
+  components: Address[];
+  units: BigNumber[];
+  naturalUnit: BigNumber;
+  factory: Address;
+  manager: Address;
+  proposalPeriod: BigNumber;
+  rebalanceInterval: BigNumber;
+  lastRebalanceTimestamp: BigNumber;
+}
+
+interface SimulatedContractState {
+  contracts: { [address: string]: SimulatedContractType };
+  tokens: { [address: string]: SimulatedToken };
+  vaultBalances: { [token: string]: { [owner: string]: BigNumber } };
+  setTokens: Address[];
+  addressCount: number;
+}
+
+interface SimulatedLog {
+  address: Address;
+  topics: string[];
+  data: string;
+}
+
+interface SimulatedTransaction {
+  hash: string;
+  from: Address;
+  to: Address;
+  input: string;
+  value: string;
+  gas: number;
+  gasPrice: string;
+  nonce: number;
+  blockNumber: number;
+  logs: SimulatedLog[];
+}
+
+interface SimulatedBlock {
+  number: number;
+  hash: string;
+  timestamp: number;
+  transactions: string[];
+}
+
+interface SimulatedChainState {
+  blocks: SimulatedBlock[];
+  transactions: { [hash: string]: SimulatedTransaction };
+  nonces: { [account: string]: number };
+  timeOffset: number;
+}
+
+interface SimulatorEnvironment {
+  web3: Web3;
+  owner: Address;
+  core: Address;
+  vault: Address;
+  transferProxy: Address;
+  setTokenFactory: Address;
+  rebalancingSetTokenFactory: Address;
+  timestamp: () => number;
+}
+
+type ContractMethodHandler = (execution: SimulatedExecution, args: any[]) => any[];
+
+const SIMULATOR_NETWORK_ID = 1337;
+const SIMULATED_GAS_USED = 50000;
+const SIMULATED_BLOCK_GAS_LIMIT = 8000000;
+const SIMULATED_ACCOUNT_BALANCE = new BigNumber(10).pow(20);
+const SIMULATED_CONTRACT_CODE = '0x6080604052';
+const SET_TOKEN_DECIMALS = 18;
+const EMPTY_BLOOM = '0x' + _.repeat('0', 512);
+const REVERT_REASON_SELECTOR = '0x08c379a0';
+
+const CONTRACT_ABIS: { [type: string]: any[] } = {
+  Core: Core.abi,
+  Vault: Vault.abi,
+  TransferProxy: TransferProxy.abi,
+  ERC20: ERC20Detailed.abi,
+  SetToken: SetToken.abi,
+  RebalancingSetToken: RebalancingSetToken.abi,
+};
+
+/**
+ * @title ProtocolSimulator
+ * @author Set Protocol
+ *
+ * In-memory stand-in for a chain running Core, Vault, TransferProxy, SetTokens, RebalancingSetTokens and ERC20 tokens.
+ * It is passed to `SetProtocol` as its provider and answers the JSON-RPC requests the wrappers make, keeping state
+ * for issue, redeem, deposit, withdraw, transfer and approve so code built on SetProtocol.js can be unit tested
+ * without a chain. Every transaction is mined in its own block as soon as it is sent.
+ *
+ * Example:
+ *   const simulator = new ProtocolSimulator();
+ *   const token = simulator.deployERC20Token({ supply: ether(1000) });
+ *   const set = simulator.deploySetToken({ components: [token], units: [new BigNumber(10)], naturalUnit: ... });
+ *   const setProtocol = new SetProtocol(simulator, simulator.getConfig());
+ *
+ * Rebalancing auctions, exchange issuance and the modules other than Core are not simulated; calls to them fail
+ * with an error naming the unsupported method.
+ */
+export class ProtocolSimulator {
+  public accounts: Address[];
+  public coreAddress: Address;
+  public vaultAddress: Address;
+  public transferProxyAddress: Address;
+  public setTokenFactoryAddress: Address;
+  public rebalancingSetTokenFactoryAddress: Address;
+
+  private web3: Web3;
+  private environment: SimulatorEnvironment;
+  private selectors: { [type: string]: { [selector: string]: any } };
+  private state: SimulatedContractState;
+  private chain: SimulatedChainState;
+  private snapshots: { [snapshotId: string]: { state: SimulatedContractState, chain: SimulatedChainState } };
+  private snapshotCount: number;
+
+  /**
+   * @param accounts    Accounts reported by `eth_accounts` and allowed to send transactions. Defaults to the
+   *                      accounts of the development chain
+   */
+  constructor(accounts: Address[] = _.map(ACCOUNTS, account => account.address)) {
+    this.web3 = new Web3();
+    this.accounts = accounts;
+    this.snapshots = {};
+    this.snapshotCount = 0;
+
+    this.selectors = _.mapValues(CONTRACT_ABIS, abi => {
+      const functions = _.filter(abi, item => item.type === 'function');
+
+      return _.keyBy(functions, item => this.web3.eth.abi.encodeFunctionSignature(item));
+    });
+
+    this.state = {
+      contracts: {},
+      tokens: {},
+      vaultBalances: {},
+      setTokens: [],
+      addressCount: 0,
+    };
+    this.chain = {
+      blocks: [],
+      transactions: {},
+      nonces: {},
+      timeOffset: 0,
+    };
+    this.mineBlock([]);
+
+    this.coreAddress = this.registerContract('Core');
+    this.vaultAddress = this.registerContract('Vault');
+    this.transferProxyAddress = this.registerContract('TransferProxy');
+    this.setTokenFactoryAddress = nextContractAddress(this.web3, this.state);
+    this.rebalancingSetTokenFactoryAddress = nextContractAddress(this.web3, this.state);
+
+    this.environment = {
+      web3: this.web3,
+      owner: this.accounts[0].toLowerCase(),
+      core: this.coreAddress.toLowerCase(),
+      vault: this.vaultAddress.toLowerCase(),
+      transferProxy: this.transferProxyAddress.toLowerCase(),
+      setTokenFactory: this.setTokenFactoryAddress.toLowerCase(),
+      rebalancingSetTokenFactory: this.rebalancingSetTokenFactoryAddress.toLowerCase(),
+      timestamp: () => this.currentTimestamp(),
+    };
+
+    this.send = this.send.bind(this);
+    this.sendAsync = this.sendAsync.bind(this);
+  }
+
+  /**
+   * Returns a config for the `SetProtocol` constructor pointing at the simulated contracts. Modules that are not
+   * simulated are set to the null address
+   *
+   * @return    Object conforming to `SetProtocolConfig`
+   */
+  public getConfig(): SetProtocolConfig {
+    return {
+      coreAddress: this.coreAddress,
+      exchangeIssuanceModuleAddress: NULL_ADDRESS,
+      kyberNetworkWrapperAddress: NULL_ADDRESS,
+      protocolViewerAddress: NULL_ADDRESS,
+      rebalanceAuctionModuleAddress: NULL_ADDRESS,
+      rebalancingSetExchangeIssuanceModule: NULL_ADDRESS,
+      rebalancingSetIssuanceModule: NULL_ADDRESS,
+      rebalancingSetTokenFactoryAddress: this.rebalancingSetTokenFactoryAddress,
+      setTokenFactoryAddress: this.setTokenFactoryAddress,
+      transferProxyAddress: this.transferProxyAddress,
+      vaultAddress: this.vaultAddress,
+      wrappedEtherAddress: NULL_ADDRESS,
+    };
+  }
+
+  /**
+   * Adds an ERC20 token whose whole supply is held by one account
+   *
+   * @param  opts    Object conforming to `SimulatedERC20Opts`. Defaults to 18 decimals and a supply of 10^27 held
+   *                   by the first account
+   * @return         Address of the token
+   */
+  public deployERC20Token(opts: SimulatedERC20Opts = {}): Address {
+    const address = this.registerContract('ERC20');
+    const supply = opts.supply || new BigNumber(10).pow(27);
+    const owner = (opts.owner || this.accounts[0]).toLowerCase();
+
+    this.state.tokens[address.toLowerCase()] = createToken({
+      name: opts.name || 'Simulated Token',
+      symbol: opts.symbol || 'SIM',
+      decimals: opts.decimals === undefined ? SET_TOKEN_DECIMALS : opts.decimals,
+      totalSupply: supply,
+      balances: { [owner]: supply },
+    });
+
+    return address;
+  }
+
+  /**
+   * Adds a SetToken, valid in Core, with no supply
+   *
+   * @param  opts    Object conforming to `SimulatedSetTokenOpts`
+   * @return         Address of the SetToken
+   */
+  public deploySetToken(opts: SimulatedSetTokenOpts): Address {
+    _.each(opts.components, component => getToken(this.state, component.toLowerCase()));
+
+    const address = this.registerContract('SetToken');
+    addSetToken(this.state, address.toLowerCase(), createToken({
+      name: opts.name || 'Simulated Set',
+      symbol: opts.symbol || 'SET',
+      components: _.map(opts.components, component => component.toLowerCase()),
+      units: opts.units,
+      naturalUnit: opts.naturalUnit,
+      factory: this.setTokenFactoryAddress.toLowerCase(),
+    }));
+
+    return address;
+  }
+
+  /**
+   * Adds a RebalancingSetToken, valid in Core, with no supply and no rebalance in progress
+   *
+   * @param  opts    Object conforming to `SimulatedRebalancingSetTokenOpts`. The manager defaults to the first account
+   * @return         Address of the RebalancingSetToken
+   */
+  public deployRebalancingSetToken(opts: SimulatedRebalancingSetTokenOpts): Address {
+    getToken(this.state, opts.currentSet.toLowerCase());
+
+    const address = this.registerContract('RebalancingSetToken');
+    addSetToken(this.state, address.toLowerCase(), createToken({
+      name: opts.name || 'Simulated Rebalancing Set',
+      symbol: opts.symbol || 'RBSET',
+      components: [opts.currentSet.toLowerCase()],
+      units: [opts.unitShares],
+      naturalUnit: opts.naturalUnit,
+      factory: this.rebalancingSetTokenFactoryAddress.toLowerCase(),
+      manager: (opts.manager || this.accounts[0]).toLowerCase(),
+      proposalPeriod: opts.proposalPeriod,
+      rebalanceInterval: opts.rebalanceInterval,
+      lastRebalanceTimestamp: new BigNumber(this.currentTimestamp()),
+    }));
+
+    return address;
+  }
+
+  /**
+   * Handles a JSON-RPC request, or an array of requests, the way a web3 provider does
+   *
+   * @param  payload     JSON-RPC request payload or array of payloads
+   * @param  callback    Callback receiving an error or the JSON-RPC response
+   */
+  public send(payload: any, callback: (error: any, response?: any) => void): void {
+    const response = _.isArray(payload) ? _.map(payload, request => this.handleRequest(request)) :
+      this.handleRequest(payload);
+
+    // Respond asynchronously like a network provider would
+    setTimeout(() => callback(undefined, response), 0);
+  }
+
+  public sendAsync(payload: any, callback: (error: any, response?: any) => void): void {
+    this.send(payload, callback);
+  }
+
+  /* ============ Private Functions ============ */
+
+  private handleRequest(request: any): any {
+    try {
+      return {
+        id: request.id,
+        jsonrpc: request.jsonrpc,
+        result: this.handleMethod(request.method, request.params || []),
+      };
+    } catch (error) {
+      return {
+        id: request.id,
+        jsonrpc: request.jsonrpc,
+        error: error instanceof SimulatedRevert ? {
+          code: -32000,
+          message: `VM Exception while processing transaction: revert ${error.reason}`,
+          data: REVERT_REASON_SELECTOR + this.web3.eth.abi.encodeParameter('string', error.reason).slice(2),
+        } : {
+          code: -32603,
+          message: error.message,
+        },
+      };
+    }
+  }
+
+  private handleMethod(method: string, params: any[]): any {
+    const toHex = (value: number | string) => this.web3.utils.toHex(value);
+
+    switch (method) {
+      case 'net_version':
+        return String(SIMULATOR_NETWORK_ID);
+      case 'net_listening':
+        return true;
+      case 'eth_chainId':
+        return toHex(SIMULATOR_NETWORK_ID);
+      case 'web3_clientVersion':
+        return 'ProtocolSimulator';
+      case 'eth_accounts':
+        return this.accounts;
+      case 'eth_coinbase':
+        return this.accounts[0];
+      case 'eth_gasPrice':
+        return toHex(DEFAULT_GAS_PRICE);
+      case 'eth_blockNumber':
+        return toHex(this.latestBlock().number);
+      case 'eth_getBalance':
+        return _.some(this.accounts, account => account.toLowerCase() === params[0].toLowerCase()) ?
+          toHex(SIMULATED_ACCOUNT_BALANCE.toString()) : '0x0';
+      case 'eth_getCode':
+        return params[0].toLowerCase() in this.state.contracts ? SIMULATED_CONTRACT_CODE : '0x';
+      case 'eth_getTransactionCount':
+        return toHex(this.chain.nonces[params[0].toLowerCase()] || 0);
+      case 'eth_getBlockByNumber':
+        return this.formatBlock(this.findBlockByNumber(params[0]), params[1]);
+      case 'eth_getBlockByHash':
+        return this.formatBlock(_.find(this.chain.blocks, block => block.hash === params[0]), params[1]);
+      case 'eth_getTransactionByHash':
+        return this.formatTransaction(this.chain.transactions[params[0]]);
+      case 'eth_getTransactionReceipt':
+        return this.formatReceipt(this.chain.transactions[params[0]]);
+      case 'eth_getLogs':
+        return this.getLogs(params[0] || {});
+      case 'eth_call':
+        return this.execute(_.cloneDeep(this.state), params[0]).returnData;
+      case 'eth_estimateGas':
+        this.execute(_.cloneDeep(this.state), params[0]);
+        return toHex(SIMULATED_GAS_USED);
+      case 'eth_sendTransaction':
+        return this.sendTransaction(params[0]);
+      case 'evm_snapshot':
+        return this.takeSnapshot();
+      case 'evm_revert':
+        return this.revertToSnapshot(params[0]);
+      case 'evm_increaseTime':
+        this.chain.timeOffset += Number(params[0]);
+        return this.chain.timeOffset;
+      case 'evm_mine':
+        this.mineBlock([]);
+        return '0x0';
+      default:
+        throw new Error(ProtocolSimulatorErrors.UNSUPPORTED_RPC_METHOD(method));
+    }
+  }
+
+  private sendTransaction(txData: any): string {
+    const from = (txData.from || this.accounts[0]).toLowerCase();
+    const nextState = _.cloneDeep(this.state);
+    const { logs } = this.execute(nextState, txData);
+    this.state = nextState;
+
+    const nonce = this.chain.nonces[from] || 0;
+    this.chain.nonces[from] = nonce + 1;
+
+    const hash = this.web3.utils.sha3(`${from}:${nonce}:${this.chain.blocks.length}`);
+    this.chain.transactions[hash] = {
+      hash,
+      from,
+      to: txData.to && txData.to.toLowerCase(),
+      input: txData.data || '0x',
+      value: txData.value || '0x0',
+      gas: Number(txData.gas || SIMULATED_BLOCK_GAS_LIMIT),
+      gasPrice: txData.gasPrice || this.web3.utils.toHex(DEFAULT_GAS_PRICE),
+      nonce,
+      blockNumber: this.chain.blocks.length,
+      logs,
+    };
+    this.mineBlock([hash]);
+
+    return hash;
+  }
+
+  private execute(state: SimulatedContractState, txData: any): { returnData: string, logs: SimulatedLog[] } {
+    const to = (txData.to || '').toLowerCase();
+    const data: string = txData.data || '0x';
+    const contractType = state.contracts[to];
+
+    if (!contractType || data.length < 10) {
+      return { returnData: '0x', logs: [] };
+    }
+
+    const abiItem = this.selectors[contractType][data.slice(0, 10).toLowerCase()];
+    const handler = abiItem && CONTRACT_HANDLERS[contractType][abiItem.name];
+    if (!handler) {
+      const method = abiItem ? abiItem.name : data.slice(0, 10);
+      throw new Error(ProtocolSimulatorErrors.UNSUPPORTED_CONTRACT_METHOD(contractType, method));
+    }
+
+    const decoded = this.web3.eth.abi.decodeParameters(abiItem.inputs, '0x' + data.slice(10));
+    const args = _.map(abiItem.inputs, (input: any, index: number) => fromAbiValue(input.type, decoded[index]));
+
+    const sender = (txData.from || this.accounts[0]).toLowerCase();
+    const execution = new SimulatedExecution(this.environment, state, sender, to);
+    const outputs = handler(execution, args);
+    const returnData = abiItem.outputs.length > 0 ?
+      this.web3.eth.abi.encodeParameters(abiItem.outputs, _.map(outputs, toAbiValue)) : '0x';
+
+    return { returnData, logs: execution.logs };
+  }
+
+  private takeSnapshot(): string {
+    this.snapshotCount += 1;
+    const snapshotId = this.web3.utils.toHex(this.snapshotCount);
+    this.snapshots[snapshotId] = _.cloneDeep({ state: this.state, chain: this.chain });
+
+    return snapshotId;
+  }
+
+  private revertToSnapshot(snapshotId: string | number): boolean {
+    const key = this.web3.utils.toHex(snapshotId);
+    const snapshot = this.snapshots[key];
+    if (!snapshot) {
+      throw new Error(ProtocolSimulatorErrors.UNKNOWN_SNAPSHOT(key));
+    }
+
+    // Like ganache, reverting consumes the snapshot and every snapshot taken after it
+    _.each(_.keys(this.snapshots), id => {
+      if (Number(id) >= Number(key)) {
+        delete this.snapshots[id];
+      }
+    });
+
+    this.state = snapshot.state;
+    this.chain = snapshot.chain;
+
+    return true;
+  }
+
+  private getLogs(filter: any): any[] {
+    const fromBlock = this.findBlockByNumber(filter.fromBlock || 'latest').number;
+    const toBlock = this.findBlockByNumber(filter.toBlock || 'latest').number;
+    const addresses = _.map(_.compact(_.flatten([filter.address])), (address: string) => address.toLowerCase());
+    const topics: any[] = filter.topics || [];
+
+    const matchesTopics = (log: SimulatedLog) => _.every(topics, (topic, index) => {
+      if (!topic) {
+        return true;
+      }
+
+      return _.includes(_.flatten([topic]), log.topics[index]);
+    });
+
+    const blocks = _.filter(this.chain.blocks, block => block.number >= fromBlock && block.number <= toBlock);
+
+    return _.flatMap(blocks, block => _.flatMap(block.transactions, hash => {
+      const transaction = this.chain.transactions[hash];
+      const formattedLogs = this.formatLogs(transaction);
+
+      return _.filter(formattedLogs, (formattedLog, index) => {
+        const log = transaction.logs[index];
+        const matchesAddress = addresses.length === 0 || _.includes(addresses, log.address.toLowerCase());
+
+        return matchesAddress && matchesTopics(log);
+      });
+    }));
+  }
+
+  private mineBlock(transactionHashes: string[]): void {
+    const number = this.chain.blocks.length;
+
+    this.chain.blocks.push({
+      number,
+      hash: this.web3.utils.sha3(`ProtocolSimulator:block:${number}:${transactionHashes.join()}`),
+      timestamp: this.currentTimestamp(),
+      transactions: transactionHashes,
+    });
+  }
+
+  private findBlockByNumber(blockNumber: string | number): SimulatedBlock {
+    if (blockNumber === 'earliest') {
+      return this.chain.blocks[0];
+    }
+
+    if (blockNumber === 'latest' || blockNumber === 'pending') {
+      return this.latestBlock();
+    }
+
+    return this.chain.blocks[Number(blockNumber)];
+  }
+
+  private latestBlock(): SimulatedBlock {
+    return _.last(this.chain.blocks);
+  }
+
+  private formatBlock(block: SimulatedBlock, includeTransactions: boolean): any {
+    if (!block) {
+      return undefined;
+    }
+
+    const toHex = (value: number) => this.web3.utils.toHex(value);
+    const parent = this.chain.blocks[block.number - 1];
+
+    return {
+      number: toHex(block.number),
+      hash: block.hash,
+      parentHash: parent ? parent.hash : this.web3.utils.padLeft('0x0', 64),
+      nonce: '0x0000000000000000',
+      sha3Uncles: this.web3.utils.padLeft('0x0', 64),
+      logsBloom: EMPTY_BLOOM,
+      transactionsRoot: this.web3.utils.padLeft('0x0', 64),
+      stateRoot: this.web3.utils.padLeft('0x0', 64),
+      receiptsRoot: this.web3.utils.padLeft('0x0', 64),
+      miner: NULL_ADDRESS,
+      difficulty: '0x0',
+      totalDifficulty: '0x0',
+      extraData: '0x',
+      size: '0x0',
+      gasLimit: toHex(SIMULATED_BLOCK_GAS_LIMIT),
+      gasUsed: toHex(block.transactions.length * SIMULATED_GAS_USED),
+      timestamp: toHex(block.timestamp),
+      transactions: includeTransactions ?
+        _.map(block.transactions, hash => this.formatTransaction(this.chain.transactions[hash])) :
+        block.transactions,
+      uncles: [],
+    };
+  }
+
+  private formatTransaction(transaction: SimulatedTransaction): any {
+    if (!transaction) {
+      return undefined;
+    }
+
+    const toHex = (value: number) => this.web3.utils.toHex(value);
+
+    return {
+      hash: transaction.hash,
+      nonce: toHex(transaction.nonce),
+      blockHash: this.chain.blocks[transaction.blockNumber].hash,
+      blockNumber: toHex(transaction.blockNumber),
+      transactionIndex: '0x0',
+      from: transaction.from,
+      to: transaction.to,
+      value: transaction.value,
+      gas: toHex(transaction.gas),
+      gasPrice: transaction.gasPrice,
+      input: transaction.input,
+    };
+  }
+
+  private formatReceipt(transaction: SimulatedTransaction): any {
+    if (!transaction) {
+      return undefined;
+    }
+
+    const toHex = (value: number) => this.web3.utils.toHex(value);
+
+    // web3 treats a transaction that used all of its gas as failed
+    const gasUsed = Math.min(SIMULATED_GAS_USED, transaction.gas - 1);
+
+    return {
+      transactionHash: transaction.hash,
+      transactionIndex: '0x0',
+      blockHash: this.chain.blocks[transaction.blockNumber].hash,
+      blockNumber: toHex(transaction.blockNumber),
+      from: transaction.from,
+      to: transaction.to,
+      cumulativeGasUsed: toHex(gasUsed),
+      gasUsed: toHex(gasUsed),
+      logs: this.formatLogs(transaction),
+      logsBloom: EMPTY_BLOOM,
+      status: '0x1',
+    };
+  }
+
+  private formatLogs(transaction: SimulatedTransaction): any[] {
+    const toHex = (value: number) => this.web3.utils.toHex(value);
+
+    return _.map(transaction.logs, (log, index) => ({
+      address: log.address,
+      topics: log.topics,
+      data: log.data,
+      blockNumber: toHex(transaction.blockNumber),
+      blockHash: this.chain.blocks[transaction.blockNumber].hash,
+      transactionHash: transaction.hash,
+      transactionIndex: '0x0',
+      logIndex: toHex(index),
+      removed: false,
+    }));
+  }
+
+  private registerContract(contractType: SimulatedContractType): Address {
+    const address = nextContractAddress(this.web3, this.state);
+    this.state.contracts[address.toLowerCase()] = contractType;
+
+    return address;
+  }
+
+  private currentTimestamp(): number {
+    return Math.floor(Date.now() / 1000) + this.chain.timeOffset;
+  }
+}
+
+/**
+ * Thrown by contract handlers to revert the simulated transaction
+ */
+class SimulatedRevert {
+  public reason: string;
+
+  constructor(reason: string) {
+    this.reason = reason;
+  }
+}
+
+/**
+ * State of a single simulated contract call, with the token and vault operations the contract handlers are built on.
+ * All addresses are lowercase
+ */
+class SimulatedExecution {
+  public environment: SimulatorEnvironment;
+  public state: SimulatedContractState;
+  public sender: Address;
+  public address: Address;
+  public logs: SimulatedLog[];
+
+  constructor(environment: SimulatorEnvironment, state: SimulatedContractState, sender: Address, address: Address) {
+    this.environment = environment;
+    this.state = state;
+    this.sender = sender;
+    this.address = address;
+    this.logs = [];
+  }
+
+  public get token(): SimulatedToken {
+    return getToken(this.state, this.address);
+  }
+
+  public require(condition: boolean, reason: string): void {
+    if (!condition) {
+      throw new SimulatedRevert(reason);
+    }
+  }
+
+  public emit(contractType: SimulatedContractType, address: Address, eventName: string, values: any[]): void {
+    this.logs.push(encodeLog(this.environment.web3, contractType, address, eventName, values));
+  }
+
+  public balanceOf(tokenAddress: Address, owner: Address): BigNumber {
+    return getToken(this.state, tokenAddress).balances[owner] || new BigNumber(0);
+  }
+
+  public allowance(tokenAddress: Address, owner: Address, spender: Address): BigNumber {
+    const allowances = getToken(this.state, tokenAddress).allowances[owner] || {};
+
+    return allowances[spender] || new BigNumber(0);
+  }
+
+  public approve(tokenAddress: Address, owner: Address, spender: Address, quantity: BigNumber): void {
+    const token = getToken(this.state, tokenAddress);
+    token.allowances[owner] = { ...token.allowances[owner], [spender]: quantity };
+
+    this.emit(this.state.contracts[tokenAddress], tokenAddress, 'Approval', [owner, spender, quantity]);
+  }
+
+  public transfer(tokenAddress: Address, from: Address, to: Address, quantity: BigNumber): void {
+    const token = getToken(this.state, tokenAddress);
+    const fromBalance = this.balanceOf(tokenAddress, from);
+    this.require(fromBalance.gte(quantity), 'ERC20: transfer amount exceeds balance');
+    this.require(to !== NULL_ADDRESS, 'ERC20: transfer to the zero address');
+
+    token.balances[from] = fromBalance.sub(quantity);
+    token.balances[to] = this.balanceOf(tokenAddress, to).add(quantity);
+
+    this.emit(this.state.contracts[tokenAddress], tokenAddress, 'Transfer', [from, to, quantity]);
+  }
+
+  public transferFrom(tokenAddress: Address, spender: Address, from: Address, to: Address, quantity: BigNumber): void {
+    const currentAllowance = this.allowance(tokenAddress, from, spender);
+    this.require(currentAllowance.gte(quantity), 'ERC20: transfer amount exceeds allowance');
+
+    const token = getToken(this.state, tokenAddress);
+    token.allowances[from] = { ...token.allowances[from], [spender]: currentAllowance.sub(quantity) };
+
+    this.transfer(tokenAddress, from, to, quantity);
+  }
+
+  public mint(tokenAddress: Address, to: Address, quantity: BigNumber): void {
+    const token = getToken(this.state, tokenAddress);
+    token.totalSupply = token.totalSupply.add(quantity);
+    token.balances[to] = this.balanceOf(tokenAddress, to).add(quantity);
+
+    this.emit(this.state.contracts[tokenAddress], tokenAddress, 'Transfer', [NULL_ADDRESS, to, quantity]);
+  }
+
+  public burn(tokenAddress: Address, from: Address, quantity: BigNumber): void {
+    const token = getToken(this.state, tokenAddress);
+    const fromBalance = this.balanceOf(tokenAddress, from);
+    this.require(fromBalance.gte(quantity), 'ERC20: burn amount exceeds balance');
+
+    token.totalSupply = token.totalSupply.sub(quantity);
+    token.balances[from] = fromBalance.sub(quantity);
+
+    this.emit(this.state.contracts[tokenAddress], tokenAddress, 'Transfer', [from, NULL_ADDRESS, quantity]);
+  }
+
+  public vaultBalance(tokenAddress: Address, owner: Address): BigNumber {
+    const balances = this.state.vaultBalances[tokenAddress] || {};
+
+    return balances[owner] || new BigNumber(0);
+  }
+
+  public incrementVaultBalance(tokenAddress: Address, owner: Address, quantity: BigNumber): void {
+    this.state.vaultBalances[tokenAddress] = {
+      ...this.state.vaultBalances[tokenAddress],
+      [owner]: this.vaultBalance(tokenAddress, owner).add(quantity),
+    };
+  }
+
+  public decrementVaultBalance(tokenAddress: Address, owner: Address, quantity: BigNumber): void {
+    const currentBalance = this.vaultBalance(tokenAddress, owner);
+    this.require(currentBalance.gte(quantity), 'Vault.decrementTokenOwner: Insufficient token balance');
+
+    this.state.vaultBalances[tokenAddress] = {
+      ...this.state.vaultBalances[tokenAddress],
+      [owner]: currentBalance.sub(quantity),
+    };
+  }
+
+  public deposit(owner: Address, tokenAddress: Address, quantity: BigNumber): void {
+    this.transferFrom(tokenAddress, this.environment.transferProxy, owner, this.environment.vault, quantity);
+    this.incrementVaultBalance(tokenAddress, owner, quantity);
+  }
+
+  public withdraw(owner: Address, to: Address, tokenAddress: Address, quantity: BigNumber): void {
+    this.decrementVaultBalance(tokenAddress, owner, quantity);
+    this.transfer(tokenAddress, this.environment.vault, to, quantity);
+  }
+
+  public issueSet(owner: Address, recipient: Address, setAddress: Address, quantity: BigNumber): void {
+    this.requireIssuable(setAddress, quantity);
+
+    const set = getToken(this.state, setAddress);
+    const requiredQuantities = componentQuantities(set, quantity);
+    _.each(set.components, (component, index) => {
+      const required = requiredQuantities[index];
+      const vaultBalance = this.vaultBalance(component, owner);
+
+      // Components the owner holds in the vault are used before any are transferred in
+      if (vaultBalance.gte(required)) {
+        this.decrementVaultBalance(component, owner, required);
+      } else {
+        this.decrementVaultBalance(component, owner, vaultBalance);
+        this.transferFrom(
+          component,
+          this.environment.transferProxy,
+          owner,
+          this.environment.vault,
+          required.sub(vaultBalance),
+        );
+      }
+
+      this.incrementVaultBalance(component, setAddress, required);
+    });
+
+    this.mint(setAddress, recipient, quantity);
+    this.emit('Core', this.environment.core, 'SetIssued', [setAddress, quantity]);
+  }
+
+  /**
+   * Burns the Set from the holder and returns the component quantities released from the Set's vault balance. The
+   * caller decides who the released components are credited to
+   */
+  public redeemSet(holder: Address, setAddress: Address, quantity: BigNumber): BigNumber[] {
+    this.requireIssuable(setAddress, quantity);
+
+    this.burn(setAddress, holder, quantity);
+
+    const set = getToken(this.state, setAddress);
+    const releasedQuantities = componentQuantities(set, quantity);
+    _.each(set.components, (component, index) => {
+      this.decrementVaultBalance(component, setAddress, releasedQuantities[index]);
+    });
+
+    this.emit('Core', this.environment.core, 'SetRedeemed', [setAddress, quantity]);
+
+    return releasedQuantities;
+  }
+
+  public creditComponents(setAddress: Address, owner: Address, quantities: BigNumber[]): void {
+    _.each(getToken(this.state, setAddress).components, (component, index) => {
+      this.incrementVaultBalance(component, owner, quantities[index]);
+    });
+  }
+
+  private requireIssuable(setAddress: Address, quantity: BigNumber): void {
+    this.require(_.includes(this.state.setTokens, setAddress), 'Core: Set token must be valid');
+
+    const set = getToken(this.state, setAddress);
+    this.require(quantity.gt(0), 'Core: Quantity must be greater than zero');
+    this.require(quantity.mod(set.naturalUnit).eq(0), 'Core: Quantity must be multiple of natural unit');
+  }
+}
+
+/* ============ Contract Handlers ============ */
+
+const ERC20_HANDLERS: { [method: string]: ContractMethodHandler } = {
+  name: execution => [execution.token.name],
+  symbol: execution => [execution.token.symbol],
+  decimals: execution => [execution.token.decimals],
+  totalSupply: execution => [execution.token.totalSupply],
+  balanceOf: (execution, [owner]) => [execution.balanceOf(execution.address, owner)],
+  allowance: (execution, [owner, spender]) => [execution.allowance(execution.address, owner, spender)],
+  transfer: (execution, [to, quantity]) => {
+    execution.transfer(execution.address, execution.sender, to, quantity);
+    return [true];
+  },
+  transferFrom: (execution, [from, to, quantity]) => {
+    execution.transferFrom(execution.address, execution.sender, from, to, quantity);
+    return [true];
+  },
+  approve: (execution, [spender, quantity]) => {
+    execution.approve(execution.address, execution.sender, spender, quantity);
+    return [true];
+  },
+  increaseAllowance: (execution, [spender, quantity]) => {
+    const currentAllowance = execution.allowance(execution.address, execution.sender, spender);
+    execution.approve(execution.address, execution.sender, spender, currentAllowance.add(quantity));
+    return [true];
+  },
+  decreaseAllowance: (execution, [spender, quantity]) => {
+    const currentAllowance = execution.allowance(execution.address, execution.sender, spender);
+    execution.require(currentAllowance.gte(quantity), 'ERC20: decreased allowance below zero');
+    execution.approve(execution.address, execution.sender, spender, currentAllowance.sub(quantity));
+    return [true];
+  },
+};
+
+const SET_TOKEN_HANDLERS: { [method: string]: ContractMethodHandler } = {
+  ...ERC20_HANDLERS,
+  naturalUnit: execution => [execution.token.naturalUnit],
+  factory: execution => [execution.token.factory],
+  getComponents: execution => [execution.token.components],
+  getUnits: execution => [execution.token.units],
+  components: (execution, [index]) => [execution.token.components[index.toNumber()]],
+  units: (execution, [index]) => [execution.token.units[index.toNumber()]],
+  tokenIsComponent: (execution, [component]) => [_.includes(execution.token.components, component)],
+};
+
+const REBALANCING_SET_TOKEN_HANDLERS: { [method: string]: ContractMethodHandler } = {
+  ...SET_TOKEN_HANDLERS,
+  currentSet: execution => [execution.token.components[0]],
+  unitShares: execution => [execution.token.units[0]],
+  manager: execution => [execution.token.manager],
+  proposalPeriod: execution => [execution.token.proposalPeriod],
+  rebalanceInterval: execution => [execution.token.rebalanceInterval],
+  lastRebalanceTimestamp: execution => [execution.token.lastRebalanceTimestamp],
+  core: execution => [execution.environment.core],
+  vault: execution => [execution.environment.vault],
+  // No rebalance is ever in progress, so the auction state keeps its initial values
+  rebalanceState: () => [0],
+  nextSet: () => [NULL_ADDRESS],
+  auctionLibrary: () => [NULL_ADDRESS],
+  proposalStartTime: () => [0],
+  startingCurrentSetAmount: () => [0],
+  biddingParameters: () => [0, 0],
+  getBiddingParameters: () => [[0, 0]],
+  auctionPriceParameters: () => [0, 0, 0, 0],
+  getAuctionPriceParameters: () => [[0, 0, 0, 0]],
+  getCombinedTokenArray: () => [[]],
+  getCombinedTokenArrayLength: () => [0],
+  getFailedAuctionWithdrawComponents: () => [[]],
+  setManager: (execution, [newManager]) => {
+    execution.require(execution.sender === execution.token.manager, 'RebalancingSetToken: Sender must be manager');
+    execution.token.manager = newManager;
+    return [];
+  },
+};
+
+const AUTHORIZABLE_HANDLERS: { [method: string]: ContractMethodHandler } = {
+  owner: execution => [execution.environment.owner],
+  isOwner: execution => [execution.sender === execution.environment.owner],
+  timeLockPeriod: () => [0],
+  authorities: execution => [execution.environment.core],
+  authorized: (execution, [address]) => [address === execution.environment.core],
+  getAuthorizedAddresses: execution => [[execution.environment.core]],
+};
+
+const VAULT_HANDLERS: { [method: string]: ContractMethodHandler } = {
+  ...AUTHORIZABLE_HANDLERS,
+  balances: (execution, [token, owner]) => [execution.vaultBalance(token, owner)],
+  getOwnerBalance: (execution, [token, owner]) => [execution.vaultBalance(token, owner)],
+};
+
+const CORE_HANDLERS: { [method: string]: ContractMethodHandler } = {
+  owner: AUTHORIZABLE_HANDLERS.owner,
+  isOwner: AUTHORIZABLE_HANDLERS.isOwner,
+  timeLockPeriod: AUTHORIZABLE_HANDLERS.timeLockPeriod,
+  vault: execution => [execution.environment.vault],
+  transferProxy: execution => [execution.environment.transferProxy],
+  operationState: () => [0],
+  setTokens: execution => [execution.state.setTokens],
+  validSets: (execution, [set]) => [_.includes(execution.state.setTokens, set)],
+  disabledSets: () => [false],
+  factories: execution => [[execution.environment.setTokenFactory, execution.environment.rebalancingSetTokenFactory]],
+  validFactories: (execution, [factory]) => [
+    factory === execution.environment.setTokenFactory || factory === execution.environment.rebalancingSetTokenFactory,
+  ],
+  modules: () => [[]],
+  validModules: () => [false],
+  exchanges: () => [[]],
+  exchangeIds: () => [NULL_ADDRESS],
+  priceLibraries: () => [[]],
+  validPriceLibraries: () => [false],
+  createSet: (execution, [factory, components, units, naturalUnit, name, symbol, callData]) => {
+    const { web3, setTokenFactory, rebalancingSetTokenFactory, timestamp } = execution.environment;
+    const isRebalancingSet = factory === rebalancingSetTokenFactory;
+    execution.require(factory === setTokenFactory || isRebalancingSet, 'Core: Factory must be tracked by Core');
+    execution.require(components.length > 0, 'Core: Components must not be empty');
+    execution.require(components.length === units.length, 'Core: Components and units must be the same length');
+    execution.require(
+      _.every(components, component => component in execution.state.tokens),
+      'Core: Components must be ERC20 tokens',
+    );
+
+    const token = createToken({
+      name: bytes32ToString(web3, name),
+      symbol: bytes32ToString(web3, symbol),
+      components,
+      units,
+      naturalUnit,
+      factory,
+    });
+    if (isRebalancingSet) {
+      // The call data holds the manager, proposal period and rebalance interval, each padded to 32 bytes
+      const decoded = web3.eth.abi.decodeParameters(['address', 'uint256', 'uint256'], callData);
+      token.manager = decoded[0].toLowerCase();
+      token.proposalPeriod = new BigNumber(decoded[1]);
+      token.rebalanceInterval = new BigNumber(decoded[2]);
+      token.lastRebalanceTimestamp = new BigNumber(timestamp());
+    }
+
+    const setAddress = nextContractAddress(web3, execution.state).toLowerCase();
+    execution.state.contracts[setAddress] = isRebalancingSet ? 'RebalancingSetToken' : 'SetToken';
+    addSetToken(execution.state, setAddress, token);
+
+    const eventValues = [setAddress, factory, components, units, naturalUnit, name, symbol];
+    execution.emit('Core', execution.environment.core, 'SetTokenCreated', eventValues);
+
+    return [setAddress];
+  },
+  issue: (execution, [set, quantity]) => {
+    execution.issueSet(execution.sender, execution.sender, set, quantity);
+    return [];
+  },
+  issueTo: (execution, [recipient, set, quantity]) => {
+    execution.issueSet(execution.sender, recipient, set, quantity);
+    return [];
+  },
+  issueInVault: (execution, [set, quantity]) => {
+    execution.issueSet(execution.sender, execution.environment.vault, set, quantity);
+    execution.incrementVaultBalance(set, execution.sender, quantity);
+    return [];
+  },
+  redeem: (execution, [set, quantity]) => {
+    const releasedQuantities = execution.redeemSet(execution.sender, set, quantity);
+    execution.creditComponents(set, execution.sender, releasedQuantities);
+    return [];
+  },
+  redeemTo: (execution, [recipient, set, quantity]) => {
+    const releasedQuantities = execution.redeemSet(execution.sender, set, quantity);
+    execution.creditComponents(set, recipient, releasedQuantities);
+    return [];
+  },
+  redeemInVault: (execution, [set, quantity]) => {
+    execution.decrementVaultBalance(set, execution.sender, quantity);
+    const releasedQuantities = execution.redeemSet(execution.environment.vault, set, quantity);
+    execution.creditComponents(set, execution.sender, releasedQuantities);
+    return [];
+  },
+  redeemAndWithdrawTo: (execution, [set, to, quantity, toExclude]) => {
+    const releasedQuantities = execution.redeemSet(execution.sender, set, quantity);
+    execution.creditComponents(set, execution.sender, releasedQuantities);
+
+    // Components whose bit is set in the exclusion mask stay in the vault, owned by the redeemer
+    _.each(getToken(execution.state, set).components, (component, index) => {
+      const isExcluded = toExclude.div(new BigNumber(2).pow(index)).floor().mod(2).eq(1);
+      if (!isExcluded) {
+        execution.withdraw(execution.sender, to, component, releasedQuantities[index]);
+      }
+    });
+    return [];
+  },
+  deposit: (execution, [token, quantity]) => {
+    execution.deposit(execution.sender, token, quantity);
+    return [];
+  },
+  batchDeposit: (execution, [tokens, quantities]) => {
+    execution.require(tokens.length === quantities.length, 'Core: Tokens and quantities must be the same length');
+    _.each(tokens, (token, index) => execution.deposit(execution.sender, token, quantities[index]));
+    return [];
+  },
+  withdraw: (execution, [token, quantity]) => {
+    execution.withdraw(execution.sender, execution.sender, token, quantity);
+    return [];
+  },
+  batchWithdraw: (execution, [tokens, quantities]) => {
+    execution.require(tokens.length === quantities.length, 'Core: Tokens and quantities must be the same length');
+    _.each(tokens, (token, index) => execution.withdraw(execution.sender, execution.sender, token, quantities[index]));
+    return [];
+  },
+  internalTransfer: (execution, [token, to, quantity]) => {
+    execution.decrementVaultBalance(token, execution.sender, quantity);
+    execution.incrementVaultBalance(token, to, quantity);
+    return [];
+  },
+};
+
+const CONTRACT_HANDLERS: { [type: string]: { [method: string]: ContractMethodHandler } } = {
+  Core: CORE_HANDLERS,
+  Vault: VAULT_HANDLERS,
+  TransferProxy: AUTHORIZABLE_HANDLERS,
+  ERC20: ERC20_HANDLERS,
+  SetToken: SET_TOKEN_HANDLERS,
+  RebalancingSetToken: REBALANCING_SET_TOKEN_HANDLERS,
+};
+
+/* ============ Private Functions ============ */
+
+function createToken(fields: Partial<SimulatedToken>): SimulatedToken {
+  return {
+    name: '',
+    symbol: '',
+    decimals: SET_TOKEN_DECIMALS,
+    totalSupply: new BigNumber(0),
+    balances: {},
+    allowances: {},
+    components: [],
+    units: [],
+    naturalUnit: new BigNumber(0),
+    factory: NULL_ADDRESS,
+    manager: NULL_ADDRESS,
+    proposalPeriod: new BigNumber(0),
+    rebalanceInterval: new BigNumber(0),
+    lastRebalanceTimestamp: new BigNumber(0),
+    ..._.omitBy(fields, _.isUndefined),
+  };
+}
+
+function getToken(state: SimulatedContractState, address: Address): SimulatedToken {
+  const token = state.tokens[address];
+  if (!token) {
+    throw new Error(ProtocolSimulatorErrors.UNKNOWN_TOKEN(address));
+  }
+
+  return token;
+}
+
+function addSetToken(state: SimulatedContractState, address: Address, token: SimulatedToken): void {
+  state.tokens[address] = token;
+  state.setTokens.push(address);
+}
+
+function nextContractAddress(web3: Web3, state: SimulatedContractState): Address {
+  state.addressCount += 1;
+  const hash = web3.utils.sha3(`ProtocolSimulator:address:${state.addressCount}`);
+
+  return web3.utils.toChecksumAddress('0x' + hash.slice(-40));
+}
+
+function componentQuantities(set: SimulatedToken, quantity: BigNumber): BigNumber[] {
+  return _.map(set.units, unit => quantity.mul(unit).div(set.naturalUnit));
+}
+
+function encodeLog(
+  web3: Web3,
+  contractType: SimulatedContractType,
+  address: Address,
+  eventName: string,
+  values: any[],
+): SimulatedLog {
+  const abiItem = _.find(CONTRACT_ABIS[contractType], item => item.type === 'event' && item.name === eventName);
+  const indexedInputs = _.filter(abiItem.inputs, (input: any) => input.indexed);
+  const dataInputs = _.filter(abiItem.inputs, (input: any) => !input.indexed);
+  const valueOf = (input: any) => toAbiValue(values[_.indexOf(abiItem.inputs, input)]);
+
+  return {
+    address,
+    topics: [
+      web3.eth.abi.encodeEventSignature(abiItem),
+      ..._.map(indexedInputs, (input: any) => web3.eth.abi.encodeParameter(input.type, valueOf(input))),
+    ],
+    data: web3.eth.abi.encodeParameters(_.map(dataInputs, (input: any) => input.type), _.map(dataInputs, valueOf)),
+  };
+}
+
+function bytes32ToString(web3: Web3, value: string): string {
+  return web3.utils.hexToUtf8(value).replace(/\u0000/g, '');
+}
+
+function fromAbiValue(type: string, value: any): any {
+  if (_.endsWith(type, '[]')) {
+    const elementType = type.slice(0, -2);
+
+    return _.map(value, element => fromAbiValue(elementType, element));
+  }
+
+  if (type === 'address') {
+    return value.toLowerCase();
+  }
+
+  if (/^u?int\d*$/.test(type)) {
+    return new BigNumber(value.toString());
+  }
+
+  return value;
+}
+
+function toAbiValue(value: any): any {
+  if (_.isArray(value)) {
+    return _.map(value, toAbiValue);
+  }
+
+  if (value instanceof BigNumber) {
+    return value.toFixed();
+  }
+
+  return value;
+}
@@ -21,3 +21,16 @@ export const instantiateWeb3 = (provider: Provider): Web3 => {
     throw new Error('Please make sure to pass in a provider.');
   }
 };
+
+/**
+ * Sends a JSON-RPC payload, or an array of payloads, through a provider using `sendAsync` when the provider has it
+ *
+ * @param  provider    Provider to send the payload through
+ * @param  payload     JSON-RPC request payload or array of payloads
+ * @param  callback    Callback receiving an error or the JSON-RPC response
+ */
+export const sendToProvider = (provider: Provider, payload: any, callback: (error: any, response?: any) => void) => {
+  const rawProvider = provider as any;
+
+  return rawProvider.sendAsync ? rawProvider.sendAsync(payload, callback) : rawProvider.send(payload, callback);
+};
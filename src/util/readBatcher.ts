@@ -0,0 +1,198 @@
+/*
+  Copyright 2018 Set Labs Inc.
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+  http://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+*/
+
+'use strict';
+
+import * as _ from 'lodash';
+import Web3 from 'web3';
+import { Provider } from 'web3/providers';
+
+import { Address } from '../types/common';
+import { sendToProvider } from './provider';
+
+export const ReadBatcherErrors = {
+  INVALID_BATCH_RESPONSE: (responses: any) =>
+    `Invalid JSON RPC response to batched read: ${JSON.stringify(responses)}.`,
+};
+
+export interface ReadBatcherOpts {
+  multicallAddress?: Address;
+  maxBatchSize?: number;
+}
+
+export const DEFAULT_MAX_READ_BATCH_SIZE = 50;
+
+type ProviderCallback = (error: any, response?: any) => void;
+
+interface PendingCall {
+  payload: any;
+  callback: ProviderCallback;
+}
+
+const MULTICALL_AGGREGATE_ABI = {
+  name: 'aggregate',
+  type: 'function',
+  inputs: [{
+    name: 'calls',
+    type: 'tuple[]',
+    components: [{ name: 'target', type: 'address' }, { name: 'callData', type: 'bytes' }],
+  }],
+};
+
+/**
+ * @title ReadBatcher
+ * @author Set Protocol
+ *
+ * Groups the `eth_call` requests made in the same tick, such as the getters behind `getDetailsAsync`, into a single
+ * JSON-RPC batch request. When the address of a deployed Multicall contract is configured, calls without a value that
+ * read at the same block are instead combined into one `aggregate` call, falling back to a JSON-RPC batch if the
+ * aggregate call fails, e.g. because one of the calls reverts.
+ *
+ * Contract wrappers pass the sender of their default transaction options to every read, so the sender does not stop a
+ * call from being aggregated. Aggregated calls are made by the Multicall contract, so only enable Multicall for reads
+ * that do not depend on `msg.sender`, which is true of the Set Protocol getters.
+ */
+export class ReadBatcher {
+  private web3: Web3;
+  private multicallAddress: Address;
+  private maxBatchSize: number;
+
+  /**
+   * Instantiates a new ReadBatcher
+   *
+   * @param web3       Web3.js Provider instance used to encode and decode aggregate calls
+   * @param options    Object conforming to `ReadBatcherOpts` with the Multicall address and maximum batch size
+   */
+  constructor(web3: Web3, options: ReadBatcherOpts = {}) {
+    this.web3 = web3;
+    this.multicallAddress = options.multicallAddress;
+    this.maxBatchSize = options.maxBatchSize || DEFAULT_MAX_READ_BATCH_SIZE;
+  }
+
+  /**
+   * Returns a provider that queues `eth_call` requests and sends them in batches, and forwards all other requests to
+   * the provided provider unchanged
+   *
+   * @param  provider    Provider to wrap
+   * @return             Provider that batches reads
+   */
+  public wrapProvider(provider: Provider): Provider {
+    const readBatcher = this;
+    let queue: PendingCall[] = [];
+
+    const send = (payload: any, callback: ProviderCallback) => {
+      if (!payload || payload.method !== 'eth_call') {
+        return sendToProvider(provider, payload, callback);
+      }
+
+      queue.push({ payload, callback });
+      if (queue.length === 1) {
+        setTimeout(() => {
+          const calls = queue;
+          queue = [];
+
+          _.chunk(calls, readBatcher.maxBatchSize).forEach(batch => readBatcher.flush(provider, batch));
+        }, 0);
+      }
+    };
+
+    const batchedProvider = Object.create(provider);
+    batchedProvider.send = send;
+    batchedProvider.sendAsync = send;
+
+    return batchedProvider;
+  }
+
+  /* ============ Private Functions ============ */
+
+  private flush(provider: Provider, calls: PendingCall[]): void {
+    if (!this.multicallAddress) {
+      this.sendBatch(provider, calls);
+      return;
+    }
+
+    const [aggregatable, remaining] = _.partition(calls, call => this.isAggregatable(call.payload));
+    const groups = _.groupBy(aggregatable, call => call.payload.params[1] || 'latest');
+
+    _.values(groups).forEach(group => {
+      if (group.length > 1) {
+        this.sendAggregate(provider, group);
+      } else {
+        remaining.push(...group);
+      }
+    });
+
+    this.sendBatch(provider, remaining);
+  }
+
+  private sendBatch(provider: Provider, calls: PendingCall[]): void {
+    if (calls.length === 0) {
+      return;
+    }
+
+    if (calls.length === 1) {
+      sendToProvider(provider, calls[0].payload, calls[0].callback);
+      return;
+    }
+
+    sendToProvider(provider, _.map(calls, call => call.payload), (error: any, responses?: any[]) => {
+      const responsesById = _.keyBy(responses || [], response => response.id);
+
+      calls.forEach(call => {
+        const response = responsesById[call.payload.id];
+        if (error || !response) {
+          call.callback(error || new Error(ReadBatcherErrors.INVALID_BATCH_RESPONSE(responses)));
+        } else {
+          call.callback(undefined, response);
+        }
+      });
+    });
+  }
+
+  private sendAggregate(provider: Provider, calls: PendingCall[]): void {
+    const [firstCall] = calls;
+    const data = this.web3.eth.abi.encodeFunctionCall(
+      MULTICALL_AGGREGATE_ABI as any,
+      [_.map(calls, call => [call.payload.params[0].to, call.payload.params[0].data])] as any,
+    );
+    const aggregatePayload = {
+      ...firstCall.payload,
+      params: [{ to: this.multicallAddress, data }, firstCall.payload.params[1] || 'latest'],
+    };
+
+    sendToProvider(provider, aggregatePayload, (error: any, response?: any) => {
+      if (error || !response || response.error || !response.result || response.result === '0x') {
+        this.sendBatch(provider, calls);
+        return;
+      }
+
+      const decoded = this.web3.eth.abi.decodeParameters(['uint256', 'bytes[]'], response.result);
+      const returnData: string[] = decoded[1];
+
+      calls.forEach((call, index) => {
+        call.callback(undefined, { jsonrpc: response.jsonrpc, id: call.payload.id, result: returnData[index] });
+      });
+    });
+  }
+
+  private isAggregatable(payload: any): boolean {
+    const callData = payload.params && payload.params[0];
+
+    const hasValue = !!callData && !!callData.value && Number(callData.value) !== 0;
+
+    return !!callData && !!callData.to && !!callData.data && !hasValue;
+  }
+}
@@ -0,0 +1,277 @@
+/*
+  Copyright 2018 Set Labs Inc.
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+  http://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+*/
+
+'use strict';
+
+import * as _ from 'lodash';
+import Web3 from 'web3';
+import { Provider } from 'web3/providers';
+
+import { sendToProvider } from './provider';
+
+export interface ReadCacheOpts {
+  blockNumberTtlMs?: number;
+}
+
+export const DEFAULT_BLOCK_NUMBER_TTL_MS = 1000;
+
+type ProviderCallback = (error: any, response?: any) => void;
+
+// Getters whose value is fixed when the contract is deployed
+const IMMUTABLE_SIGNATURES = ['decimals()', 'naturalUnit()'];
+
+// Getters that are fixed for a SetToken but change during a RebalancingSetToken's rebalance
+const SET_TOKEN_IMMUTABLE_SIGNATURES = ['getComponents()', 'getUnits()'];
+
+// Getter that only exists on RebalancingSetTokens, used to tell them apart from SetTokens
+const REBALANCING_SET_PROBE_SIGNATURE = 'rebalanceState()';
+
+const STATE_CHANGING_METHODS = ['eth_sendTransaction', 'eth_sendRawTransaction'];
+
+/**
+ * @title ReadCache
+ * @author Set Protocol
+ *
+ * Caches the results of `eth_call` requests. Getters that never change, such as a SetToken's components, units and
+ * natural unit or an ERC20 token's decimals, and reads at an explicit historical block are cached permanently. All
+ * other reads at the latest block are cached under the block number the node reports, which is reused for
+ * `blockNumberTtlMs` so sequential reads do not each cost an `eth_blockNumber` request. A read therefore returns a
+ * result from an earlier block for at most that long after a new block is mined. Concurrent reads share a single
+ * `eth_blockNumber` request and concurrent identical reads share a single `eth_call`. Sending a transaction through
+ * the same provider discards the reads cached for the latest block along with the block number. Reads at the pending
+ * block are not cached.
+ */
+export class ReadCache {
+  private immutableSelectors: string[];
+  private setTokenImmutableSelectors: string[];
+  private rebalancingSetProbe: string;
+
+  private permanentEntries: { [key: string]: any };
+  private blockEntries: { [key: string]: any };
+  private pendingReads: { [key: string]: Promise<any> };
+  private rebalancingSetChecks: { [address: string]: Promise<boolean> };
+
+  private blockNumber: number;
+  private blockNumberTtlMs: number;
+  private blockNumberExpiresAt: number;
+  private blockNumberRequest: Promise<number>;
+  private requestId: number;
+
+  /**
+   * Instantiates a new ReadCache
+   *
+   * @param web3       Web3.js Provider instance used to compute function selectors
+   * @param options    Object conforming to `ReadCacheOpts` with the number of milliseconds a block number reported
+   *                     by the node is reused for. Defaults to 1000
+   */
+  constructor(web3: Web3, options: ReadCacheOpts = {}) {
+    const toSelector = (signature: string) => web3.eth.abi.encodeFunctionSignature(signature);
+    this.immutableSelectors = _.map(IMMUTABLE_SIGNATURES, toSelector);
+    this.setTokenImmutableSelectors = _.map(SET_TOKEN_IMMUTABLE_SIGNATURES, toSelector);
+    this.rebalancingSetProbe = toSelector(REBALANCING_SET_PROBE_SIGNATURE);
+
+    this.permanentEntries = {};
+    this.blockEntries = {};
+    this.pendingReads = {};
+    this.rebalancingSetChecks = {};
+    this.requestId = 0;
+
+    this.blockNumberTtlMs = _.isUndefined(options.blockNumberTtlMs)
+      ? DEFAULT_BLOCK_NUMBER_TTL_MS
+      : options.blockNumberTtlMs;
+    this.blockNumberExpiresAt = 0;
+  }
+
+  /**
+   * Discards the cached reads of the latest block and the block number so the next reads go to the node. Permanently
+   * cached values are kept
+   */
+  public invalidate(): void {
+    this.blockEntries = {};
+    this.blockNumberExpiresAt = 0;
+  }
+
+  /**
+   * Discards every cached read, including permanently cached values
+   */
+  public clear(): void {
+    this.invalidate();
+    this.permanentEntries = {};
+    this.rebalancingSetChecks = {};
+  }
+
+  /**
+   * Returns a provider that answers `eth_call` requests from the cache when possible, and forwards all other requests
+   * to the provided provider unchanged
+   *
+   * @param  provider    Provider to wrap
+   * @return             Provider that caches reads
+   */
+  public wrapProvider(provider: Provider): Provider {
+    const readCache = this;
+
+    const send = (payload: any, callback: ProviderCallback) => {
+      if (payload && _.includes(STATE_CHANGING_METHODS, payload.method)) {
+        readCache.invalidate();
+      }
+
+      if (!payload || payload.method !== 'eth_call' || !payload.params || !payload.params[0]) {
+        return sendToProvider(provider, payload, callback);
+      }
+
+      if (payload.params[1] === 'pending') {
+        return sendToProvider(provider, payload, callback);
+      }
+
+      readCache.readAsync(provider, payload).then(
+        response => callback(undefined, { ...response, id: payload.id }),
+        error => callback(error),
+      );
+    };
+
+    const cachedProvider = Object.create(provider);
+    cachedProvider.send = send;
+    cachedProvider.sendAsync = send;
+
+    return cachedProvider;
+  }
+
+  /* ============ Private Functions ============ */
+
+  private async readAsync(provider: Provider, payload: any): Promise<any> {
+    const [callData, blockTag = 'latest'] = payload.params;
+    const callKey = [callData.to, callData.from, callData.value, callData.data].join(':').toLowerCase();
+
+    let entries: { [key: string]: any };
+    let key: string;
+    if (blockTag !== 'latest') {
+      entries = this.permanentEntries;
+      key = `${blockTag}:${callKey}`;
+    } else if (await this.isImmutableAsync(provider, callData)) {
+      entries = this.permanentEntries;
+      key = `immutable:${callKey}`;
+    } else {
+      const blockNumber = await this.getBlockNumberAsync(provider);
+      entries = this.blockEntries;
+      key = `${blockNumber}:${callKey}`;
+    }
+
+    if (key in entries) {
+      return entries[key];
+    }
+
+    if (!(key in this.pendingReads)) {
+      this.pendingReads[key] = this.sendAsync(provider, payload).then(
+        response => {
+          delete this.pendingReads[key];
+          if (response && !response.error) {
+            entries[key] = response;
+          }
+
+          return response;
+        },
+        error => {
+          delete this.pendingReads[key];
+          throw error;
+        },
+      );
+    }
+
+    return await this.pendingReads[key];
+  }
+
+  private async isImmutableAsync(provider: Provider, callData: any): Promise<boolean> {
+    const selector = (callData.data || '').slice(0, 10).toLowerCase();
+
+    if (_.includes(this.immutableSelectors, selector)) {
+      return true;
+    }
+
+    if (_.includes(this.setTokenImmutableSelectors, selector)) {
+      return !(await this.isRebalancingSetAsync(provider, callData.to));
+    }
+
+    return false;
+  }
+
+  private isRebalancingSetAsync(provider: Provider, address: string): Promise<boolean> {
+    const key = address.toLowerCase();
+
+    if (!(key in this.rebalancingSetChecks)) {
+      const probe = this.createPayload('eth_call', [{ to: address, data: this.rebalancingSetProbe }, 'latest']);
+      this.rebalancingSetChecks[key] = this.sendAsync(provider, probe).then(
+        response => !!response && !response.error && !!response.result && response.result !== '0x',
+        () => {
+          // Unknown contracts are not cached permanently, and the check is retried on the next read
+          delete this.rebalancingSetChecks[key];
+          return true;
+        },
+      );
+    }
+
+    return this.rebalancingSetChecks[key];
+  }
+
+  private async getBlockNumberAsync(provider: Provider): Promise<number> {
+    if (Date.now() < this.blockNumberExpiresAt) {
+      return this.blockNumber;
+    }
+
+    if (!this.blockNumberRequest) {
+      this.blockNumberRequest = this.sendAsync(provider, this.createPayload('eth_blockNumber', [])).then(
+        response => {
+          this.blockNumberRequest = undefined;
+          if (response.error) {
+            throw new Error(response.error.message);
+          }
+
+          const blockNumber = parseInt(response.result, 16);
+          if (blockNumber !== this.blockNumber) {
+            this.blockEntries = {};
+            this.blockNumber = blockNumber;
+          }
+          this.blockNumberExpiresAt = Date.now() + this.blockNumberTtlMs;
+
+          return blockNumber;
+        },
+        error => {
+          this.blockNumberRequest = undefined;
+          throw error;
+        },
+      );
+    }
+
+    return await this.blockNumberRequest;
+  }
+
+  private sendAsync(provider: Provider, payload: any): Promise<any> {
+    return new Promise<any>((resolve, reject) => {
+      sendToProvider(provider, payload, (error: any, response?: any) => {
+        if (error) {
+          reject(error);
+        } else {
+          resolve(response);
+        }
+      });
+    });
+  }
+
+  private createPayload(method: string, params: any[]): any {
+    this.requestId += 1;
+
+    return { jsonrpc: '2.0', id: `setProtocolReadCache_${this.requestId}`, method, params };
+  }
+}
@@ -0,0 +1,379 @@
+/*
+  Copyright 2018 Set Labs Inc.
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+  http://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+*/
+
+'use strict';
+
+import Web3 from 'web3';
+import { EventEmitter } from 'events';
+
+import { CancellationError } from '../errors/cancellationErrors';
+import { CancellationSignal, TransactionReceipt } from '../types/common';
+import { onCancellation } from './cancellation';
+
+export const TransactionTrackerErrors = {
+  TRANSACTION_DROPPED: (txHash: string) =>
+    `Transaction with hash ${txHash} was dropped from the network before being mined.`,
+  TRANSACTION_REPLACED: (txHash: string, replacementTxHash: string) =>
+    `Transaction with hash ${txHash} was replaced by transaction with hash ${replacementTxHash}.`,
+  TRANSACTION_REPLACED_BY_UNKNOWN: (txHash: string) =>
+    `Transaction with hash ${txHash} was replaced by a transaction with the same nonce that could not be found.`,
+  TRANSACTION_REVERTED: (txHash: string) =>
+    `Transaction with hash ${txHash} was mined but reverted.`,
+};
+
+export const TransactionTrackerEvents = {
+  SUBMITTED: 'submitted',
+  MINED: 'mined',
+  CONFIRMED: 'confirmed',
+  REVERTED: 'reverted',
+  REPLACED: 'replaced',
+  DROPPED: 'dropped',
+  REORGED: 'reorged',
+  CANCELLED: 'cancelled',
+  ERROR: 'error',
+};
+
+export interface TransactionTrackerOpts {
+  confirmations?: number;
+  pollingIntervalMs?: number;
+  droppedTimeoutMs?: number;
+  signal?: CancellationSignal;
+}
+
+export const DEFAULT_TRACKER_CONFIRMATIONS = 12;
+export const DEFAULT_TRACKER_POLLING_INTERVAL = 1000;
+export const DEFAULT_TRACKER_DROPPED_TIMEOUT = 300000;
+
+// Number of blocks before tracking started that are searched for a replacement mined before the tracker saw it
+const REPLACEMENT_LOOKBACK_BLOCKS = 50;
+
+interface ConfirmationWaiter {
+  resolve: (receipt: TransactionReceipt) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * @title TransactionTracker
+ * @author Set Protocol
+ *
+ * Follows a single transaction through its lifecycle and emits an event for each transition. The chain is checked
+ * once per new block rather than on every poll, and a mined receipt is re-verified on each block until it reaches the
+ * configured confirmation depth so that chain reorganizations are surfaced as `reorged` events.
+ *
+ * Emitted events:
+ *   submitted(transaction)              The node knows about the transaction
+ *   mined(receipt)                      The transaction was included in a block
+ *   confirmed(confirmations, receipt)   Emitted once per block up to and including the confirmation depth
+ *   reverted(receipt)                   The transaction was mined with a failed status
+ *   replaced(replacementTxHash)         Another transaction with the same sender and nonce was mined. The hash is
+ *                                         undefined if the replacement could not be found
+ *   dropped()                           The node no longer knows about the transaction and its nonce is unused
+ *   reorged(receipt)                    The block the transaction was mined in is no longer canonical
+ *   cancelled()                         Tracking was stopped through the cancellation signal
+ *   error(error)                        The provider returned an error while polling
+ */
+export class TransactionTracker extends EventEmitter {
+  public txHash: string;
+  public receipt: TransactionReceipt;
+  public confirmations: number;
+  public isStopped: boolean;
+
+  private web3: Web3;
+  private requiredConfirmations: number;
+  private pollingIntervalMs: number;
+  private droppedTimeoutMs: number;
+  private transaction: any;
+  private lastSeenAt: number;
+  private lastCheckedBlock: number;
+  private startBlock: number;
+  private lastScannedBlock: number;
+  private timer: any;
+  private signal: CancellationSignal;
+  private removeCancellationListener: () => void;
+  private isSettled: boolean;
+  private settledReceipt: TransactionReceipt;
+  private settledError: Error;
+  private waiters: ConfirmationWaiter[];
+
+  /**
+   * Instantiates a new TransactionTracker. Tracking does not begin until `start` is called
+   *
+   * @param web3       Web3.js Provider instance you would like the SetProtocol.js library to use for interacting with
+   *                     the Ethereum network
+   * @param txHash     Hash of the transaction to track
+   * @param options    Object conforming to `TransactionTrackerOpts` with confirmation depth and polling settings
+   */
+  constructor(web3: Web3, txHash: string, options: TransactionTrackerOpts = {}) {
+    super();
+
+    this.web3 = web3;
+    this.txHash = txHash;
+    this.requiredConfirmations = options.confirmations || DEFAULT_TRACKER_CONFIRMATIONS;
+    this.pollingIntervalMs = options.pollingIntervalMs || DEFAULT_TRACKER_POLLING_INTERVAL;
+    this.droppedTimeoutMs = options.droppedTimeoutMs || DEFAULT_TRACKER_DROPPED_TIMEOUT;
+    this.signal = options.signal;
+
+    this.confirmations = 0;
+    this.isStopped = true;
+    this.isSettled = false;
+    this.waiters = [];
+  }
+
+  /**
+   * Begins polling the chain for the state of the transaction
+   *
+   * @return    The tracker, to allow chaining of event listeners
+   */
+  public start(): TransactionTracker {
+    if (this.isStopped) {
+      // A tracker stopped before reaching a final state can be restarted
+      if (this.settledError instanceof CancellationError && !(this.signal && this.signal.aborted)) {
+        this.isSettled = false;
+        this.settledError = undefined;
+      }
+
+      this.isStopped = false;
+      this.lastSeenAt = Date.now();
+      this.schedule(0);
+      this.removeCancellationListener = onCancellation(this.signal, () => {
+        this.settle(undefined, new CancellationError(`Tracking transaction ${this.txHash}`));
+        this.stop();
+        this.emit(TransactionTrackerEvents.CANCELLED);
+      });
+    }
+
+    return this;
+  }
+
+  /**
+   * Stops polling and clears any pending timer. No further events are emitted, and pending
+   * `awaitConfirmationAsync` calls reject with a `CancellationError` unless the transaction already reached a final
+   * state
+   */
+  public stop(): void {
+    this.isStopped = true;
+    this.settle(undefined, new CancellationError(`Tracking transaction ${this.txHash}`));
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    if (this.removeCancellationListener) {
+      this.removeCancellationListener();
+      this.removeCancellationListener = undefined;
+    }
+  }
+
+  /**
+   * Resolves with the receipt once the transaction reaches the required confirmation depth. Rejects if the
+   * transaction reverts, is replaced or is dropped, and with a `CancellationError` if tracking is cancelled or
+   * stopped. Calls made after the transaction reached a final state settle immediately with that state
+   *
+   * @return    Transaction receipt of the confirmed transaction
+   */
+  public awaitConfirmationAsync(): Promise<TransactionReceipt> {
+    return new Promise<TransactionReceipt>((resolve, reject) => {
+      if (this.isSettled) {
+        return this.settledError ? reject(this.settledError) : resolve(this.settledReceipt);
+      }
+
+      if (this.signal && this.signal.aborted) {
+        return reject(new CancellationError(`Tracking transaction ${this.txHash}`));
+      }
+
+      this.waiters.push({ resolve, reject });
+    });
+  }
+
+  /* ============ Private Functions ============ */
+
+  /**
+   * Records the final state of the tracked transaction and settles every pending `awaitConfirmationAsync` call. Only
+   * the first final state is kept
+   */
+  private settle(receipt: TransactionReceipt, error?: Error): void {
+    if (this.isSettled) {
+      return;
+    }
+
+    this.isSettled = true;
+    this.settledReceipt = receipt;
+    this.settledError = error;
+
+    const waiters = this.waiters;
+    this.waiters = [];
+    waiters.forEach(waiter => {
+      if (error) {
+        waiter.reject(error);
+      } else {
+        waiter.resolve(receipt);
+      }
+    });
+  }
+
+  private schedule(delayMs: number): void {
+    if (this.isStopped) {
+      return;
+    }
+
+    this.timer = setTimeout(async () => {
+      try {
+        await this.checkAsync();
+      } catch (error) {
+        // Only surface the error if someone is listening, an unhandled 'error' event would throw
+        if (this.listenerCount(TransactionTrackerEvents.ERROR) > 0) {
+          this.emit(TransactionTrackerEvents.ERROR, error);
+        }
+      }
+
+      this.schedule(this.pollingIntervalMs);
+    }, delayMs);
+  }
+
+  private async checkAsync(): Promise<void> {
+    const blockNumber = await this.web3.eth.getBlockNumber();
+    if (this.startBlock === undefined) {
+      this.startBlock = blockNumber;
+      this.lastScannedBlock = blockNumber - 1;
+    }
+
+    // Nothing can have changed on chain since the last check
+    if (blockNumber === this.lastCheckedBlock && this.transaction) {
+      return;
+    }
+    this.lastCheckedBlock = blockNumber;
+
+    if (!this.transaction) {
+      const transaction = await this.web3.eth.getTransaction(this.txHash);
+      if (transaction) {
+        this.transaction = transaction;
+        this.lastSeenAt = Date.now();
+        this.emit(TransactionTrackerEvents.SUBMITTED, transaction);
+      }
+    }
+
+    const receipt: any = await this.web3.eth.getTransactionReceipt(this.txHash);
+
+    if (this.receipt && (!receipt || receipt.blockHash !== this.receipt.blockHash)) {
+      const orphanedReceipt = this.receipt;
+      this.receipt = undefined;
+      this.confirmations = 0;
+      this.emit(TransactionTrackerEvents.REORGED, orphanedReceipt);
+    }
+
+    if (!receipt) {
+      await this.checkPendingAsync(blockNumber);
+      return;
+    }
+
+    if (!this.receipt) {
+      this.receipt = receipt;
+      this.emit(TransactionTrackerEvents.MINED, receipt);
+
+      if (isRevertedReceipt(receipt)) {
+        this.settle(undefined, new Error(TransactionTrackerErrors.TRANSACTION_REVERTED(this.txHash)));
+        this.emit(TransactionTrackerEvents.REVERTED, receipt);
+      }
+    }
+
+    const confirmations = Math.min(blockNumber - receipt.blockNumber + 1, this.requiredConfirmations);
+    while (this.confirmations < confirmations) {
+      this.confirmations += 1;
+      this.emit(TransactionTrackerEvents.CONFIRMED, this.confirmations, receipt);
+    }
+
+    if (this.confirmations >= this.requiredConfirmations) {
+      this.settle(receipt);
+      this.stop();
+    }
+  }
+
+  private async checkPendingAsync(blockNumber: number): Promise<void> {
+    const transaction = this.transaction && await this.web3.eth.getTransaction(this.txHash);
+    if (transaction) {
+      this.lastSeenAt = Date.now();
+      return;
+    }
+
+    // A known transaction that is no longer pending has either been replaced or dropped
+    if (this.transaction) {
+      const sender = this.transaction.from;
+      const nonce = this.transaction.nonce;
+      const accountNonce = await this.web3.eth.getTransactionCount(sender, 'latest');
+
+      if (accountNonce > nonce) {
+        const replacementTxHash = await this.findReplacementAsync(sender, nonce, blockNumber);
+        const message = replacementTxHash ?
+          TransactionTrackerErrors.TRANSACTION_REPLACED(this.txHash, replacementTxHash) :
+          TransactionTrackerErrors.TRANSACTION_REPLACED_BY_UNKNOWN(this.txHash);
+        this.settle(undefined, new Error(message));
+        this.stop();
+        this.emit(TransactionTrackerEvents.REPLACED, replacementTxHash);
+        return;
+      }
+    }
+
+    if (Date.now() - this.lastSeenAt > this.droppedTimeoutMs) {
+      this.settle(undefined, new Error(TransactionTrackerErrors.TRANSACTION_DROPPED(this.txHash)));
+      this.stop();
+      this.emit(TransactionTrackerEvents.DROPPED);
+    }
+  }
+
+  private async findReplacementAsync(sender: string, nonce: number, blockNumber: number): Promise<string> {
+    for (let i = this.lastScannedBlock + 1; i <= blockNumber; i++) {
+      const replacementTxHash = await this.findTransactionInBlockAsync(i, sender, nonce);
+      this.lastScannedBlock = i;
+
+      if (replacementTxHash) {
+        return replacementTxHash;
+      }
+    }
+
+    // The replacement may have been mined before tracking started, e.g. when the tracker was created for an old hash
+    const lookbackEnd = Math.max(this.startBlock - REPLACEMENT_LOOKBACK_BLOCKS, 0);
+    for (let i = this.startBlock - 1; i >= lookbackEnd; i--) {
+      const replacementTxHash = await this.findTransactionInBlockAsync(i, sender, nonce);
+      if (replacementTxHash) {
+        return replacementTxHash;
+      }
+    }
+
+    return undefined;
+  }
+
+  private async findTransactionInBlockAsync(blockNumber: number, sender: string, nonce: number): Promise<string> {
+    const block: any = await this.web3.eth.getBlock(blockNumber, true);
+
+    const transaction = block && block.transactions.find((blockTransaction: any) => {
+      return blockTransaction.from.toLowerCase() === sender.toLowerCase() && blockTransaction.nonce === nonce;
+    });
+
+    return transaction ? transaction.hash : undefined;
+  }
+}
+
+/**
+ * Returns whether a mined transaction receipt has a failed status. Nodes report the status as a boolean, a number
+ * or a hex string depending on their version
+ *
+ * @param  receipt    Transaction receipt
+ * @return            Whether the transaction reverted
+ */
+export function isRevertedReceipt(receipt: any): boolean {
+  return receipt.status === false || receipt.status === 0 || receipt.status === '0x0';
+}
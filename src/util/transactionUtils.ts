@@ -1,53 +1,111 @@
+import * as _ from 'lodash';
 import Web3 from 'web3';
 import { Web3Utils } from 'set-protocol-utils';
 
-import { Tx } from '../types/common';
-import { DEFAULT_GAS_PRICE, DEFAULT_GAS_LIMIT } from '../constants';
+import { Address, CancellationSignal, TransactionSimulation, Tx, UnsignedTransaction } from '../types/common';
+import { DEFAULT_GAS_LIMIT } from '../constants';
+import { CancellationError } from '../errors/cancellationErrors';
+import { SetProtocolRevertError } from '../errors/revertErrors';
 import { BigNumber } from '.';
+import { onCancellation } from './cancellation';
+import { applyGasPriceStrategyAsync } from './gasPriceStrategy';
 
-export interface TransactionMiningOpts {
-  interval: number;
-  ensureNotUncle: boolean;
+export interface AwaitTxOpts {
+  interval?: number;
+  ensureNotUncle?: boolean;
+  signal?: CancellationSignal;
 }
 
+/**
+ * Minimal shape shared by the generated set-protocol-contracts and set-protocol-strategies contract classes
+ */
+export interface ContractInstance {
+  address: Address;
+  abi: any[];
+}
+
+/**
+ * Holder attached to transaction options by `withSimulation`. When present, `sendContractTransactionAsync` adds the
+ * simulation result of each transaction here instead of sending it
+ */
+export interface SimulationCapture {
+  results: TransactionSimulation[];
+}
+
+/**
+ * Holder attached to transaction options by `withTransactionBuilder`. When present, `sendContractTransactionAsync`
+ * adds each unsigned transaction here instead of sending it
+ */
+export interface TransactionBuilderCapture {
+  results: UnsignedTransaction[];
+}
+
+/**
+ * Transaction options that run wrapper transactions as simulations or capture them unsigned
+ */
+export interface CaptureTx extends Tx {
+  simulationCapture?: SimulationCapture;
+  transactionBuilderCapture?: TransactionBuilderCapture;
+}
+
+const REVERT_REASON_SELECTOR = '0x08c379a0';
+
 export async function generateTxOpts(
   web3: Web3,
-  txOpts?: Tx,
+  txOpts: CaptureTx = {},
 ): Promise<Tx> {
-  const web3Utils = new Web3Utils(web3);
-  const accounts = await web3Utils.getAvailableAddressesAsync();
+  // Only ask the provider for its accounts when no sender is given
+  let from = txOpts.from;
+  if (!from) {
+    const web3Utils = new Web3Utils(web3);
+    const accounts = await web3Utils.getAvailableAddressesAsync();
+    from = accounts[0]; // default to first account from provider
+  }
 
-  return {
-    from: accounts[0], // default to first account from provider
+  // Transactions that are built are signed elsewhere, so their gas is estimated when they are captured and their gas
+  // price is left to the signer
+  if (txOpts.transactionBuilderCapture) {
+    return { ...txOpts, from };
+  }
+
+  return await applyGasPriceStrategyAsync(web3, {
     gas: DEFAULT_GAS_LIMIT,
-    gasPrice: DEFAULT_GAS_PRICE,
     ...txOpts,
-  };
+    from,
+  });
 }
 
 export async function awaitTx(
   web3: Web3,
   txHash: string,
-  options?: TransactionMiningOpts,
+  options?: AwaitTxOpts,
 ): Promise<any> {
   const web3Utils = new Web3Utils(web3);
 
   const interval: number = options && options.interval ? options.interval : 500;
+  const signal = options && options.signal;
+  let pendingTimer: any;
+
+  const scheduleRetry = function(txHash: string, resolve: Function, reject: Function) {
+    if (signal && signal.aborted) {
+      return;
+    }
+
+    pendingTimer = setTimeout(function () {
+      transactionReceiptAsync(txHash, resolve, reject);
+    }, interval);
+  };
   const transactionReceiptAsync = async function(txHash: string, resolve: Function, reject: Function) {
     try {
       const receipt = await web3Utils.getTransactionReceiptAsync(txHash);
       if (!receipt) {
-        setTimeout(function () {
-          transactionReceiptAsync(txHash, resolve, reject);
-        }, interval);
+        scheduleRetry(txHash, resolve, reject);
       } else {
         if (options && options.ensureNotUncle) {
           const resolvedReceipt = receipt;
 
           if (!resolvedReceipt || !resolvedReceipt.blockNumber) {
-            setTimeout(function () {
-              transactionReceiptAsync(txHash, resolve, reject);
-            }, interval);
+            scheduleRetry(txHash, resolve, reject);
           } else {
             try {
               const block = await web3.eth.getBlock(resolvedReceipt.blockNumber);
@@ -61,14 +119,10 @@ export async function awaitTx(
                   reject(new Error('Transaction with hash: ' + txHash + ' ended up in an uncle block.'));
                 }
               } else {
-                setTimeout(function () {
-                  transactionReceiptAsync(txHash, resolve, reject);
-                }, interval);
+                scheduleRetry(txHash, resolve, reject);
               }
             } catch (e) {
-              setTimeout(function () {
-                transactionReceiptAsync(txHash, resolve, reject);
-              }, interval);
+              scheduleRetry(txHash, resolve, reject);
             }
           }
         } else {
@@ -89,7 +143,22 @@ export async function awaitTx(
     return Promise.all(promises);
   } else {
     return new Promise(function (resolve, reject) {
-      transactionReceiptAsync(txHash, resolve, reject);
+      const removeCancellationListener = onCancellation(signal, function () {
+        clearTimeout(pendingTimer);
+        reject(new CancellationError(`Waiting for transaction ${txHash}`));
+      });
+
+      transactionReceiptAsync(
+        txHash,
+        function (receipt: any) {
+          removeCancellationListener();
+          resolve(receipt);
+        },
+        function (error: any) {
+          removeCancellationListener();
+          reject(error);
+        },
+      );
     });
   }
 }
@@ -102,3 +171,252 @@ export const getGasUsageInEth = async (web3: any, txHash: string) => {
 
     return new BigNumber(gasPrice).mul(gasUsed);
 };
+
+/**
+ * Returns a copy of the transaction options that makes any wrapper transaction sent with them run as a simulation.
+ * The capture object receives the result of the simulation
+ *
+ * @param  txOpts     Transaction options object conforming to `Tx`
+ * @param  capture    Object that receives the `TransactionSimulation` of the wrapper call
+ * @return            Transaction options to pass through the API method being simulated
+ */
+export function withSimulation(txOpts: Tx, capture: SimulationCapture): CaptureTx {
+  return {
+    ...txOpts,
+    simulationCapture: capture,
+  };
+}
+
+/**
+ * Returns a copy of the transaction options that makes any wrapper transaction sent with them be returned unsigned
+ * instead of sent. The capture object receives the unsigned transaction
+ *
+ * @param  txOpts     Transaction options object conforming to `Tx`
+ * @param  capture    Object that receives the `UnsignedTransaction` of the wrapper call
+ * @return            Transaction options to pass through the API method being built
+ */
+export function withTransactionBuilder(txOpts: Tx, capture: TransactionBuilderCapture): CaptureTx {
+  return {
+    ...txOpts,
+    transactionBuilderCapture: capture,
+  };
+}
+
+/**
+ * Sends a state-changing contract method, or simulates it with `eth_call` and `eth_estimateGas` when the transaction
+ * options were created through `withSimulation`, or captures it unsigned when they were created through
+ * `withTransactionBuilder`. All wrapper write methods go through this function. Transactions without a gas price use
+ * the configured `GasPriceStrategy`. Built transactions without a gas limit are estimated with `eth_estimateGas` and
+ * throw a `SetProtocolRevertError` if they would revert. When simulating or building, no transaction is sent and no
+ * hash is returned. A send that fails is replayed with `eth_call` and rethrown as a `SetProtocolRevertError` if the
+ * replay reverts
+ *
+ * @param  web3          Web3.js Provider instance used to estimate and simulate the transaction
+ * @param  contract      Loaded contract instance
+ * @param  methodName    Name of the contract method to call
+ * @param  args          Arguments of the contract method in order
+ * @param  txOpts        Transaction options object conforming to `Tx` with signer, gas, and gasPrice data
+ * @return               Transaction hash, or undefined when simulating or building
+ */
+export async function sendContractTransactionAsync(
+  web3: Web3,
+  contract: ContractInstance,
+  methodName: string,
+  args: any[],
+  txOpts: Tx,
+): Promise<string> {
+  const { simulationCapture, transactionBuilderCapture, ...txOptions }: CaptureTx = txOpts || {};
+  const method = (contract as any)[methodName];
+
+  if (transactionBuilderCapture) {
+    const builtData: string = method.getABIEncodedTransactionData(...args, txOptions);
+
+    let gas = Number(txOptions.gas);
+    if (!txOptions.gas) {
+      const simulation = await simulateTransactionAsync(web3, contract, methodName, builtData, txOptions);
+      if (simulation.reverted) {
+        throw simulation.revertError;
+      }
+
+      gas = simulation.gas;
+    }
+
+    transactionBuilderCapture.results.push({
+      to: contract.address,
+      data: builtData,
+      value: new BigNumber(txOptions.value || 0),
+      gas,
+    });
+
+    return undefined;
+  }
+
+  const txSettings = await applyGasPriceStrategyAsync(web3, txOptions);
+
+  const data: string = method.getABIEncodedTransactionData(...args, txSettings);
+
+  if (!simulationCapture) {
+    try {
+      return await method.sendTransactionAsync(...args, txSettings);
+    } catch (error) {
+      throw await toRevertErrorAsync(web3, contract, methodName, data, txSettings, error);
+    }
+  }
+
+  simulationCapture.results.push(await simulateTransactionAsync(web3, contract, methodName, data, txSettings));
+
+  return undefined;
+}
+
+/**
+ * Runs encoded calldata against a contract with `eth_call` and, when it does not revert, `eth_estimateGas`
+ *
+ * @param  web3          Web3.js Provider instance
+ * @param  contract      Contract instance the calldata is sent to
+ * @param  methodName    Name of the contract method, used to decode the return value
+ * @param  data          ABI encoded calldata
+ * @param  txSettings    Transaction options object conforming to `Tx`
+ * @return               Object conforming to `TransactionSimulation`
+ */
+export async function simulateTransactionAsync(
+  web3: Web3,
+  contract: ContractInstance,
+  methodName: string,
+  data: string,
+  txSettings: Tx,
+): Promise<TransactionSimulation> {
+  const request: Tx = {
+    from: txSettings.from,
+    to: contract.address,
+    data,
+    value: txSettings.value,
+    gasPrice: txSettings.gasPrice,
+  };
+
+  let returnData: string;
+  let revertReason: string;
+  try {
+    returnData = await web3.eth.call(request);
+  } catch (error) {
+    if (!isRevertError(error)) {
+      throw error;
+    }
+
+    revertReason = parseRevertReasonFromError(web3, error);
+  }
+
+  if (returnData === undefined || _.startsWith(returnData, REVERT_REASON_SELECTOR)) {
+    const reason = returnData === undefined ? revertReason : decodeRevertReason(web3, returnData);
+
+    return {
+      gas: undefined,
+      returnValue: undefined,
+      reverted: true,
+      revertReason: reason,
+      revertError: new SetProtocolRevertError(contract.address, methodName, reason, request),
+    };
+  }
+
+  const gas = await web3.eth.estimateGas(request);
+
+  return {
+    gas,
+    returnValue: decodeReturnValue(web3, contract, methodName, returnData),
+    reverted: false,
+    revertReason: undefined,
+    revertError: undefined,
+  };
+}
+
+/**
+ * Decodes `Error(string)` revert data returned by a node
+ *
+ * @param  web3    Web3.js Provider instance
+ * @param  data    Hex encoded revert data starting with the `Error(string)` selector
+ * @return         The revert reason, or undefined if the data is not a revert reason
+ */
+export function decodeRevertReason(web3: Web3, data: string): string {
+  if (!_.startsWith(data, REVERT_REASON_SELECTOR)) {
+    return undefined;
+  }
+
+  return web3.eth.abi.decodeParameter('string', '0x' + data.slice(REVERT_REASON_SELECTOR.length));
+}
+
+async function toRevertErrorAsync(
+  web3: Web3,
+  contract: ContractInstance,
+  methodName: string,
+  data: string,
+  txSettings: Tx,
+  error: any,
+): Promise<Error> {
+  try {
+    const simulation = await simulateTransactionAsync(web3, contract, methodName, data, txSettings);
+
+    return simulation.reverted ? simulation.revertError : error;
+  } catch (replayError) {
+    return error;
+  }
+}
+
+/**
+ * Whether an error thrown by a node is a revert, from its revert data or its message
+ *
+ * @param  error    Error thrown by `eth_call`, `eth_estimateGas` or `eth_sendTransaction`
+ * @return          True if the call or transaction reverted
+ */
+export function isRevertError(error: any): boolean {
+  const hasRevertData = !!error && typeof error.data === 'string' && _.startsWith(error.data, REVERT_REASON_SELECTOR);
+  const message: string = (error && error.message) || '';
+
+  return hasRevertData || /revert/i.test(message);
+}
+
+/**
+ * Extracts the revert reason from an error thrown by a node, from its revert data or its message
+ *
+ * @param  web3     Web3.js Provider instance
+ * @param  error    Error thrown by `eth_call`, `eth_estimateGas` or `eth_sendTransaction`
+ * @return          The revert reason, or undefined if the error does not contain one
+ */
+export function parseRevertReasonFromError(web3: Web3, error: any): string {
+  if (error && typeof error.data === 'string') {
+    const reason = decodeRevertReason(web3, error.data);
+    if (reason !== undefined) {
+      return reason;
+    }
+  }
+
+  // Ganache and geth report the reason in the message, e.g. "VM Exception while processing transaction: revert X"
+  const message: string = (error && error.message) || '';
+  const match = message.match(/revert(?:ed)?:?\s*(.*)$/);
+
+  return match && match[1] ? match[1].trim() : undefined;
+}
+
+function decodeReturnValue(web3: Web3, contract: ContractInstance, methodName: string, returnData: string): any {
+  const abiItem = _.find(contract.abi, item => item.type === 'function' && item.name === methodName);
+  const outputs = (abiItem && abiItem.outputs) || [];
+
+  if (outputs.length === 0 || !returnData || returnData === '0x') {
+    return undefined;
+  }
+
+  const decoded = web3.eth.abi.decodeParameters(outputs, returnData);
+  const values = _.times(outputs.length, index => formatReturnValue(outputs[index].type, decoded[index]));
+
+  return values.length === 1 ? values[0] : values;
+}
+
+function formatReturnValue(type: string, value: any): any {
+  if (/^u?int\d*\[\]$/.test(type)) {
+    return _.map(value, (item: any) => new BigNumber(item.toString()));
+  }
+
+  if (/^u?int\d*$/.test(type)) {
+    return new BigNumber(value.toString());
+  }
+
+  return value;
+}
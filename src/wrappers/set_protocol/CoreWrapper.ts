@@ -19,10 +19,11 @@
 import * as _ from 'lodash';
 import Web3 from 'web3';
 import { SetProtocolUtils } from 'set-protocol-utils';
+import { Core } from 'set-protocol-contracts';
 
 import { ProtocolContractWrapper } from './ProtocolContractWrapper';
 import { Address, Tx } from '../../types/common';
-import { BigNumber, generateTxOpts } from '../../util';
+import { BigNumber, fetchLogsInChunksAsync, generateTxOpts, sendContractTransactionAsync } from '../../util';
 
 /**
  * @title CoreWrapper
@@ -79,14 +80,19 @@ export class CoreWrapper {
     const txSettings = await generateTxOpts(this.web3, txOpts);
     const coreInstance = await this.contracts.loadCoreAsync(this.coreAddress);
 
-    return await coreInstance.createSet.sendTransactionAsync(
-      factoryAddress,
-      components,
-      units,
-      naturalUnit,
-      SetProtocolUtils.stringToBytes(name),
-      SetProtocolUtils.stringToBytes(symbol),
-      callData,
+    return await sendContractTransactionAsync(
+      this.web3,
+      coreInstance,
+      'createSet',
+      [
+        factoryAddress,
+        components,
+        units,
+        naturalUnit,
+        SetProtocolUtils.stringToBytes(name),
+        SetProtocolUtils.stringToBytes(symbol),
+        callData,
+      ],
       txSettings,
     );
   }
@@ -103,9 +109,11 @@ export class CoreWrapper {
     const txSettings = await generateTxOpts(this.web3, txOpts);
     const coreInstance = await this.contracts.loadCoreAsync(this.coreAddress);
 
-    return await coreInstance.issue.sendTransactionAsync(
-      setAddress,
-      quantity,
+    return await sendContractTransactionAsync(
+      this.web3,
+      coreInstance,
+      'issue',
+      [setAddress, quantity],
       txSettings,
     );
   }
@@ -122,9 +130,11 @@ export class CoreWrapper {
     const txSettings = await generateTxOpts(this.web3, txOpts);
     const coreInstance = await this.contracts.loadCoreAsync(this.coreAddress);
 
-    return await coreInstance.redeem.sendTransactionAsync(
-      setAddress,
-      quantity,
+    return await sendContractTransactionAsync(
+      this.web3,
+      coreInstance,
+      'redeem',
+      [setAddress, quantity],
       txSettings,
     );
   }
@@ -152,11 +162,11 @@ export class CoreWrapper {
     const txSettings = await generateTxOpts(this.web3, txOpts);
     const coreInstance = await this.contracts.loadCoreAsync(this.coreAddress);
 
-    return await coreInstance.redeemAndWithdrawTo.sendTransactionAsync(
-      setAddress,
-      txSettings.from,
-      quantity,
-      toExclude,
+    return await sendContractTransactionAsync(
+      this.web3,
+      coreInstance,
+      'redeemAndWithdrawTo',
+      [setAddress, txSettings.from, quantity, toExclude],
       txSettings,
     );
   }
@@ -173,9 +183,11 @@ export class CoreWrapper {
     const txSettings = await generateTxOpts(this.web3, txOpts);
     const coreInstance = await this.contracts.loadCoreAsync(this.coreAddress);
 
-    return await coreInstance.deposit.sendTransactionAsync(
-      tokenAddress,
-      quantity,
+    return await sendContractTransactionAsync(
+      this.web3,
+      coreInstance,
+      'deposit',
+      [tokenAddress, quantity],
       txSettings,
     );
   }
@@ -192,9 +204,11 @@ export class CoreWrapper {
     const txSettings = await generateTxOpts(this.web3, txOpts);
     const coreInstance = await this.contracts.loadCoreAsync(this.coreAddress);
 
-    return await coreInstance.withdraw.sendTransactionAsync(
-      tokenAddress,
-      quantity,
+    return await sendContractTransactionAsync(
+      this.web3,
+      coreInstance,
+      'withdraw',
+      [tokenAddress, quantity],
       txSettings,
     );
   }
@@ -211,9 +225,11 @@ export class CoreWrapper {
     const txSettings = await generateTxOpts(this.web3, txOpts);
     const coreInstance = await this.contracts.loadCoreAsync(this.coreAddress);
 
-    return await coreInstance.batchDeposit.sendTransactionAsync(
-      tokenAddresses,
-      quantities,
+    return await sendContractTransactionAsync(
+      this.web3,
+      coreInstance,
+      'batchDeposit',
+      [tokenAddresses, quantities],
       txSettings,
     );
   }
@@ -230,9 +246,11 @@ export class CoreWrapper {
     const txSettings = await generateTxOpts(this.web3, txOpts);
     const coreInstance = await this.contracts.loadCoreAsync(this.coreAddress);
 
-    return await coreInstance.batchWithdraw.sendTransactionAsync(
-      tokenAddresses,
-      quantities,
+    return await sendContractTransactionAsync(
+      this.web3,
+      coreInstance,
+      'batchWithdraw',
+      [tokenAddresses, quantities],
       txSettings,
     );
   }
@@ -399,4 +417,30 @@ export class CoreWrapper {
 
     return priceLibraries;
   }
+
+  /**
+   * Asynchronously retrieve events emitted by Core, such as SetTokenCreated, SetIssued and SetRedeemed
+   *
+   * @param  eventName    Name of the Core event
+   * @param  fromBlock    The beginning block to retrieve events from
+   * @param  toBlock      The ending block to retrieve events (default is latest)
+   * @param  filter       Values of indexed event parameters to match, keyed by parameter name
+   * @return              An array of raw events
+   */
+  public async getPastEvents(
+    eventName: string,
+    fromBlock: number,
+    toBlock: any = 'latest',
+    filter: object = {},
+  ): Promise<any[]> {
+    const coreInstance = new this.web3.eth.Contract(Core.abi, this.coreAddress);
+
+    return await fetchLogsInChunksAsync(this.web3, (chunkFromBlock, chunkToBlock) => {
+      return coreInstance.getPastEvents(eventName, {
+        'filter': filter,
+        'fromBlock': chunkFromBlock,
+        'toBlock': chunkToBlock,
+      });
+    }, fromBlock, toBlock);
+  }
 }
@@ -19,8 +19,30 @@
 import Web3 from 'web3';
 
 import { ProtocolContractWrapper } from './ProtocolContractWrapper';
+import { MissingERC20MethodError } from '../../errors';
 import { Address, Tx } from '../../types/common';
-import { BigNumber, generateTxOpts } from '../../util';
+import {
+  BigNumber,
+  fetchLogsInChunksAsync,
+  generateTxOpts,
+  isRevertError,
+  sendContractTransactionAsync,
+} from '../../util';
+
+// Function selector of `decimals()`
+const DECIMALS_SELECTOR = '0x313ce567';
+
+// Decimals assumed for tokens that do not implement the optional `decimals` method of ERC20
+const DEFAULT_DECIMALS = 18;
+
+// Keccak-256 hash of `Transfer(address,address,uint256)`
+const TRANSFER_EVENT_TOPIC = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+
+const TRANSFER_EVENT_INPUTS = [
+  { indexed: true, name: 'from', type: 'address' },
+  { indexed: true, name: 'to', type: 'address' },
+  { indexed: false, name: 'value', type: 'uint256' },
+];
 
 /**
  * @title  VaultAPI
@@ -100,6 +122,26 @@ export class ERC20Wrapper {
     return await tokenInstance.decimals.callAsync(tokenAddress);
   }
 
+  /**
+   * Gets decimals of the ERC20 token, defaulting to 18 for tokens that do not implement the optional `decimals`
+   * method. Only a call that reverts or returns no value counts as a missing method; any other error, such as a
+   * failed request to the node, is rethrown
+   *
+   * @param  tokenAddress  Address of the ERC20 token
+   * @return               The decimals of the ERC20 token, or 18 if it does not implement `decimals`
+   */
+  public async decimalsOrDefault(tokenAddress: Address): Promise<number> {
+    try {
+      return (await this.implementedDecimals(tokenAddress)).toNumber();
+    } catch (error) {
+      if (error instanceof MissingERC20MethodError) {
+        return DEFAULT_DECIMALS;
+      }
+
+      throw error;
+    }
+  }
+
   /**
    * Gets the allowance of the spender by the owner account
    *
@@ -128,7 +170,13 @@ export class ERC20Wrapper {
     const txOptions = await generateTxOpts(this.web3, txOpts);
     const tokenInstance = await this.contracts.loadERC20TokenAsync(tokenAddress);
 
-    return await tokenInstance.transfer.sendTransactionAsync(to, value, txOptions);
+    return await sendContractTransactionAsync(
+      this.web3,
+      tokenInstance,
+      'transfer',
+      [to, value],
+      txOptions,
+    );
   }
 
   /**
@@ -153,7 +201,13 @@ export class ERC20Wrapper {
     const tokenInstance = await this.contracts.loadERC20TokenAsync(tokenAddress);
     const txOptions = await generateTxOpts(this.web3, txOpts);
 
-    return await tokenInstance.transferFrom.sendTransactionAsync(from, to, value, txOptions);
+    return await sendContractTransactionAsync(
+      this.web3,
+      tokenInstance,
+      'transferFrom',
+      [from, to, value],
+      txOptions,
+    );
   }
 
   /**
@@ -174,6 +228,75 @@ export class ERC20Wrapper {
     const txOptions = await generateTxOpts(this.web3, txOpts);
     const tokenInstance = await this.contracts.loadERC20TokenAsync(tokenAddress);
 
-    return await tokenInstance.approve.sendTransactionAsync(spenderAddress, value, txOptions);
+    return await sendContractTransactionAsync(
+      this.web3,
+      tokenInstance,
+      'approve',
+      [spenderAddress, value],
+      txOptions,
+    );
+  }
+
+  /**
+   * Asynchronously retrieve Transfer logs of ERC20 tokens. Each filter is optional, so the logs can be narrowed to a
+   * single token, sender or recipient
+   *
+   * @param  fromBlock       The beginning block to retrieve logs from
+   * @param  toBlock         The ending block to retrieve logs (default is latest)
+   * @param  tokenAddress    Address of the token to filter logs for
+   * @param  from            Sender to filter logs for
+   * @param  to              Recipient to filter logs for
+   * @return                 An array of raw logs with the decoded `from`, `to` and `value` of each transfer
+   */
+  public async transferLogs(
+    fromBlock: number,
+    toBlock: any = 'latest',
+    tokenAddress?: Address,
+    from?: Address,
+    to?: Address,
+  ): Promise<any[]> {
+    // Unset topics are sent as wildcards
+    const toTopic = (address?: Address) => address ? this.web3.utils.padLeft(address.toLowerCase(), 64) : undefined;
+    const filter: any = {
+      'topics': [TRANSFER_EVENT_TOPIC, toTopic(from), toTopic(to)],
+    };
+
+    if (tokenAddress) {
+      filter['address'] = tokenAddress;
+    }
+
+    const logs = await fetchLogsInChunksAsync(this.web3, (chunkFromBlock, chunkToBlock) => {
+      return this.web3.eth.getPastLogs({ ...filter, 'fromBlock': chunkFromBlock, 'toBlock': chunkToBlock });
+    }, fromBlock, toBlock);
+
+    // Tokens that do not index the sender and recipient produce logs with a different shape, which are skipped
+    return logs
+      .filter(log => log.topics.length === 3)
+      .map(log => ({
+        ...log,
+        returnValues: this.web3.eth.abi.decodeLog(TRANSFER_EVENT_INPUTS, log.data, log.topics.slice(1)),
+      }));
+  }
+
+  /* ============ Private Functions ============ */
+
+  private async implementedDecimals(tokenAddress: Address): Promise<BigNumber> {
+    let returnData: string;
+    try {
+      returnData = await this.web3.eth.call({ to: tokenAddress, data: DECIMALS_SELECTOR });
+    } catch (error) {
+      if (isRevertError(error)) {
+        throw new MissingERC20MethodError(tokenAddress);
+      }
+
+      throw error;
+    }
+
+    // Accounts without code and contracts whose fallback accepts the call return no value
+    if (!returnData || returnData === '0x') {
+      throw new MissingERC20MethodError(tokenAddress);
+    }
+
+    return new BigNumber(this.web3.eth.abi.decodeParameter('uint256', returnData).toString());
   }
 }
@@ -19,7 +19,7 @@
 import Web3 from 'web3';
 
 import { ProtocolContractWrapper } from './ProtocolContractWrapper';
-import { generateTxOpts } from '../../util';
+import { generateTxOpts, sendContractTransactionAsync } from '../../util';
 import { Address, Tx } from '../../types/common';
 import { Bytes, ExchangeIssuanceParams } from 'set-protocol-utils';
 
@@ -58,9 +58,11 @@ export class ExchangeIssuanceModuleWrapper {
       this.exchangeIssuanceModule
     );
 
-    return await exchangeIssuanceModuleInstance.exchangeIssue.sendTransactionAsync(
-      exchangeIssuanceParams,
-      orderData,
+    return await sendContractTransactionAsync(
+      this.web3,
+      exchangeIssuanceModuleInstance,
+      'exchangeIssue',
+      [exchangeIssuanceParams, orderData],
       txSettings,
     );
   }
@@ -82,9 +84,11 @@ export class ExchangeIssuanceModuleWrapper {
       this.exchangeIssuanceModule
     );
 
-    return await exchangeIssuanceModuleInstance.exchangeRedeem.sendTransactionAsync(
-      exchangeIssuanceParams,
-      orderData,
+    return await sendContractTransactionAsync(
+      this.web3,
+      exchangeIssuanceModuleInstance,
+      'exchangeRedeem',
+      [exchangeIssuanceParams, orderData],
       txSettings,
     );
   }
@@ -38,6 +38,7 @@ import {
 } from 'set-protocol-contracts';
 
 import { Address } from '../../types/common';
+import { instrumentContract } from '../../util';
 
 /**
  * @title ContractWrapper
@@ -76,6 +77,7 @@ export class ProtocolContractWrapper {
         this.web3,
         transactionOptions,
       );
+      instrumentContract(this.web3, coreContract, 'Core');
       this.cache[cacheKey] = coreContract;
       return coreContract;
     }
@@ -102,6 +104,7 @@ export class ProtocolContractWrapper {
         this.web3,
         transactionOptions,
       );
+      instrumentContract(this.web3, setTokenContract, 'SetToken');
       this.cache[cacheKey] = setTokenContract;
       return setTokenContract;
     }
@@ -128,6 +131,7 @@ export class ProtocolContractWrapper {
         this.web3,
         transactionOptions,
       );
+      instrumentContract(this.web3, rebalancingSetTokenContract, 'RebalancingSetToken');
       this.cache[cacheKey] = rebalancingSetTokenContract;
       return rebalancingSetTokenContract;
     }
@@ -154,6 +158,7 @@ export class ProtocolContractWrapper {
         this.web3,
         transactionOptions,
       );
+      instrumentContract(this.web3, erc20TokenContract, 'ERC20Detailed');
       this.cache[cacheKey] = erc20TokenContract;
       return erc20TokenContract;
     }
@@ -176,6 +181,7 @@ export class ProtocolContractWrapper {
       return this.cache[cacheKey] as VaultContract;
     } else {
       const vaultContract = await VaultContract.at(vaultAddress, this.web3, transactionOptions);
+      instrumentContract(this.web3, vaultContract, 'Vault');
       this.cache[cacheKey] = vaultContract;
       return vaultContract;
     }
@@ -198,6 +204,7 @@ export class ProtocolContractWrapper {
       return this.cache[cacheKey] as TransferProxyContract;
     } else {
       const transferProxyContract = await TransferProxyContract.at(transferProxyAddress, this.web3, transactionOptions);
+      instrumentContract(this.web3, transferProxyContract, 'TransferProxy');
       this.cache[cacheKey] = transferProxyContract;
       return transferProxyContract;
     }
@@ -224,6 +231,7 @@ export class ProtocolContractWrapper {
         this.web3,
         transactionOptions
       );
+      instrumentContract(this.web3, rebalanceAuctionModuleContract, 'RebalanceAuctionModule');
       this.cache[cacheKey] = rebalanceAuctionModuleContract;
       return rebalanceAuctionModuleContract;
     }
@@ -250,6 +258,7 @@ export class ProtocolContractWrapper {
         this.web3,
         transactionOptions
       );
+      instrumentContract(this.web3, kyberNetworkWrapperContract, 'KyberNetworkWrapper');
       this.cache[cacheKey] = kyberNetworkWrapperContract;
       return kyberNetworkWrapperContract;
     }
@@ -276,6 +285,11 @@ export class ProtocolContractWrapper {
         this.web3,
         transactionOptions
       );
+      instrumentContract(
+        this.web3,
+        rebalancingSetExchangeIssuanceModuleContract,
+        'RebalancingSetExchangeIssuanceModule'
+      );
       this.cache[cacheKey] = rebalancingSetExchangeIssuanceModuleContract;
       return rebalancingSetExchangeIssuanceModuleContract;
     }
@@ -302,6 +316,7 @@ export class ProtocolContractWrapper {
         this.web3,
         transactionOptions
       );
+      instrumentContract(this.web3, rebalancingSetIssuanceModuleContract, 'RebalancingSetIssuanceModule');
       this.cache[cacheKey] = rebalancingSetIssuanceModuleContract;
       return rebalancingSetIssuanceModuleContract;
     }
@@ -328,6 +343,7 @@ export class ProtocolContractWrapper {
         this.web3,
         transactionOptions,
       );
+      instrumentContract(this.web3, setTokenContract, 'Authorizable');
       this.cache[cacheKey] = setTokenContract;
       return setTokenContract;
     }
@@ -354,6 +370,7 @@ export class ProtocolContractWrapper {
         this.web3,
         transactionOptions,
       );
+      instrumentContract(this.web3, setTokenContract, 'TimeLockUpgrade');
       this.cache[cacheKey] = setTokenContract;
       return setTokenContract;
     }
@@ -380,6 +397,7 @@ export class ProtocolContractWrapper {
         this.web3,
         transactionOptions,
       );
+      instrumentContract(this.web3, whitelistContract, 'WhiteList');
       this.cache[cacheKey] = whitelistContract;
       return whitelistContract;
     }
@@ -406,6 +424,7 @@ export class ProtocolContractWrapper {
         this.web3,
         transactionOptions,
       );
+      instrumentContract(this.web3, exchangeIssuanceModuleContract, 'ExchangeIssuanceModule');
       this.cache[cacheKey] = exchangeIssuanceModuleContract;
       return exchangeIssuanceModuleContract;
     }
@@ -432,6 +451,7 @@ export class ProtocolContractWrapper {
         this.web3,
         transactionOptions,
       );
+      instrumentContract(this.web3, medianizerContract, 'Median');
       this.cache[cacheKey] = medianizerContract;
       return medianizerContract;
     }
@@ -458,6 +478,7 @@ export class ProtocolContractWrapper {
         this.web3,
         transactionOptions,
       );
+      instrumentContract(this.web3, protocolViewerContract, 'ProtocolViewer');
       this.cache[cacheKey] = protocolViewerContract;
       return protocolViewerContract;
     }
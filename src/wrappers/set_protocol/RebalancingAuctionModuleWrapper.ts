@@ -23,7 +23,7 @@ import { RebalanceAuctionModule } from 'set-protocol-contracts';
 
 import { ProtocolContractWrapper } from './ProtocolContractWrapper';
 import { Address, Tx } from '../../types/common';
-import { BigNumber, generateTxOpts } from '../../util';
+import { BigNumber, fetchLogsInChunksAsync, generateTxOpts, sendContractTransactionAsync } from '../../util';
 
 /**
  * @title RebalancingAuctionModuleWrapper
@@ -74,11 +74,13 @@ export class RebalancingAuctionModuleWrapper {
       filter['rebalancingSetToken'] = rebalancingSetToken;
     }
 
-    const events = await rebalanceAuctionModuleInstance.getPastEvents('BidPlaced', {
-      'fromBlock': fromBlock,
-      'toBlock': toBlock,
-      'filter': filter,
-    });
+    const events = await fetchLogsInChunksAsync(this.web3, (chunkFromBlock, chunkToBlock) => {
+      return rebalanceAuctionModuleInstance.getPastEvents('BidPlaced', {
+        'fromBlock': chunkFromBlock,
+        'toBlock': chunkToBlock,
+        'filter': filter,
+      });
+    }, fromBlock, toBlock);
 
     return events;
   }
@@ -103,10 +105,11 @@ export class RebalancingAuctionModuleWrapper {
       this.rebalanceAuctionModuleAddress
     );
 
-    return await rebalanceAuctionModuleInstance.bid.sendTransactionAsync(
-      rebalancingSetTokenAddress,
-      quantity,
-      allowPartialFill,
+    return await sendContractTransactionAsync(
+      this.web3,
+      rebalanceAuctionModuleInstance,
+      'bid',
+      [rebalancingSetTokenAddress, quantity, allowPartialFill],
       txSettings,
     );
   }
@@ -131,10 +134,11 @@ export class RebalancingAuctionModuleWrapper {
       this.rebalanceAuctionModuleAddress
     );
 
-    return await rebalanceAuctionModuleInstance.bidAndWithdraw.sendTransactionAsync(
-      rebalancingSetTokenAddress,
-      quantity,
-      allowPartialFill,
+    return await sendContractTransactionAsync(
+      this.web3,
+      rebalanceAuctionModuleInstance,
+      'bidAndWithdraw',
+      [rebalancingSetTokenAddress, quantity, allowPartialFill],
       txSettings,
     );
   }
@@ -153,8 +157,11 @@ export class RebalancingAuctionModuleWrapper {
       this.rebalanceAuctionModuleAddress
     );
 
-    return await rebalanceAuctionModuleInstance.redeemFromFailedRebalance.sendTransactionAsync(
-      rebalancingSetTokenAddress,
+    return await sendContractTransactionAsync(
+      this.web3,
+      rebalanceAuctionModuleInstance,
+      'redeemFromFailedRebalance',
+      [rebalancingSetTokenAddress],
       txSettings,
     );
   }
@@ -19,7 +19,7 @@
 import Web3 from 'web3';
 
 import { ProtocolContractWrapper } from './ProtocolContractWrapper';
-import { BigNumber, generateTxOpts } from '../../util';
+import { BigNumber, generateTxOpts, sendContractTransactionAsync } from '../../util';
 import { Address, Tx } from '../../types/common';
 import { Bytes, ExchangeIssuanceParams } from 'set-protocol-utils';
 
@@ -67,12 +67,17 @@ export class RebalancingSetExchangeIssuanceModuleWrapper {
         this.rebalancingSetExchangeIssuanceModule
       );
 
-    return await rebalancingSetExchangeIssuanceModuleInstance.issueRebalancingSetWithEther.sendTransactionAsync(
-      rebalancingSetAddress,
-      rebalancingSetQuantity,
-      exchangeIssuanceParams,
-      orderData,
-      keepChangeInVault,
+    return await sendContractTransactionAsync(
+      this.web3,
+      rebalancingSetExchangeIssuanceModuleInstance,
+      'issueRebalancingSetWithEther',
+      [
+        rebalancingSetAddress,
+        rebalancingSetQuantity,
+        exchangeIssuanceParams,
+        orderData,
+        keepChangeInVault,
+      ],
       txSettings,
     );
   }
@@ -110,14 +115,19 @@ export class RebalancingSetExchangeIssuanceModuleWrapper {
         this.rebalancingSetExchangeIssuanceModule
       );
 
-    return await rebalancingSetExchangeIssuanceModuleInstance.issueRebalancingSetWithERC20.sendTransactionAsync(
-      rebalancingSetAddress,
-      rebalancingSetQuantity,
-      paymentTokenAddress,
-      paymentTokenQuantity,
-      exchangeIssuanceParams,
-      orderData,
-      keepChangeInVault,
+    return await sendContractTransactionAsync(
+      this.web3,
+      rebalancingSetExchangeIssuanceModuleInstance,
+      'issueRebalancingSetWithERC20',
+      [
+        rebalancingSetAddress,
+        rebalancingSetQuantity,
+        paymentTokenAddress,
+        paymentTokenQuantity,
+        exchangeIssuanceParams,
+        orderData,
+        keepChangeInVault,
+      ],
       txSettings,
     );
   }
@@ -148,12 +158,17 @@ export class RebalancingSetExchangeIssuanceModuleWrapper {
         this.rebalancingSetExchangeIssuanceModule
       );
 
-    return await rebalancingSetExchangeIssuanceModuleInstance.redeemRebalancingSetIntoEther.sendTransactionAsync(
-      rebalancingSetAddress,
-      rebalancingSetQuantity,
-      exchangeIssuanceParams,
-      orderData,
-      keepChangeInVault,
+    return await sendContractTransactionAsync(
+      this.web3,
+      rebalancingSetExchangeIssuanceModuleInstance,
+      'redeemRebalancingSetIntoEther',
+      [
+        rebalancingSetAddress,
+        rebalancingSetQuantity,
+        exchangeIssuanceParams,
+        orderData,
+        keepChangeInVault,
+      ],
       txSettings,
     );
   }
@@ -186,13 +201,18 @@ export class RebalancingSetExchangeIssuanceModuleWrapper {
         this.rebalancingSetExchangeIssuanceModule
       );
 
-    return await rebalancingSetExchangeIssuanceModuleInstance.redeemRebalancingSetIntoERC20.sendTransactionAsync(
-      rebalancingSetAddress,
-      rebalancingSetQuantity,
-      paymentTokenAddress,
-      exchangeIssuanceParams,
-      orderData,
-      keepChangeInVault,
+    return await sendContractTransactionAsync(
+      this.web3,
+      rebalancingSetExchangeIssuanceModuleInstance,
+      'redeemRebalancingSetIntoERC20',
+      [
+        rebalancingSetAddress,
+        rebalancingSetQuantity,
+        paymentTokenAddress,
+        exchangeIssuanceParams,
+        orderData,
+        keepChangeInVault,
+      ],
       txSettings,
     );
   }
@@ -19,7 +19,7 @@
 import Web3 from 'web3';
 
 import { ProtocolContractWrapper } from './ProtocolContractWrapper';
-import { BigNumber, generateTxOpts } from '../../util';
+import { BigNumber, generateTxOpts, sendContractTransactionAsync } from '../../util';
 import { Address, Tx } from '../../types/common';
 
 /**
@@ -62,10 +62,11 @@ export class RebalancingSetIssuanceModuleWrapper {
         this.rebalancingSetIssuanceModule
       );
 
-    return await rebalancingSetIssuanceModuleInstance.issueRebalancingSet.sendTransactionAsync(
-      rebalancingSetAddress,
-      rebalancingSetQuantity,
-      keepChangeInVault,
+    return await sendContractTransactionAsync(
+      this.web3,
+      rebalancingSetIssuanceModuleInstance,
+      'issueRebalancingSet',
+      [rebalancingSetAddress, rebalancingSetQuantity, keepChangeInVault],
       txSettings,
     );
   }
@@ -93,10 +94,11 @@ export class RebalancingSetIssuanceModuleWrapper {
         this.rebalancingSetIssuanceModule
       );
 
-    return await rebalancingSetIssuanceModuleInstance.issueRebalancingSetWrappingEther.sendTransactionAsync(
-      rebalancingSetAddress,
-      rebalancingSetQuantity,
-      keepChangeInVault,
+    return await sendContractTransactionAsync(
+      this.web3,
+      rebalancingSetIssuanceModuleInstance,
+      'issueRebalancingSetWrappingEther',
+      [rebalancingSetAddress, rebalancingSetQuantity, keepChangeInVault],
       txSettings,
     );
   }
@@ -123,10 +125,11 @@ export class RebalancingSetIssuanceModuleWrapper {
         this.rebalancingSetIssuanceModule
       );
 
-    return await rebalancingSetIssuanceModuleInstance.redeemRebalancingSet.sendTransactionAsync(
-      rebalancingSetAddress,
-      rebalancingSetQuantity,
-      keepChangeInVault,
+    return await sendContractTransactionAsync(
+      this.web3,
+      rebalancingSetIssuanceModuleInstance,
+      'redeemRebalancingSet',
+      [rebalancingSetAddress, rebalancingSetQuantity, keepChangeInVault],
       txSettings,
     );
   }
@@ -153,10 +156,11 @@ export class RebalancingSetIssuanceModuleWrapper {
         this.rebalancingSetIssuanceModule
       );
 
-    return await rebalancingSetIssuanceModuleInstance.redeemRebalancingSetUnwrappingEther.sendTransactionAsync(
-      rebalancingSetAddress,
-      rebalancingSetQuantity,
-      keepChangeInVault,
+    return await sendContractTransactionAsync(
+      this.web3,
+      rebalancingSetIssuanceModuleInstance,
+      'redeemRebalancingSetUnwrappingEther',
+      [rebalancingSetAddress, rebalancingSetQuantity, keepChangeInVault],
       txSettings,
     );
   }
@@ -16,11 +16,13 @@
 
 'use strict';
 
+import * as _ from 'lodash';
 import Web3 from 'web3';
+import { RebalancingSetToken } from 'set-protocol-contracts';
 import { Address, TokenFlows, Tx } from '../../types/common';
 
 import { ProtocolContractWrapper } from './ProtocolContractWrapper';
-import { BigNumber, parseRebalanceState } from '../../util';
+import { BigNumber, fetchLogsInChunksAsync, parseRebalanceState, sendContractTransactionAsync } from '../../util';
 
 /**
  * @title  RebalancingSetTokenWrapper
@@ -61,13 +63,12 @@ export class RebalancingSetTokenWrapper {
   ): Promise<string> {
     const rebalancingSetTokenInstance = await this.contracts.loadRebalancingSetTokenAsync(rebalancingSetAddress);
 
-    return await rebalancingSetTokenInstance.propose.sendTransactionAsync(
-      nextSet,
-      auctionLibrary,
-      auctionTimeToPivot,
-      auctionStartPrice,
-      auctionPivotPrice,
-      txOpts
+    return await sendContractTransactionAsync(
+      this.web3,
+      rebalancingSetTokenInstance,
+      'propose',
+      [nextSet, auctionLibrary, auctionTimeToPivot, auctionStartPrice, auctionPivotPrice],
+      txOpts,
     );
   }
 
@@ -84,8 +85,12 @@ export class RebalancingSetTokenWrapper {
   ): Promise<string> {
     const rebalancingSetTokenInstance = await this.contracts.loadRebalancingSetTokenAsync(rebalancingSetAddress);
 
-    return await rebalancingSetTokenInstance.startRebalance.sendTransactionAsync(
-      txOpts
+    return await sendContractTransactionAsync(
+      this.web3,
+      rebalancingSetTokenInstance,
+      'startRebalance',
+      [],
+      txOpts,
     );
   }
 
@@ -102,8 +107,12 @@ export class RebalancingSetTokenWrapper {
   ): Promise<string> {
     const rebalancingSetTokenInstance = await this.contracts.loadRebalancingSetTokenAsync(rebalancingSetAddress);
 
-    return await rebalancingSetTokenInstance.settleRebalance.sendTransactionAsync(
-      txOpts
+    return await sendContractTransactionAsync(
+      this.web3,
+      rebalancingSetTokenInstance,
+      'settleRebalance',
+      [],
+      txOpts,
     );
   }
 
@@ -122,9 +131,12 @@ export class RebalancingSetTokenWrapper {
   ): Promise<string> {
     const rebalancingSetTokenInstance = await this.contracts.loadRebalancingSetTokenAsync(rebalancingSetAddress);
 
-    return await rebalancingSetTokenInstance.setManager.sendTransactionAsync(
-      newManager,
-      txOpts
+    return await sendContractTransactionAsync(
+      this.web3,
+      rebalancingSetTokenInstance,
+      'setManager',
+      [newManager],
+      txOpts,
     );
   }
 
@@ -141,8 +153,12 @@ export class RebalancingSetTokenWrapper {
   ): Promise<string> {
     const rebalancingSetTokenInstance = await this.contracts.loadRebalancingSetTokenAsync(rebalancingSetAddress);
 
-    return await rebalancingSetTokenInstance.endFailedAuction.sendTransactionAsync(
-      txOpts
+    return await sendContractTransactionAsync(
+      this.web3,
+      rebalancingSetTokenInstance,
+      'endFailedAuction',
+      [],
+      txOpts,
     );
   }
 
@@ -456,4 +472,69 @@ export class RebalancingSetTokenWrapper {
 
     return auctionPivotPrice;
   }
+
+  /**
+   * Gets state of the Rebalancing Set as of the end of a block. Requires a node that keeps the state of that block
+   *
+   * @param  rebalancingSetAddress   Address of the Set
+   * @param  blockNumber             Number of the block
+   * @return                         The state of the RebalancingSetToken
+   */
+  public async rebalanceStateAtBlock(rebalancingSetAddress: Address, blockNumber: number): Promise<string> {
+    const rebalancingSetTokenInstance = new this.web3.eth.Contract(RebalancingSetToken.abi, rebalancingSetAddress);
+
+    const stateNumber = await rebalancingSetTokenInstance.methods.rebalanceState().call({}, blockNumber);
+    return parseRebalanceState(new BigNumber(stateNumber));
+  }
+
+  /**
+   * Gets address of the currentSet for the Rebalancing Set as of the end of a block. Requires a node that keeps the
+   * state of that block
+   *
+   * @param  rebalancingSetAddress   Address of the Set
+   * @param  blockNumber             Number of the block
+   * @return                         The currentSet of the RebalancingSetToken
+   */
+  public async currentSetAtBlock(rebalancingSetAddress: Address, blockNumber: number): Promise<Address> {
+    const rebalancingSetTokenInstance = new this.web3.eth.Contract(RebalancingSetToken.abi, rebalancingSetAddress);
+
+    return await rebalancingSetTokenInstance.methods.currentSet().call({}, blockNumber);
+  }
+
+  /**
+   * Asynchronously retrieve events emitted by Rebalancing Sets, such as RebalanceProposed and RebalanceStarted. Only
+   * logs emitted by the given addresses are queried, so no events are returned when the list is empty
+   *
+   * @param  eventName                  Name of the RebalancingSetToken event
+   * @param  fromBlock                  The beginning block to retrieve events from
+   * @param  toBlock                    The ending block to retrieve events (default is latest)
+   * @param  rebalancingSetAddresses    Addresses of the Sets to retrieve events for
+   * @return                            An array of raw events with their decoded `returnValues`
+   */
+  public async getPastEvents(
+    eventName: string,
+    fromBlock: number,
+    toBlock: any = 'latest',
+    rebalancingSetAddresses: Address[],
+  ): Promise<any[]> {
+    if (rebalancingSetAddresses.length === 0) {
+      return [];
+    }
+
+    const eventAbi = _.find(RebalancingSetToken.abi, item => item.type === 'event' && item.name === eventName);
+    const filter = {
+      'address': rebalancingSetAddresses,
+      'topics': [this.web3.eth.abi.encodeEventSignature(eventAbi)],
+    };
+
+    const logs = await fetchLogsInChunksAsync(this.web3, (chunkFromBlock, chunkToBlock) => {
+      return this.web3.eth.getPastLogs({ ...filter, 'fromBlock': chunkFromBlock, 'toBlock': chunkToBlock });
+    }, fromBlock, toBlock);
+
+    return logs.map(log => ({
+      ...log,
+      event: eventName,
+      returnValues: this.web3.eth.abi.decodeLog(eventAbi.inputs, log.data, log.topics.slice(1)),
+    }));
+  }
 }
@@ -19,7 +19,7 @@
 import Web3 from 'web3';
 
 import { StrategyContractWrapper } from './StrategyContractWrapper';
-import { BigNumber, generateTxOpts } from '../../util';
+import { BigNumber, generateTxOpts, sendContractTransactionAsync } from '../../util';
 import { Address, Tx } from '../../types/common';
 
 /**
@@ -54,7 +54,13 @@ export class BTCDAIRebalancingManagerWrapper {
     const btcDaiManagerInstance = await this.contracts.loadBtcDaiManagerContractAsync(managerAddress);
     const txOptions = await generateTxOpts(this.web3, txOpts);
 
-    return await btcDaiManagerInstance.propose.sendTransactionAsync(rebalancingSetTokenAddress, txOptions);
+    return await sendContractTransactionAsync(
+      this.web3,
+      btcDaiManagerInstance,
+      'propose',
+      [rebalancingSetTokenAddress],
+      txOptions,
+    );
   }
 
   public async core(managerAddress: Address): Promise<Address> {
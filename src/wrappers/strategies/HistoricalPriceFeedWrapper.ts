@@ -19,7 +19,7 @@
 import Web3 from 'web3';
 
 import { StrategyContractWrapper } from './StrategyContractWrapper';
-import { BigNumber } from '../../util';
+import { BigNumber, sendContractTransactionAsync } from '../../util';
 import { Address, Tx } from '../../types/common';
 
 /**
@@ -73,6 +73,12 @@ export class HistoricalPriceFeedWrapper {
   public async poke(historicalPriceFeedAddress: Address, txOpts?: Tx): Promise<string> {
     const historicalPriceFeed = await this.contracts.loadHistoricalPriceFeedContract(historicalPriceFeedAddress);
 
-    return await historicalPriceFeed.poke.sendTransactionAsync(txOpts);
+    return await sendContractTransactionAsync(
+      this.web3,
+      historicalPriceFeed,
+      'poke',
+      [],
+      txOpts,
+    );
   }
 }
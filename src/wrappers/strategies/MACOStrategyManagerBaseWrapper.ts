@@ -19,7 +19,7 @@
 import Web3 from 'web3';
 
 import { StrategyContractWrapper } from './StrategyContractWrapper';
-import { BigNumber, generateTxOpts } from '../../util';
+import { BigNumber, generateTxOpts, sendContractTransactionAsync } from '../../util';
 import { Address, Tx } from '../../types/common';
 
 /**
@@ -54,7 +54,13 @@ export class MACOStrategyManagerBaseWrapper {
     const macoStrategyManagerInstance = await this.contracts.loadMACOStrategyManagerContractAsync(managerAddress);
     const txOptions = await generateTxOpts(this.web3, txOpts);
 
-    return await macoStrategyManagerInstance.initialPropose.sendTransactionAsync(txOptions);
+    return await sendContractTransactionAsync(
+      this.web3,
+      macoStrategyManagerInstance,
+      'initialPropose',
+      [],
+      txOptions,
+    );
   }
 
   /**
@@ -72,7 +78,13 @@ export class MACOStrategyManagerBaseWrapper {
     const macoStrategyManagerInstance = await this.contracts.loadMACOStrategyManagerContractAsync(managerAddress);
     const txOptions = await generateTxOpts(this.web3, txOpts);
 
-    return await macoStrategyManagerInstance.confirmPropose.sendTransactionAsync(txOptions);
+    return await sendContractTransactionAsync(
+      this.web3,
+      macoStrategyManagerInstance,
+      'confirmPropose',
+      [],
+      txOptions,
+    );
   }
 
   public async coreAddress(managerAddress: Address): Promise<Address> {
@@ -32,6 +32,7 @@ import {
 } from 'set-protocol-strategies';
 
 import { Address } from '../../types/common';
+import { instrumentContract } from '../../util';
 
 /**
  * @title ContractWrapper
@@ -70,6 +71,7 @@ export class StrategyContractWrapper {
         this.web3,
         transactionOptions,
       );
+      instrumentContract(this.web3, historicalPriceFeedContract, 'HistoricalPriceFeed');
       this.cache[cacheKey] = historicalPriceFeedContract;
       return historicalPriceFeedContract;
     }
@@ -96,6 +98,7 @@ export class StrategyContractWrapper {
         this.web3,
         transactionOptions,
       );
+      instrumentContract(this.web3, timeSeriesFeedContract, 'TimeSeriesFeed');
       this.cache[cacheKey] = timeSeriesFeedContract;
       return timeSeriesFeedContract;
     }
@@ -122,6 +125,7 @@ export class StrategyContractWrapper {
         this.web3,
         transactionOptions,
       );
+      instrumentContract(this.web3, movingAverageOracleContract, 'MovingAverageOracle');
       this.cache[cacheKey] = movingAverageOracleContract;
       return movingAverageOracleContract;
     }
@@ -148,6 +152,7 @@ export class StrategyContractWrapper {
         this.web3,
         transactionOptions,
       );
+      instrumentContract(this.web3, oracleProxyContract, 'OracleProxy');
       this.cache[cacheKey] = oracleProxyContract;
       return oracleProxyContract;
     }
@@ -174,6 +179,7 @@ export class StrategyContractWrapper {
         this.web3,
         transactionOptions
       );
+      instrumentContract(this.web3, btcEthRebalancingManagerContract, 'BTCETHRebalancingManager');
       this.cache[cacheKey] = btcEthRebalancingManagerContract;
       return btcEthRebalancingManagerContract;
     }
@@ -200,6 +206,7 @@ export class StrategyContractWrapper {
         this.web3,
         transactionOptions,
       );
+      instrumentContract(this.web3, btcDaiRebalancingManagerContract, 'BTCDaiRebalancingManager');
       this.cache[cacheKey] = btcDaiRebalancingManagerContract;
       return btcDaiRebalancingManagerContract;
     }
@@ -226,6 +233,7 @@ export class StrategyContractWrapper {
         this.web3,
         transactionOptions,
       );
+      instrumentContract(this.web3, ethDaiRebalancingManagerContract, 'ETHDaiRebalancingManager');
       this.cache[cacheKey] = ethDaiRebalancingManagerContract;
       return ethDaiRebalancingManagerContract;
     }
@@ -252,6 +260,7 @@ export class StrategyContractWrapper {
         this.web3,
         transactionOptions,
       );
+      instrumentContract(this.web3, macoStrategyManagerContract, 'MACOStrategyManager');
       this.cache[cacheKey] = macoStrategyManagerContract;
       return macoStrategyManagerContract;
     }
@@ -278,6 +287,7 @@ export class StrategyContractWrapper {
         this.web3,
         transactionOptions,
       );
+      instrumentContract(this.web3, macoStrategyManagerContract, 'MACOStrategyManagerV2');
       this.cache[cacheKey] = macoStrategyManagerContract;
       return macoStrategyManagerContract;
     }
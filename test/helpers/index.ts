@@ -33,6 +33,13 @@ export {
   deployZeroExExchangeWrapperContract,
 } from './exchangeHelpers';
 
+export {
+  createMockProvider,
+  jsonRpcError,
+  jsonRpcResult,
+  sendRequestAsync,
+} from './mockProviderHelpers';
+
 export {
   addPriceFeedOwnerToMedianizer,
   approveContractToOracleProxy,
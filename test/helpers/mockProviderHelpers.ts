@@ -0,0 +1,40 @@
+/*
+  Copyright 2018 Set Labs Inc.
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+  http://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+*/
+
+'use strict';
+
+export const createMockProvider = (respond: (payload: any) => any): any => {
+  return {
+    sendAsync: (payload: any, callback: (error: any, response?: any) => void) => {
+      setTimeout(() => callback(undefined, respond(payload)), 0);
+    },
+  };
+};
+
+export const jsonRpcResult = (payload: any, result: any): any => {
+  return { id: payload.id, jsonrpc: '2.0', result };
+};
+
+export const jsonRpcError = (payload: any, message: string): any => {
+  return { id: payload.id, jsonrpc: '2.0', error: { message } };
+};
+
+export const sendRequestAsync = (provider: any, method: string, params: any[], id: number = 1): Promise<any> => {
+  return new Promise((resolve, reject) => provider.sendAsync(
+    { id, jsonrpc: '2.0', method, params },
+    (error: any, response: any) => error ? reject(error) : resolve(response),
+  ));
+};
@@ -38,6 +38,7 @@ import { AccountingAPI } from '@src/api';
 import { BigNumber } from '@src/util';
 import { Assertions } from '@src/assertions';
 import { CoreWrapper } from '@src/wrappers';
+import { InsufficientAllowanceError } from '@src/errors';
 import { DEFAULT_ACCOUNT, ACCOUNTS } from '@src/constants/accounts';
 import { TX_DEFAULTS } from '@src/constants';
 import { approveForTransferAsync, deployBaseContracts, deployTokensAsync, getVaultBalances } from '@test/helpers';
@@ -254,6 +255,17 @@ describe('AccountingAPI', () => {
       `
         );
       });
+
+      test('throws an InsufficientAllowanceError with the allowance details', async () => {
+        const error = await subject().catch(e => e);
+
+        expect(error).to.be.an.instanceof(InsufficientAllowanceError);
+        expect(error.code).to.equal('INSUFFICIENT_ALLOWANCE');
+        expect(error.token).to.equal(tokenAddress);
+        expect(error.spender).to.equal(coreWrapper.transferProxyAddress);
+        expect(error.current).to.bignumber.equal(insufficientAllowance);
+        expect(error.required).to.bignumber.equal(depositQuantity);
+      });
     });
   });
 
@@ -25,18 +25,28 @@ jest.setTimeout(30000);
 import * as _ from 'lodash';
 import * as ABIDecoder from 'abi-decoder';
 import * as chai from 'chai';
+import { EventEmitter } from 'events';
 import Web3 from 'web3';
 import { Address, Log, Web3Utils } from 'set-protocol-utils';
 import { StandardTokenMockContract } from 'set-protocol-contracts';
 import { StandardTokenMock } from 'set-protocol-contracts';
 import { TransactionReceipt } from 'ethereum-types';
+import {
+  CancellationSignal,
+  TransactionReplacement,
+  TransactionSimulation,
+  Tx,
+  UnsignedTransaction,
+} from '@src/types/common';
 
 import ChaiSetup from '@test/helpers/chaiSetup';
 import { BlockchainAPI } from '@src/api';
 import { Assertions } from '@src/assertions';
-import { BigNumber, getFormattedLogsFromReceipt } from '@src/util';
+import { CancellationError, SetProtocolRevertError } from '@src/errors';
+import { ERC20Wrapper } from '@src/wrappers';
+import { BigNumber, CancellationController, getFormattedLogsFromReceipt, TransactionTracker } from '@src/util';
 import { DEFAULT_ACCOUNT, ACCOUNTS } from '@src/constants/accounts';
-import { TX_DEFAULTS } from '@src/constants';
+import { DEFAULT_GAS_LIMIT, TX_DEFAULTS } from '@src/constants';
 import { deployBaseContracts, deployTokenAsync } from '@test/helpers';
 
 ChaiSetup.configure();
@@ -51,6 +61,53 @@ standardTokenContract.defaults(TX_DEFAULTS);
 
 let currentSnapshotId: number;
 
+const SENDER: Address = '0x5409ed021d9299bf6814279a6a1411a7e866a631';
+const TOKEN: Address = '0x1dc4c1cefef38a777b15aa20260a54e584b16c48';
+const ORIGINAL_TX_HASH = '0x' + '1'.repeat(64);
+const REPLACEMENT_TX_HASH = '0x' + '2'.repeat(64);
+
+interface MockChain {
+  sentTransactions: Tx[];
+  receipts: { [txHash: string]: any };
+}
+
+function createMockWeb3(chain: MockChain): any {
+  return {
+    eth: {
+      getTransaction: async (txHash: string) => {
+        if (txHash !== ORIGINAL_TX_HASH) {
+          return undefined;
+        }
+
+        return {
+          hash: ORIGINAL_TX_HASH,
+          from: SENDER,
+          to: TOKEN,
+          value: '0',
+          input: '0x095ea7b3',
+          gas: 100000,
+          gasPrice: '6000000000',
+          nonce: 7,
+          blockNumber: undefined as number,
+        };
+      },
+      sendTransaction: (txData: Tx) => {
+        chain.sentTransactions.push(txData);
+
+        const promiEvent: any = new EventEmitter();
+        const promise = new Promise(resolve => setTimeout(() => {
+          promiEvent.emit('transactionHash', REPLACEMENT_TX_HASH);
+          resolve(REPLACEMENT_TX_HASH);
+        }, 0));
+        promiEvent.catch = (onRejected: any) => promise.catch(onRejected);
+
+        return promiEvent;
+      },
+      getTransactionReceipt: async (txHash: string) => chain.receipts[txHash],
+    },
+  };
+}
+
 
 describe('BlockchainAPI', () => {
   let blockchainAPI: BlockchainAPI;
@@ -84,11 +141,13 @@ describe('BlockchainAPI', () => {
     let subjectSpender: Address;
     let subjectQuantity: BigNumber;
     let subjectTxHash: string;
+    let subjectSignal: CancellationSignal;
 
     beforeEach(async () => {
       subjectCaller = DEFAULT_ACCOUNT;
       subjectSpender = ACCOUNTS[0].address;
       subjectQuantity = new BigNumber(1);
+      subjectSignal = undefined;
 
       subjectTxHash = await standardToken.approve.sendTransactionAsync(
         subjectSpender,
@@ -100,6 +159,9 @@ describe('BlockchainAPI', () => {
     async function subject(): Promise<TransactionReceipt> {
       return await blockchainAPI.awaitTransactionMinedAsync(
         subjectTxHash,
+        undefined,
+        undefined,
+        subjectSignal,
       );
     }
 
@@ -115,5 +177,623 @@ describe('BlockchainAPI', () => {
       expect(spender).to.equal(subjectSpender.toLowerCase());
       expect(value).to.bignumber.equal(subjectQuantity);
     });
+
+    describe('when the wait is cancelled before the transaction is mined', async () => {
+      beforeEach(async () => {
+        const cancellationController = new CancellationController();
+        setTimeout(() => cancellationController.abort(), 100);
+
+        subjectTxHash = '0x' + 'ab'.repeat(32);
+        subjectSignal = cancellationController.signal;
+      });
+
+      test('rejects with a CancellationError', async () => {
+        return expect(subject()).to.be.rejectedWith(
+          CancellationError,
+          `Waiting for transaction ${subjectTxHash} was cancelled.`
+        );
+      });
+    });
+  });
+
+  describe('trackTransaction', async () => {
+    let subjectTxHash: string;
+    let subjectConfirmations: number;
+
+    beforeEach(async () => {
+      subjectTxHash = await standardToken.approve.sendTransactionAsync(
+        ACCOUNTS[0].address,
+        new BigNumber(1),
+        { from: DEFAULT_ACCOUNT },
+      );
+      subjectConfirmations = 1;
+    });
+
+    function subject(): TransactionTracker {
+      return blockchainAPI.trackTransaction(
+        subjectTxHash,
+        { confirmations: subjectConfirmations, pollingIntervalMs: 100 },
+      );
+    }
+
+    test('emits submitted, mined and confirmed events in order', async () => {
+      const emittedEvents: string[] = [];
+      const tracker = subject();
+      tracker.on('submitted', () => emittedEvents.push('submitted'));
+      tracker.on('mined', () => emittedEvents.push('mined'));
+      tracker.on('confirmed', () => emittedEvents.push('confirmed'));
+
+      const receipt = await tracker.awaitConfirmationAsync();
+
+      expect(receipt.transactionHash).to.equal(subjectTxHash);
+      expect(emittedEvents).to.eql(['submitted', 'mined', 'confirmed']);
+      expect(tracker.isStopped).to.be.true;
+    });
+
+    test('resolves immediately when awaited after the transaction was confirmed', async () => {
+      const tracker = subject();
+      await tracker.awaitConfirmationAsync();
+
+      const receipt = await tracker.awaitConfirmationAsync();
+
+      expect(receipt.transactionHash).to.equal(subjectTxHash);
+    });
+
+    test('does not leave listeners behind on the tracker', async () => {
+      const tracker = subject();
+
+      await tracker.awaitConfirmationAsync();
+
+      expect(tracker.eventNames()).to.eql([]);
+    });
+
+    describe('when the tracker is stopped before the transaction is confirmed', async () => {
+      beforeEach(async () => {
+        subjectConfirmations = 5;
+      });
+
+      test('rejects pending and later waits with a CancellationError', async () => {
+        const tracker = subject();
+        const pendingConfirmation = tracker.awaitConfirmationAsync();
+
+        tracker.stop();
+
+        await expect(pendingConfirmation).to.be.rejectedWith(CancellationError);
+        return expect(tracker.awaitConfirmationAsync()).to.be.rejectedWith(CancellationError);
+      });
+    });
+
+    describe('when the transaction hash is invalid', async () => {
+      beforeEach(async () => {
+        subjectTxHash = 'invalidTxHash';
+      });
+
+      test('throws', async () => {
+        expect(() => subject()).to.throw(
+      `
+        Expected txHash to conform to schema /Bytes32.
+
+        Encountered: "invalidTxHash"
+
+        Validation errors: instance does not match pattern "^0x[0-9a-fA-F]{64}$"
+      `
+        );
+      });
+    });
+  });
+
+  describe('speedUpAsync', async () => {
+    let subjectTxHash: string;
+    let subjectGasPrice: BigNumber;
+
+    beforeEach(async () => {
+      subjectTxHash = await standardToken.approve.sendTransactionAsync(
+        ACCOUNTS[0].address,
+        new BigNumber(1),
+        { from: DEFAULT_ACCOUNT },
+      );
+      subjectGasPrice = new BigNumber(TX_DEFAULTS.gasPrice).mul(2);
+    });
+
+    async function subject(): Promise<TransactionReplacement> {
+      return await blockchainAPI.speedUpAsync(
+        subjectTxHash,
+        subjectGasPrice,
+      );
+    }
+
+    describe('when the transaction has already been mined', async () => {
+      test('throws', async () => {
+        return expect(subject()).to.be.rejectedWith(
+          `Transaction with hash ${subjectTxHash} has already been mined and cannot be replaced.`
+        );
+      });
+    });
+
+    describe('when the transaction does not exist', async () => {
+      beforeEach(async () => {
+        subjectTxHash = '0x' + '1'.repeat(64);
+      });
+
+      test('throws', async () => {
+        return expect(subject()).to.be.rejectedWith(
+          `Transaction with hash ${subjectTxHash} could not be found.`
+        );
+      });
+    });
+  });
+
+  describe('cancelAsync', async () => {
+    let subjectTxHash: string;
+
+    beforeEach(async () => {
+      subjectTxHash = await standardToken.approve.sendTransactionAsync(
+        ACCOUNTS[0].address,
+        new BigNumber(1),
+        { from: DEFAULT_ACCOUNT },
+      );
+    });
+
+    async function subject(): Promise<TransactionReplacement> {
+      return await blockchainAPI.cancelAsync(subjectTxHash);
+    }
+
+    describe('when the transaction has already been mined', async () => {
+      test('throws', async () => {
+        return expect(subject()).to.be.rejectedWith(
+          `Transaction with hash ${subjectTxHash} has already been mined and cannot be replaced.`
+        );
+      });
+    });
+  });
+
+  describe('simulateAsync', async () => {
+    let erc20Wrapper: ERC20Wrapper;
+    let subjectSpender: Address;
+    let subjectQuantity: BigNumber;
+    let subjectTxOpts: Tx;
+
+    beforeEach(async () => {
+      erc20Wrapper = new ERC20Wrapper(web3);
+
+      subjectSpender = ACCOUNTS[1].address;
+      subjectQuantity = new BigNumber(1);
+      subjectTxOpts = { from: DEFAULT_ACCOUNT };
+    });
+
+    async function subject(): Promise<TransactionSimulation> {
+      return await blockchainAPI.simulateAsync(
+        subjectTxOpts,
+        opts => erc20Wrapper.transfer(standardToken.address, subjectSpender, subjectQuantity, opts),
+      );
+    }
+
+    test('returns the gas estimate and return value of the transaction', async () => {
+      const simulation = await subject();
+
+      expect(simulation.reverted).to.be.false;
+      expect(simulation.gas).to.be.above(0);
+      expect(simulation.returnValue).to.be.true;
+    });
+
+    test('does not change any state', async () => {
+      const previousBalance = await standardToken.balanceOf.callAsync(subjectSpender);
+
+      await subject();
+
+      const currentBalance = await standardToken.balanceOf.callAsync(subjectSpender);
+      expect(currentBalance).to.bignumber.equal(previousBalance);
+    });
+
+    describe('when the transaction would revert', async () => {
+      beforeEach(async () => {
+        const balance = await standardToken.balanceOf.callAsync(DEFAULT_ACCOUNT);
+        subjectQuantity = balance.add(1);
+      });
+
+      test('reports the transaction as reverted', async () => {
+        const simulation = await subject();
+
+        expect(simulation.reverted).to.be.true;
+        expect(simulation.gas).to.be.undefined;
+      });
+
+      test('returns a revert error with the contract and method', async () => {
+        const { revertError } = await subject();
+
+        expect(revertError).to.be.instanceOf(SetProtocolRevertError);
+        expect(revertError.contractAddress).to.equal(standardToken.address);
+        expect(revertError.methodName).to.equal('transfer');
+        expect(revertError.transaction.from).to.equal(DEFAULT_ACCOUNT);
+      });
+    });
+
+    describe('when the function does not send a transaction', async () => {
+      async function subject(): Promise<TransactionSimulation> {
+        return await blockchainAPI.simulateAsync(
+          subjectTxOpts,
+          () => erc20Wrapper.balanceOf(standardToken.address, subjectSpender),
+        );
+      }
+
+      test('throws', async () => {
+        return expect(subject()).to.be.rejectedWith(
+          `The function supplied to simulateAsync did not send a transaction with the provided transaction options.`
+        );
+      });
+    });
+
+    describe('when the function sends more than one transaction', async () => {
+      async function subject(): Promise<TransactionSimulation> {
+        return await blockchainAPI.simulateAsync(
+          subjectTxOpts,
+          async opts => {
+            await erc20Wrapper.transfer(standardToken.address, subjectSpender, subjectQuantity, opts);
+            return erc20Wrapper.transfer(standardToken.address, subjectSpender, subjectQuantity, opts);
+          },
+        );
+      }
+
+      test('throws', async () => {
+        return expect(subject()).to.be.rejectedWith(
+          `The function supplied to simulateAsync sent 2 transactions. Simulate one transaction at a time.`
+        );
+      });
+    });
+  });
+
+  describe('estimateGasAsync', async () => {
+    let erc20Wrapper: ERC20Wrapper;
+    let subjectQuantity: BigNumber;
+
+    beforeEach(async () => {
+      erc20Wrapper = new ERC20Wrapper(web3);
+
+      subjectQuantity = new BigNumber(1);
+    });
+
+    async function subject(): Promise<number> {
+      return await blockchainAPI.estimateGasAsync(
+        { from: DEFAULT_ACCOUNT },
+        opts => erc20Wrapper.approve(standardToken.address, ACCOUNTS[1].address, subjectQuantity, opts),
+      );
+    }
+
+    test('returns a gas estimate that is sufficient to send the transaction', async () => {
+      const gas = await subject();
+
+      const txHash = await erc20Wrapper.approve(
+        standardToken.address,
+        ACCOUNTS[1].address,
+        subjectQuantity,
+        { from: DEFAULT_ACCOUNT, gas },
+      );
+      const receipt = await blockchainAPI.awaitTransactionMinedAsync(txHash);
+
+      expect(receipt.gasUsed).to.be.at.most(gas);
+    });
+  });
+
+  describe('buildTransactionAsync', async () => {
+    let erc20Wrapper: ERC20Wrapper;
+    let subjectSpender: Address;
+    let subjectQuantity: BigNumber;
+
+    beforeEach(async () => {
+      erc20Wrapper = new ERC20Wrapper(web3);
+
+      subjectSpender = ACCOUNTS[1].address;
+      subjectQuantity = new BigNumber(1);
+    });
+
+    async function subject(): Promise<UnsignedTransaction> {
+      return await blockchainAPI.buildTransactionAsync(
+        { from: DEFAULT_ACCOUNT },
+        opts => erc20Wrapper.transfer(standardToken.address, subjectSpender, subjectQuantity, opts),
+      );
+    }
+
+    test('returns the unsigned transaction', async () => {
+      const transaction = await subject();
+
+      const expectedData = standardToken.transfer.getABIEncodedTransactionData(subjectSpender, subjectQuantity);
+      expect(transaction.to).to.equal(standardToken.address);
+      expect(transaction.data).to.equal(expectedData);
+      expect(transaction.value).to.bignumber.equal(0);
+      expect(transaction.gas).to.be.above(0);
+    });
+
+    test('does not send the transaction', async () => {
+      const previousBalance = await standardToken.balanceOf.callAsync(subjectSpender);
+
+      await subject();
+
+      const currentBalance = await standardToken.balanceOf.callAsync(subjectSpender);
+      expect(currentBalance).to.bignumber.equal(previousBalance);
+    });
+
+    test('estimates the gas of the transaction', async () => {
+      const transaction = await subject();
+
+      const expectedGas = await web3.eth.estimateGas({
+        from: DEFAULT_ACCOUNT,
+        to: standardToken.address,
+        data: transaction.data,
+      });
+      expect(transaction.gas).to.equal(expectedGas);
+      expect(transaction.gas).to.be.below(DEFAULT_GAS_LIMIT);
+    });
+
+    describe('when the transaction options specify the gas', async () => {
+      async function subject(): Promise<UnsignedTransaction> {
+        return await blockchainAPI.buildTransactionAsync(
+          { from: DEFAULT_ACCOUNT, gas: 123456 },
+          opts => erc20Wrapper.transfer(standardToken.address, subjectSpender, subjectQuantity, opts),
+        );
+      }
+
+      test('uses the provided gas', async () => {
+        const transaction = await subject();
+
+        expect(transaction.gas).to.equal(123456);
+      });
+    });
+
+    describe('when the transaction would revert', async () => {
+      beforeEach(async () => {
+        const balance = await standardToken.balanceOf.callAsync(DEFAULT_ACCOUNT);
+        subjectQuantity = balance.add(1);
+      });
+
+      test('throws a revert error', async () => {
+        return expect(subject()).to.be.rejectedWith(SetProtocolRevertError);
+      });
+    });
+
+    describe('when the function does not send a transaction', async () => {
+      async function subject(): Promise<UnsignedTransaction> {
+        return await blockchainAPI.buildTransactionAsync(
+          { from: DEFAULT_ACCOUNT },
+          () => erc20Wrapper.balanceOf(standardToken.address, subjectSpender),
+        );
+      }
+
+      test('throws', async () => {
+        return expect(subject()).to.be.rejectedWith(
+          `The function supplied to buildTransactionAsync did not send a transaction with the provided transaction ` +
+          `options.`
+        );
+      });
+    });
+
+    describe('when the function sends more than one transaction', async () => {
+      async function subject(): Promise<UnsignedTransaction> {
+        return await blockchainAPI.buildTransactionAsync(
+          { from: DEFAULT_ACCOUNT },
+          async opts => {
+            await erc20Wrapper.transfer(standardToken.address, subjectSpender, subjectQuantity, opts);
+            return erc20Wrapper.approve(standardToken.address, subjectSpender, subjectQuantity, opts);
+          },
+        );
+      }
+
+      test('throws', async () => {
+        return expect(subject()).to.be.rejectedWith(
+          `The function supplied to buildTransactionAsync sent 2 transactions. Build one transaction at a time.`
+        );
+      });
+    });
+  });
+
+  describe('getRevertErrorAsync', async () => {
+    let subjectTxHash: string;
+
+    beforeEach(async () => {
+      subjectTxHash = await standardToken.approve.sendTransactionAsync(
+        ACCOUNTS[0].address,
+        new BigNumber(1),
+        { from: DEFAULT_ACCOUNT },
+      );
+      await blockchainAPI.awaitTransactionMinedAsync(subjectTxHash);
+    });
+
+    async function subject(): Promise<SetProtocolRevertError> {
+      return await blockchainAPI.getRevertErrorAsync(subjectTxHash);
+    }
+
+    test('returns undefined for a successful transaction', async () => {
+      const revertError = await subject();
+
+      expect(revertError).to.be.undefined;
+    });
+  });
+});
+
+describe('BlockchainAPI with a pending transaction', () => {
+  let chain: MockChain;
+  let blockchainAPI: BlockchainAPI;
+
+  beforeEach(() => {
+    chain = { sentTransactions: [], receipts: {} };
+
+    const mockWeb3 = createMockWeb3(chain);
+    blockchainAPI = new BlockchainAPI(mockWeb3, new Assertions(mockWeb3));
+  });
+
+  describe('speedUpAsync', async () => {
+    let subjectGasPrice: BigNumber;
+
+    beforeEach(() => {
+      subjectGasPrice = new BigNumber('6600000000');
+    });
+
+    async function subject(): Promise<TransactionReplacement> {
+      return await blockchainAPI.speedUpAsync(ORIGINAL_TX_HASH, subjectGasPrice);
+    }
+
+    test('resends the transaction with the same nonce at the new gas price', async () => {
+      await subject();
+
+      expect(chain.sentTransactions).to.deep.equal([{
+        from: SENDER,
+        to: TOKEN,
+        value: '0',
+        data: '0x095ea7b3',
+        gas: 100000,
+        gasPrice: '6600000000',
+        nonce: 7,
+      }]);
+    });
+
+    test('returns the hashes of both transactions', async () => {
+      const replacement = await subject();
+
+      expect(replacement).to.deep.equal({
+        originalTxHash: ORIGINAL_TX_HASH,
+        replacementTxHash: REPLACEMENT_TX_HASH,
+        from: SENDER,
+        nonce: 7,
+      });
+    });
+
+    describe('when the gas price is less than 10% above the original gas price', async () => {
+      beforeEach(() => {
+        subjectGasPrice = new BigNumber('6599999999');
+      });
+
+      test('throws', async () => {
+        return expect(subject()).to.be.rejectedWith(
+          'Replacement gas price of 6599999999 must be at least 10% above the original gas price of 6000000000, ' +
+          'a minimum of 6600000000.'
+        );
+      });
+    });
+  });
+
+  describe('cancelAsync', async () => {
+    let subjectGasPrice: BigNumber;
+
+    beforeEach(() => {
+      subjectGasPrice = undefined;
+    });
+
+    async function subject(): Promise<TransactionReplacement> {
+      return await blockchainAPI.cancelAsync(ORIGINAL_TX_HASH, subjectGasPrice);
+    }
+
+    test('sends an empty transfer to the sender with the same nonce 10% above the original gas price', async () => {
+      await subject();
+
+      expect(chain.sentTransactions).to.deep.equal([{
+        from: SENDER,
+        to: SENDER,
+        value: 0,
+        gas: 21000,
+        gasPrice: '6600000000',
+        nonce: 7,
+      }]);
+    });
+
+    test('returns the hashes of both transactions', async () => {
+      const replacement = await subject();
+
+      expect(replacement.originalTxHash).to.equal(ORIGINAL_TX_HASH);
+      expect(replacement.replacementTxHash).to.equal(REPLACEMENT_TX_HASH);
+    });
+
+    describe('when the gas price is not above the original gas price', async () => {
+      beforeEach(() => {
+        subjectGasPrice = new BigNumber('6000000000');
+      });
+
+      test('throws', async () => {
+        return expect(subject()).to.be.rejectedWith(
+          'Replacement gas price of 6000000000 must be at least 10% above the original gas price of 6000000000, ' +
+          'a minimum of 6600000000.'
+        );
+      });
+    });
+  });
+
+  describe('awaitTransactionMinedAsync', async () => {
+    test('settles concurrent waits on the same transaction', async () => {
+      setTimeout(() => {
+        chain.receipts[ORIGINAL_TX_HASH] = { transactionHash: ORIGINAL_TX_HASH, status: true };
+      }, 30);
+
+      const receipts = await Promise.all([
+        blockchainAPI.awaitTransactionMinedAsync(ORIGINAL_TX_HASH, 10, 1000),
+        blockchainAPI.awaitTransactionMinedAsync(ORIGINAL_TX_HASH, 10, 1000),
+      ]);
+
+      expect(receipts[0].transactionHash).to.equal(ORIGINAL_TX_HASH);
+      expect(receipts[1].transactionHash).to.equal(ORIGINAL_TX_HASH);
+    });
+
+    test('times out each concurrent wait on the same transaction', async () => {
+      const waits = [
+        blockchainAPI.awaitTransactionMinedAsync(ORIGINAL_TX_HASH, 10, 50),
+        blockchainAPI.awaitTransactionMinedAsync(ORIGINAL_TX_HASH, 10, 50),
+      ];
+
+      const timeoutMessage =
+        `Timeout has been exceeded in awaiting mining of transaction with hash ${ORIGINAL_TX_HASH}.`;
+      await expect(waits[0]).to.be.rejectedWith(timeoutMessage);
+      await expect(waits[1]).to.be.rejectedWith(timeoutMessage);
+    });
+  });
+
+  describe('awaitReplacementMinedAsync', async () => {
+    const replacement: TransactionReplacement = {
+      originalTxHash: ORIGINAL_TX_HASH,
+      replacementTxHash: REPLACEMENT_TX_HASH,
+      from: SENDER,
+      nonce: 7,
+    };
+
+    async function subject(): Promise<TransactionReceipt> {
+      return await blockchainAPI.awaitReplacementMinedAsync(replacement, 10, 1000);
+    }
+
+    test('returns the receipt of the replacement when it is mined', async () => {
+      setTimeout(() => {
+        chain.receipts[REPLACEMENT_TX_HASH] = { transactionHash: REPLACEMENT_TX_HASH, status: true };
+      }, 30);
+
+      const receipt = await subject();
+
+      expect(receipt.transactionHash).to.equal(REPLACEMENT_TX_HASH);
+    });
+
+    test('returns the receipt of the original transaction when it is mined', async () => {
+      setTimeout(() => {
+        chain.receipts[ORIGINAL_TX_HASH] = { transactionHash: ORIGINAL_TX_HASH, status: true };
+      }, 30);
+
+      const receipt = await subject();
+
+      expect(receipt.transactionHash).to.equal(ORIGINAL_TX_HASH);
+    });
+
+    test('times out when neither transaction is mined', async () => {
+      return expect(blockchainAPI.awaitReplacementMinedAsync(replacement, 10, 50)).to.be.rejectedWith(
+        `Timeout has been exceeded in awaiting mining of transaction with hash ${ORIGINAL_TX_HASH} or its ` +
+        `replacement with hash ${REPLACEMENT_TX_HASH}.`
+      );
+    });
+
+    test('does not interrupt a wait on the replacement transaction alone', async () => {
+      setTimeout(() => {
+        chain.receipts[REPLACEMENT_TX_HASH] = { transactionHash: REPLACEMENT_TX_HASH, status: true };
+      }, 30);
+
+      const [replacementWaitReceipt, transactionWaitReceipt] = await Promise.all([
+        subject(),
+        blockchainAPI.awaitTransactionMinedAsync(REPLACEMENT_TX_HASH, 10, 1000),
+      ]);
+
+      expect(replacementWaitReceipt.transactionHash).to.equal(REPLACEMENT_TX_HASH);
+      expect(transactionWaitReceipt.transactionHash).to.equal(REPLACEMENT_TX_HASH);
+    });
   });
 });
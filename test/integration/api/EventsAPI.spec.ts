@@ -0,0 +1,340 @@
+/*
+  Copyright 2018 Set Labs Inc.
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+  http://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+*/
+
+'use strict';
+
+// Given that this is an integration test, we unmock the Set Protocol
+// smart contracts artifacts package to pull the most recently
+// deployed contracts on the current network.
+jest.unmock('set-protocol-contracts');
+jest.setTimeout(30000);
+
+import * as _ from 'lodash';
+import * as chai from 'chai';
+import Web3 from 'web3';
+import { Address, Web3Utils } from 'set-protocol-utils';
+import {
+  CoreContract,
+  SetTokenContract,
+  SetTokenFactoryContract,
+  StandardTokenMockContract,
+  TransferProxyContract,
+  VaultContract
+} from 'set-protocol-contracts';
+
+import ChaiSetup from '@test/helpers/chaiSetup';
+import { EventsAPI } from '@src/api';
+import { MissingEventFilterError } from '@src/errors';
+import { BigNumber, LogFetcher } from '@src/util';
+import { CoreWrapper } from '@src/wrappers';
+import { DEFAULT_ACCOUNT } from '@src/constants/accounts';
+import { TX_DEFAULTS } from '@src/constants';
+import {
+  approveForTransferAsync,
+  deployBaseContracts,
+  deploySetTokenAsync,
+  deployTokensAsync,
+} from '@test/helpers/coreHelpers';
+import { ether } from '@src/util/units';
+import {
+  ApproximateVaultTransferEvent,
+  LogCursor,
+  LogPage,
+  LogRange,
+  ProtocolEvent,
+  SetIssuedEvent,
+  SetTokenCreatedEvent,
+  TokenTransferEvent,
+} from '@src/types/common';
+
+ChaiSetup.configure();
+const web3 = new Web3('http://localhost:8545');
+const web3Utils = new Web3Utils(web3);
+const { expect } = chai;
+
+let currentSnapshotId: number;
+
+describe('EventsAPI', () => {
+  let transferProxy: TransferProxyContract;
+  let vault: VaultContract;
+  let core: CoreContract;
+  let setTokenFactory: SetTokenFactoryContract;
+
+  let eventsAPI: EventsAPI;
+
+  let componentTokens: StandardTokenMockContract[];
+  let setToken: SetTokenContract;
+  let naturalUnit: BigNumber;
+  let startBlock: number;
+
+  beforeEach(async () => {
+    currentSnapshotId = await web3Utils.saveTestSnapshot();
+
+    [
+      core,
+      transferProxy,
+      vault,
+      setTokenFactory,
+      ,
+      ,
+      ,
+    ] = await deployBaseContracts(web3);
+
+    const coreWrapper = new CoreWrapper(
+      web3,
+      core.address,
+      transferProxy.address,
+      vault.address,
+    );
+    eventsAPI = new EventsAPI(web3, coreWrapper);
+
+    startBlock = await web3.eth.getBlockNumber();
+
+    componentTokens = await deployTokensAsync(2, web3);
+    naturalUnit = ether(2);
+    setToken = await deploySetTokenAsync(
+      web3,
+      core,
+      setTokenFactory.address,
+      componentTokens.map(token => token.address),
+      componentTokens.map(() => ether(4)),
+      naturalUnit,
+    );
+
+    await approveForTransferAsync(componentTokens, transferProxy.address);
+  });
+
+  afterEach(async () => {
+    await web3Utils.revertToSnapshot(currentSnapshotId);
+  });
+
+  describe('getSetTokenCreatedEventsAsync', async () => {
+    let subjectSet: Address;
+
+    beforeEach(async () => {
+      subjectSet = setToken.address;
+    });
+
+    async function subject(): Promise<SetTokenCreatedEvent[]> {
+      return await eventsAPI.getSetTokenCreatedEventsAsync({ fromBlock: startBlock, set: subjectSet });
+    }
+
+    test('returns the creation of the Set with normalized values', async () => {
+      const [event] = await subject();
+
+      expect(event.setToken).to.equal(setToken.address);
+      expect(event.factory).to.equal(setTokenFactory.address);
+      expect(event.components).to.eql(componentTokens.map(token => token.address));
+      expect(event.units).to.eql(componentTokens.map(() => ether(4)));
+      expect(event.naturalUnit).to.bignumber.equal(naturalUnit);
+    });
+
+    describe('when filtering for another Set', async () => {
+      beforeEach(async () => {
+        subjectSet = componentTokens[0].address;
+      });
+
+      test('returns no events', async () => {
+        const events = await subject();
+
+        expect(events).to.be.empty;
+      });
+    });
+  });
+
+  describe('getSetIssuedEventsAsync', async () => {
+    let subjectSet: Address;
+    let issueQuantity: BigNumber;
+
+    beforeEach(async () => {
+      issueQuantity = ether(10);
+      await core.issue.sendTransactionAsync(setToken.address, issueQuantity, TX_DEFAULTS);
+
+      subjectSet = setToken.address;
+    });
+
+    async function subject(): Promise<SetIssuedEvent[]> {
+      return await eventsAPI.getSetIssuedEventsAsync({ fromBlock: startBlock, set: subjectSet });
+    }
+
+    test('returns the issuance of the Set', async () => {
+      const events = await subject();
+
+      expect(events.length).to.equal(1);
+      expect(events[0].setToken).to.equal(setToken.address);
+      expect(events[0].quantity).to.bignumber.equal(issueQuantity);
+    });
+
+    describe('when filtering for another Set', async () => {
+      beforeEach(async () => {
+        subjectSet = componentTokens[0].address;
+      });
+
+      test('returns no events', async () => {
+        const events = await subject();
+
+        expect(events).to.be.empty;
+      });
+    });
+  });
+
+  describe('getDepositEventsAsync', async () => {
+    let depositQuantity: BigNumber;
+
+    beforeEach(async () => {
+      depositQuantity = new BigNumber(100);
+      await core.deposit.sendTransactionAsync(componentTokens[0].address, depositQuantity, TX_DEFAULTS);
+    });
+
+    async function subject(): Promise<ApproximateVaultTransferEvent[]> {
+      return await eventsAPI.getDepositEventsAsync({
+        fromBlock: startBlock,
+        owner: DEFAULT_ACCOUNT,
+        token: componentTokens[0].address,
+      });
+    }
+
+    test('returns the deposit into the vault', async () => {
+      const events = await subject();
+
+      expect(events.length).to.equal(1);
+      expect(events[0].owner.toLowerCase()).to.equal(DEFAULT_ACCOUNT.toLowerCase());
+      expect(events[0].token).to.equal(componentTokens[0].address);
+      expect(events[0].quantity).to.bignumber.equal(depositQuantity);
+    });
+  });
+
+  describe('getTransferEventsAsync', async () => {
+    let subjectToken: Address;
+
+    beforeEach(async () => {
+      await core.issue.sendTransactionAsync(setToken.address, ether(2), TX_DEFAULTS);
+
+      subjectToken = componentTokens[0].address;
+    });
+
+    async function subject(): Promise<TokenTransferEvent[]> {
+      return await eventsAPI.getTransferEventsAsync({
+        fromBlock: startBlock,
+        owner: DEFAULT_ACCOUNT,
+        token: subjectToken,
+      });
+    }
+
+    test('returns the component pulled into the vault by the issuance', async () => {
+      const events = await subject();
+
+      expect(events.length).to.equal(1);
+      expect(events[0].token).to.equal(componentTokens[0].address);
+      expect(events[0].to.toLowerCase()).to.equal(vault.address.toLowerCase());
+      expect(events[0].quantity).to.bignumber.equal(ether(4));
+    });
+
+    describe('when the token filter is missing', async () => {
+      beforeEach(async () => {
+        subjectToken = undefined;
+      });
+
+      test('throws a MissingEventFilterError', async () => {
+        const error = await subject().catch(e => e);
+
+        expect(error).to.be.an.instanceof(MissingEventFilterError);
+        expect(error.code).to.equal('MISSING_EVENT_FILTER');
+      });
+    });
+  });
+
+  describe('iterate', async () => {
+    let issueBlocks: number[];
+
+    beforeEach(async () => {
+      issueBlocks = [];
+      for (let i = 0; i < 3; i++) {
+        const txHash = await core.issue.sendTransactionAsync(setToken.address, ether(2), TX_DEFAULTS);
+        const receipt = await web3.eth.getTransactionReceipt(txHash);
+        issueBlocks.push(receipt.blockNumber);
+      }
+    });
+
+    function subject(range: LogRange | LogCursor): LogFetcher<ProtocolEvent> {
+      return eventsAPI.iterate(
+        'SetIssued',
+        range,
+        { set: setToken.address },
+        { chunkSize: 1 },
+      );
+    }
+
+    test('returns a page per chunk of blocks', async () => {
+      const fetcher = subject({ fromBlock: issueBlocks[0], toBlock: issueBlocks[2] });
+
+      const pages: LogPage<ProtocolEvent>[] = [];
+      let result = await fetcher.next();
+      while (!result.done) {
+        pages.push(result.value);
+        result = await fetcher.next();
+      }
+
+      expect(pages.length).to.equal(issueBlocks[2] - issueBlocks[0] + 1);
+      expect(_.flatMap(pages, page => page.logs).map(event => event.blockNumber)).to.eql(issueBlocks);
+    });
+
+    test('resumes from the cursor of a page', async () => {
+      const firstPage = (await subject({ fromBlock: issueBlocks[0], toBlock: issueBlocks[2] }).next()).value;
+
+      const remainingEvents = await subject(firstPage.cursor).collectAsync();
+
+      expect(remainingEvents.map(event => event.blockNumber)).to.eql(issueBlocks.slice(1));
+    });
+  });
+
+  describe('subscribe', async () => {
+    let receivedEvents: SetIssuedEvent[];
+    let unsubscribe: () => void;
+
+    beforeEach(async () => {
+      receivedEvents = [];
+      ({ unsubscribe } = eventsAPI.subscribe(
+        'SetIssued',
+        event => receivedEvents.push(event),
+        { set: setToken.address, pollingIntervalMs: 100 },
+      ));
+
+      await new Promise(resolve => setTimeout(resolve, 200));
+    });
+
+    afterEach(async () => {
+      unsubscribe();
+    });
+
+    test('delivers issuances made after subscribing', async () => {
+      await core.issue.sendTransactionAsync(setToken.address, ether(2), TX_DEFAULTS);
+      await new Promise(resolve => setTimeout(resolve, 500));
+
+      expect(receivedEvents.length).to.equal(1);
+      expect(receivedEvents[0].quantity).to.bignumber.equal(ether(2));
+    });
+
+    test('delivers nothing after unsubscribing', async () => {
+      unsubscribe();
+
+      await core.issue.sendTransactionAsync(setToken.address, ether(2), TX_DEFAULTS);
+      await new Promise(resolve => setTimeout(resolve, 500));
+
+      expect(receivedEvents).to.be.empty;
+    });
+  });
+});
@@ -46,6 +46,7 @@ import { FactoryAPI } from '@src/api';
 import { BigNumber } from '@src/util';
 import { Assertions } from '@src/assertions';
 import { CoreWrapper } from '@src/wrappers';
+import { ParameterNotPositiveError } from '@src/errors';
 import { ACCOUNTS } from '@src/constants/accounts';
 import { Address } from '@src/types/common';
 import { DEFAULT_ACCOUNT, DEFAULT_UNIT_SHARES, ONE_DAY_IN_SECONDS, TX_DEFAULTS, ZERO } from '@src/constants';
@@ -57,9 +58,14 @@ import {
   deployTokensAsync,
   deployTokensSpecifyingDecimals,
 } from '@test/helpers';
-import { getFormattedLogsFromTxHash, extractNewSetTokenAddressFromLogs } from '@src/util/logs';
+import {
+  extractNewSetTokenAddressFromLogs,
+  findLogByEvent,
+  getFormattedLogsFromTxHash,
+  LogErrors,
+} from '@src/util/logs';
 import { ether } from '@src/util/units';
-import { SetProtocolConfig, SetUnits } from '@src/types/common';
+import { SetProtocolConfig, SetUnits, SetUnitsReport } from '@src/types/common';
 
 ChaiSetup.configure();
 const contract = require('truffle-contract');
@@ -455,15 +461,27 @@ describe('FactoryAPI', () => {
           `Parameter initialUnitShares: ${subjectInitialUnitShares} must be greater than 0.`
         );
       });
+
+      test('throws a ParameterNotPositiveError', async () => {
+        const error = await subject().catch(e => e);
+
+        expect(error).to.be.an.instanceof(ParameterNotPositiveError);
+        expect(error.code).to.equal('PARAMETER_NEEDS_TO_BE_POSITIVE');
+        expect(error.parameter).to.equal('initialUnitShares');
+        expect(error.quantity).to.bignumber.equal(subjectInitialUnitShares);
+      });
     });
   });
 
   describe('getSetAddressFromCreateTxHash', async () => {
     let subjectTxHash: string;
 
+    let componentTokens: StandardTokenMockContract[];
+    let setComponentUnit: BigNumber;
+
     beforeEach(async () => {
-      const componentTokens = await deployTokensAsync(3, web3);
-      const setComponentUnit = ether(4);
+      componentTokens = await deployTokensAsync(3, web3);
+      setComponentUnit = ether(4);
       const naturalUnit = ether(2);
 
       subjectTxHash = await core.createSet.sendTransactionAsync(
@@ -490,6 +508,30 @@ describe('FactoryAPI', () => {
       expect(setAddress).to.equal(expectedSetAddress);
     });
 
+    test('decodes the SetTokenCreated log with BigNumber units and lowercased addresses', async () => {
+      const setAddress = await subject();
+
+      const formattedLogs = await getFormattedLogsFromTxHash(web3, subjectTxHash);
+      const createLog = findLogByEvent(formattedLogs, 'SetTokenCreated');
+      expect(createLog.args._setTokenAddress).to.equal(setAddress);
+      expect(createLog.args._components).to.eql(componentTokens.map(token => token.address.toLowerCase()));
+      expect(createLog.args._units).to.eql(componentTokens.map(() => setComponentUnit));
+    });
+
+    describe('when the transaction did not create a Set', async () => {
+      beforeEach(async () => {
+        subjectTxHash = await componentTokens[0].approve.sendTransactionAsync(
+          ACCOUNTS[0].address,
+          ether(1),
+          TX_DEFAULTS
+        );
+      });
+
+      test('throws', async () => {
+        return expect(subject()).to.be.rejectedWith(LogErrors.MISSING_EVENT_LOG('SetTokenCreated'));
+      });
+    });
+
     describe('when the transaction hash is invalid', async () => {
       beforeEach(async () => {
         subjectTxHash = 'invalidTransactionHash';
@@ -877,4 +919,88 @@ describe('FactoryAPI', () => {
       });
     });
   });
+
+  describe('calculateOptimalSetUnits', async () => {
+    let subjectComponentAddresses: Address[];
+    let subjectDecimals: number[];
+    let subjectComponentPrices: BigNumber[];
+    let subjectComponentAllocations: BigNumber[];
+    let subjectTargetSetPrice: BigNumber;
+    let subjectPercentWeightError: number;
+
+    beforeEach(async () => {
+      const tokenCount = 2;
+      const decimalsList = [18, 8];
+      const components = await deployTokensSpecifyingDecimals(tokenCount, decimalsList, web3);
+
+      subjectComponentAddresses = _.map(components, component => component.address);
+      subjectDecimals = decimalsList;
+      subjectComponentPrices = [new BigNumber(200), new BigNumber(4000)];
+      subjectComponentAllocations = [new BigNumber(0.5), new BigNumber(0.5)];
+      subjectTargetSetPrice = new BigNumber(1);
+      subjectPercentWeightError = undefined;
+    });
+
+    function subject(): SetUnitsReport {
+      return factoryAPI.calculateOptimalSetUnits(
+        subjectComponentAddresses,
+        subjectDecimals,
+        subjectComponentPrices,
+        subjectComponentAllocations,
+        subjectTargetSetPrice,
+        subjectPercentWeightError,
+      );
+    }
+
+    test('should calculate the smallest natural unit within the weight error', async () => {
+      const { units, naturalUnit } = subject();
+
+      const expectedUnits = [new BigNumber('2500000000000'), new BigNumber('13')];
+      expect(JSON.stringify(units)).to.equal(JSON.stringify(expectedUnits));
+      expect(naturalUnit).to.bignumber.equal(new BigNumber(10 ** 15));
+    });
+
+    test('should report the weight error of each component', async () => {
+      const { components, maxWeightDeviation } = subject();
+
+      expect(_.map(components, component => component.address)).to.eql(subjectComponentAddresses);
+      expect(_.map(components, component => component.decimals)).to.eql(subjectDecimals);
+      expect(components[1].realizedWeight).to.bignumber.equal(new BigNumber(0.52).div(1.02));
+      expect(components[1].weightDeviation).to.bignumber.equal(components[1].realizedWeight.sub(0.5));
+      expect(maxWeightDeviation).to.bignumber.equal(components[1].weightDeviation);
+      expect(maxWeightDeviation.lte(0.01)).to.be.true;
+    });
+
+    test('should report the realized price and price error', async () => {
+      const { realizedPrice, percentError } = subject();
+
+      expect(realizedPrice).to.bignumber.equal(new BigNumber(1.02));
+      expect(percentError).to.bignumber.equal(new BigNumber(2));
+    });
+
+    describe('when the allowed weight error is tightened', async () => {
+      beforeEach(async () => {
+        subjectPercentWeightError = 0.1;
+      });
+
+      test('should increase the natural unit until the weights match', async () => {
+        const { units, naturalUnit, maxWeightDeviation } = subject();
+
+        const expectedUnits = [new BigNumber('25000000000000'), new BigNumber('125')];
+        expect(JSON.stringify(units)).to.equal(JSON.stringify(expectedUnits));
+        expect(naturalUnit).to.bignumber.equal(new BigNumber(10 ** 16));
+        expect(maxWeightDeviation).to.bignumber.equal(0);
+      });
+    });
+
+    describe('when the allocation inputs do not sum up to 1', () => {
+      beforeEach(async () => {
+        subjectComponentAllocations = [new BigNumber(0.5), new BigNumber(0.49)];
+      });
+
+      test('it should throw', async () => {
+        expect(() => subject()).to.throw(`The component percentages inputted do not add up to 1`);
+      });
+    });
+  });
 });
@@ -38,8 +38,8 @@ import {
 } from 'set-protocol-contracts';
 
 import ChaiSetup from '@test/helpers/chaiSetup';
-import { IssuanceAPI } from '@src/api';
-import { BigNumber } from '@src/util';
+import { BlockchainAPI, IssuanceAPI } from '@src/api';
+import { BigNumber, CancellationController } from '@src/util';
 import { CoreWrapper } from '@src/wrappers';
 import { DEFAULT_ACCOUNT, ACCOUNTS } from '@src/constants/accounts';
 import { DEPLOYED_TOKEN_QUANTITY, TX_DEFAULTS, ZERO } from '@src/constants';
@@ -52,7 +52,8 @@ import {
 } from '@test/helpers/coreHelpers';
 import { Assertions } from '@src/assertions';
 import { ether } from '@src/util/units';
-import { Component } from '@src/types/common';
+import { CancellationError, coreAPIErrors, IssuancePlanOwnerMismatchError } from '@src/errors';
+import { Component, IssuancePlan, PreflightReport, TransactionMiningOpts } from '@src/types/common';
 
 ChaiSetup.configure();
 const contract = require('truffle-contract');
@@ -111,7 +112,7 @@ describe('IssuanceAPI', () => {
       vault.address,
     );
     const assertions = new Assertions(web3);
-    issuanceAPI = new IssuanceAPI(web3, coreWrapper, assertions);
+    issuanceAPI = new IssuanceAPI(web3, coreWrapper, assertions, new BlockchainAPI(web3, assertions));
 
     componentTokens = await deployTokensAsync(3, web3);
     setComponentUnit = ether(4);
@@ -273,6 +274,89 @@ describe('IssuanceAPI', () => {
     });
   });
 
+  describe('preflightIssueAsync', async () => {
+    let subjectSetToIssue: Address;
+    let subjectQuantitytoIssue: BigNumber;
+    let subjectCaller: Address;
+
+    beforeEach(async () => {
+      subjectSetToIssue = setToken.address;
+      subjectQuantitytoIssue = ether(2);
+      subjectCaller = DEFAULT_ACCOUNT;
+    });
+
+    async function subject(): Promise<PreflightReport> {
+      return await issuanceAPI.preflightIssueAsync(
+        subjectSetToIssue,
+        subjectQuantitytoIssue,
+        { from: subjectCaller }
+      );
+    }
+
+    test('reports that every check passed', async () => {
+      const report = await subject();
+
+      expect(report.passed).to.be.true;
+      expect(report.failures).to.be.empty;
+    });
+
+    describe('when the caller has no balance or allowance of any component', async () => {
+      beforeEach(async () => {
+        subjectCaller = ACCOUNTS[1].address;
+      });
+
+      test('reports a balance and an allowance failure for every component', async () => {
+        const report = await subject();
+
+        const failedChecks = _.map(report.failures, failure => failure.check);
+        const expectedFailedChecks = _.flatMap(componentTokens, () => ['sufficientBalance', 'sufficientAllowance']);
+        expect(report.passed).to.be.false;
+        expect(failedChecks).to.eql(expectedFailedChecks);
+      });
+
+      test('reports the failures as errors with codes and suggested fixes', async () => {
+        const report = await subject();
+
+        const [balanceFailure, allowanceFailure] = report.failures;
+        expect(balanceFailure.severity).to.equal('error');
+        expect(balanceFailure.code).to.equal('INSUFFICIENT_BALANCE');
+        expect(balanceFailure.details).to.contain(componentTokens[0].address);
+        expect(balanceFailure.suggestedFix).to.contain(componentTokens[0].address);
+        expect(allowanceFailure.code).to.equal('INSUFFICIENT_ALLOWANCE');
+        expect(allowanceFailure.suggestedFix).to.contain(transferProxy.address);
+      });
+    });
+
+    describe('when the quantity is not a multiple of the natural unit', async () => {
+      beforeEach(async () => {
+        subjectQuantitytoIssue = ether(3);
+      });
+
+      test('reports the natural unit failure with a valid quantity to use', async () => {
+        const report = await subject();
+
+        const [failure] = report.failures;
+        expect(failure.check).to.equal('multipleOfNaturalUnit');
+        expect(failure.code).to.equal('QUANTITY_NEEDS_TO_BE_MULTIPLE_OF_NATURAL_UNIT');
+        expect(failure.suggestedFix).to.contain(naturalUnit.toString());
+      });
+    });
+
+    describe('when the set address is invalid', async () => {
+      beforeEach(async () => {
+        subjectSetToIssue = 'invalidSetAddress';
+      });
+
+      test('reports only the invalid address', async () => {
+        const report = await subject();
+
+        expect(report.failures).to.have.lengthOf(1);
+        expect(report.failures[0].check).to.equal('validSetAddress');
+        expect(report.failures[0].code).to.equal('DOES_NOT_CONFORM_TO_SCHEMA');
+      });
+    });
+  });
+
   describe('redeemAsync', async () => {
     let subjectSetToRedeem: Address;
     let subjectQuantityToRedeem: BigNumber;
@@ -453,6 +537,177 @@ describe('IssuanceAPI', () => {
     });
   });
 
+  describe('planIssuanceAsync', async () => {
+    let subjectSetAddress: Address;
+    let subjectQuantity: BigNumber;
+    let subjectOwner: Address;
+    let subjectDepositToVault: boolean;
+
+    beforeEach(async () => {
+      await componentTokens[0].approve.sendTransactionAsync(transferProxy.address, ZERO, TX_DEFAULTS);
+      await coreWrapper.deposit(componentTokens[1].address, ether(4), TX_DEFAULTS);
+
+      subjectSetAddress = setToken.address;
+      subjectQuantity = ether(2);
+      subjectOwner = DEFAULT_ACCOUNT;
+      subjectDepositToVault = false;
+    });
+
+    async function subject(): Promise<IssuancePlan> {
+      return await issuanceAPI.planIssuanceAsync(
+        subjectSetAddress,
+        subjectQuantity,
+        subjectOwner,
+        subjectDepositToVault,
+      );
+    }
+
+    test('approves only the components whose allowance is too low', async () => {
+      const plan = await subject();
+
+      expect(plan.steps.map(step => step.type)).to.eql(['approve', 'issue']);
+      expect(plan.steps[0].tokenAddresses).to.eql([componentTokens[0].address]);
+      expect(plan.steps[0].quantities[0]).to.bignumber.equal(ether(4));
+    });
+
+    test('ends with the issue of the Set', async () => {
+      const plan = await subject();
+
+      const issueStep = _.last(plan.steps);
+      expect(issueStep.tokenAddresses).to.eql([setToken.address]);
+      expect(issueStep.quantities[0]).to.bignumber.equal(subjectQuantity);
+      expect(_.every(plan.steps, step => !step.completed && !step.txHash)).to.be.true;
+    });
+
+    describe('when depositing to the vault', async () => {
+      beforeEach(async () => {
+        subjectDepositToVault = true;
+      });
+
+      test('deposits the components not already in the vault in one batch', async () => {
+        const plan = await subject();
+
+        expect(plan.steps.map(step => step.type)).to.eql(['approve', 'deposit', 'issue']);
+        expect(plan.steps[1].tokenAddresses).to.eql([componentTokens[0].address, componentTokens[2].address]);
+        expect(JSON.stringify(plan.steps[1].quantities)).to.equal(JSON.stringify([ether(4), ether(4)]));
+      });
+    });
+
+    describe('when the owner does not have enough of a component', async () => {
+      beforeEach(async () => {
+        subjectOwner = ACCOUNTS[1].address;
+      });
+
+      test('throws', async () => {
+        return expect(subject()).to.be.rejectedWith(`User: ${subjectOwner} has balance of 0`);
+      });
+    });
+
+    describe('when the quantity is not a multiple of the natural unit', async () => {
+      beforeEach(async () => {
+        subjectQuantity = ether(3);
+      });
+
+      test('throws', async () => {
+        return expect(subject()).to.be.rejectedWith('Issuance quantity needs to be multiple of natural unit.');
+      });
+    });
+  });
+
+  describe('executePlanAsync', async () => {
+    let subjectPlan: IssuancePlan;
+    let subjectCaller: Address;
+    let subjectMiningOpts: TransactionMiningOpts;
+
+    beforeEach(async () => {
+      await componentTokens[0].approve.sendTransactionAsync(transferProxy.address, ZERO, TX_DEFAULTS);
+      await coreWrapper.deposit(componentTokens[1].address, ether(4), TX_DEFAULTS);
+
+      subjectPlan = await issuanceAPI.planIssuanceAsync(setToken.address, ether(2), DEFAULT_ACCOUNT, true);
+      subjectCaller = DEFAULT_ACCOUNT;
+      subjectMiningOpts = undefined;
+    });
+
+    async function subject(): Promise<IssuancePlan> {
+      return await issuanceAPI.executePlanAsync(subjectPlan, { from: subjectCaller }, subjectMiningOpts);
+    }
+
+    test('issues the Set to the owner', async () => {
+      const existingSetUserBalance = await setToken.balanceOf.callAsync(DEFAULT_ACCOUNT);
+
+      await subject();
+
+      const expectedSetUserBalance = existingSetUserBalance.add(ether(2));
+      const newSetUserBalance = await setToken.balanceOf.callAsync(DEFAULT_ACCOUNT);
+      expect(newSetUserBalance).to.bignumber.equal(expectedSetUserBalance);
+    });
+
+    test('records the transaction hash of every completed step', async () => {
+      const plan = await subject();
+
+      expect(_.every(plan.steps, step => step.completed && !!step.txHash)).to.be.true;
+    });
+
+    describe('when the plan is resumed after its first step', async () => {
+      beforeEach(async () => {
+        await componentTokens[0].approve.sendTransactionAsync(transferProxy.address, ether(4), TX_DEFAULTS);
+        subjectPlan.steps[0].completed = true;
+      });
+
+      test('runs only the remaining steps', async () => {
+        const existingSetUserBalance = await setToken.balanceOf.callAsync(DEFAULT_ACCOUNT);
+
+        const plan = await subject();
+
+        const newSetUserBalance = await setToken.balanceOf.callAsync(DEFAULT_ACCOUNT);
+        expect(newSetUserBalance).to.bignumber.equal(existingSetUserBalance.add(ether(2)));
+        expect(plan.steps[0].txHash).to.be.undefined;
+        expect(_.every(plan.steps.slice(1), step => step.completed && !!step.txHash)).to.be.true;
+      });
+    });
+
+    describe('when the signer is not the owner of the plan', async () => {
+      beforeEach(async () => {
+        subjectCaller = ACCOUNTS[1].address;
+      });
+
+      test('throws', async () => {
+        return expect(subject()).to.be.rejectedWith(
+          coreAPIErrors.ISSUANCE_PLAN_OWNER_MISMATCH(DEFAULT_ACCOUNT, subjectCaller)
+        );
+      });
+
+      test('throws an IssuancePlanOwnerMismatchError with both addresses', async () => {
+        const error = await subject().catch(e => e);
+
+        expect(error).to.be.an.instanceof(IssuancePlanOwnerMismatchError);
+        expect(error.code).to.equal('ISSUANCE_PLAN_OWNER_MISMATCH');
+        expect(error.ownerAddress).to.equal(DEFAULT_ACCOUNT);
+        expect(error.senderAddress).to.equal(subjectCaller);
+      });
+    });
+
+    describe('when the wait for a step is cancelled', async () => {
+      beforeEach(async () => {
+        const cancellationController = new CancellationController();
+        cancellationController.abort();
+
+        subjectMiningOpts = { signal: cancellationController.signal };
+      });
+
+      test('rejects with a CancellationError', async () => {
+        return expect(subject()).to.be.rejectedWith(CancellationError);
+      });
+
+      test('keeps the transaction hash of the step so the plan can be resumed', async () => {
+        await subject().catch(() => undefined);
+
+        expect(subjectPlan.steps[0].txHash).to.not.be.undefined;
+        expect(subjectPlan.steps[0].completed).to.be.false;
+      });
+    });
+  });
+
 describe('calculateRequiredComponentsAndUnitsAsync', async () => {
     let setComponents: StandardTokenMockContract[];
     let componentUnits: BigNumber[];
@@ -54,7 +54,7 @@ import {
   UNLIMITED_ALLOWANCE_IN_BASE_UNITS,
 } from '@src/constants';
 import { ACCOUNTS } from '@src/constants/accounts';
-import { BigNumber, ether } from '@src/util';
+import { BigNumber, ether, StaticPriceSource } from '@src/util';
 import { Assertions } from '@src/assertions';
 import ChaiSetup from '@test/helpers/chaiSetup';
 import {
@@ -79,9 +79,13 @@ import {
 import {
   Address,
   BidPlacedEvent,
+  RebalanceLifecycleEvent,
+  RebalanceSettledEvent,
   RebalancingProgressDetails,
   RebalancingProposalDetails,
+  RebalancingSetComposition,
   RebalancingSetDetails,
+  RebalancingSetShareValue,
   SetProtocolConfig,
   TokenFlowsDetails,
 } from '@src/types/common';
@@ -2012,6 +2016,236 @@ describe('RebalancingAPI', () => {
     });
   });
 
+  describe('getRebalanceLifecycleEventsAsync', async () => {
+    let currentSetToken: SetTokenContract;
+    let nextSetToken: SetTokenContract;
+    let rebalancingSetToken: RebalancingSetTokenContract;
+
+    let settleTxnHash: string;
+
+    let subjectFromBlock: number;
+    let subjectRebalancingSetToken: Address;
+
+    beforeEach(async () => {
+      [currentSetToken, nextSetToken] = await deploySetTokensAsync(
+        web3,
+        core,
+        setTokenFactory.address,
+        transferProxy.address,
+        2,
+      );
+
+      // Approve proposed Set's components to the whitelist;
+      const [proposalComponentOne, proposalComponentTwo] = await nextSetToken.getComponents.callAsync();
+      await addWhiteListedTokenAsync(whitelist, proposalComponentOne);
+      await addWhiteListedTokenAsync(whitelist, proposalComponentTwo);
+
+      const managerAddress = ACCOUNTS[1].address;
+      rebalancingSetToken = await createDefaultRebalancingSetTokenAsync(
+        web3,
+        core,
+        rebalancingSetTokenFactory.address,
+        managerAddress,
+        currentSetToken.address,
+        ONE_DAY_IN_SECONDS
+      );
+
+      // Issue currentSetToken and use it to issue rebalancingSetToken
+      await core.issue.sendTransactionAsync(currentSetToken.address, ether(9), TX_DEFAULTS);
+      await approveForTransferAsync([currentSetToken], transferProxy.address);
+      const rebalancingSetQuantityToIssue = ether(7);
+      await core.issue.sendTransactionAsync(rebalancingSetToken.address, rebalancingSetQuantityToIssue);
+
+      const priceCurve = await deployConstantAuctionPriceCurveAsync(
+        web3,
+        DEFAULT_AUCTION_PRICE_NUMERATOR,
+        DEFAULT_AUCTION_PRICE_DENOMINATOR
+      );
+      await addPriceCurveToCoreAsync(core, priceCurve.address);
+
+      subjectFromBlock = await web3.eth.getBlockNumber();
+
+      await transitionToRebalanceAsync(
+        web3,
+        rebalancingSetToken,
+        managerAddress,
+        nextSetToken.address,
+        priceCurve.address,
+      );
+      await rebalanceAuctionModule.bid.sendTransactionAsync(
+        rebalancingSetToken.address,
+        rebalancingSetQuantityToIssue,
+        false,
+      );
+      settleTxnHash = await rebalancingSetToken.settleRebalance.sendTransactionAsync(TX_DEFAULTS);
+
+      subjectRebalancingSetToken = rebalancingSetToken.address;
+    });
+
+    async function subject(): Promise<RebalanceLifecycleEvent[]> {
+      return await rebalancingAPI.getRebalanceLifecycleEventsAsync({
+        fromBlock: subjectFromBlock,
+        rebalancingSetToken: subjectRebalancingSetToken,
+      });
+    }
+
+    test('returns each step of the rebalance in order', async () => {
+      const events = await subject();
+
+      const eventTypes = events.map(event => event.type);
+      expect(eventTypes).to.eql(['RebalanceProposed', 'RebalanceStarted', 'BidPlaced', 'RebalanceSettled']);
+    });
+
+    test('derives the settlement from the change in state', async () => {
+      const events = await subject();
+
+      const settledEvent = _.last(events) as RebalanceSettledEvent;
+      const settleTransaction = await web3.eth.getTransaction(settleTxnHash);
+      expect(settledEvent.transactionHash).to.equal(settleTxnHash);
+      expect(settledEvent.blockNumber).to.equal(settleTransaction.blockNumber);
+      expect(settledEvent.currentSet).to.equal(nextSetToken.address);
+    });
+
+    test('includes the timestamp of the block of each event', async () => {
+      const events = await subject();
+
+      const blocks = await Promise.all(events.map(event => web3.eth.getBlock(event.blockNumber)));
+      expect(events.map(event => event.timestamp)).to.eql(blocks.map(block => Number(block.timestamp)));
+    });
+
+    describe('when no Rebalancing Set is given', async () => {
+      beforeEach(async () => {
+        subjectRebalancingSetToken = undefined;
+      });
+
+      test('returns the events of every Rebalancing Set', async () => {
+        const events = await subject();
+
+        const eventTypes = events.map(event => event.type);
+        expect(eventTypes).to.eql(['RebalanceProposed', 'RebalanceStarted', 'BidPlaced', 'RebalanceSettled']);
+      });
+    });
+  });
+
+  describe('subscribeToRebalanceLifecycle', async () => {
+    let currentSetToken: SetTokenContract;
+    let nextSetToken: SetTokenContract;
+    let rebalancingSetToken: RebalancingSetTokenContract;
+    let priceCurve: ConstantAuctionPriceCurveContract;
+    let managerAddress: Address;
+    let rebalancingSetQuantityToIssue: BigNumber;
+
+    let receivedEvents: RebalanceLifecycleEvent[];
+    let unsubscribe: () => void;
+
+    let subjectRebalancingSetToken: Address;
+
+    beforeEach(async () => {
+      [currentSetToken, nextSetToken] = await deploySetTokensAsync(
+        web3,
+        core,
+        setTokenFactory.address,
+        transferProxy.address,
+        2,
+      );
+
+      // Approve proposed Set's components to the whitelist;
+      const [proposalComponentOne, proposalComponentTwo] = await nextSetToken.getComponents.callAsync();
+      await addWhiteListedTokenAsync(whitelist, proposalComponentOne);
+      await addWhiteListedTokenAsync(whitelist, proposalComponentTwo);
+
+      managerAddress = ACCOUNTS[1].address;
+      rebalancingSetToken = await createDefaultRebalancingSetTokenAsync(
+        web3,
+        core,
+        rebalancingSetTokenFactory.address,
+        managerAddress,
+        currentSetToken.address,
+        ONE_DAY_IN_SECONDS
+      );
+
+      // Issue currentSetToken and use it to issue rebalancingSetToken
+      await core.issue.sendTransactionAsync(currentSetToken.address, ether(9), TX_DEFAULTS);
+      await approveForTransferAsync([currentSetToken], transferProxy.address);
+      rebalancingSetQuantityToIssue = ether(7);
+      await core.issue.sendTransactionAsync(rebalancingSetToken.address, rebalancingSetQuantityToIssue);
+
+      priceCurve = await deployConstantAuctionPriceCurveAsync(
+        web3,
+        DEFAULT_AUCTION_PRICE_NUMERATOR,
+        DEFAULT_AUCTION_PRICE_DENOMINATOR
+      );
+      await addPriceCurveToCoreAsync(core, priceCurve.address);
+
+      receivedEvents = [];
+      subjectRebalancingSetToken = rebalancingSetToken.address;
+    });
+
+    afterEach(async () => {
+      unsubscribe();
+    });
+
+    async function subject(): Promise<void> {
+      ({ unsubscribe } = rebalancingAPI.subscribeToRebalanceLifecycle(
+        event => receivedEvents.push(event),
+        { rebalancingSetToken: subjectRebalancingSetToken, pollingIntervalMs: 100 },
+      ));
+
+      await new Promise(resolve => setTimeout(resolve, 200));
+    }
+
+    async function rebalanceAsync(): Promise<void> {
+      await transitionToRebalanceAsync(
+        web3,
+        rebalancingSetToken,
+        managerAddress,
+        nextSetToken.address,
+        priceCurve.address,
+      );
+      await rebalanceAuctionModule.bid.sendTransactionAsync(
+        rebalancingSetToken.address,
+        rebalancingSetQuantityToIssue,
+        false,
+      );
+      await rebalancingSetToken.settleRebalance.sendTransactionAsync(TX_DEFAULTS);
+
+      await new Promise(resolve => setTimeout(resolve, 500));
+    }
+
+    test('delivers each step of a rebalance made after subscribing', async () => {
+      await subject();
+      await rebalanceAsync();
+
+      const eventTypes = receivedEvents.map(event => event.type);
+      expect(eventTypes).to.eql(['RebalanceProposed', 'RebalanceStarted', 'BidPlaced', 'RebalanceSettled']);
+    });
+
+    test('delivers nothing after unsubscribing', async () => {
+      await subject();
+      unsubscribe();
+
+      await rebalanceAsync();
+
+      expect(receivedEvents).to.be.empty;
+    });
+
+    describe('when no Rebalancing Set is given', async () => {
+      beforeEach(async () => {
+        subjectRebalancingSetToken = undefined;
+      });
+
+      test('follows the Rebalancing Set from its proposal until it settles', async () => {
+        await subject();
+        await rebalanceAsync();
+
+        const eventTypes = receivedEvents.map(event => event.type);
+        expect(eventTypes).to.eql(['RebalanceProposed', 'RebalanceStarted', 'BidPlaced', 'RebalanceSettled']);
+        const eventSets = _.uniq(receivedEvents.map(event => event.rebalancingSetToken.toLowerCase()));
+        expect(eventSets).to.eql([rebalancingSetToken.address.toLowerCase()]);
+      });
+    });
+  });
+
   describe('getDetailsAsync', async () => {
     let currentSetToken: SetTokenContract;
     let rebalancingSetToken: RebalancingSetTokenContract;
@@ -2487,4 +2721,181 @@ describe('RebalancingAPI', () => {
       });
     });
   });
+
+  describe('getUnderlyingCompositionAsync', async () => {
+    let currentSetToken: SetTokenContract;
+    let nextSetToken: SetTokenContract;
+    let rebalancingSetToken: RebalancingSetTokenContract;
+    let managerAddress: Address;
+    let priceCurve: ConstantAuctionPriceCurveContract;
+    let rebalancingSetQuantityToIssue: BigNumber;
+
+    let subjectRebalancingSetTokenAddress: Address;
+
+    beforeEach(async () => {
+      [currentSetToken, nextSetToken] = await deploySetTokensAsync(
+        web3,
+        core,
+        setTokenFactory.address,
+        transferProxy.address,
+        2,
+      );
+
+      const [proposalComponentOne, proposalComponentTwo] = await nextSetToken.getComponents.callAsync();
+      await addWhiteListedTokenAsync(whitelist, proposalComponentOne);
+      await addWhiteListedTokenAsync(whitelist, proposalComponentTwo);
+
+      managerAddress = ACCOUNTS[1].address;
+      rebalancingSetToken = await createDefaultRebalancingSetTokenAsync(
+        web3,
+        core,
+        rebalancingSetTokenFactory.address,
+        managerAddress,
+        currentSetToken.address,
+        ONE_DAY_IN_SECONDS,
+      );
+
+      await core.issue.sendTransactionAsync(currentSetToken.address, ether(7), TX_DEFAULTS);
+      await approveForTransferAsync([currentSetToken], transferProxy.address);
+
+      rebalancingSetQuantityToIssue = ether(7);
+      await core.issue.sendTransactionAsync(rebalancingSetToken.address, rebalancingSetQuantityToIssue);
+
+      priceCurve = await deployConstantAuctionPriceCurveAsync(
+        web3,
+        DEFAULT_AUCTION_PRICE_NUMERATOR,
+        DEFAULT_AUCTION_PRICE_DENOMINATOR
+      );
+      await addPriceCurveToCoreAsync(core, priceCurve.address);
+
+      subjectRebalancingSetTokenAddress = rebalancingSetToken.address;
+    });
+
+    async function subject(): Promise<RebalancingSetComposition> {
+      return await rebalancingAPI.getUnderlyingCompositionAsync(subjectRebalancingSetTokenAddress);
+    }
+
+    test('resolves a full token down to the components of the current Set', async () => {
+      const composition = await subject();
+
+      const unitShares = await rebalancingSetToken.unitShares.callAsync();
+      const naturalUnit = await rebalancingSetToken.naturalUnit.callAsync();
+      const expectedCurrentSetQuantity = unitShares.mul(ether(1)).div(naturalUnit).round(0, 3);
+      expect(composition.state).to.equal('Default');
+      expect(composition.currentSetQuantity).to.bignumber.equal(expectedCurrentSetQuantity);
+      expect(composition.auction).to.be.undefined;
+
+      const components = await currentSetToken.getComponents.callAsync();
+      const units = await currentSetToken.getUnits.callAsync();
+      const currentSetNaturalUnit = await currentSetToken.naturalUnit.callAsync();
+      expect(composition.components.map(component => component.address)).to.eql(components);
+      composition.components.forEach((component, index) => {
+        const expectedQuantity = units[index].mul(expectedCurrentSetQuantity).div(currentSetNaturalUnit).round(0, 3);
+        expect(component.quantity).to.bignumber.equal(expectedQuantity);
+      });
+    });
+
+    describe('when the Rebalancing Set Token is in Rebalance state', async () => {
+      beforeEach(async () => {
+        await transitionToRebalanceAsync(
+          web3,
+          rebalancingSetToken,
+          managerAddress,
+          nextSetToken.address,
+          priceCurve.address,
+        );
+      });
+
+      test('resolves a full token down to the combined tokens held by the Rebalancing Set', async () => {
+        const composition = await subject();
+
+        const combinedTokenArray = await rebalancingSetToken.getCombinedTokenArray.callAsync();
+        const [, remainingCurrentSets] = await rebalancingSetToken.getBiddingParameters.callAsync();
+        expect(composition.state).to.equal('Rebalance');
+        expect(composition.auction.nextSetAddress).to.equal(nextSetToken.address);
+        expect(composition.auction.remainingCurrentSets).to.bignumber.equal(remainingCurrentSets);
+        expect(composition.components.map(component => component.address)).to.eql(combinedTokenArray);
+
+        const vaultBalances = await getVaultBalances(vault, combinedTokenArray, rebalancingSetToken.address);
+        const expectedQuantities = vaultBalances.map(balance =>
+          balance.mul(ether(1)).div(rebalancingSetQuantityToIssue).round(0, 3)
+        );
+        expect(composition.components.map(component => component.quantity)).to.eql(expectedQuantities);
+      });
+
+      describe('and a bid has been placed', async () => {
+        beforeEach(async () => {
+          const [, remainingCurrentSets] = await rebalancingSetToken.getBiddingParameters.callAsync();
+
+          await rebalanceAuctionModule.bid.sendTransactionAsync(
+            rebalancingSetToken.address,
+            remainingCurrentSets,
+            false,
+          );
+        });
+
+        test('resolves a full token down to the tokens held after the bid', async () => {
+          const composition = await subject();
+
+          const combinedTokenArray = await rebalancingSetToken.getCombinedTokenArray.callAsync();
+          const vaultBalances = await getVaultBalances(vault, combinedTokenArray, rebalancingSetToken.address);
+          const expectedQuantities = vaultBalances.map(balance =>
+            balance.mul(ether(1)).div(rebalancingSetQuantityToIssue).round(0, 3)
+          );
+          expect(composition.auction.remainingCurrentSets).to.bignumber.equal(0);
+          expect(composition.components.map(component => component.quantity)).to.eql(expectedQuantities);
+        });
+      });
+    });
+  });
+
+  describe('getPerShareValueAsync', async () => {
+    let currentSetToken: SetTokenContract;
+    let rebalancingSetToken: RebalancingSetTokenContract;
+    let componentPrices: BigNumber[];
+
+    let subjectRebalancingSetTokenAddress: Address;
+    let subjectPriceSource: StaticPriceSource;
+
+    beforeEach(async () => {
+      [currentSetToken] = await deploySetTokensAsync(
+        web3,
+        core,
+        setTokenFactory.address,
+        transferProxy.address,
+        1,
+      );
+
+      rebalancingSetToken = await createDefaultRebalancingSetTokenAsync(
+        web3,
+        core,
+        rebalancingSetTokenFactory.address,
+        ACCOUNTS[1].address,
+        currentSetToken.address,
+        ONE_DAY_IN_SECONDS,
+      );
+
+      const components = await currentSetToken.getComponents.callAsync();
+      componentPrices = components.map((component, index) => new BigNumber(100 * (index + 1)));
+
+      subjectRebalancingSetTokenAddress = rebalancingSetToken.address;
+      subjectPriceSource = new StaticPriceSource(_.zipObject(components, componentPrices));
+    });
+
+    async function subject(): Promise<RebalancingSetShareValue> {
+      return await rebalancingAPI.getPerShareValueAsync(subjectRebalancingSetTokenAddress, subjectPriceSource);
+    }
+
+    test('values a full token from the prices of the underlying components', async () => {
+      const shareValue = await subject();
+
+      const composition = await rebalancingAPI.getUnderlyingCompositionAsync(subjectRebalancingSetTokenAddress);
+      const expectedValue = composition.components.reduce(
+        (sum, component, index) => sum.add(component.quantity.mul(componentPrices[index]).div(ether(1))),
+        new BigNumber(0),
+      );
+      expect(shareValue.valuePerToken).to.bignumber.equal(expectedValue);
+      expect(shareValue.components.map(component => component.price)).to.eql(componentPrices);
+    });
+  });
 });
@@ -98,6 +98,13 @@ import {
 } from '@test/helpers';
 import { BigNumber } from '@src/util';
 import { Address, ManagerType } from '@src/types/common';
+import {
+  AllocationWithinBoundsError,
+  CrossoverConfirmationOutsidePeriodError,
+  CrossoverConfirmationPendingError,
+  CrossoverTriggerNotMetError,
+  UnknownManagerTypeError,
+} from '@src/errors';
 import {
   BTCDAIRebalancingManagerWrapper,
   BTCETHRebalancingManagerWrapper,
@@ -416,6 +423,17 @@ describe('RebalancingManagerAPI', () => {
             `${maximumLowerThreshold.toString()} and ${minimumUpperThreshold.toString()}.`
           );
         });
+
+        test('throws an AllocationWithinBoundsError with the allocation details', async () => {
+          const error = await subject().catch(e => e);
+
+          expect(error).to.be.an.instanceof(AllocationWithinBoundsError);
+          expect(error.code).to.equal('ALLOCATION_WITHIN_BOUNDS');
+          expect(error.asset).to.equal('BTC');
+          expect(error.allocation).to.bignumber.equal(49);
+          expect(error.lowerBound).to.bignumber.equal(maximumLowerThreshold);
+          expect(error.upperBound).to.bignumber.equal(minimumUpperThreshold);
+        });
       });
 
       describe('when the RebalancingSet is not in Default state', async () => {
@@ -476,6 +494,14 @@ describe('RebalancingManagerAPI', () => {
             `Passed manager type is not recognized.`
           );
         });
+
+        test('throws an UnknownManagerTypeError', async () => {
+          const error = await subject().catch(e => e);
+
+          expect(error).to.be.an.instanceof(UnknownManagerTypeError);
+          expect(error.code).to.equal('UNKNOWN_MANAGER_TYPE');
+          expect(error.managerType).to.bignumber.equal(subjectManagerType);
+        });
       });
     });
   });
@@ -748,6 +774,36 @@ describe('RebalancingManagerAPI', () => {
         });
       });
 
+      describe('when less than 12 hours has elapsed since the last Proposal timestamp', async () => {
+        beforeEach(async () => {
+          // Elapse the rebalance interval
+          await increaseChainTimeAsync(web3, ONE_DAY_IN_SECONDS);
+
+          await updateMedianizerPriceAsync(
+            web3,
+            ethMedianizer,
+            initialMedianizerEthPrice.div(10),
+            SetTestUtils.generateTimestamp(1000),
+          );
+
+          // Call initialPropose to set the timestamp
+          await macoManagerWrapper.initialPropose(subjectManagerAddress);
+
+          // Freeze the time at 1 hour after the last Proposal timestamp
+          const lastCrossoverConfirmationTimestamp =
+            await macoManager.lastCrossoverConfirmationTimestamp.callAsync(macoManager);
+          timeKeeper.freeze(lastCrossoverConfirmationTimestamp.plus(ONE_HOUR_IN_SECONDS).toNumber() * 1000);
+        });
+
+        test('throws a CrossoverConfirmationPendingError', async () => {
+          const error = await subject().catch(e => e);
+
+          expect(error).to.be.an.instanceof(CrossoverConfirmationPendingError);
+          expect(error.code).to.equal('CROSSOVER_CONFIRMATION_PENDING');
+          expect(error.message).to.equal('Less than max confirm time has elapsed since the last proposal timestamp');
+        });
+      });
+
       describe('when the RebalancingSet is not in Default state', async () => {
         beforeEach(async () => {
           // Elapse the rebalance interval
@@ -829,6 +885,16 @@ describe('RebalancingManagerAPI', () => {
             `Current Price ${currentPrice.toString()} must be less than Moving Average ${movingAverage.toString()}`
           );
         });
+
+        test('throws a CrossoverTriggerNotMetError with the prices', async () => {
+          const movingAverage = new BigNumber(await movingAverageOracle.read.callAsync(movingAverageDays));
+          const error = await subject().catch(e => e);
+
+          expect(error).to.be.an.instanceof(CrossoverTriggerNotMetError);
+          expect(error.code).to.equal('CROSSOVER_TRIGGER_NOT_MET');
+          expect(error.currentPrice).to.bignumber.equal(currentPrice);
+          expect(error.movingAverage).to.bignumber.equal(movingAverage);
+        });
       });
 
       describe('when no MA crossover when rebalancing Set is stable collateral', async () => {
@@ -1006,6 +1072,13 @@ describe('RebalancingManagerAPI', () => {
             `Confirm Crossover Propose is not called in the confirmation period since last proposal timestamp`
           );
         });
+
+        test('throws a CrossoverConfirmationOutsidePeriodError', async () => {
+          const error = await subject().catch(e => e);
+
+          expect(error).to.be.an.instanceof(CrossoverConfirmationOutsidePeriodError);
+          expect(error.code).to.equal('CROSSOVER_CONFIRMATION_OUTSIDE_PERIOD');
+        });
       });
 
       describe('when 6 hours has not elapsed since the lastCrossoverConfirmationTimestamp', async () => {
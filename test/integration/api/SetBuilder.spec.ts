@@ -0,0 +1,182 @@
+/*
+  Copyright 2018 Set Labs Inc.
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+  http://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+*/
+
+'use strict';
+
+// Given that this is an integration test, we unmock the Set Protocol
+// smart contracts artifacts package to pull the most recently
+// deployed contracts on the current network.
+jest.unmock('set-protocol-contracts');
+jest.setTimeout(30000);
+
+import * as _ from 'lodash';
+import * as chai from 'chai';
+import Web3 from 'web3';
+import {
+  CoreContract,
+  SetTokenFactoryContract,
+  StandardTokenMockContract,
+  TransferProxyContract,
+  VaultContract
+} from 'set-protocol-contracts';
+import { Web3Utils } from 'set-protocol-utils';
+
+import ChaiSetup from '@test/helpers/chaiSetup';
+import { BlockchainAPI, FactoryAPI, SetBuilder, SetTokenAPI } from '@src/api';
+import { BigNumber, CancellationController } from '@src/util';
+import { Assertions } from '@src/assertions';
+import { CoreWrapper } from '@src/wrappers';
+import { TX_DEFAULTS } from '@src/constants';
+import { CancellationError } from '@src/errors';
+import { deployBaseContracts, deployTokensSpecifyingDecimals } from '@test/helpers';
+import {
+  SetBuilderComponent,
+  SetBuildPlan,
+  SetBuildResult,
+  SetProtocolConfig,
+  TransactionMiningOpts,
+} from '@src/types/common';
+
+ChaiSetup.configure();
+const web3 = new Web3('http://localhost:8545');
+const web3Utils = new Web3Utils(web3);
+const { expect } = chai;
+
+let currentSnapshotId: number;
+
+describe('SetBuilder', () => {
+  let transferProxy: TransferProxyContract;
+  let vault: VaultContract;
+  let core: CoreContract;
+  let setTokenFactory: SetTokenFactoryContract;
+
+  let setBuilder: SetBuilder;
+
+  let componentTokens: StandardTokenMockContract[];
+  let subjectComponents: SetBuilderComponent[];
+  let subjectTargetPrice: BigNumber;
+
+  beforeEach(async () => {
+    currentSnapshotId = await web3Utils.saveTestSnapshot();
+
+    [core, transferProxy, vault, setTokenFactory] = await deployBaseContracts(web3);
+
+    const config = {
+      coreAddress: core.address,
+      transferProxyAddress: transferProxy.address,
+      vaultAddress: vault.address,
+      setTokenFactoryAddress: setTokenFactory.address,
+    } as SetProtocolConfig;
+    const coreWrapper = new CoreWrapper(web3, core.address, transferProxy.address, vault.address);
+    const assertions = new Assertions(web3);
+
+    setBuilder = new SetBuilder(
+      web3,
+      new FactoryAPI(web3, coreWrapper, assertions, config),
+      new BlockchainAPI(web3, assertions),
+      new SetTokenAPI(web3, assertions),
+    );
+
+    componentTokens = await deployTokensSpecifyingDecimals(2, [18, 18], web3);
+    subjectComponents = _.map(componentTokens, token => ({
+      address: token.address,
+      weight: new BigNumber(0.5),
+      price: new BigNumber(2),
+    }));
+    subjectTargetPrice = new BigNumber(10);
+  });
+
+  afterEach(async () => {
+    await web3Utils.revertToSnapshot(currentSnapshotId);
+  });
+
+  describe('planAsync', async () => {
+    async function subject(): Promise<SetBuildPlan> {
+      return await setBuilder.planAsync(subjectComponents, subjectTargetPrice);
+    }
+
+    test('calculates the units and natural unit', async () => {
+      const plan = await subject();
+
+      expect(plan.components).to.eql(componentTokens.map(token => token.address));
+      expect(JSON.stringify(plan.units)).to.equal(JSON.stringify([new BigNumber(25), new BigNumber(25)]));
+      expect(plan.naturalUnit).to.bignumber.equal(10);
+    });
+
+    test('reports the realized weights and price error', async () => {
+      const plan = await subject();
+
+      expect(JSON.stringify(plan.realizedWeights)).to.equal(JSON.stringify([new BigNumber(0.5), new BigNumber(0.5)]));
+      expect(plan.realizedPrice).to.bignumber.equal(subjectTargetPrice);
+      expect(plan.percentError).to.bignumber.equal(0);
+    });
+  });
+
+  describe('buildAsync', async () => {
+    let subjectMiningOpts: TransactionMiningOpts;
+
+    beforeEach(async () => {
+      subjectMiningOpts = undefined;
+    });
+
+    async function subject(): Promise<SetBuildResult> {
+      return await setBuilder.buildAsync(
+        subjectComponents,
+        subjectTargetPrice,
+        'Built Set',
+        'BUILT',
+        TX_DEFAULTS,
+        undefined,
+        subjectMiningOpts,
+      );
+    }
+
+    test('creates the Set with the planned units', async () => {
+      const { plan, details } = await subject();
+
+      expect(details.name).to.equal('Built Set');
+      expect(details.symbol).to.equal('BUILT');
+      expect(details.factoryAddress).to.equal(setTokenFactory.address);
+      expect(details.naturalUnit).to.bignumber.equal(plan.naturalUnit);
+      expect(details.components.map(component => component.address)).to.eql(plan.components);
+      expect(JSON.stringify(details.components.map(component => component.unit))).to.equal(
+        JSON.stringify(plan.units)
+      );
+    });
+
+    test('returns the hash of the mined creation transaction', async () => {
+      const { txHash, details } = await subject();
+
+      const isValidSet = await core.validSets.callAsync(details.address);
+      const receipt = await web3.eth.getTransactionReceipt(txHash);
+      expect(isValidSet).to.be.true;
+      expect(receipt.status).to.be.true;
+    });
+
+    describe('when the wait for the creation is cancelled', async () => {
+      beforeEach(async () => {
+        const cancellationController = new CancellationController();
+        cancellationController.abort();
+
+        subjectMiningOpts = { signal: cancellationController.signal };
+      });
+
+      test('rejects with a CancellationError', async () => {
+        return expect(subject()).to.be.rejectedWith(CancellationError);
+      });
+    });
+  });
+});
@@ -34,7 +34,7 @@ import { Address, Web3Utils } from 'set-protocol-utils';
 
 import { SetTokenAPI } from '@src/api';
 import { DEFAULT_ACCOUNT } from '@src/constants';
-import { BigNumber, ether } from '@src/util';
+import { BigNumber, ether, PriceSourceErrors, StaticPriceSource } from '@src/util';
 import { Assertions } from '@src/assertions';
 import ChaiSetup from '@test/helpers/chaiSetup';
 import {
@@ -43,7 +43,7 @@ import {
   deployTokensAsync,
   deployTokensSpecifyingDecimals,
 } from '@test/helpers';
-import { Component, SetDetails } from '@src/types/common';
+import { Component, SetComparison, SetDetails, SetNav } from '@src/types/common';
 
 ChaiSetup.configure();
 const { expect } = chai;
@@ -173,6 +173,135 @@ describe('SetTokenAPI', () => {
     });
   });
 
+  describe('getNavAsync', async () => {
+    let componentTokens: StandardTokenMockContract[];
+    let setToken: SetTokenContract;
+    let prices: { [tokenAddress: string]: BigNumber };
+
+    let subjectSetTokenAddress: Address;
+    let subjectPriceSource: StaticPriceSource;
+
+    beforeEach(async () => {
+      componentTokens = await deployTokensSpecifyingDecimals(2, [18, 8], web3);
+      setToken = await deploySetTokenAsync(
+        web3,
+        core,
+        setTokenFactory.address,
+        componentTokens.map(token => token.address),
+        [new BigNumber(10 ** 8), new BigNumber(1)],
+        new BigNumber(10 ** 10),
+      );
+
+      prices = {
+        [componentTokens[0].address]: new BigNumber(200),
+        [componentTokens[1].address]: new BigNumber(4000),
+      };
+
+      subjectSetTokenAddress = setToken.address;
+      subjectPriceSource = new StaticPriceSource(prices);
+    });
+
+    async function subject(): Promise<SetNav> {
+      return await setTokenAPI.getNavAsync(subjectSetTokenAddress, subjectPriceSource);
+    }
+
+    test('returns the value of a natural unit and of a whole Set', async () => {
+      const nav = await subject();
+
+      expect(nav.naturalUnit).to.bignumber.equal(10 ** 10);
+      expect(nav.valuePerNaturalUnit).to.bignumber.equal(new BigNumber('0.00004002'));
+      expect(nav.valuePerToken).to.bignumber.equal(4002);
+    });
+
+    test('returns the value of each component', async () => {
+      const nav = await subject();
+
+      expect(nav.components.map(component => component.decimals)).to.eql([18, 8]);
+      expect(nav.components[0].price).to.bignumber.equal(200);
+      expect(nav.components[0].valuePerToken).to.bignumber.equal(2);
+      expect(nav.components[1].valuePerToken).to.bignumber.equal(4000);
+    });
+
+    describe('when the price of a component is missing', async () => {
+      beforeEach(async () => {
+        subjectPriceSource = new StaticPriceSource({ [componentTokens[0].address]: new BigNumber(200) });
+      });
+
+      test('throws', async () => {
+        return expect(subject()).to.be.rejectedWith(PriceSourceErrors.MISSING_PRICE(componentTokens[1].address));
+      });
+    });
+  });
+
+  describe('compareSetsAsync', async () => {
+    let componentTokens: StandardTokenMockContract[];
+    let currentSetToken: SetTokenContract;
+    let nextSetToken: SetTokenContract;
+
+    let subjectCurrentSetAddress: Address;
+    let subjectNextSetAddress: Address;
+    let subjectQuantity: BigNumber;
+
+    beforeEach(async () => {
+      componentTokens = await deployTokensSpecifyingDecimals(3, [18, 8, 18], web3);
+      currentSetToken = await deploySetTokenAsync(
+        web3,
+        core,
+        setTokenFactory.address,
+        [componentTokens[0].address, componentTokens[1].address],
+        [new BigNumber(10 ** 8), new BigNumber(1)],
+        new BigNumber(10 ** 10),
+      );
+      nextSetToken = await deploySetTokenAsync(
+        web3,
+        core,
+        setTokenFactory.address,
+        [componentTokens[1].address, componentTokens[2].address],
+        [new BigNumber(200), new BigNumber(5 * 10 ** 11)],
+        new BigNumber(10 ** 12),
+      );
+
+      subjectCurrentSetAddress = currentSetToken.address;
+      subjectNextSetAddress = nextSetToken.address;
+      subjectQuantity = ether(1);
+    });
+
+    async function subject(): Promise<SetComparison> {
+      return await setTokenAPI.compareSetsAsync(subjectCurrentSetAddress, subjectNextSetAddress, subjectQuantity);
+    }
+
+    test('builds the combined token array and units at the larger natural unit', async () => {
+      const comparison = await subject();
+
+      const expectedCurrentUnits = [new BigNumber(10 ** 10), new BigNumber(100), new BigNumber(0)];
+      const expectedNextSetUnits = [new BigNumber(0), new BigNumber(200), new BigNumber(5 * 10 ** 11)];
+      expect(comparison.combinedTokenArray).to.eql(componentTokens.map(token => token.address));
+      expect(comparison.naturalUnit).to.bignumber.equal(10 ** 12);
+      expect(JSON.stringify(comparison.combinedCurrentUnits)).to.equal(JSON.stringify(expectedCurrentUnits));
+      expect(JSON.stringify(comparison.combinedNextSetUnits)).to.equal(JSON.stringify(expectedNextSetUnits));
+    });
+
+    test('returns the inflows and outflows in whole tokens', async () => {
+      const { inflow, outflow } = await subject();
+
+      expect(inflow.map(flow => flow.address)).to.eql([componentTokens[1].address, componentTokens[2].address]);
+      expect(inflow[0].unit).to.bignumber.equal(1);
+      expect(inflow[1].unit).to.bignumber.equal(0.5);
+      expect(outflow.map(flow => flow.address)).to.eql([componentTokens[0].address]);
+      expect(outflow[0].unit).to.bignumber.equal(0.01);
+    });
+
+    describe('when the quantity is not a multiple of the larger natural unit', async () => {
+      beforeEach(async () => {
+        subjectQuantity = new BigNumber(10 ** 11);
+      });
+
+      test('throws', async () => {
+        return expect(subject()).to.be.rejectedWith('quantity needs to be multiple of natural unit.');
+      });
+    });
+  });
+
   describe('isMultipleOfNaturalUnitAsync', async () => {
     let subjectSetTokenAddress: Address;
     let subjectQuantity: BigNumber;
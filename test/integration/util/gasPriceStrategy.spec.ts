@@ -0,0 +1,191 @@
+/*
+  Copyright 2018 Set Labs Inc.
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+  http://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+*/
+
+'use strict';
+
+// Given that this is an integration test, we unmock the Set Protocol
+// smart contracts artifacts package to pull the most recently
+// deployed contracts on the current network.
+jest.unmock('set-protocol-contracts');
+jest.setTimeout(30000);
+
+import * as _ from 'lodash';
+import * as chai from 'chai';
+
+import ChaiSetup from '@test/helpers/chaiSetup';
+import { GasPriceStrategy } from '@src/types/common';
+import {
+  applyGasPriceStrategyAsync,
+  BigNumber,
+  FixedGasPriceStrategy,
+  NodeGasPriceStrategy,
+  PercentileGasPriceStrategy,
+  withGasPriceUrgency,
+  wrapProviderWithGasPriceStrategy,
+} from '@src/util';
+import { createMockProvider, jsonRpcResult, sendRequestAsync } from '@test/helpers';
+
+ChaiSetup.configure();
+const { expect } = chai;
+
+interface MockChain {
+  blockNumber: number;
+  nodeGasPrice: string;
+  requestedBlocks: number[];
+}
+
+function createMockWeb3(chain: MockChain): any {
+  return {
+    eth: {
+      getBlockNumber: async () => chain.blockNumber,
+      getBlock: async (blockNumber: number) => {
+        chain.requestedBlocks.push(blockNumber);
+
+        return { transactions: [{ gasPrice: `${(blockNumber + 1) * 1000000000}` }] };
+      },
+      getGasPrice: async () => chain.nodeGasPrice,
+    },
+  };
+}
+
+describe('GasPriceStrategy', () => {
+  let chain: MockChain;
+  let web3: any;
+
+  beforeEach(() => {
+    chain = { blockNumber: 99, nodeGasPrice: '7000000000', requestedBlocks: [] };
+    web3 = createMockWeb3(chain);
+  });
+
+  describe('FixedGasPriceStrategy', () => {
+    test('returns the configured gas price', async () => {
+      const gasPrice = await new FixedGasPriceStrategy(new BigNumber('25000000000')).getGasPriceAsync(web3);
+
+      expect(gasPrice).to.bignumber.equal('25000000000');
+    });
+  });
+
+  describe('NodeGasPriceStrategy', () => {
+    test('returns the gas price of the node', async () => {
+      const gasPrice = await new NodeGasPriceStrategy().getGasPriceAsync(web3);
+
+      expect(gasPrice).to.bignumber.equal('7000000000');
+    });
+  });
+
+  describe('PercentileGasPriceStrategy', () => {
+    let strategy: PercentileGasPriceStrategy;
+
+    beforeEach(() => {
+      strategy = new PercentileGasPriceStrategy(50, 10);
+    });
+
+    test('returns the percentile of the gas prices in the most recent blocks', async () => {
+      const gasPrice = await strategy.getGasPriceAsync(web3);
+
+      expect(gasPrice).to.bignumber.equal('96000000000');
+      expect(_.sortBy(chain.requestedBlocks)).to.deep.equal(_.range(90, 100));
+    });
+
+    test('only fetches the blocks mined since the previous call', async () => {
+      await strategy.getGasPriceAsync(web3);
+      chain.requestedBlocks = [];
+      chain.blockNumber = 101;
+
+      const gasPrice = await strategy.getGasPriceAsync(web3);
+
+      expect(gasPrice).to.bignumber.equal('98000000000');
+      expect(_.sortBy(chain.requestedBlocks)).to.deep.equal([100, 101]);
+    });
+
+    test('throws when the percentile is out of range', async () => {
+      expect(() => new PercentileGasPriceStrategy(101)).to.throw(
+        'Gas price percentile must be between 0 and 100. Encountered: 101.'
+      );
+    });
+  });
+
+  describe('applyGasPriceStrategyAsync', () => {
+    test('fills in the gas price of the node', async () => {
+      const txOpts = await applyGasPriceStrategyAsync(web3, { from: '0x01' });
+
+      expect(txOpts.gasPrice).to.equal('7000000000');
+    });
+
+    test('applies the urgency to the gas price', async () => {
+      const txOpts = await applyGasPriceStrategyAsync(web3, withGasPriceUrgency({ from: '0x01' }, 1.5));
+
+      expect(txOpts.gasPrice).to.equal('10500000000');
+      expect(txOpts).to.not.have.property('gasPriceUrgency');
+    });
+
+    test('keeps a gas price that is already set', async () => {
+      const txOpts = await applyGasPriceStrategyAsync(web3, withGasPriceUrgency({ gasPrice: 1000 }, 2));
+
+      expect(txOpts.gasPrice).to.equal(1000);
+    });
+
+    test('throws when the urgency is not positive', async () => {
+      expect(() => withGasPriceUrgency({}, 0)).to.throw(
+        'Gas price urgency multiplier must be greater than 0. Encountered: 0.'
+      );
+    });
+  });
+
+  describe('wrapProviderWithGasPriceStrategy', () => {
+    let forwardedMethods: string[];
+    let strategy: GasPriceStrategy;
+    let provider: any;
+
+    beforeEach(() => {
+      forwardedMethods = [];
+      strategy = new FixedGasPriceStrategy(new BigNumber('30000000000'));
+
+      const nodeProvider = createMockProvider(payload => {
+        forwardedMethods.push(payload.method);
+
+        return jsonRpcResult(payload, '0x01');
+      });
+      provider = wrapProviderWithGasPriceStrategy(nodeProvider, () => strategy);
+    });
+
+    function sendAsync(method: string): Promise<any> {
+      return sendRequestAsync(provider, method, []);
+    }
+
+    test('answers gas price requests with the strategy', async () => {
+      const response = await sendAsync('eth_gasPrice');
+
+      expect(new BigNumber(response.result)).to.bignumber.equal('30000000000');
+      expect(forwardedMethods).to.deep.equal([]);
+    });
+
+    test('uses the current strategy', async () => {
+      strategy = new FixedGasPriceStrategy(new BigNumber('40000000000'));
+
+      const response = await sendAsync('eth_gasPrice');
+
+      expect(new BigNumber(response.result)).to.bignumber.equal('40000000000');
+    });
+
+    test('forwards other requests', async () => {
+      const response = await sendAsync('eth_blockNumber');
+
+      expect(response.result).to.equal('0x01');
+      expect(forwardedMethods).to.deep.equal(['eth_blockNumber']);
+    });
+  });
+});
@@ -0,0 +1,124 @@
+/*
+  Copyright 2018 Set Labs Inc.
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+  http://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+*/
+
+'use strict';
+
+// Given that this is an integration test, we unmock the Set Protocol
+// smart contracts artifacts package to pull the most recently
+// deployed contracts on the current network.
+jest.unmock('set-protocol-contracts');
+jest.setTimeout(30000);
+
+import * as chai from 'chai';
+import Web3 from 'web3';
+
+import ChaiSetup from '@test/helpers/chaiSetup';
+import { LogFetcher } from '@src/util';
+
+ChaiSetup.configure();
+const { expect } = chai;
+const web3 = new Web3('http://localhost:8545');
+
+describe('LogFetcher', () => {
+  let requestedRanges: number[][];
+  let fetchError: (fromBlock: number, toBlock: number) => Error;
+
+  beforeEach(() => {
+    requestedRanges = [];
+    fetchError = () => undefined;
+  });
+
+  async function fetchRange(fromBlock: number, toBlock: number): Promise<number[]> {
+    requestedRanges.push([fromBlock, toBlock]);
+
+    const error = fetchError(fromBlock, toBlock);
+    if (error) {
+      throw error;
+    }
+
+    return [fromBlock];
+  }
+
+  function subject(): LogFetcher<number> {
+    return new LogFetcher(web3, fetchRange, { fromBlock: 0, toBlock: 15 }, { chunkSize: 16, retryDelayMs: 0 });
+  }
+
+  test('fetches the range in one chunk', async () => {
+    const logs = await subject().collectAsync();
+
+    expect(logs).to.eql([0]);
+    expect(requestedRanges).to.eql([[0, 15]]);
+  });
+
+  test('is iterable with for await', async () => {
+    const fetcher = subject();
+
+    expect(Symbol.asyncIterator).to.not.be.undefined;
+    expect(fetcher[Symbol.asyncIterator]()).to.equal(fetcher);
+  });
+
+  describe('when the node rejects a chunk for returning too many results', async () => {
+    beforeEach(() => {
+      fetchError = (fromBlock, toBlock) => {
+        return toBlock - fromBlock >= 8 ? new Error('query returned more than 10000 results') : undefined;
+      };
+    });
+
+    test('halves the chunk until the node accepts it', async () => {
+      const logs = await subject().collectAsync();
+
+      expect(logs).to.eql([0, 8]);
+      expect(requestedRanges).to.eql([[0, 15], [0, 7], [8, 15]]);
+    });
+  });
+
+  describe('when the node fails for another reason', async () => {
+    let failures: number;
+
+    beforeEach(() => {
+      failures = 0;
+      fetchError = () => {
+        failures += 1;
+        return failures === 1 ? new Error('connection reset') : undefined;
+      };
+    });
+
+    test('retries the chunk without halving it', async () => {
+      const logs = await subject().collectAsync();
+
+      expect(logs).to.eql([0]);
+      expect(requestedRanges).to.eql([[0, 15], [0, 15]]);
+    });
+  });
+
+  describe('when the node keeps failing', async () => {
+    beforeEach(() => {
+      fetchError = () => new Error('connection reset');
+    });
+
+    test('throws after the configured retries', async () => {
+      const fetcher = new LogFetcher(
+        web3,
+        fetchRange,
+        { fromBlock: 0, toBlock: 15 },
+        { chunkSize: 16, maxRetries: 2, retryDelayMs: 0 },
+      );
+
+      await expect(fetcher.collectAsync()).to.be.rejectedWith('connection reset');
+      expect(requestedRanges.length).to.equal(3);
+    });
+  });
+});
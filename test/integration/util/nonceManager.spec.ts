@@ -0,0 +1,205 @@
+/*
+  Copyright 2018 Set Labs Inc.
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+  http://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+*/
+
+'use strict';
+
+// Given that this is an integration test, we unmock the Set Protocol
+// smart contracts artifacts package to pull the most recently
+// deployed contracts on the current network.
+jest.unmock('set-protocol-contracts');
+jest.setTimeout(30000);
+
+import * as _ from 'lodash';
+import * as chai from 'chai';
+
+import ChaiSetup from '@test/helpers/chaiSetup';
+import { NonceManager } from '@src/util';
+import { createMockProvider, jsonRpcError, jsonRpcResult, sendRequestAsync } from '@test/helpers';
+
+ChaiSetup.configure();
+const { expect } = chai;
+
+const ACCOUNT = '0x5409ed021d9299bf6814279a6a1411a7e866a631';
+
+interface MockNode {
+  confirmedCount: number;
+  pendingCount: number;
+  sentNonces: number[];
+  sendError?: string;
+}
+
+function createMockWeb3(node: MockNode): any {
+  return {
+    eth: {
+      getTransactionCount: async (account: string, block: string) => {
+        return block === 'pending' ? node.pendingCount : node.confirmedCount;
+      },
+    },
+    utils: {
+      toHex: (value: number) => `0x${value.toString(16)}`,
+    },
+  };
+}
+
+function respond(node: MockNode, payload: any): any {
+  if (payload.method !== 'eth_sendTransaction') {
+    return jsonRpcResult(payload, '0x01');
+  }
+
+  if (node.sendError) {
+    return jsonRpcError(payload, node.sendError);
+  }
+
+  node.sentNonces.push(parseInt(payload.params[0].nonce, 16));
+  return jsonRpcResult(payload, '0x01');
+}
+
+function sendTransactionAsync(provider: any, id: number): Promise<any> {
+  return sendRequestAsync(provider, 'eth_sendTransaction', [{ from: ACCOUNT }], id);
+}
+
+describe('NonceManager', () => {
+  let node: MockNode;
+  let nonceManager: NonceManager;
+
+  beforeEach(() => {
+    node = { confirmedCount: 5, pendingCount: 5, sentNonces: [] };
+    nonceManager = new NonceManager(createMockWeb3(node));
+  });
+
+  describe('#wrapProvider', () => {
+    let provider: any;
+
+    beforeEach(() => {
+      provider = nonceManager.wrapProvider(createMockProvider(payload => respond(node, payload)));
+    });
+
+    test('assigns consecutive nonces to concurrent sends', async () => {
+      await Promise.all(_.times(4, id => sendTransactionAsync(provider, id)));
+
+      expect(_.sortBy(node.sentNonces)).to.deep.equal([5, 6, 7, 8]);
+    });
+
+    test('does not change requests that are not transactions', async () => {
+      const response = await sendRequestAsync(provider, 'eth_blockNumber', []);
+
+      expect(response.result).to.equal('0x01');
+      expect(node.sentNonces).to.deep.equal([]);
+    });
+
+    describe('when a send fails with a nonce error', async () => {
+      beforeEach(async () => {
+        await sendTransactionAsync(provider, 1);
+
+        node.pendingCount = 9;
+        node.sendError = 'nonce too low';
+        await sendTransactionAsync(provider, 2);
+        node.sendError = undefined;
+      });
+
+      test('resyncs from the pending count of the node', async () => {
+        await sendTransactionAsync(provider, 3);
+
+        expect(node.sentNonces).to.deep.equal([5, 9]);
+      });
+    });
+
+    describe('when a send fails with another error', async () => {
+      beforeEach(async () => {
+        await sendTransactionAsync(provider, 1);
+
+        node.sendError = 'insufficient funds for gas * price + value';
+        await sendTransactionAsync(provider, 2);
+        node.sendError = undefined;
+      });
+
+      test('reuses the nonce of the failed send', async () => {
+        await sendTransactionAsync(provider, 3);
+
+        expect(node.sentNonces).to.deep.equal([5, 6]);
+      });
+    });
+  });
+
+  describe('#reserveNonceAsync', () => {
+    test('starts from the pending count of the node', async () => {
+      node.pendingCount = 7;
+
+      const nonce = await nonceManager.reserveNonceAsync(ACCOUNT);
+
+      expect(nonce).to.equal(7);
+    });
+
+    describe('when the node lags behind the transactions already sent', async () => {
+      beforeEach(async () => {
+        await nonceManager.reserveNonceAsync(ACCOUNT);
+        nonceManager.commitNonce(ACCOUNT, 5);
+        await nonceManager.reserveNonceAsync(ACCOUNT);
+        nonceManager.commitNonce(ACCOUNT, 6);
+
+        node.confirmedCount = 5;
+        node.pendingCount = 5;
+      });
+
+      test('continues from the local counter', async () => {
+        const nonce = await nonceManager.reserveNonceAsync(ACCOUNT);
+
+        expect(nonce).to.equal(7);
+      });
+    });
+
+    describe('when the confirmed count passes the local counter', async () => {
+      beforeEach(async () => {
+        await nonceManager.reserveNonceAsync(ACCOUNT);
+        nonceManager.commitNonce(ACCOUNT, 5);
+
+        node.confirmedCount = 10;
+      });
+
+      test('continues from the confirmed count', async () => {
+        const nonce = await nonceManager.reserveNonceAsync(ACCOUNT);
+
+        expect(nonce).to.equal(10);
+      });
+    });
+
+    describe('when a transaction was dropped', async () => {
+      beforeEach(async () => {
+        await nonceManager.reserveNonceAsync(ACCOUNT);
+        nonceManager.commitNonce(ACCOUNT, 5);
+        await nonceManager.reserveNonceAsync(ACCOUNT);
+        nonceManager.commitNonce(ACCOUNT, 6);
+
+        node.confirmedCount = 6;
+        node.pendingCount = 6;
+      });
+
+      test('does not reuse the nonce of the dropped transaction by itself', async () => {
+        const nonce = await nonceManager.reserveNonceAsync(ACCOUNT);
+
+        expect(nonce).to.equal(7);
+      });
+
+      test('reuses the nonce of the dropped transaction after the account is reset', async () => {
+        nonceManager.resetNonce(ACCOUNT);
+
+        const nonce = await nonceManager.reserveNonceAsync(ACCOUNT);
+
+        expect(nonce).to.equal(6);
+      });
+    });
+  });
+});
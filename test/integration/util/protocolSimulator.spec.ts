@@ -0,0 +1,325 @@
+/*
+  Copyright 2018 Set Labs Inc.
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+  http://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+*/
+
+'use strict';
+
+// Given that this is an integration test, we unmock the Set Protocol
+// smart contracts artifacts package to pull the most recently
+// deployed contracts on the current network.
+jest.unmock('set-protocol-contracts');
+jest.setTimeout(30000);
+
+import * as _ from 'lodash';
+import * as chai from 'chai';
+import Web3 from 'web3';
+import { Address, Web3Utils } from 'set-protocol-utils';
+
+import ChaiSetup from '@test/helpers/chaiSetup';
+import SetProtocol from '@src/SetProtocol';
+import { ACCOUNTS, DEFAULT_ACCOUNT } from '@src/constants/accounts';
+import {
+  DEFAULT_UNIT_SHARES,
+  DEPLOYED_TOKEN_QUANTITY,
+  NULL_ADDRESS,
+  ONE_DAY_IN_SECONDS,
+  TX_DEFAULTS,
+} from '@src/constants';
+import { BigNumber, isRevertError, ProtocolSimulator } from '@src/util';
+import { ether } from '@src/util/units';
+import { CoreWrapper } from '@src/wrappers';
+import { SetProtocolConfig } from '@src/types/common';
+import { deployBaseContracts, deployTokensSpecifyingDecimals } from '@test/helpers';
+
+ChaiSetup.configure();
+const web3 = new Web3('http://localhost:8545');
+const web3Utils = new Web3Utils(web3);
+const { expect } = chai;
+
+let currentSnapshotId: number;
+
+// The simulator and the chain deploy to different addresses, so results are compared by the role of each address
+interface ScenarioEnvironment {
+  web3: Web3;
+  setProtocol: SetProtocol;
+  config: SetProtocolConfig;
+  roles: { [role: string]: Address };
+}
+
+async function createSetsAsync(environment: ScenarioEnvironment): Promise<void> {
+  const { setProtocol, roles } = environment;
+
+  await setProtocol.setUnlimitedTransferProxyAllowanceAsync(roles.componentOne, TX_DEFAULTS);
+  await setProtocol.setUnlimitedTransferProxyAllowanceAsync(roles.componentTwo, TX_DEFAULTS);
+
+  const createSetTxHash = await setProtocol.createSetAsync(
+    [roles.componentOne, roles.componentTwo],
+    [new BigNumber(2), new BigNumber(3)],
+    new BigNumber(10),
+    'Set Token',
+    'SET',
+    TX_DEFAULTS,
+  );
+  roles.setToken = await setProtocol.getSetAddressFromCreateTxHashAsync(createSetTxHash);
+
+  const createRebalancingSetTxHash = await setProtocol.createRebalancingSetTokenAsync(
+    DEFAULT_ACCOUNT,
+    roles.setToken,
+    DEFAULT_UNIT_SHARES,
+    ONE_DAY_IN_SECONDS,
+    ONE_DAY_IN_SECONDS,
+    'Rebalancing Set Token',
+    'RBSET',
+    TX_DEFAULTS,
+  );
+  roles.rebalancingSetToken = await setProtocol.getSetAddressFromCreateTxHashAsync(createRebalancingSetTxHash);
+
+  await setProtocol.setUnlimitedTransferProxyAllowanceAsync(roles.setToken, TX_DEFAULTS);
+}
+
+async function balancesAsync(environment: ScenarioEnvironment): Promise<{ [key: string]: string }> {
+  const { setProtocol, roles } = environment;
+  const holders: { [role: string]: Address } = {
+    owner: DEFAULT_ACCOUNT,
+    setToken: roles.setToken,
+    rebalancingSetToken: roles.rebalancingSetToken,
+  };
+
+  const balances: { [key: string]: string } = {};
+  for (const tokenRole of _.keys(roles)) {
+    const token = roles[tokenRole];
+
+    balances[`${tokenRole}.totalSupply`] = (await setProtocol.erc20.getTotalSupplyAsync(token)).toString();
+    balances[`${tokenRole}.wallet`] = (await setProtocol.erc20.getBalanceOfAsync(token, DEFAULT_ACCOUNT)).toString();
+    for (const holderRole of _.keys(holders)) {
+      const vaultBalance = await setProtocol.getBalanceInVaultAsync(token, holders[holderRole]);
+      balances[`${tokenRole}.vault.${holderRole}`] = vaultBalance.toString();
+    }
+  }
+
+  return balances;
+}
+
+function roleOf(environment: ScenarioEnvironment, address: Address): string {
+  return _.findKey(environment.roles, roleAddress => roleAddress.toLowerCase() === address.toLowerCase());
+}
+
+describe('ProtocolSimulator', () => {
+  let chainEnvironment: ScenarioEnvironment;
+  let simulatedEnvironment: ScenarioEnvironment;
+
+  beforeEach(async () => {
+    currentSnapshotId = await web3Utils.saveTestSnapshot();
+
+    const [core, transferProxy, vault, setTokenFactory, rebalancingSetTokenFactory] = await deployBaseContracts(web3);
+    const [componentOne, componentTwo] = await deployTokensSpecifyingDecimals(2, [18, 18], web3);
+    const chainConfig = {
+      coreAddress: core.address,
+      transferProxyAddress: transferProxy.address,
+      vaultAddress: vault.address,
+      setTokenFactoryAddress: setTokenFactory.address,
+      rebalancingSetTokenFactoryAddress: rebalancingSetTokenFactory.address,
+    } as SetProtocolConfig;
+    chainEnvironment = {
+      web3,
+      setProtocol: new SetProtocol(web3.currentProvider, chainConfig),
+      config: chainConfig,
+      roles: { componentOne: componentOne.address, componentTwo: componentTwo.address },
+    };
+
+    const simulator = new ProtocolSimulator();
+    const tokenOpts = { supply: DEPLOYED_TOKEN_QUANTITY, owner: DEFAULT_ACCOUNT };
+    simulatedEnvironment = {
+      web3: new Web3(simulator as any),
+      setProtocol: new SetProtocol(simulator, simulator.getConfig()),
+      config: simulator.getConfig(),
+      roles: {
+        componentOne: simulator.deployERC20Token(tokenOpts),
+        componentTwo: simulator.deployERC20Token(tokenOpts),
+      },
+    };
+
+    await createSetsAsync(chainEnvironment);
+    await createSetsAsync(simulatedEnvironment);
+  });
+
+  afterEach(async () => {
+    await web3Utils.revertToSnapshot(currentSnapshotId);
+  });
+
+  // Runs the scenario on the chain and then on the simulator
+  async function compareAsync<T>(scenario: (environment: ScenarioEnvironment) => Promise<T>): Promise<T[]> {
+    const chainResult = await scenario(chainEnvironment);
+    const simulatedResult = await scenario(simulatedEnvironment);
+
+    return [chainResult, simulatedResult];
+  }
+
+  test('creates the Sets with the same balances as the chain', async () => {
+    const [chainBalances, simulatedBalances] = await compareAsync(environment => balancesAsync(environment));
+
+    expect(simulatedBalances).to.eql(chainBalances);
+  });
+
+  describe('issue', async () => {
+    async function subject(environment: ScenarioEnvironment): Promise<{ [key: string]: string }> {
+      await environment.setProtocol.issueAsync(environment.roles.setToken, ether(2), TX_DEFAULTS);
+
+      return await balancesAsync(environment);
+    }
+
+    test('matches the balances of the chain', async () => {
+      const [chainBalances, simulatedBalances] = await compareAsync(subject);
+
+      expect(simulatedBalances).to.eql(chainBalances);
+    });
+
+    describe('when components are already in the Vault', async () => {
+      async function depositAndIssueAsync(environment: ScenarioEnvironment): Promise<{ [key: string]: string }> {
+        await environment.setProtocol.depositAsync([environment.roles.componentOne], [ether(0.3)], TX_DEFAULTS);
+
+        return await subject(environment);
+      }
+
+      test('matches the balances of the chain', async () => {
+        const [chainBalances, simulatedBalances] = await compareAsync(depositAndIssueAsync);
+
+        expect(simulatedBalances).to.eql(chainBalances);
+      });
+    });
+
+    describe('when the quantity is not a multiple of the natural unit', async () => {
+      async function issueFromCoreAsync(environment: ScenarioEnvironment): Promise<any> {
+        const { config } = environment;
+        const core = new CoreWrapper(
+          environment.web3,
+          config.coreAddress,
+          config.transferProxyAddress,
+          config.vaultAddress,
+        );
+
+        return await core.issue(environment.roles.setToken, new BigNumber(15), TX_DEFAULTS).catch(error => error);
+      }
+
+      test('reverts like the chain', async () => {
+        const [chainError, simulatedError] = await compareAsync(issueFromCoreAsync);
+
+        expect(isRevertError(chainError)).to.be.true;
+        expect(isRevertError(simulatedError)).to.be.true;
+      });
+    });
+  });
+
+  describe('redeem', async () => {
+    async function subject(environment: ScenarioEnvironment): Promise<{ [key: string]: string }> {
+      const { setProtocol, roles } = environment;
+
+      await setProtocol.issueAsync(roles.setToken, ether(2), TX_DEFAULTS);
+      await setProtocol.redeemAsync(roles.setToken, ether(1), true, [roles.componentTwo], TX_DEFAULTS);
+
+      return await balancesAsync(environment);
+    }
+
+    test('matches the balances of the chain, keeping excluded components in the Vault', async () => {
+      const [chainBalances, simulatedBalances] = await compareAsync(subject);
+
+      expect(simulatedBalances).to.eql(chainBalances);
+    });
+
+    describe('when the components are withdrawn afterwards', async () => {
+      async function redeemAndWithdrawAsync(environment: ScenarioEnvironment): Promise<{ [key: string]: string }> {
+        await subject(environment);
+
+        const { setProtocol, roles } = environment;
+        const vaultBalance = await setProtocol.getBalanceInVaultAsync(roles.componentTwo, DEFAULT_ACCOUNT);
+        await setProtocol.withdrawAsync([roles.componentTwo], [vaultBalance], TX_DEFAULTS);
+
+        return await balancesAsync(environment);
+      }
+
+      test('matches the balances of the chain', async () => {
+        const [chainBalances, simulatedBalances] = await compareAsync(redeemAndWithdrawAsync);
+
+        expect(simulatedBalances).to.eql(chainBalances);
+      });
+    });
+  });
+
+  describe('rebalancing Sets', async () => {
+    async function issueRebalancingSetAsync(environment: ScenarioEnvironment): Promise<void> {
+      const { setProtocol, roles } = environment;
+
+      await setProtocol.issueAsync(roles.setToken, ether(2), TX_DEFAULTS);
+      await setProtocol.issueAsync(roles.rebalancingSetToken, ether(1), TX_DEFAULTS);
+    }
+
+    test('issue and redeem with the balances of the chain', async () => {
+      const [chainBalances, simulatedBalances] = await compareAsync(async environment => {
+        const { setProtocol, roles } = environment;
+
+        await issueRebalancingSetAsync(environment);
+        const issuedBalances = await balancesAsync(environment);
+
+        await setProtocol.redeemAsync(roles.rebalancingSetToken, ether(0.5), true, [], TX_DEFAULTS);
+        const redeemedBalances = await balancesAsync(environment);
+
+        return [issuedBalances, redeemedBalances];
+      });
+
+      expect(simulatedBalances).to.eql(chainBalances);
+    });
+
+    test('report the rebalance state and underlying composition of the chain', async () => {
+      const [chainComposition, simulatedComposition] = await compareAsync(async environment => {
+        const { setProtocol, roles } = environment;
+
+        await issueRebalancingSetAsync(environment);
+        const composition = await setProtocol.rebalancing.getUnderlyingCompositionAsync(roles.rebalancingSetToken);
+
+        return {
+          state: await setProtocol.rebalancing.getRebalanceStateAsync(roles.rebalancingSetToken),
+          currentSet: roleOf(environment, composition.currentSetAddress),
+          currentSetQuantity: composition.currentSetQuantity.toString(),
+          components: _.map(composition.components, component => ({
+            role: roleOf(environment, component.address),
+            quantity: component.quantity.toString(),
+          })),
+        };
+      });
+
+      expect(simulatedComposition).to.eql(chainComposition);
+    });
+
+    // Rebalance auctions are not simulated, so a proposal is compared up to the checks made before it is sent
+    test('reject a rebalance proposal from an account other than the manager like the chain', async () => {
+      const [chainError, simulatedError] = await compareAsync(async environment => {
+        const { setProtocol, roles } = environment;
+
+        return await setProtocol.rebalancing.proposeAsync(
+          roles.rebalancingSetToken,
+          roles.setToken,
+          NULL_ADDRESS,
+          ONE_DAY_IN_SECONDS,
+          new BigNumber(500),
+          new BigNumber(1000),
+          { ...TX_DEFAULTS, from: ACCOUNTS[1].address },
+        ).catch(error => error);
+      });
+
+      expect(simulatedError.code).to.equal(chainError.code);
+      expect(simulatedError.message).to.equal(chainError.message);
+    });
+  });
+});
@@ -0,0 +1,208 @@
+/*
+  Copyright 2018 Set Labs Inc.
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+  http://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+*/
+
+'use strict';
+
+// Given that this is an integration test, we unmock the Set Protocol
+// smart contracts artifacts package to pull the most recently
+// deployed contracts on the current network.
+jest.unmock('set-protocol-contracts');
+jest.setTimeout(30000);
+
+import * as _ from 'lodash';
+import * as chai from 'chai';
+import Web3 from 'web3';
+
+import ChaiSetup from '@test/helpers/chaiSetup';
+import { ReadBatcher } from '@src/util';
+import { createMockProvider, jsonRpcError, jsonRpcResult, sendRequestAsync } from '@test/helpers';
+
+ChaiSetup.configure();
+const { expect } = chai;
+const web3 = new Web3('http://localhost:8545');
+
+const SENDER = '0x5409ed021d9299bf6814279a6a1411a7e866a631';
+const MULTICALL = '0x0000000000000000000000000000000000000c01';
+const TARGETS = [
+  '0x0000000000000000000000000000000000000a01',
+  '0x0000000000000000000000000000000000000a02',
+  '0x0000000000000000000000000000000000000a03',
+];
+
+const REVERT_ERROR = { message: 'VM Exception while processing transaction: revert' };
+
+interface MockNode {
+  requests: any[];
+  failingTarget?: string;
+}
+
+function returnDataOf(target: string): string {
+  return web3.eth.abi.encodeParameter('address', target);
+}
+
+function respond(node: MockNode, payload: any): any {
+  if (payload.method !== 'eth_call') {
+    return jsonRpcResult(payload, '0x10');
+  }
+
+  const callData = payload.params[0];
+
+  if (callData.to === MULTICALL) {
+    if (node.failingTarget) {
+      return jsonRpcError(payload, REVERT_ERROR.message);
+    }
+
+    const decoded = web3.eth.abi.decodeParameters(['tuple(address,bytes)[]'], '0x' + callData.data.slice(10));
+    const returnData = _.map(decoded[0], (call: any) => returnDataOf(call[0]));
+    const result = web3.eth.abi.encodeParameters(['uint256', 'bytes[]'], [1, returnData]);
+
+    return jsonRpcResult(payload, result);
+  }
+
+  if (callData.to === node.failingTarget) {
+    return jsonRpcError(payload, REVERT_ERROR.message);
+  }
+
+  return jsonRpcResult(payload, returnDataOf(callData.to));
+}
+
+function createNodeProvider(node: MockNode): any {
+  return createMockProvider(payload => {
+    node.requests.push(payload);
+
+    if (_.isArray(payload)) {
+      // Nodes do not have to answer a batch in order
+      return _.reverse(_.map(payload, call => respond(node, call)));
+    }
+
+    return respond(node, payload);
+  });
+}
+
+function callAsync(provider: any, id: number, callData: any): Promise<any> {
+  return sendRequestAsync(provider, 'eth_call', [callData, 'latest'], id);
+}
+
+function callTargetsAsync(provider: any): Promise<any[]> {
+  return Promise.all(_.map(TARGETS, (target, index) => {
+    return callAsync(provider, index + 1, { from: SENDER, to: target, data: '0x18160ddd' });
+  }));
+}
+
+describe('ReadBatcher', () => {
+  let node: MockNode;
+
+  beforeEach(() => {
+    node = { requests: [] };
+  });
+
+  describe('without a Multicall contract', () => {
+    let provider: any;
+
+    beforeEach(() => {
+      provider = new ReadBatcher(web3).wrapProvider(createNodeProvider(node));
+    });
+
+    test('sends the reads made in the same tick as one batch', async () => {
+      await callTargetsAsync(provider);
+
+      expect(node.requests.length).to.equal(1);
+      expect(node.requests[0].length).to.equal(3);
+    });
+
+    test('returns the response of each read to its caller', async () => {
+      const responses = await callTargetsAsync(provider);
+
+      expect(_.map(responses, response => response.id)).to.deep.equal([1, 2, 3]);
+      expect(_.map(responses, response => response.result)).to.deep.equal(_.map(TARGETS, returnDataOf));
+    });
+
+    test('forwards requests that are not reads', async () => {
+      await sendRequestAsync(provider, 'eth_blockNumber', []);
+
+      expect(node.requests).to.deep.equal([{ id: 1, jsonrpc: '2.0', method: 'eth_blockNumber', params: [] }]);
+    });
+
+    describe('when one read in the batch fails', async () => {
+      beforeEach(() => {
+        node.failingTarget = TARGETS[1];
+      });
+
+      test('returns the error to that read only', async () => {
+        const responses = await callTargetsAsync(provider);
+
+        expect(responses[0].result).to.equal(returnDataOf(TARGETS[0]));
+        expect(responses[1].error).to.deep.equal(REVERT_ERROR);
+        expect(responses[2].result).to.equal(returnDataOf(TARGETS[2]));
+      });
+    });
+  });
+
+  describe('with a Multicall contract', () => {
+    let provider: any;
+
+    beforeEach(() => {
+      provider = new ReadBatcher(web3, { multicallAddress: MULTICALL }).wrapProvider(createNodeProvider(node));
+    });
+
+    test('aggregates reads that specify a sender into one call', async () => {
+      await callTargetsAsync(provider);
+
+      expect(node.requests.length).to.equal(1);
+      expect(node.requests[0].params[0].to).to.equal(MULTICALL);
+    });
+
+    test('returns the return data of each read to its caller', async () => {
+      const responses = await callTargetsAsync(provider);
+
+      expect(_.map(responses, response => response.id)).to.deep.equal([1, 2, 3]);
+      expect(_.map(responses, response => response.result)).to.deep.equal(_.map(TARGETS, returnDataOf));
+    });
+
+    test('does not aggregate reads that send value', async () => {
+      await Promise.all([
+        callAsync(provider, 1, { to: TARGETS[0], data: '0x18160ddd' }),
+        callAsync(provider, 2, { to: TARGETS[1], data: '0x18160ddd' }),
+        callAsync(provider, 3, { to: TARGETS[2], data: '0x18160ddd', value: '0x1' }),
+      ]);
+
+      expect(node.requests.length).to.equal(2);
+      expect(node.requests[0].params[0].to).to.equal(MULTICALL);
+      expect(node.requests[1].params[0].to).to.equal(TARGETS[2]);
+    });
+
+    describe('when one read in the aggregate call fails', async () => {
+      beforeEach(() => {
+        node.failingTarget = TARGETS[1];
+      });
+
+      test('falls back to a batch', async () => {
+        await callTargetsAsync(provider);
+
+        expect(node.requests.length).to.equal(2);
+        expect(node.requests[1].length).to.equal(3);
+      });
+
+      test('returns the error to that read only', async () => {
+        const responses = await callTargetsAsync(provider);
+
+        expect(responses[0].result).to.equal(returnDataOf(TARGETS[0]));
+        expect(responses[1].error).to.deep.equal(REVERT_ERROR);
+        expect(responses[2].result).to.equal(returnDataOf(TARGETS[2]));
+      });
+    });
+  });
+});
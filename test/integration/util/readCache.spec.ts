@@ -0,0 +1,189 @@
+/*
+  Copyright 2018 Set Labs Inc.
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+  http://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+*/
+
+'use strict';
+
+// Given that this is an integration test, we unmock the Set Protocol
+// smart contracts artifacts package to pull the most recently
+// deployed contracts on the current network.
+jest.unmock('set-protocol-contracts');
+jest.setTimeout(30000);
+
+import * as _ from 'lodash';
+import * as chai from 'chai';
+import Web3 from 'web3';
+
+import ChaiSetup from '@test/helpers/chaiSetup';
+import { ReadCache } from '@src/util';
+import { createMockProvider, jsonRpcResult, sendRequestAsync } from '@test/helpers';
+
+ChaiSetup.configure();
+const { expect } = chai;
+const web3 = new Web3('http://localhost:8545');
+
+const TOKEN = '0x0000000000000000000000000000000000000a01';
+const TOTAL_SUPPLY_DATA = web3.eth.abi.encodeFunctionSignature('totalSupply()');
+const DECIMALS_DATA = web3.eth.abi.encodeFunctionSignature('decimals()');
+const BALANCE_OF_DATA = web3.eth.abi.encodeFunctionSignature('balanceOf(address)');
+
+interface MockNode {
+  blockNumber: number;
+  totalSupply: number;
+  requests: any[];
+}
+
+function respond(node: MockNode, payload: any): any {
+  node.requests.push(payload);
+
+  if (payload.method === 'eth_blockNumber') {
+    return jsonRpcResult(payload, web3.utils.toHex(node.blockNumber));
+  } else if (payload.method === 'eth_call' && payload.params[0].data === TOTAL_SUPPLY_DATA) {
+    return jsonRpcResult(payload, web3.eth.abi.encodeParameter('uint256', node.totalSupply));
+  } else if (payload.method === 'eth_call') {
+    return jsonRpcResult(payload, web3.eth.abi.encodeParameter('uint256', 18));
+  }
+
+  return jsonRpcResult(payload, '0x01');
+}
+
+async function readTotalSupplyAsync(provider: any, blockTag: string = 'latest'): Promise<number> {
+  const response = await sendRequestAsync(provider, 'eth_call', [{ to: TOKEN, data: TOTAL_SUPPLY_DATA }, blockTag]);
+
+  return Number(web3.eth.abi.decodeParameter('uint256', response.result));
+}
+
+describe('ReadCache', () => {
+  let node: MockNode;
+  let readCache: ReadCache;
+  let provider: any;
+
+  beforeEach(() => {
+    node = { blockNumber: 10, totalSupply: 100, requests: [] };
+    readCache = new ReadCache(web3);
+    provider = readCache.wrapProvider(createMockProvider(payload => respond(node, payload)));
+  });
+
+  function callCount(): number {
+    return _.filter(node.requests, request => request.method === 'eth_call').length;
+  }
+
+  test('answers a repeated read in the same block from the cache', async () => {
+    await readTotalSupplyAsync(provider);
+    node.totalSupply = 200;
+
+    const totalSupply = await readTotalSupplyAsync(provider);
+
+    expect(totalSupply).to.equal(100);
+    expect(callCount()).to.equal(1);
+  });
+
+  test('shares one request between concurrent identical reads', async () => {
+    await Promise.all([readTotalSupplyAsync(provider), readTotalSupplyAsync(provider)]);
+
+    expect(callCount()).to.equal(1);
+  });
+
+  test('reuses the block number of the previous read for sequential reads', async () => {
+    await readTotalSupplyAsync(provider);
+    await sendRequestAsync(provider, 'eth_call', [{ to: TOKEN, data: BALANCE_OF_DATA }, 'latest']);
+
+    const methods = _.map(node.requests, request => request.method);
+    expect(methods).to.deep.equal(['eth_blockNumber', 'eth_call', 'eth_call']);
+  });
+
+  test('answers a read from the cache until the block number expires', async () => {
+    await readTotalSupplyAsync(provider);
+    node.blockNumber = 11;
+    node.totalSupply = 200;
+
+    const totalSupply = await readTotalSupplyAsync(provider);
+
+    expect(totalSupply).to.equal(100);
+    expect(callCount()).to.equal(1);
+  });
+
+  describe('when the block number is not reused', async () => {
+    beforeEach(() => {
+      readCache = new ReadCache(web3, { blockNumberTtlMs: 0 });
+      provider = readCache.wrapProvider(createMockProvider(payload => respond(node, payload)));
+    });
+
+    test('reads again as soon as the node reports a new block', async () => {
+      await readTotalSupplyAsync(provider);
+      node.blockNumber = 11;
+      node.totalSupply = 200;
+
+      const totalSupply = await readTotalSupplyAsync(provider);
+
+      expect(totalSupply).to.equal(200);
+      expect(callCount()).to.equal(2);
+    });
+
+    test('requests the block number for every read', async () => {
+      await readTotalSupplyAsync(provider);
+      await sendRequestAsync(provider, 'eth_call', [{ to: TOKEN, data: BALANCE_OF_DATA }, 'latest']);
+
+      expect(node.requests.length).to.equal(4);
+    });
+  });
+
+  test('discards the cached reads when a transaction is sent', async () => {
+    await readTotalSupplyAsync(provider);
+    node.totalSupply = 200;
+
+    await sendRequestAsync(provider, 'eth_sendTransaction', [{ from: TOKEN, to: TOKEN }]);
+    const totalSupply = await readTotalSupplyAsync(provider);
+
+    expect(totalSupply).to.equal(200);
+    expect(callCount()).to.equal(2);
+  });
+
+  test('keeps reads of getters that never change across blocks', async () => {
+    await sendRequestAsync(provider, 'eth_call', [{ to: TOKEN, data: DECIMALS_DATA }, 'latest']);
+    node.blockNumber = 11;
+
+    await sendRequestAsync(provider, 'eth_call', [{ to: TOKEN, data: DECIMALS_DATA }, 'latest']);
+
+    expect(callCount()).to.equal(1);
+  });
+
+  test('keeps reads at a historical block across blocks', async () => {
+    await readTotalSupplyAsync(provider, '0x5');
+    node.blockNumber = 11;
+
+    await readTotalSupplyAsync(provider, '0x5');
+
+    expect(callCount()).to.equal(1);
+  });
+
+  test('does not cache reads at the pending block', async () => {
+    await readTotalSupplyAsync(provider, 'pending');
+    await readTotalSupplyAsync(provider, 'pending');
+
+    expect(callCount()).to.equal(2);
+  });
+
+  describe('#clear', () => {
+    test('discards reads of getters that never change', async () => {
+      await sendRequestAsync(provider, 'eth_call', [{ to: TOKEN, data: DECIMALS_DATA }, 'latest']);
+
+      readCache.clear();
+      await sendRequestAsync(provider, 'eth_call', [{ to: TOKEN, data: DECIMALS_DATA }, 'latest']);
+
+      expect(callCount()).to.equal(2);
+    });
+  });
+});
@@ -28,14 +28,23 @@ import { StandardTokenMock } from 'set-protocol-contracts';
 import { StandardTokenMockContract } from 'set-protocol-contracts';
 import { Address, Web3Utils } from 'set-protocol-utils';
 
-import { ERC20Wrapper } from '@src/wrappers';
+import ChaiSetup from '@test/helpers/chaiSetup';
+import { ERC20Wrapper, ProtocolContractWrapper } from '@src/wrappers';
 import { DEFAULT_ACCOUNT, DEPLOYED_TOKEN_QUANTITY, TX_DEFAULTS } from '@src/constants';
 import { ACCOUNTS } from '@src/constants/accounts';
-import { BigNumber } from '@src/util';
-import { deployTokenAsync } from '@test/helpers';
+import {
+  addContractMiddleware,
+  BigNumber,
+  instrumentContract,
+  MetricsMiddleware,
+  removeContractMiddleware,
+} from '@src/util';
+import { ContractCallContext } from '@src/types/common';
+import { deployNoDecimalTokenAsync, deployTokenAsync, deployTokensSpecifyingDecimals } from '@test/helpers';
 
 const chaiBigNumber = require('chai-bignumber');
 chai.use(chaiBigNumber(BigNumber));
+ChaiSetup.configure();
 const { expect } = chai;
 const contract = require('truffle-contract');
 const web3 = new Web3('http://localhost:8545');
@@ -104,6 +113,66 @@ describe('ERC20Wrapper', () => {
     });
   });
 
+  describe('decimalsOrDefault', async () => {
+    let subjectERC20Wrapper: ERC20Wrapper;
+    let subjectTokenAddress: Address;
+
+    beforeEach(async () => {
+      const [token] = await deployTokensSpecifyingDecimals(1, [8], web3);
+
+      subjectERC20Wrapper = erc20Wrapper;
+      subjectTokenAddress = token.address;
+    });
+
+    async function subject(): Promise<number> {
+      return await subjectERC20Wrapper.decimalsOrDefault(subjectTokenAddress);
+    }
+
+    test('fetches the decimals of the token', async () => {
+      const decimals = await subject();
+
+      expect(decimals).to.equal(8);
+    });
+
+    describe('when the token does not implement decimals', async () => {
+      beforeEach(async () => {
+        const token = await deployNoDecimalTokenAsync(web3);
+
+        subjectTokenAddress = token.address;
+      });
+
+      test('defaults to 18', async () => {
+        const decimals = await subject();
+
+        expect(decimals).to.equal(18);
+      });
+    });
+
+    describe('when the address has no code', async () => {
+      beforeEach(async () => {
+        subjectTokenAddress = ACCOUNTS[1].address;
+      });
+
+      test('defaults to 18', async () => {
+        const decimals = await subject();
+
+        expect(decimals).to.equal(18);
+      });
+    });
+
+    describe('when the request to the node fails', async () => {
+      beforeEach(async () => {
+        subjectERC20Wrapper = new ERC20Wrapper(new Web3('http://localhost:1'));
+      });
+
+      test('throws the error of the request instead of defaulting', async () => {
+        const result = await subject().catch(error => error);
+
+        expect(result).to.be.an.instanceof(Error);
+      });
+    });
+  });
+
   describe('balanceOf', async () => {
     let token: StandardTokenMockContract;
 
@@ -129,6 +198,62 @@ describe('ERC20Wrapper', () => {
 
       expect(userTokenBalance).to.bignumber.equal(DEPLOYED_TOKEN_QUANTITY);
     });
+
+    describe('when contract middleware is registered', async () => {
+      let beforeContexts: ContractCallContext[];
+      let afterResults: any[];
+      let metricsMiddleware: MetricsMiddleware;
+      let recordingMiddleware: any;
+
+      beforeEach(async () => {
+        beforeContexts = [];
+        afterResults = [];
+        metricsMiddleware = new MetricsMiddleware();
+        recordingMiddleware = {
+          before: (context: ContractCallContext) => beforeContexts.push(context),
+          after: (context: ContractCallContext, result: any) => afterResults.push(result),
+        };
+
+        addContractMiddleware(web3, recordingMiddleware);
+        addContractMiddleware(web3, metricsMiddleware);
+      });
+
+      afterEach(async () => {
+        removeContractMiddleware(web3, recordingMiddleware);
+        removeContractMiddleware(web3, metricsMiddleware);
+      });
+
+      test('reports the call to the middleware', async () => {
+        await subject();
+
+        const [context] = beforeContexts;
+        expect(beforeContexts.length).to.equal(1);
+        expect(context.contractName).to.equal('ERC20Detailed');
+        expect(context.contractAddress).to.equal(subjectTokenAddress);
+        expect(context.methodName).to.equal('balanceOf');
+        expect(context.callType).to.equal('callAsync');
+        expect(context.args).to.eql([subjectTokenOwner]);
+        expect(afterResults[0]).to.bignumber.equal(DEPLOYED_TOKEN_QUANTITY);
+      });
+
+      test('records the call in the metrics', async () => {
+        await subject();
+
+        const metrics = metricsMiddleware.getMetrics();
+        expect(metrics.calls['ERC20Detailed.balanceOf.callAsync']).to.equal(1);
+        expect(metrics.errors['ERC20Detailed.balanceOf.callAsync']).to.be.undefined;
+        expect(metrics.durations['ERC20Detailed.balanceOf.callAsync'].count).to.equal(1);
+      });
+
+      test('reports the call once when the contract is instrumented again', async () => {
+        const tokenContract = await new ProtocolContractWrapper(web3).loadERC20TokenAsync(subjectTokenAddress);
+        instrumentContract(web3, tokenContract, 'ERC20Detailed');
+
+        await tokenContract.balanceOf.callAsync(subjectTokenOwner);
+
+        expect(beforeContexts.length).to.equal(1);
+      });
+    });
   });
 
   describe('allowance', async () => {
@@ -286,5 +411,18 @@ describe('ERC20Wrapper', () => {
       const newTokenBalance = await token.balanceOf.callAsync(subjectTokenReceiver);
       expect(newTokenBalance).to.bignumber.equal(expectedTokenBalance);
     });
+
+    describe('when the transfer reverts', async () => {
+      beforeEach(async () => {
+        const ownerBalance = await token.balanceOf.callAsync(subjectTokenOwner);
+        subjectTransferAmount = ownerBalance.add(1);
+      });
+
+      test('throws a SetProtocolRevertError', async () => {
+        return expect(subject()).to.be.rejectedWith(
+          `Transaction calling transfer on contract ${subjectTokenAddress} reverted without a reason.`
+        );
+      });
+    });
   });
 });
@@ -51,7 +51,7 @@ import {
   TX_DEFAULTS,
 } from '@src/constants';
 import { getFormattedLogsFromTxHash, extractNewSetTokenAddressFromLogs } from '@src/util/logs';
-import { BigNumber } from '@src/util';
+import { BigNumber, HistoricalReaderErrors } from '@src/util';
 import { ERC20Wrapper } from '@src/wrappers';
 import { Address, Log, SetProtocolConfig, SetUnits } from '@src/types/common';
 import {
@@ -723,6 +723,63 @@ describe('SetProtocol', async () => {
 
   /* ============ Core State Getters ============ */
 
+  describe('atBlock', async () => {
+    let token: StandardTokenMockContract;
+    let depositQuantity: BigNumber;
+    let blockBeforeDeposit: number;
+    let depositBlock: number;
+
+    let subjectBlockNumber: number;
+
+    beforeEach(async () => {
+      token = await deployTokenAsync(web3);
+      await approveForTransferAsync([token], transferProxy.address);
+
+      blockBeforeDeposit = await web3.eth.getBlockNumber();
+
+      depositQuantity = new BigNumber(100);
+      await setProtocol.depositAsync([token.address], [depositQuantity], { from: DEFAULT_ACCOUNT });
+      depositBlock = await web3.eth.getBlockNumber();
+
+      subjectBlockNumber = blockBeforeDeposit;
+    });
+
+    function subject(): SetProtocol {
+      return setProtocol.atBlock(subjectBlockNumber);
+    }
+
+    test('reads the vault balance as of the block', async () => {
+      const balance = await subject().getBalanceInVaultAsync(token.address, DEFAULT_ACCOUNT);
+
+      expect(balance).to.bignumber.equal(0);
+    });
+
+    test('reads the token balance as of the block', async () => {
+      const balance = await subject().erc20.getBalanceOfAsync(token.address, DEFAULT_ACCOUNT);
+
+      const currentBalance = await setProtocol.erc20.getBalanceOfAsync(token.address, DEFAULT_ACCOUNT);
+      expect(balance).to.bignumber.equal(currentBalance.add(depositQuantity));
+    });
+
+    describe('when the block is the deposit block', async () => {
+      beforeEach(async () => {
+        subjectBlockNumber = depositBlock;
+      });
+
+      test('reads the vault balance after the deposit', async () => {
+        const balance = await subject().getBalanceInVaultAsync(token.address, DEFAULT_ACCOUNT);
+
+        expect(balance).to.bignumber.equal(depositQuantity);
+      });
+    });
+
+    test('rejects transactions', async () => {
+      return expect(
+        subject().depositAsync([token.address], [depositQuantity], { from: DEFAULT_ACCOUNT })
+      ).to.be.rejectedWith(HistoricalReaderErrors.READ_ONLY('eth_sendTransaction', subjectBlockNumber));
+    });
+  });
+
   describe('Core State Getters', async () => {
     let setToken: SetTokenContract;
 